@@ -0,0 +1,318 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from '@/hooks/useSession';
+import { Header } from '@/components/dashboard/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Loader2,
+  RefreshCw,
+  Merge,
+  Tags,
+  AlertCircle,
+  CheckCircle,
+} from 'lucide-react';
+
+interface NicheEntry {
+  name: string;
+  aliases: string[];
+  parent?: string;
+  source: 'seed' | 'model';
+  profileCount: number;
+}
+
+const UNGROUPED = 'Tanpa kategori';
+
+export default function NichesAdminPage() {
+  const { loading: sessionLoading } = useSession(true);
+  const [niches, setNiches] = useState<NicheEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [source, setSource] = useState('');
+  const [target, setTarget] = useState('');
+  const [merging, setMerging] = useState(false);
+  const [remapping, setRemapping] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const fetchNiches = async () => {
+    try {
+      const response = await fetch('/api/niches');
+      const data = await response.json();
+      if (data.success) {
+        setNiches(data.niches);
+      }
+    } catch (error) {
+      console.error('Failed to fetch niches:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!sessionLoading) {
+      fetchNiches();
+    }
+  }, [sessionLoading]);
+
+  const handleMerge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!window.confirm(`Gabungkan "${source}" ke "${target}"?`)) return;
+
+    setMerging(true);
+    setError('');
+    setNotice('');
+
+    try {
+      const response = await fetch('/api/niches/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source, target }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.details?.[0]?.message || data.error || 'Failed to merge niches');
+        return;
+      }
+
+      setNotice(`"${source}" digabung ke "${target}" (${data.profiles} profile diperbarui)`);
+      setSource('');
+      fetchNiches();
+    } catch {
+      setError('Connection error. Please try again.');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const handleRemap = async () => {
+    setRemapping(true);
+    setError('');
+    setNotice('');
+
+    try {
+      const response = await fetch('/api/niches/remap', { method: 'POST' });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || 'Failed to start re-map');
+        return;
+      }
+
+      setNotice('Re-map dijalankan di worker. Refresh beberapa saat lagi untuk melihat hasilnya.');
+    } catch {
+      setError('Connection error. Please try again.');
+    } finally {
+      setRemapping(false);
+    }
+  };
+
+  const groups = niches.reduce<Record<string, NicheEntry[]>>((acc, niche) => {
+    const parent = niche.parent || UNGROUPED;
+    (acc[parent] ||= []).push(niche);
+    return acc;
+  }, {});
+
+  const reviewCount = niches.filter((niche) => niche.source === 'model').length;
+
+  if (sessionLoading || loading) {
+    return (
+      <div className="min-h-screen bg-zinc-950 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-purple-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-950">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-white">Niche Taxonomy</h1>
+            <p className="text-zinc-400 mt-1">
+              Daftar niche kanonik yang dipakai untuk hasil analisis AI
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={fetchNiches}
+            className="bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700"
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-1 space-y-6">
+            <Card className="bg-zinc-900/50 border-zinc-800 h-fit">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center gap-2">
+                  <Merge className="h-5 w-5 text-purple-400" />
+                  Merge Niches
+                </CardTitle>
+                <CardDescription className="text-zinc-400">
+                  Niche sumber menjadi alias dari niche tujuan, dan semua profile-nya dipindahkan
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleMerge} className="space-y-4">
+                  {error && (
+                    <Alert variant="destructive" className="bg-red-900/50 border-red-800">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                  )}
+                  {notice && (
+                    <Alert className="bg-green-900/30 border-green-800 text-green-300">
+                      <CheckCircle className="h-4 w-4" />
+                      <AlertDescription>{notice}</AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label className="text-zinc-300">Dari</Label>
+                    <Select value={source} onValueChange={setSource}>
+                      <SelectTrigger className="w-full bg-zinc-800 border-zinc-700 text-white">
+                        <SelectValue placeholder="Pilih niche sumber" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-zinc-800 border-zinc-700">
+                        {niches.map((niche) => (
+                          <SelectItem key={niche.name} value={niche.name}>
+                            {niche.name} ({niche.profileCount})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-zinc-300">Ke</Label>
+                    <Select value={target} onValueChange={setTarget}>
+                      <SelectTrigger className="w-full bg-zinc-800 border-zinc-700 text-white">
+                        <SelectValue placeholder="Pilih niche tujuan" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-zinc-800 border-zinc-700">
+                        {niches
+                          .filter((niche) => niche.name !== source)
+                          .map((niche) => (
+                            <SelectItem key={niche.name} value={niche.name}>
+                              {niche.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <Button
+                    type="submit"
+                    disabled={merging || !source || !target || source === target}
+                    className="w-full bg-gradient-to-r from-pink-500 via-purple-500 to-orange-500 text-white font-semibold"
+                  >
+                    {merging ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Merge className="mr-2 h-4 w-4" />
+                    )}
+                    Merge
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-zinc-900/50 border-zinc-800 h-fit">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center gap-2">
+                  <RefreshCw className="h-5 w-5 text-purple-400" />
+                  Re-map Profiles
+                </CardTitle>
+                <CardDescription className="text-zinc-400">
+                  Petakan ulang niche semua profile yang sudah tersimpan ke taxonomy saat ini
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button
+                  variant="outline"
+                  onClick={handleRemap}
+                  disabled={remapping}
+                  className="w-full bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700"
+                >
+                  {remapping ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                  )}
+                  Jalankan Re-map
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="lg:col-span-2 space-y-4">
+            {reviewCount > 0 && (
+              <p className="text-sm text-zinc-400">
+                {reviewCount} niche baru dari AI tidak cocok dengan taxonomy. Gabungkan ke niche yang sesuai jika perlu.
+              </p>
+            )}
+            {Object.entries(groups).map(([parent, entries]) => (
+              <Card key={parent} className="bg-zinc-900/50 border-zinc-800">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-white text-base flex items-center gap-2">
+                    <Tags className="h-4 w-4 text-purple-400" />
+                    {parent}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="divide-y divide-zinc-800">
+                  {entries.map((niche) => (
+                    <div
+                      key={niche.name}
+                      className="flex items-start justify-between gap-4 py-3"
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-white">{niche.name}</span>
+                          {niche.source === 'model' && (
+                            <Badge
+                              variant="outline"
+                              className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30"
+                            >
+                              Dari AI
+                            </Badge>
+                          )}
+                        </div>
+                        {niche.aliases.length > 0 && (
+                          <p className="text-xs text-zinc-500 mt-1 truncate">
+                            Alias: {niche.aliases.join(', ')}
+                          </p>
+                        )}
+                      </div>
+                      <Badge
+                        variant="outline"
+                        className="shrink-0 bg-zinc-800/50 text-zinc-300 border-zinc-700"
+                      >
+                        {niche.profileCount.toLocaleString()} profile
+                      </Badge>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
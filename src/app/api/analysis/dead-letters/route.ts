@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDeadLetters, requeueDeadLetters } from '@/lib/queue/aiAnalysisQueue';
+
+// Profiles whose AI analysis failed after every retry
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const deadLetters = await getDeadLetters(sessionId);
+
+    return NextResponse.json({ success: true, deadLetters });
+  } catch (error) {
+    console.error('Dead letter fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Queue the session's dead-lettered profiles for analysis again
+export async function POST(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const requeued = await requeueDeadLetters(sessionId);
+
+    return NextResponse.json({ success: true, requeued });
+  } catch (error) {
+    console.error('Dead letter requeue error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-import { addAuthJob, getAuthJobState, generateAuthJobId } from "@/lib/queue/authQueue";
+import { addAuthJob, generateAuthJobId } from "@/lib/queue/authQueue";
+import { encryptProxy, proxyUrlSchema } from "@/lib/scraper/proxy";
 import { z } from "zod";
 
 const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
+  // Fixed proxy for this account's session, takes precedence over the pool
+  proxy: proxyUrlSchema,
+  rotateProxy: z.boolean().optional().default(false),
 });
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { username, password } = loginSchema.parse(body);
+    const { username, password, proxy, rotateProxy } = loginSchema.parse(body);
     console.log(`[Login API] Login request for: ${username}`);
 
     // Generate auth job ID
@@ -22,6 +26,8 @@ export async function POST(request: NextRequest) {
       type: "login",
       username,
       password,
+      proxy: proxy ? encryptProxy(proxy) : undefined,
+      rotateProxy,
       createdAt: Date.now(),
     });
 
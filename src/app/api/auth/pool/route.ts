@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Session } from '@/lib/db/models';
+import connectDB from '@/lib/db/mongodb';
+
+const updatePoolSchema = z.object({
+  // Let other users' session pool crawls scrape with this account
+  shareInPool: z.boolean(),
+});
+
+export async function PUT(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { shareInPool } = updatePoolSchema.parse(body);
+
+    await connectDB();
+    const session = await Session.findOneAndUpdate(
+      { sessionId, isValid: true },
+      { $set: { shareInPool } },
+      { new: true }
+    );
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      shareInPool: !!session.shareInPool,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Session pool update error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
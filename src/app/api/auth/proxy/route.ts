@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Session } from '@/lib/db/models';
+import connectDB from '@/lib/db/mongodb';
+import { encryptProxy, proxyUrlSchema } from '@/lib/scraper/proxy';
+import { describeSessionProxy } from '@/lib/scraper/proxyPool';
+
+const updateProxySchema = z.object({
+  // A proxy URL sets the session's fixed proxy, null or '' removes it
+  proxy: proxyUrlSchema.nullable(),
+  rotateProxy: z.boolean().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+    const session = await Session.findOne({ sessionId, isValid: true });
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      proxy: await describeSessionProxy(session),
+    });
+  } catch (error) {
+    console.error('Session proxy fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { proxy, rotateProxy } = updateProxySchema.parse(body);
+
+    const set: Record<string, unknown> = { proxyChangedAt: new Date() };
+    const unset: Record<string, 1> = {};
+
+    // A missing proxy field leaves the fixed proxy as it is
+    if ('proxy' in body) {
+      if (proxy) {
+        set.proxy = encryptProxy(proxy);
+      } else {
+        unset.proxy = 1;
+      }
+    }
+    if (rotateProxy !== undefined) {
+      set.rotateProxy = rotateProxy;
+      // Turning rotation off drops the pool binding
+      if (!rotateProxy) unset.proxyId = 1;
+    }
+
+    await connectDB();
+    const session = await Session.findOneAndUpdate(
+      { sessionId, isValid: true },
+      { $set: set, $unset: unset },
+      { new: true }
+    );
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      proxy: await describeSessionProxy(session),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Session proxy update error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
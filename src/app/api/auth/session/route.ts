@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession, validateSession } from '@/lib/scraper/auth';
+import { describeSessionProxy } from '@/lib/scraper/proxyPool';
 
 export async function GET(request: NextRequest) {
   try {
@@ -28,6 +29,11 @@ export async function GET(request: NextRequest) {
       valid: true,
       username: session.username,
       sessionId,
+      proxy: await describeSessionProxy(session.proxySettings ?? {}),
+      // Instagram wants this account verified; it isn't used for scraping
+      challenged: !!session.challengedAt,
+      // Other users' session pool crawls may scrape with this account
+      shareInPool: !!session.shareInPool,
     });
   } catch (error) {
     console.error('Session check error:', error);
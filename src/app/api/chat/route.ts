@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { chat } from "@/lib/ai/rag";
-import type { ChatMessage } from "@/types";
+import { chat, chatStream } from "@/lib/ai/agent";
+import {
+  appendConversationMessages,
+  getConversation,
+} from "@/lib/db/conversations";
+import type { ChatMessage, ConversationMessage, ToolCallRecord } from "@/types";
 
 const chatSchema = z.object({
   messages: z.array(
@@ -10,8 +14,105 @@ const chatSchema = z.object({
       content: z.string(),
     })
   ),
+  stream: z.boolean().optional(),
+  conversationId: z.string().optional(),
 });
 
+interface ConversationTarget {
+  conversationId: string;
+  question: ConversationMessage;
+}
+
+const encoder = new TextEncoder();
+
+// Encode one Server-Sent Event
+function sseEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Stream the answer as SSE: "token" events while generating and a "tool"
+ * event for every tool the model ran, then a "sources" event and "done". Closing the connection aborts the LLM request;
+ * whatever was generated until then is still saved to the conversation.
+ */
+async function streamChat(
+  messages: ChatMessage[],
+  sessionId: string,
+  requestSignal: AbortSignal,
+  target: ConversationTarget | null
+): Promise<Response> {
+  const abortController = new AbortController();
+  requestSignal.addEventListener("abort", () => abortController.abort());
+
+  const { events, sources, context } = await chatStream(
+    messages,
+    sessionId,
+    abortController.signal
+  );
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let answer = "";
+      const toolCalls: ToolCallRecord[] = [];
+      try {
+        for await (const event of events) {
+          if (event.type === "token") {
+            answer += event.text;
+            controller.enqueue(sseEvent("token", { text: event.text }));
+          } else {
+            toolCalls.push(event.call);
+            controller.enqueue(sseEvent("tool", event.call));
+          }
+        }
+        controller.enqueue(sseEvent("sources", { sources }));
+        controller.enqueue(sseEvent("done", {}));
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          console.error("Chat stream error:", error);
+          controller.enqueue(
+            sseEvent("error", {
+              error: "Maaf, layanan sedang sibuk. Silakan coba lagi dalam beberapa saat.",
+            })
+          );
+        }
+      } finally {
+        if (target && answer) {
+          await appendConversationMessages(target.conversationId, sessionId, [
+            target.question,
+            {
+              role: "assistant",
+              content: answer,
+              sources,
+              toolCalls,
+              context,
+              stopped: abortController.signal.aborted || undefined,
+              createdAt: new Date(),
+            },
+          ]).catch((error) =>
+            console.error("Failed to save conversation:", error)
+          );
+        }
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client disconnecting
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
 export async function POST(request: NextRequest) {
   try {
     const sessionId = request.cookies.get("ig_session")?.value;
@@ -24,14 +125,62 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { messages } = chatSchema.parse(body);
+    const { messages, stream, conversationId } = chatSchema.parse(body);
+
+    // Exchanges are saved when the chat belongs to a conversation
+    let target: ConversationTarget | null = null;
+    if (conversationId) {
+      const conversation = await getConversation(conversationId, sessionId);
+      if (!conversation) {
+        return NextResponse.json(
+          { success: false, error: "Conversation not found" },
+          { status: 404 }
+        );
+      }
+
+      const question = [...messages].reverse().find((m) => m.role === "user");
+      if (question) {
+        target = {
+          conversationId,
+          question: {
+            role: "user",
+            content: question.content,
+            createdAt: new Date(),
+          },
+        };
+      }
+    }
+
+    if (stream) {
+      return await streamChat(
+        messages as ChatMessage[],
+        sessionId,
+        request.signal,
+        target
+      );
+    }
 
     const result = await chat(messages as ChatMessage[], sessionId);
 
+    if (target) {
+      await appendConversationMessages(target.conversationId, sessionId, [
+        target.question,
+        {
+          role: "assistant",
+          content: result.response,
+          sources: result.sources,
+          toolCalls: result.toolCalls,
+          context: result.context,
+          createdAt: new Date(),
+        },
+      ]);
+    }
+
     return NextResponse.json({
       success: true,
       message: result.response,
       sources: result.sources,
+      toolCalls: result.toolCalls,
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  deleteConversation,
+  getConversation,
+  renameConversation,
+} from '@/lib/db/conversations';
+
+const renameConversationSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { id: conversationId } = await params;
+    const includeContext =
+      request.nextUrl.searchParams.get('includeContext') === 'true';
+
+    const conversation = await getConversation(
+      conversationId,
+      sessionId,
+      includeContext
+    );
+
+    if (!conversation) {
+      return NextResponse.json(
+        { success: false, error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      conversation: {
+        conversationId: conversation.conversationId,
+        title: conversation.title,
+        messages: conversation.messages,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+      },
+    });
+  } catch (error) {
+    console.error('Conversation fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { id: conversationId } = await params;
+    const body = await request.json();
+    const { title } = renameConversationSchema.parse(body);
+
+    const renamed = await renameConversation(conversationId, sessionId, title);
+
+    if (!renamed) {
+      return NextResponse.json(
+        { success: false, error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      conversationId,
+      title,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Conversation rename error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { id: conversationId } = await params;
+
+    const deleted = await deleteConversation(conversationId, sessionId);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Conversation deleted',
+    });
+  } catch (error) {
+    console.error('Conversation delete error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  createConversation,
+  listConversations,
+} from '@/lib/db/conversations';
+
+const createConversationSchema = z.object({
+  title: z.string().trim().max(200).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const conversations = await listConversations(sessionId);
+
+    return NextResponse.json({
+      success: true,
+      conversations,
+    });
+  } catch (error) {
+    console.error('Conversations fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { title } = createConversationSchema.parse(body);
+
+    const conversation = await createConversation(sessionId, title);
+
+    return NextResponse.json({
+      success: true,
+      conversation: {
+        conversationId: conversation.conversationId,
+        title: conversation.title,
+        messageCount: 0,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Conversation create error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Job } from '@/lib/db/models';
+import connectDB from '@/lib/db/mongodb';
+import { pauseScrapeJob } from '@/lib/queue/jobControl';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { id: jobId } = await params;
+
+    await connectDB();
+
+    const job = await Job.findOne({ jobId, sessionId });
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await pauseScrapeJob(jobId);
+
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: `Cannot pause a ${job.status} job` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Job paused',
+      ...result,
+    });
+  } catch (error) {
+    console.error('Job pause error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
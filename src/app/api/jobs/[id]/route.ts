@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Job } from '@/lib/db/models';
 import connectDB from '@/lib/db/mongodb';
+import { cancelScrapeJob } from '@/lib/queue/jobControl';
 
 export async function GET(
   request: NextRequest,
@@ -40,13 +41,19 @@ export async function GET(
         totalProfiles: job.totalProfiles,
         processedProfiles: job.processedProfiles,
         failedProfiles: job.failedProfiles,
+        cancelledProfiles: job.cancelledProfiles || 0,
+        reusedProfiles: job.reusedProfiles || 0,
         progress: job.totalProfiles > 0 
           ? Math.round((job.processedProfiles / job.totalProfiles) * 100)
           : 0,
         scrapeFollowers: job.scrapeFollowers,
         scrapeFollowing: job.scrapeFollowing,
         scrapePosts: job.scrapePosts,
+        reuseWithinDays: job.reuseWithinDays || 0,
+        useSessionPool: !!job.useSessionPool,
+        scheduleId: job.scheduleId,
         startedAt: job.startedAt,
+        pausedAt: job.pausedAt,
         completedAt: job.completedAt,
         createdAt: job.createdAt,
         error: job.error,
@@ -88,16 +95,19 @@ export async function DELETE(
       );
     }
 
-    if (job.status === 'processing') {
-      // Cancel the job
-      job.status = 'cancelled';
-      job.completedAt = new Date();
-      await job.save();
+    const result = await cancelScrapeJob(jobId);
+
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: `Job is already ${job.status}` },
+        { status: 409 }
+      );
     }
 
     return NextResponse.json({
       success: true,
       message: 'Job cancelled',
+      ...result,
     });
   } catch (error) {
     console.error('Job cancel error:', error);
@@ -36,13 +36,19 @@ export async function GET(request: NextRequest) {
         totalProfiles: job.totalProfiles,
         processedProfiles: job.processedProfiles,
         failedProfiles: job.failedProfiles,
+        cancelledProfiles: job.cancelledProfiles || 0,
+        reusedProfiles: job.reusedProfiles || 0,
         progress: job.totalProfiles > 0 
           ? Math.round((job.processedProfiles / job.totalProfiles) * 100)
           : 0,
         scrapeFollowers: job.scrapeFollowers,
         scrapeFollowing: job.scrapeFollowing,
         scrapePosts: job.scrapePosts,
+        reuseWithinDays: job.reuseWithinDays || 0,
+        useSessionPool: !!job.useSessionPool,
+        scheduleId: job.scheduleId,
         startedAt: job.startedAt,
+        pausedAt: job.pausedAt,
         completedAt: job.completedAt,
         createdAt: job.createdAt,
         error: job.error,
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { mergeNiches } from '@/lib/db/nicheTaxonomy';
+
+const mergeSchema = z.object({
+  source: z.string().trim().min(1, 'Source niche is required'),
+  target: z.string().trim().min(1, 'Target niche is required'),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { source, target } = mergeSchema.parse(body);
+
+    if (source === target) {
+      return NextResponse.json(
+        { success: false, error: 'Cannot merge a niche into itself' },
+        { status: 400 }
+      );
+    }
+
+    const result = await mergeNiches(source, target);
+
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'Niche not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Niche merge error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
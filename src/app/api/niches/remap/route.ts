@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enqueueNicheRemap } from '@/lib/queue/nicheQueue';
+
+export async function POST(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const jobId = await enqueueNicheRemap('requested from niche admin');
+
+    return NextResponse.json({ success: true, jobId });
+  } catch (error) {
+    console.error('Niche remap error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listNiches } from '@/lib/db/nicheTaxonomy';
+
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const niches = await listNiches();
+
+    return NextResponse.json({ success: true, niches });
+  } catch (error) {
+    console.error('Niches fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { searchPosts } from '@/lib/ai/postSearch';
+
+const searchSchema = z.object({
+  q: z.string().trim().min(1, 'Query is required'),
+  type: z.enum(['post', 'reel', 'carousel']).optional(),
+  minLikes: z.coerce.number().int().min(0).optional(),
+  username: z
+    .string()
+    .regex(/^@?[a-zA-Z0-9._]+$/, 'Invalid username format')
+    .transform((value) => value.replace(/^@/, '').toLowerCase())
+    .optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+/**
+ * Semantic search over post captions. `q` may carry filters in plain text
+ * ("reels about budget travel with >1k likes"); explicit parameters win.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const params = Object.fromEntries(
+      [...request.nextUrl.searchParams].filter(([, value]) => value !== '')
+    );
+    const { q, type, minLikes, username, since, until, limit } =
+      searchSchema.parse(params);
+
+    const posts = await searchPosts(
+      q,
+      {
+        sessionId,
+        username,
+        type,
+        minLikes,
+        postedAfter: since,
+        postedBefore: until,
+      },
+      limit
+    );
+
+    return NextResponse.json({ success: true, posts });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Post search error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
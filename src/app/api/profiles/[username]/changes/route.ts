@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findOwnedProfile } from '@/lib/db/ownedProfiles';
+import { countFollowEvents, getFollowEvents } from '@/lib/db/followEvents';
+import type { FollowChange, FollowEvent } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { username } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const days = Math.min(parseInt(searchParams.get('days') || '30') || 0, 730);
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 200);
+    const changeParam = searchParams.get('change');
+    const listParam = searchParams.get('list') || 'followers';
+
+    const change: FollowChange | undefined =
+      changeParam === 'gained' || changeParam === 'lost' ? changeParam : undefined;
+    const list: FollowEvent['list'] =
+      listParam === 'following' ? 'following' : 'followers';
+
+    const profile = await findOwnedProfile(username, sessionId);
+
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: 'Profile not found' },
+        { status: 404 }
+      );
+    }
+
+    const since = days > 0
+      ? new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+      : undefined;
+
+    const [events, counts] = await Promise.all([
+      getFollowEvents(sessionId, {
+        username,
+        list,
+        change,
+        since,
+        skip: (page - 1) * limit,
+        limit,
+      }),
+      countFollowEvents(sessionId, { username, list, since }),
+    ]);
+
+    const total = change ? counts[change] : counts.gained + counts.lost;
+
+    return NextResponse.json({
+      success: true,
+      username,
+      list,
+      counts,
+      events: events.map((event) => ({
+        relatedUsername: event.relatedUsername,
+        change: event.change,
+        detectedAt: event.detectedAt,
+        jobId: event.jobId,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Follow changes error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findOwnedProfile } from '@/lib/db/ownedProfiles';
+import {
+  getProfileHistory,
+  summarizeWeeklyGrowth,
+} from '@/lib/db/profileHistory';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { username } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const days = Math.min(parseInt(searchParams.get('days') || '90') || 0, 730);
+
+    const profile = await findOwnedProfile(username, sessionId);
+
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: 'Profile not found' },
+        { status: 404 }
+      );
+    }
+
+    const since = days > 0
+      ? new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+      : undefined;
+    const snapshots = await getProfileHistory(username, sessionId, { since });
+
+    return NextResponse.json({
+      success: true,
+      username,
+      snapshots: snapshots.map((snapshot) => ({
+        jobId: snapshot.jobId,
+        scrapedAt: snapshot.scrapedAt,
+        followersCount: snapshot.followersCount,
+        followingCount: snapshot.followingCount,
+        postsCount: snapshot.postsCount,
+        bio: snapshot.bio,
+        niche: snapshot.niche,
+        interests: snapshot.interests,
+        followersGained: snapshot.followersDiff?.added.length ?? null,
+        followersLost: snapshot.followersDiff?.removed.length ?? null,
+        followingGained: snapshot.followingDiff?.added.length ?? null,
+        followingLost: snapshot.followingDiff?.removed.length ?? null,
+      })),
+      weekly: summarizeWeeklyGrowth(snapshots),
+    });
+  } catch (error) {
+    console.error('Profile history error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findOwnedProfile } from '@/lib/db/ownedProfiles';
+import { getRelationshipPage } from '@/lib/db/followGraph';
+import type { RelationshipType } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { username } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100') || 100, 500);
+    const type: RelationshipType =
+      searchParams.get('type') === 'following' ? 'following' : 'followers';
+
+    const profile = await findOwnedProfile(username, sessionId);
+
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: 'Profile not found' },
+        { status: 404 }
+      );
+    }
+
+    const { total, accounts } = await getRelationshipPage(
+      sessionId,
+      username,
+      type,
+      page,
+      limit
+    );
+
+    return NextResponse.json({
+      success: true,
+      username,
+      type,
+      accounts,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Relationships fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Profile, Post } from '@/lib/db/models';
+import { Post } from '@/lib/db/models';
 import connectDB from '@/lib/db/mongodb';
+import { findOwnedProfile } from '@/lib/db/ownedProfiles';
+import { getRelationshipPage } from '@/lib/db/followGraph';
 import { findSimilarProfiles } from '@/lib/ai/rag';
 
 export async function GET(
@@ -21,7 +23,7 @@ export async function GET(
 
     await connectDB();
 
-    const profile = await Profile.findOne({ username, sessionId }).lean();
+    const profile = await findOwnedProfile(username, sessionId);
 
     if (!profile) {
       return NextResponse.json(
@@ -30,6 +32,12 @@ export async function GET(
       );
     }
 
+    // First page of each scraped relationship list (full lists via /relationships)
+    const [followers, following] = await Promise.all([
+      getRelationshipPage(sessionId, username, 'followers', 1, 10),
+      getRelationshipPage(sessionId, username, 'following', 1, 10),
+    ]);
+
     // Get posts for this profile
     const posts = await Post.find({ profileId: username })
       .sort({ postedAt: -1 })
@@ -39,7 +47,7 @@ export async function GET(
     // Get similar profiles
     let similarProfiles: Array<{ username: string; score: number }> = [];
     try {
-      const similar = await findSimilarProfiles(username, 5);
+      const similar = await findSimilarProfiles(username, sessionId, 5);
       similarProfiles = similar.map((p) => ({
         username: p.username,
         score: p.score,
@@ -61,13 +69,21 @@ export async function GET(
         isPrivate: profile.isPrivate,
         isVerified: profile.isVerified,
         externalUrl: profile.externalUrl,
+        category: profile.category,
+        businessEmail: profile.businessEmail,
+        pronouns: profile.pronouns || [],
+        bioLinks: profile.bioLinks || [],
+        highlightCount: profile.highlightCount,
         interests: profile.interests,
         niche: profile.niche,
+        niches: profile.niches || [],
         scrapedAt: profile.scrapedAt,
         scrapedDepth: profile.scrapedDepth,
         parentUsername: profile.parentUsername,
-        followers: profile.followers?.slice(0, 10),
-        following: profile.following?.slice(0, 10),
+        followers: followers.accounts,
+        following: following.accounts,
+        scrapedFollowersTotal: followers.total,
+        scrapedFollowingTotal: following.total,
       },
       posts: posts.map((post) => ({
         postId: post.postId,
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Profile } from '@/lib/db/models';
-import connectDB from '@/lib/db/mongodb';
+import {
+  countOwnedProfiles,
+  findOwnedProfiles,
+  getOwnedNiches,
+} from '@/lib/db/ownedProfiles';
 
 export async function GET(request: NextRequest) {
   try {
@@ -21,10 +24,8 @@ export async function GET(request: NextRequest) {
     const sortBy = searchParams.get('sortBy') || 'scrapedAt';
     const sortOrder = searchParams.get('sortOrder') === 'asc' ? 1 : -1;
 
-    await connectDB();
-
-    // Build query
-    const query: Record<string, unknown> = { sessionId };
+    // Build query (applied to this session's profiles)
+    const query: Record<string, unknown> = {};
 
     if (search) {
       query.$or = [
@@ -39,17 +40,18 @@ export async function GET(request: NextRequest) {
     }
 
     // Get total count
-    const total = await Profile.countDocuments(query);
+    const total = await countOwnedProfiles(sessionId, { match: query });
 
     // Get profiles
-    const profiles = await Profile.find(query)
-      .sort({ [sortBy]: sortOrder })
-      .skip((page - 1) * limit)
-      .limit(limit)
-      .lean();
+    const profiles = await findOwnedProfiles(sessionId, {
+      match: query,
+      sort: { [sortBy]: sortOrder },
+      skip: (page - 1) * limit,
+      limit,
+    });
 
     // Get unique niches for filtering
-    const niches = await Profile.distinct('niche', { sessionId });
+    const niches = await getOwnedNiches(sessionId);
 
     return NextResponse.json({
       success: true,
@@ -75,7 +77,7 @@ export async function GET(request: NextRequest) {
         total,
         totalPages: Math.ceil(total / limit),
       },
-      niches: niches.filter(Boolean),
+      niches,
     });
   } catch (error) {
     console.error('Profiles fetch error:', error);
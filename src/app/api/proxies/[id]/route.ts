@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { removeProxy } from '@/lib/scraper/proxyPool';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { id: proxyId } = await params;
+    const removed = await removeProxy(proxyId);
+
+    if (!removed) {
+      return NextResponse.json(
+        { success: false, error: 'Proxy not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Proxy delete error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
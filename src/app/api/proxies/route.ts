@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { addProxy, listProxies } from '@/lib/scraper/proxyPool';
+
+const addProxySchema = z.object({
+  url: z.string().trim().min(1, 'Proxy URL is required'),
+  label: z.string().trim().max(60).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const proxies = await listProxies();
+
+    return NextResponse.json({ success: true, proxies });
+  } catch (error) {
+    console.error('Proxies fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { url, label } = addProxySchema.parse(body);
+
+    let proxy;
+    try {
+      proxy = await addProxy(url, label);
+    } catch (error) {
+      // Unparseable URL or a proxy that's already in the pool
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid proxy',
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, proxy });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Proxy create error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
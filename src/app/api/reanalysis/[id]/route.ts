@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReanalysisJob, toReanalysisResponse } from '@/lib/db/reanalysis';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { id: jobId } = await params;
+    const job = await getReanalysisJob(jobId, sessionId);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      job: toReanalysisResponse(job),
+    });
+  } catch (error) {
+    console.error('Reanalysis job fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  countReanalysisCandidates,
+  findOpenReanalysisJob,
+  getReanalysisJobs,
+  reanalysisCriteriaSchema,
+  toReanalysisResponse,
+} from '@/lib/db/reanalysis';
+import { startReanalysisJob } from '@/lib/queue/reanalysisQueue';
+
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const jobs = await getReanalysisJobs(sessionId);
+
+    return NextResponse.json({
+      success: true,
+      jobs: jobs.map(toReanalysisResponse),
+    });
+  } catch (error) {
+    console.error('Reanalysis jobs fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Start re-analyzing the session's profiles matching the criteria.
+ * With `dryRun: true` only the number of matching profiles is returned.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const criteria = reanalysisCriteriaSchema.parse(body);
+
+    if (body?.dryRun === true) {
+      const matching = await countReanalysisCandidates(sessionId, criteria);
+      return NextResponse.json({ success: true, matching });
+    }
+
+    const existingJob = await findOpenReanalysisJob(sessionId);
+    if (existingJob) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'A re-analysis is already running. Please wait for it to complete.',
+          jobId: existingJob.jobId,
+        },
+        { status: 409 }
+      );
+    }
+
+    const jobId = await startReanalysisJob(sessionId, criteria);
+
+    return NextResponse.json({ success: true, jobId });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Reanalysis start error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ScrapeSchedule } from '@/lib/db/models';
+import connectDB from '@/lib/db/mongodb';
+import {
+  getScheduleRuns,
+  getTriggerError,
+  scheduleFieldsSchema,
+  toScheduleResponse,
+  toScheduleUpdate,
+} from '@/lib/db/scrapeSchedules';
+import {
+  removeScheduleRepeatable,
+  syncScheduleRepeatable,
+} from '@/lib/queue/scheduleQueue';
+import type { ScrapeSchedule as ScrapeScheduleType } from '@/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { id: scheduleId } = await params;
+
+    await connectDB();
+
+    const schedule = await ScrapeSchedule.findOne({ scheduleId, sessionId })
+      .lean<ScrapeScheduleType>();
+
+    if (!schedule) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    const runs = await getScheduleRuns(scheduleId);
+
+    return NextResponse.json({
+      success: true,
+      schedule: toScheduleResponse(schedule),
+      runs: runs.map((job) => ({
+        jobId: job.jobId,
+        status: job.status,
+        totalProfiles: job.totalProfiles,
+        processedProfiles: job.processedProfiles,
+        failedProfiles: job.failedProfiles,
+        createdAt: job.createdAt,
+        completedAt: job.completedAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Schedule fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { id: scheduleId } = await params;
+    const body = await request.json();
+    const fields = scheduleFieldsSchema.partial().parse(body);
+
+    await connectDB();
+
+    const existing = await ScrapeSchedule.findOne({ scheduleId, sessionId })
+      .lean<ScrapeScheduleType>();
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    // Fields left out of the request keep their current value
+    const trigger = {
+      scheduleId,
+      entryUsername: fields.entryUsername ?? existing.entryUsername,
+      cron: fields.cron !== undefined ? fields.cron : existing.cron,
+      intervalMinutes: fields.intervalMinutes !== undefined
+        ? fields.intervalMinutes
+        : existing.intervalMinutes,
+      timezone: fields.timezone !== undefined ? fields.timezone : existing.timezone,
+      enabled: fields.enabled ?? existing.enabled,
+    };
+
+    const triggerError = getTriggerError({
+      cron: trigger.cron ?? null,
+      intervalMinutes: trigger.intervalMinutes ?? null,
+    });
+    if (triggerError) {
+      return NextResponse.json(
+        { success: false, error: triggerError },
+        { status: 400 }
+      );
+    }
+
+    let nextRunAt: Date | undefined;
+    try {
+      nextRunAt = await syncScheduleRepeatable(trigger);
+    } catch (syncError) {
+      console.error('Schedule sync error:', syncError);
+      return NextResponse.json(
+        { success: false, error: 'Invalid cron expression or timezone' },
+        { status: 400 }
+      );
+    }
+
+    const { $set, $unset } = toScheduleUpdate(fields);
+    if (nextRunAt) {
+      $set.nextRunAt = nextRunAt;
+    } else {
+      $unset.nextRunAt = '';
+    }
+
+    const schedule = await ScrapeSchedule.findOneAndUpdate(
+      { scheduleId, sessionId },
+      { $set, $unset },
+      { new: true }
+    ).lean<ScrapeScheduleType>();
+
+    return NextResponse.json({
+      success: true,
+      schedule: schedule ? toScheduleResponse(schedule) : null,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Schedule update error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { id: scheduleId } = await params;
+
+    await connectDB();
+
+    const schedule = await ScrapeSchedule.findOneAndDelete({ scheduleId, sessionId });
+
+    if (!schedule) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    // Past runs keep their scheduleId so their history stays grouped
+    await removeScheduleRepeatable(scheduleId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Schedule deleted',
+    });
+  } catch (error) {
+    console.error('Schedule delete error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { ScrapeSchedule } from '@/lib/db/models';
+import connectDB from '@/lib/db/mongodb';
+import {
+  SCHEDULE_DEFAULTS,
+  getTriggerError,
+  scheduleFieldsSchema,
+  toScheduleResponse,
+  toScheduleUpdate,
+} from '@/lib/db/scrapeSchedules';
+import {
+  removeScheduleRepeatable,
+  syncScheduleRepeatable,
+} from '@/lib/queue/scheduleQueue';
+import type { ScrapeSchedule as ScrapeScheduleType } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    const schedules = await ScrapeSchedule.find({ sessionId })
+      .sort({ createdAt: -1 })
+      .lean<ScrapeScheduleType[]>();
+
+    return NextResponse.json({
+      success: true,
+      schedules: schedules.map(toScheduleResponse),
+    });
+  } catch (error) {
+    console.error('Schedules fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const fields = scheduleFieldsSchema.parse({ ...SCHEDULE_DEFAULTS, ...body });
+
+    const triggerError = getTriggerError(fields);
+    if (triggerError) {
+      return NextResponse.json(
+        { success: false, error: triggerError },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const scheduleId = uuidv4();
+
+    // Register the repeatable first: BullMQ rejects invalid cron patterns
+    let nextRunAt: Date | undefined;
+    try {
+      nextRunAt = await syncScheduleRepeatable({ scheduleId, ...fields });
+    } catch (syncError) {
+      console.error('Schedule sync error:', syncError);
+      return NextResponse.json(
+        { success: false, error: 'Invalid cron expression or timezone' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const schedule = await ScrapeSchedule.create({
+        scheduleId,
+        sessionId,
+        ...toScheduleUpdate(fields).$set,
+        nextRunAt,
+      });
+
+      return NextResponse.json({
+        success: true,
+        schedule: toScheduleResponse(schedule),
+      });
+    } catch (createError) {
+      await removeScheduleRepeatable(scheduleId);
+      throw createError;
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Schedule create error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { v4 as uuidv4 } from "uuid";
 import { z } from "zod";
 import { getSession } from "@/lib/scraper/auth";
-import { addScrapeJob } from "@/lib/queue/scrapeQueue";
-import { Job } from "@/lib/db/models";
-import connectDB from "@/lib/db/mongodb";
+import { findOpenJob, startScrapeJob } from "@/lib/queue/jobControl";
 
 const scrapeSchema = z.object({
   entryUsername: z
@@ -15,6 +12,8 @@ const scrapeSchema = z.object({
   scrapeFollowers: z.boolean().default(true),
   scrapeFollowing: z.boolean().default(false),
   scrapePosts: z.boolean().default(true),
+  reuseWithinDays: z.number().int().min(0).max(90).default(0),
+  useSessionPool: z.boolean().default(false),
 });
 
 export async function POST(request: NextRequest) {
@@ -44,61 +43,36 @@ export async function POST(request: NextRequest) {
       scrapeFollowers,
       scrapeFollowing,
       scrapePosts,
+      reuseWithinDays,
+      useSessionPool,
     } = scrapeSchema.parse(body);
 
-    await connectDB();
-
-    // Check for existing active job
-    const existingJob = await Job.findOne({
-      sessionId,
-      status: { $in: ["pending", "processing"] },
-    });
+    // Only one open (active or paused) job per session; the caller has to
+    // cancel it explicitly before starting another
+    const existingJob = await findOpenJob(sessionId);
 
     if (existingJob) {
-      existingJob.status = "cancelled";
-      existingJob.completedAt = new Date();
-      await existingJob.save();
       return NextResponse.json(
         {
           success: false,
           error:
-            "A scrape job is already running. Please wait for it to complete.",
+            "A scrape job is already running. Please wait for it to complete or cancel it.",
           jobId: existingJob.jobId,
         },
         { status: 409 }
       );
     }
 
-    // Create new job
-    const jobId = uuidv4();
-
-    await Job.create({
-      jobId,
+    // Create new job and queue the entry profile
+    const jobId = await startScrapeJob({
       sessionId,
       entryUsername,
-      status: "pending",
-      maxDepth,
-      currentDepth: 0,
-      totalProfiles: 1, // Start with entry profile
-      processedProfiles: 0,
-      failedProfiles: 0,
-      scrapeFollowers,
-      scrapeFollowing,
-      scrapePosts,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    });
-
-    // Add initial scrape job to queue
-    await addScrapeJob({
-      jobId,
-      sessionId,
-      username: entryUsername,
-      depth: 0,
       maxDepth,
       scrapeFollowers,
       scrapeFollowing,
       scrapePosts,
+      reuseWithinDays,
+      useSessionPool,
     });
 
     return NextResponse.json({
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { searchProfiles } from '@/lib/ai/profileSearch';
+
+const booleanParam = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+const searchSchema = z.object({
+  q: z.string().trim().min(1, 'Query is required'),
+  niche: z
+    .string()
+    .transform((value) => value.split(',').map((n) => n.trim()).filter(Boolean))
+    .optional(),
+  minFollowers: z.coerce.number().int().min(0).optional(),
+  maxFollowers: z.coerce.number().int().min(0).optional(),
+  verified: booleanParam.optional(),
+  private: booleanParam.optional(),
+  depth: z.coerce.number().int().min(0).optional(),
+  parent: z
+    .string()
+    .regex(/^@?[a-zA-Z0-9._]+$/, 'Invalid username format')
+    .transform((value) => value.replace(/^@/, '').toLowerCase())
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+/**
+ * Hybrid profile search (vector + keyword, fused by rank). `q` may carry
+ * filters in plain text ("fitness influencers over 50k followers, verified");
+ * explicit parameters win. The filters actually applied are returned too.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const params = Object.fromEntries(
+      [...request.nextUrl.searchParams].filter(([, value]) => value !== '')
+    );
+    const { q, limit, ...filters } = searchSchema.parse(params);
+
+    const { profiles, filter } = await searchProfiles(
+      q,
+      {
+        sessionId,
+        niches: filters.niche?.length ? filters.niche : undefined,
+        minFollowers: filters.minFollowers,
+        maxFollowers: filters.maxFollowers,
+        isVerified: filters.verified,
+        isPrivate: filters.private,
+        scrapedDepth: filters.depth,
+        parentUsername: filters.parent,
+      },
+      limit
+    );
+
+    return NextResponse.json({
+      success: true,
+      profiles: profiles.map((result) => ({
+        username: result.username,
+        score: result.score,
+        vectorScore: result.vectorScore,
+        textScore: result.textScore,
+        bio: result.metadata.bio,
+        niche: result.metadata.niche,
+        interests: result.metadata.interests,
+        followersCount: result.metadata.followersCount,
+        isVerified: result.metadata.isVerified,
+        isPrivate: result.metadata.isPrivate,
+        scrapedDepth: result.metadata.scrapedDepth,
+        parentUsername: result.metadata.parentUsername,
+      })),
+      filter,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation error',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Profile search error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -12,7 +12,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const stats = await getProfileStats(sessionId);
+    // ?weighting=confidence counts every ranked niche by its confidence
+    const weighting =
+      request.nextUrl.searchParams.get('weighting') === 'confidence'
+        ? 'confidence'
+        : 'primary';
+
+    const stats = await getProfileStats(sessionId, weighting);
 
     return NextResponse.json({
       success: true,
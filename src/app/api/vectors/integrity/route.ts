@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  checkProfileVectorIntegrity,
+  repairProfileVectorIntegrity,
+} from '@/lib/qdrant/integrity';
+
+// Compare the session's Qdrant profile points with its MongoDB profiles
+export async function GET(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const report = await checkProfileVectorIntegrity(sessionId);
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error('Vector integrity check error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Re-key legacy points, drop orphaned ones and re-embed missing profiles
+export async function POST(request: NextRequest) {
+  try {
+    const sessionId = request.cookies.get('ig_session')?.value;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const result = await repairProfileVectorIntegrity(sessionId);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Vector integrity repair error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,111 @@
 "use client";
 
+import { useState, useEffect, useCallback } from "react";
 import { useSession } from "@/hooks/useSession";
 import { Header } from "@/components/dashboard/Header";
 import { ChatInterface } from "@/components/chat/ChatInterface";
+import {
+  ConversationSidebar,
+  type ConversationItem,
+} from "@/components/chat/ConversationSidebar";
 import { Loader2, MessageSquare } from "lucide-react";
 
 export default function ChatPage() {
   const { loading } = useSession(true);
+  const [conversations, setConversations] = useState<ConversationItem[]>([]);
+  // A shared conversation can be opened with ?c=<conversationId>
+  const [activeId, setActiveId] = useState<string | null>(() =>
+    typeof window === "undefined"
+      ? null
+      : new URLSearchParams(window.location.search).get("c")
+  );
+  // Remounts ChatInterface when switching conversations (not when one is created mid-chat)
+  const [viewKey, setViewKey] = useState(0);
+
+  // Bumped after each answer so titles and ordering stay current
+  const [listVersion, setListVersion] = useState(0);
+
+  useEffect(() => {
+    const fetchConversations = async () => {
+      try {
+        const response = await fetch("/api/conversations");
+        const data = await response.json();
+        if (data.success) {
+          setConversations(data.conversations);
+        }
+      } catch (error) {
+        console.error("Failed to fetch conversations:", error);
+      }
+    };
+
+    fetchConversations();
+  }, [listVersion]);
+
+  const refreshConversations = useCallback(() => {
+    setListVersion((version) => version + 1);
+  }, []);
+
+  const updateUrl = (conversationId: string | null) => {
+    const url = conversationId ? `/chat?c=${conversationId}` : "/chat";
+    window.history.replaceState(null, "", url);
+  };
+
+  const handleSelect = (conversationId: string) => {
+    if (conversationId === activeId) return;
+    setActiveId(conversationId);
+    setViewKey((key) => key + 1);
+    updateUrl(conversationId);
+  };
+
+  const handleNew = () => {
+    setActiveId(null);
+    setViewKey((key) => key + 1);
+    updateUrl(null);
+  };
+
+  const handleCreated = (conversationId: string) => {
+    setActiveId(conversationId);
+    updateUrl(conversationId);
+  };
+
+  const handleRename = async (conversationId: string, title: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setConversations((prev) =>
+          prev.map((c) => (c.conversationId === conversationId ? { ...c, title } : c))
+        );
+      }
+    } catch (error) {
+      console.error("Failed to rename conversation:", error);
+    }
+  };
+
+  const handleDelete = async (conversationId: string) => {
+    if (!window.confirm("Hapus percakapan ini?")) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+      if (data.success) {
+        setConversations((prev) =>
+          prev.filter((c) => c.conversationId !== conversationId)
+        );
+        if (conversationId === activeId) {
+          handleNew();
+        }
+      }
+    } catch (error) {
+      console.error("Failed to delete conversation:", error);
+    }
+  };
 
   if (loading) {
     return (
@@ -31,7 +130,25 @@ export default function ChatPage() {
           </p>
         </div>
 
-        <ChatInterface />
+        <div className="grid grid-cols-1 lg:grid-cols-[18rem_1fr] gap-6">
+          <aside className="lg:h-[calc(100vh-12rem)]">
+            <ConversationSidebar
+              conversations={conversations}
+              activeId={activeId}
+              onSelect={handleSelect}
+              onNew={handleNew}
+              onRename={handleRename}
+              onDelete={handleDelete}
+            />
+          </aside>
+
+          <ChatInterface
+            key={viewKey}
+            conversationId={activeId}
+            onConversationCreated={handleCreated}
+            onMessagesSaved={refreshConversations}
+          />
+        </div>
       </main>
     </div>
   );
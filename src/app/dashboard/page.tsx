@@ -6,6 +6,7 @@ import { Header } from "@/components/dashboard/Header";
 import { ScrapeForm } from "@/components/dashboard/ScrapeForm";
 import { JobsList } from "@/components/dashboard/JobsList";
 import { StatsCards } from "@/components/dashboard/StatsCards";
+import { ReanalysisCard } from "@/components/dashboard/ReanalysisCard";
 import { Loader2 } from "lucide-react";
 
 export default function DashboardPage() {
@@ -42,6 +43,10 @@ export default function DashboardPage() {
           <ScrapeForm onJobStarted={handleJobStarted} />
           <JobsList refreshTrigger={refreshTrigger} />
         </div>
+
+        <div className="mt-8 grid gap-8 lg:grid-cols-2">
+          <ReanalysisCard />
+        </div>
       </main>
     </div>
   );
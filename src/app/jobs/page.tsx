@@ -15,24 +15,36 @@ import {
   AlertTriangle,
   RefreshCw,
   User,
-  Trash2
+  Trash2,
+  Pause,
+  Play,
+  PauseCircle,
+  CalendarClock,
+  UsersRound
 } from 'lucide-react';
+import Link from 'next/link';
 
 interface Job {
   jobId: string;
   entryUsername: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
   maxDepth: number;
   currentDepth: number;
   totalProfiles: number;
   processedProfiles: number;
   failedProfiles: number;
+  cancelledProfiles: number;
+  reusedProfiles: number;
   progress: number;
   scrapeFollowers: boolean;
   scrapeFollowing: boolean;
   scrapePosts: boolean;
+  reuseWithinDays: number;
+  useSessionPool: boolean;
+  scheduleId?: string;
   createdAt: string;
   startedAt?: string;
+  pausedAt?: string;
   completedAt?: string;
   error?: string;
 }
@@ -79,12 +91,32 @@ export default function JobsPage() {
     }
   };
 
+  const handlePauseJob = async (jobId: string) => {
+    try {
+      await fetch(`/api/jobs/${jobId}/pause`, { method: 'POST' });
+      fetchJobs();
+    } catch (error) {
+      console.error('Failed to pause job:', error);
+    }
+  };
+
+  const handleResumeJob = async (jobId: string) => {
+    try {
+      await fetch(`/api/jobs/${jobId}/resume`, { method: 'POST' });
+      fetchJobs();
+    } catch (error) {
+      console.error('Failed to resume job:', error);
+    }
+  };
+
   const getStatusIcon = (status: Job['status']) => {
     switch (status) {
       case 'pending':
         return <Clock className="h-5 w-5 text-yellow-400" />;
       case 'processing':
         return <Loader2 className="h-5 w-5 text-blue-400 animate-spin" />;
+      case 'paused':
+        return <PauseCircle className="h-5 w-5 text-sky-400" />;
       case 'completed':
         return <CheckCircle className="h-5 w-5 text-green-400" />;
       case 'failed':
@@ -98,6 +130,7 @@ export default function JobsPage() {
     const variants: Record<Job['status'], string> = {
       pending: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
       processing: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+      paused: 'bg-sky-500/20 text-sky-400 border-sky-500/30',
       completed: 'bg-green-500/20 text-green-400 border-green-500/30',
       failed: 'bg-red-500/20 text-red-400 border-red-500/30',
       cancelled: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
@@ -189,6 +222,26 @@ export default function JobsPage() {
                     <div className="flex items-center gap-3">
                       {getStatusBadge(job.status)}
                       {(job.status === 'pending' || job.status === 'processing') && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handlePauseJob(job.jobId)}
+                          className="text-sky-400 hover:text-sky-300 hover:bg-sky-900/20"
+                        >
+                          <Pause className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {job.status === 'paused' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleResumeJob(job.jobId)}
+                          className="text-green-400 hover:text-green-300 hover:bg-green-900/20"
+                        >
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {(job.status === 'pending' || job.status === 'processing' || job.status === 'paused') && (
                         <Button
                           variant="ghost"
                           size="icon"
@@ -201,7 +254,7 @@ export default function JobsPage() {
                     </div>
                   </div>
 
-                  {(job.status === 'processing' || job.status === 'pending') && (
+                  {(job.status === 'processing' || job.status === 'pending' || job.status === 'paused') && (
                     <div className="mt-4 space-y-2">
                       <div className="flex justify-between text-sm text-zinc-400">
                         <span>Progress</span>
@@ -211,7 +264,7 @@ export default function JobsPage() {
                     </div>
                   )}
 
-                  <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div className="mt-4 grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
                     <div>
                       <p className="text-zinc-500">Max Depth</p>
                       <p className="text-white">{job.maxDepth}</p>
@@ -230,6 +283,12 @@ export default function JobsPage() {
                         {job.failedProfiles}
                       </p>
                     </div>
+                    <div>
+                      <p className="text-zinc-500">Skipped</p>
+                      <p className={job.cancelledProfiles > 0 ? 'text-orange-400' : 'text-white'}>
+                        {job.cancelledProfiles}
+                      </p>
+                    </div>
                   </div>
 
                   <div className="mt-4 flex flex-wrap gap-2">
@@ -248,11 +307,33 @@ export default function JobsPage() {
                         Posts
                       </Badge>
                     )}
+                    {job.scheduleId && (
+                      <Link href={`/schedules#${job.scheduleId}`}>
+                        <Badge variant="outline" className="bg-purple-500/20 text-purple-400 border-purple-500/30 hover:bg-purple-500/30">
+                          <CalendarClock className="mr-1 h-3 w-3" />
+                          Scheduled
+                        </Badge>
+                      </Link>
+                    )}
+                    {job.reuseWithinDays > 0 && (
+                      <Badge variant="outline" className="bg-zinc-800/50 text-zinc-400 border-zinc-700">
+                        Reuse ≤ {job.reuseWithinDays}d ({job.reusedProfiles} reused)
+                      </Badge>
+                    )}
+                    {job.useSessionPool && (
+                      <Badge variant="outline" className="bg-zinc-800/50 text-zinc-400 border-zinc-700">
+                        <UsersRound className="mr-1 h-3 w-3" />
+                        Session pool
+                      </Badge>
+                    )}
                   </div>
 
                   {job.startedAt && (
                     <div className="mt-4 pt-4 border-t border-zinc-800 flex flex-wrap gap-4 text-sm text-zinc-500">
                       <span>Started: {formatDate(job.startedAt)}</span>
+                      {job.pausedAt && (
+                        <span>Paused: {formatDate(job.pausedAt)}</span>
+                      )}
                       {job.completedAt && (
                         <span>Completed: {formatDate(job.completedAt)}</span>
                       )}
@@ -7,6 +7,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { GrowthChart } from '@/components/profiles/GrowthChart';
+import { FollowChanges } from '@/components/profiles/FollowChanges';
 import { 
   Loader2, 
   Users, 
@@ -18,7 +21,9 @@ import {
   ArrowLeft,
   Calendar,
   Heart,
-  MessageCircle
+  MessageCircle,
+  Link as LinkIcon,
+  Mail
 } from 'lucide-react';
 import Link from 'next/link';
 
@@ -33,13 +38,27 @@ interface Profile {
   isPrivate: boolean;
   isVerified: boolean;
   externalUrl?: string;
+  category?: string;
+  businessEmail?: string;
+  pronouns: string[];
+  bioLinks: Array<{ title: string; url: string }>;
+  highlightCount?: number;
   interests: string[];
   niche?: string;
+  niches?: NicheScore[];
   scrapedAt: string;
   scrapedDepth: number;
   parentUsername?: string;
   followers?: string[];
   following?: string[];
+  scrapedFollowersTotal?: number;
+  scrapedFollowingTotal?: number;
+}
+
+interface NicheScore {
+  niche: string;
+  confidence: number;
+  evidence: string[];
 }
 
 interface Post {
@@ -164,7 +183,23 @@ export default function ProfileDetailPage({ params }: { params: Promise<{ userna
                 </div>
 
                 {profile.fullName && (
-                  <p className="text-zinc-400">{profile.fullName}</p>
+                  <p className="text-zinc-400">
+                    {profile.fullName}
+                    {profile.pronouns.length > 0 && (
+                      <span className="ml-1 text-sm text-zinc-500">
+                        ({profile.pronouns.join(', ')})
+                      </span>
+                    )}
+                  </p>
+                )}
+
+                {profile.category && (
+                  <Badge
+                    variant="outline"
+                    className="mt-2 bg-zinc-800/50 text-zinc-400 border-zinc-700"
+                  >
+                    {profile.category}
+                  </Badge>
                 )}
 
                 <a
@@ -199,7 +234,66 @@ export default function ProfileDetailPage({ params }: { params: Promise<{ userna
                 </div>
               )}
 
-              {profile.niche && (
+              {(profile.bioLinks.length > 0 || profile.businessEmail) && (
+                <div className="mt-4 space-y-1">
+                  {profile.bioLinks.map((link) => (
+                    <a
+                      key={link.url}
+                      href={link.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-sm text-purple-400 hover:text-purple-300 truncate"
+                    >
+                      <LinkIcon className="h-3 w-3 flex-shrink-0" />
+                      {link.title || link.url}
+                    </a>
+                  ))}
+                  {profile.businessEmail && (
+                    <a
+                      href={`mailto:${profile.businessEmail}`}
+                      className="flex items-center gap-1 text-sm text-zinc-400 hover:text-white"
+                    >
+                      <Mail className="h-3 w-3" />
+                      {profile.businessEmail}
+                    </a>
+                  )}
+                </div>
+              )}
+
+              {profile.highlightCount !== undefined && (
+                <p className="mt-2 text-xs text-zinc-500">
+                  {profile.highlightCount} highlights
+                </p>
+              )}
+
+              {profile.niches && profile.niches.length > 0 ? (
+                <div className="mt-4">
+                  <p className="text-xs text-zinc-500 mb-2">Niche</p>
+                  <div className="space-y-2">
+                    {profile.niches.map((score, index) => (
+                      <div key={score.niche}>
+                        <div className="flex items-center gap-2">
+                          <Badge
+                            className={index === 0
+                              ? 'bg-purple-500/20 text-purple-400 border-purple-500/30'
+                              : 'bg-zinc-800/50 text-zinc-300 border-zinc-700'}
+                          >
+                            {score.niche}
+                          </Badge>
+                          <span className="text-xs text-zinc-500">
+                            {Math.round(score.confidence * 100)}%
+                          </span>
+                        </div>
+                        {score.evidence.length > 0 && (
+                          <p className="mt-1 text-xs text-zinc-500 italic line-clamp-2">
+                            &ldquo;{score.evidence.join('” · “')}&rdquo;
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : profile.niche && (
                 <div className="mt-4">
                   <p className="text-xs text-zinc-500 mb-2">Niche</p>
                   <Badge className="bg-purple-500/20 text-purple-400 border-purple-500/30">
@@ -239,87 +333,105 @@ export default function ProfileDetailPage({ params }: { params: Promise<{ userna
             </CardContent>
           </Card>
 
-          {/* Posts and Similar Profiles */}
-          <div className="lg:col-span-2 space-y-6">
-            {/* Recent Posts */}
-            <Card className="bg-zinc-900/50 border-zinc-800">
-              <CardHeader>
-                <CardTitle className="text-white flex items-center gap-2">
-                  <ImageIcon className="h-5 w-5 text-purple-400" />
-                  Recent Posts
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                {posts.length === 0 ? (
-                  <p className="text-zinc-500 text-center py-8">No posts available</p>
-                ) : (
-                  <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                    {posts.map((post) => (
-                      <div key={post.postId} className="relative group">
-                        <div className="aspect-square bg-zinc-800 rounded-lg overflow-hidden">
-                          {post.imageUrl ? (
-                            <img
-                              src={post.imageUrl}
-                              alt={post.caption?.slice(0, 50) || 'Post'}
-                              className="w-full h-full object-cover"
-                            />
-                          ) : (
-                            <div className="w-full h-full flex items-center justify-center">
-                              <ImageIcon className="h-8 w-8 text-zinc-600" />
-                            </div>
-                          )}
-                        </div>
-                        <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center gap-4">
-                          <div className="flex items-center gap-1 text-white text-sm">
-                            <Heart className="h-4 w-4" />
-                            {formatCount(post.likesCount)}
-                          </div>
-                          <div className="flex items-center gap-1 text-white text-sm">
-                            <MessageCircle className="h-4 w-4" />
-                            {formatCount(post.commentsCount)}
-                          </div>
-                        </div>
-                        {post.type === 'reel' && (
-                          <Badge className="absolute top-2 right-2 bg-pink-500 text-white text-xs">
-                            Reel
-                          </Badge>
-                        )}
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+          {/* Overview (growth, posts, similar profiles) and follower changes */}
+          <Tabs defaultValue="overview" className="lg:col-span-2">
+            <TabsList className="bg-zinc-900 border border-zinc-800">
+              <TabsTrigger value="overview" className="data-[state=active]:bg-zinc-800 data-[state=active]:text-white text-zinc-400">
+                Overview
+              </TabsTrigger>
+              <TabsTrigger value="changes" className="data-[state=active]:bg-zinc-800 data-[state=active]:text-white text-zinc-400">
+                Changes
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="overview" className="space-y-6">
+              {/* Growth History */}
+              <GrowthChart username={profile.username} />
 
-            {/* Similar Profiles */}
-            {similarProfiles.length > 0 && (
+              {/* Recent Posts */}
               <Card className="bg-zinc-900/50 border-zinc-800">
                 <CardHeader>
                   <CardTitle className="text-white flex items-center gap-2">
-                    <Users className="h-5 w-5 text-purple-400" />
-                    Similar Profiles
+                    <ImageIcon className="h-5 w-5 text-purple-400" />
+                    Recent Posts
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="flex flex-wrap gap-2">
-                    {similarProfiles.map((similar) => (
-                      <Link key={similar.username} href={`/profiles/${similar.username}`}>
-                        <Badge
-                          variant="outline"
-                          className="bg-zinc-800/50 text-zinc-300 border-zinc-700 hover:bg-zinc-700 cursor-pointer"
-                        >
-                          @{similar.username}
-                          <span className="ml-1 text-zinc-500">
-                            ({Math.round(similar.score * 100)}%)
-                          </span>
-                        </Badge>
-                      </Link>
-                    ))}
-                  </div>
+                  {posts.length === 0 ? (
+                    <p className="text-zinc-500 text-center py-8">No posts available</p>
+                  ) : (
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                      {posts.map((post) => (
+                        <div key={post.postId} className="relative group">
+                          <div className="aspect-square bg-zinc-800 rounded-lg overflow-hidden">
+                            {post.imageUrl ? (
+                              <img
+                                src={post.imageUrl}
+                                alt={post.caption?.slice(0, 50) || 'Post'}
+                                className="w-full h-full object-cover"
+                              />
+                            ) : (
+                              <div className="w-full h-full flex items-center justify-center">
+                                <ImageIcon className="h-8 w-8 text-zinc-600" />
+                              </div>
+                            )}
+                          </div>
+                          <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center gap-4">
+                            <div className="flex items-center gap-1 text-white text-sm">
+                              <Heart className="h-4 w-4" />
+                              {formatCount(post.likesCount)}
+                            </div>
+                            <div className="flex items-center gap-1 text-white text-sm">
+                              <MessageCircle className="h-4 w-4" />
+                              {formatCount(post.commentsCount)}
+                            </div>
+                          </div>
+                          {post.type === 'reel' && (
+                            <Badge className="absolute top-2 right-2 bg-pink-500 text-white text-xs">
+                              Reel
+                            </Badge>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
-            )}
-          </div>
+
+              {/* Similar Profiles */}
+              {similarProfiles.length > 0 && (
+                <Card className="bg-zinc-900/50 border-zinc-800">
+                  <CardHeader>
+                    <CardTitle className="text-white flex items-center gap-2">
+                      <Users className="h-5 w-5 text-purple-400" />
+                      Similar Profiles
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex flex-wrap gap-2">
+                      {similarProfiles.map((similar) => (
+                        <Link key={similar.username} href={`/profiles/${similar.username}`}>
+                          <Badge
+                            variant="outline"
+                            className="bg-zinc-800/50 text-zinc-300 border-zinc-700 hover:bg-zinc-700 cursor-pointer"
+                          >
+                            @{similar.username}
+                            <span className="ml-1 text-zinc-500">
+                              ({Math.round(similar.score * 100)}%)
+                            </span>
+                          </Badge>
+                        </Link>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            <TabsContent value="changes">
+              <FollowChanges username={profile.username} />
+            </TabsContent>
+          </Tabs>
         </div>
       </main>
     </div>
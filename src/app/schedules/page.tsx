@@ -0,0 +1,519 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from '@/hooks/useSession';
+import { Header } from '@/components/dashboard/Header';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Loader2,
+  CalendarClock,
+  RefreshCw,
+  Trash2,
+  Pause,
+  Play,
+  AlertCircle,
+  ChevronDown,
+  ChevronUp,
+  Plus,
+} from 'lucide-react';
+
+interface Schedule {
+  scheduleId: string;
+  name: string;
+  entryUsername: string;
+  maxDepth: number;
+  scrapeFollowers: boolean;
+  scrapeFollowing: boolean;
+  scrapePosts: boolean;
+  reuseWithinDays: number;
+  useSessionPool: boolean;
+  cron: string | null;
+  intervalMinutes: number | null;
+  timezone: string | null;
+  enabled: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastRunStatus?: 'started' | 'skipped' | 'failed';
+  lastRunMessage?: string;
+  createdAt: string;
+}
+
+interface ScheduleRun {
+  jobId: string;
+  status: string;
+  totalProfiles: number;
+  processedProfiles: number;
+  failedProfiles: number;
+  createdAt: string;
+  completedAt?: string;
+}
+
+type TriggerType = 'interval' | 'cron';
+
+export default function SchedulesPage() {
+  const { loading: sessionLoading } = useSession(true);
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [runs, setRuns] = useState<Record<string, ScheduleRun[]>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // New schedule form
+  const [name, setName] = useState('');
+  const [username, setUsername] = useState('');
+  const [maxDepth, setMaxDepth] = useState(1);
+  const [scrapeFollowers, setScrapeFollowers] = useState(true);
+  const [scrapeFollowing, setScrapeFollowing] = useState(false);
+  const [scrapePosts, setScrapePosts] = useState(true);
+  const [useSessionPool, setUseSessionPool] = useState(false);
+  const [triggerType, setTriggerType] = useState<TriggerType>('interval');
+  const [intervalHours, setIntervalHours] = useState(168);
+  const [cron, setCron] = useState('0 8 * * 1');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchSchedules = async () => {
+    try {
+      const response = await fetch('/api/schedules');
+      const data = await response.json();
+      if (data.success) {
+        setSchedules(data.schedules);
+      }
+    } catch (error) {
+      console.error('Failed to fetch schedules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRuns = async (scheduleId: string) => {
+    try {
+      const response = await fetch(`/api/schedules/${scheduleId}`);
+      const data = await response.json();
+      if (data.success) {
+        setRuns((prev) => ({ ...prev, [scheduleId]: data.runs }));
+      }
+    } catch (error) {
+      console.error('Failed to fetch schedule runs:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!sessionLoading) {
+      fetchSchedules();
+    }
+  }, [sessionLoading]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          entryUsername: username.replace('@', ''),
+          maxDepth,
+          scrapeFollowers,
+          scrapeFollowing,
+          scrapePosts,
+          useSessionPool,
+          ...(triggerType === 'cron'
+            ? { cron, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone }
+            : { intervalMinutes: intervalHours * 60 }),
+        }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.details?.[0]?.message || data.error || 'Failed to create schedule');
+        return;
+      }
+
+      setName('');
+      setUsername('');
+      fetchSchedules();
+    } catch {
+      setError('Connection error. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (schedule: Schedule) => {
+    try {
+      await fetch(`/api/schedules/${schedule.scheduleId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !schedule.enabled }),
+      });
+      fetchSchedules();
+    } catch (error) {
+      console.error('Failed to update schedule:', error);
+    }
+  };
+
+  const handleDelete = async (scheduleId: string) => {
+    try {
+      await fetch(`/api/schedules/${scheduleId}`, { method: 'DELETE' });
+      fetchSchedules();
+    } catch (error) {
+      console.error('Failed to delete schedule:', error);
+    }
+  };
+
+  const handleExpand = (scheduleId: string) => {
+    if (expanded === scheduleId) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(scheduleId);
+    fetchRuns(scheduleId);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('id-ID', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const formatTrigger = (schedule: Schedule) => {
+    if (schedule.cron) {
+      return `Cron: ${schedule.cron}${schedule.timezone ? ` (${schedule.timezone})` : ''}`;
+    }
+    const minutes = schedule.intervalMinutes || 0;
+    if (minutes % (24 * 60) === 0) return `Setiap ${minutes / (24 * 60)} hari`;
+    if (minutes % 60 === 0) return `Setiap ${minutes / 60} jam`;
+    return `Setiap ${minutes} menit`;
+  };
+
+  const runStatusClass: Record<NonNullable<Schedule['lastRunStatus']>, string> = {
+    started: 'bg-green-500/20 text-green-400 border-green-500/30',
+    skipped: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+    failed: 'bg-red-500/20 text-red-400 border-red-500/30',
+  };
+
+  if (sessionLoading || loading) {
+    return (
+      <div className="min-h-screen bg-zinc-950 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-purple-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-950">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-white">Schedules</h1>
+            <p className="text-zinc-400 mt-1">
+              Jalankan scraping secara berkala untuk memantau pertumbuhan akun
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={fetchSchedules}
+            className="bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700"
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="lg:col-span-1 bg-zinc-900/50 border-zinc-800 h-fit">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center gap-2">
+                <Plus className="h-5 w-5 text-purple-400" />
+                New Schedule
+              </CardTitle>
+              <CardDescription className="text-zinc-400">
+                Run dilewati jika masih ada job yang berjalan untuk sesi ini
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreate} className="space-y-4">
+                {error && (
+                  <Alert variant="destructive" className="bg-red-900/50 border-red-800">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="name" className="text-zinc-300">Name</Label>
+                  <Input
+                    id="name"
+                    placeholder="Weekly competitor check"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="bg-zinc-800 border-zinc-700 text-white placeholder:text-zinc-500"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="username" className="text-zinc-300">Entry Point Username</Label>
+                  <Input
+                    id="username"
+                    placeholder="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value.replace('@', ''))}
+                    required
+                    className="bg-zinc-800 border-zinc-700 text-white placeholder:text-zinc-500"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="depth" className="text-zinc-300">Chaining Depth (0-3)</Label>
+                  <Input
+                    id="depth"
+                    type="number"
+                    min={0}
+                    max={3}
+                    value={maxDepth}
+                    onChange={(e) => setMaxDepth(parseInt(e.target.value) || 0)}
+                    className="bg-zinc-800 border-zinc-700 text-white"
+                  />
+                </div>
+
+                <div className="flex flex-wrap gap-3">
+                  <label className="flex items-center gap-2 cursor-pointer text-sm text-zinc-300">
+                    <input
+                      type="checkbox"
+                      checked={scrapeFollowers}
+                      onChange={(e) => setScrapeFollowers(e.target.checked)}
+                      className="rounded border-zinc-600 bg-zinc-800 text-purple-500"
+                    />
+                    Followers
+                  </label>
+                  <label className="flex items-center gap-2 cursor-pointer text-sm text-zinc-300">
+                    <input
+                      type="checkbox"
+                      checked={scrapeFollowing}
+                      onChange={(e) => setScrapeFollowing(e.target.checked)}
+                      className="rounded border-zinc-600 bg-zinc-800 text-purple-500"
+                    />
+                    Following
+                  </label>
+                  <label className="flex items-center gap-2 cursor-pointer text-sm text-zinc-300">
+                    <input
+                      type="checkbox"
+                      checked={scrapePosts}
+                      onChange={(e) => setScrapePosts(e.target.checked)}
+                      className="rounded border-zinc-600 bg-zinc-800 text-purple-500"
+                    />
+                    Posts
+                  </label>
+                  <label
+                    title="Scraping dibagi ke akun ini dan akun yang memilih &quot;Bagikan ke session pool&quot;"
+                    className="flex items-center gap-2 cursor-pointer text-sm text-zinc-300"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={useSessionPool}
+                      onChange={(e) => setUseSessionPool(e.target.checked)}
+                      className="rounded border-zinc-600 bg-zinc-800 text-purple-500"
+                    />
+                    Session pool
+                  </label>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-zinc-300">Trigger</Label>
+                  <div className="flex gap-1">
+                    {(['interval', 'cron'] as TriggerType[]).map((type) => (
+                      <Button
+                        key={type}
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setTriggerType(type)}
+                        className={triggerType === type
+                          ? 'bg-purple-500/20 text-purple-400 hover:bg-purple-500/30'
+                          : 'text-zinc-400 hover:text-white'}
+                      >
+                        {type === 'interval' ? 'Interval' : 'Cron'}
+                      </Button>
+                    ))}
+                  </div>
+                  {triggerType === 'interval' ? (
+                    <>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={intervalHours}
+                        onChange={(e) => setIntervalHours(parseInt(e.target.value) || 1)}
+                        className="bg-zinc-800 border-zinc-700 text-white"
+                      />
+                      <p className="text-xs text-zinc-500">Jam antar run (168 = seminggu sekali)</p>
+                    </>
+                  ) : (
+                    <>
+                      <Input
+                        value={cron}
+                        onChange={(e) => setCron(e.target.value)}
+                        className="bg-zinc-800 border-zinc-700 text-white font-mono"
+                      />
+                      <p className="text-xs text-zinc-500">
+                        menit jam tanggal bulan hari, contoh: 0 8 * * 1 = tiap Senin 08:00 (paling sering sekali per jam)
+                      </p>
+                    </>
+                  )}
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={saving || !username}
+                  className="w-full bg-gradient-to-r from-pink-500 via-purple-500 to-orange-500 text-white font-semibold"
+                >
+                  {saving ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <CalendarClock className="mr-2 h-4 w-4" />
+                  )}
+                  Create Schedule
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <div className="lg:col-span-2 space-y-4">
+            {schedules.length === 0 ? (
+              <Card className="bg-zinc-900/50 border-zinc-800">
+                <CardContent className="py-12 text-center">
+                  <CalendarClock className="h-12 w-12 mx-auto mb-3 text-zinc-600" />
+                  <p className="text-zinc-500">No schedules yet.</p>
+                </CardContent>
+              </Card>
+            ) : (
+              schedules.map((schedule) => (
+                <Card key={schedule.scheduleId} id={schedule.scheduleId} className="bg-zinc-900/50 border-zinc-800">
+                  <CardContent className="p-6">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <h3 className="font-semibold text-white">
+                          {schedule.name || `@${schedule.entryUsername}`}
+                        </h3>
+                        <p className="text-sm text-zinc-400">
+                          @{schedule.entryUsername} · depth {schedule.maxDepth}{schedule.useSessionPool ? ' · session pool' : ''} · {formatTrigger(schedule)}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge
+                          variant="outline"
+                          className={schedule.enabled
+                            ? 'bg-green-500/20 text-green-400 border-green-500/30'
+                            : 'bg-zinc-800/50 text-zinc-400 border-zinc-700'}
+                        >
+                          {schedule.enabled ? 'Active' : 'Paused'}
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleToggle(schedule)}
+                          className={schedule.enabled
+                            ? 'text-sky-400 hover:text-sky-300 hover:bg-sky-900/20'
+                            : 'text-green-400 hover:text-green-300 hover:bg-green-900/20'}
+                        >
+                          {schedule.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(schedule.scheduleId)}
+                          className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="mt-4 flex flex-wrap gap-4 text-sm text-zinc-500">
+                      {schedule.enabled && schedule.nextRunAt && (
+                        <span>Next run: {formatDate(schedule.nextRunAt)}</span>
+                      )}
+                      {schedule.lastRunAt && (
+                        <span className="flex items-center gap-2">
+                          Last run: {formatDate(schedule.lastRunAt)}
+                          {schedule.lastRunStatus && (
+                            <Badge variant="outline" className={runStatusClass[schedule.lastRunStatus]}>
+                              {schedule.lastRunStatus}
+                            </Badge>
+                          )}
+                        </span>
+                      )}
+                    </div>
+                    {schedule.lastRunStatus && schedule.lastRunStatus !== 'started' && schedule.lastRunMessage && (
+                      <p className="mt-2 text-xs text-zinc-500">{schedule.lastRunMessage}</p>
+                    )}
+
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleExpand(schedule.scheduleId)}
+                      className="mt-3 text-zinc-400 hover:text-white"
+                    >
+                      {expanded === schedule.scheduleId ? (
+                        <ChevronUp className="mr-1 h-4 w-4" />
+                      ) : (
+                        <ChevronDown className="mr-1 h-4 w-4" />
+                      )}
+                      Run history
+                    </Button>
+
+                    {expanded === schedule.scheduleId && (
+                      <div className="mt-2 overflow-x-auto">
+                        {(runs[schedule.scheduleId] || []).length === 0 ? (
+                          <p className="text-sm text-zinc-500 py-2">Belum ada run.</p>
+                        ) : (
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-zinc-500 border-b border-zinc-800">
+                                <th className="py-2 font-normal">Started</th>
+                                <th className="py-2 font-normal">Status</th>
+                                <th className="py-2 font-normal">Profiles</th>
+                                <th className="py-2 font-normal">Failed</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {runs[schedule.scheduleId].map((run) => (
+                                <tr key={run.jobId} className="border-b border-zinc-800/50">
+                                  <td className="py-2 text-zinc-300">{formatDate(run.createdAt)}</td>
+                                  <td className="py-2 text-zinc-300 capitalize">{run.status}</td>
+                                  <td className="py-2 text-white">
+                                    {run.processedProfiles} / {run.totalProfiles}
+                                  </td>
+                                  <td className={run.failedProfiles > 0 ? 'py-2 text-red-400' : 'py-2 text-zinc-400'}>
+                                    {run.failedProfiles}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -16,8 +16,19 @@ import {
   Lightbulb,
   Users,
   TrendingUp,
+  Square,
+  Wrench,
+  ImageIcon,
 } from "lucide-react";
 
+interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string;
+  error?: boolean;
+  durationMs: number;
+}
+
 interface Message {
   role: "user" | "assistant";
   content: string;
@@ -25,7 +36,101 @@ interface Message {
     username: string;
     relevance: number;
     snippet: string;
+    shortcode?: string;
+    postType?: "post" | "reel" | "carousel";
   }>;
+  toolCalls?: ToolCall[];
+}
+
+type MessageSource = NonNullable<Message["sources"]>[number];
+
+function getSourcePostUrl(source: MessageSource): string {
+  const path = source.postType === "reel" ? "reel" : "p";
+  return `https://www.instagram.com/${path}/${source.shortcode}/`;
+}
+
+type StreamEvent =
+  | { event: "token"; data: { text: string } }
+  | { event: "tool"; data: ToolCall }
+  | { event: "sources"; data: { sources: Message["sources"] } }
+  | { event: "error"; data: { error: string } };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isMessageSource(value: unknown): value is MessageSource {
+  return (
+    isRecord(value) &&
+    typeof value.username === "string" &&
+    typeof value.relevance === "number" &&
+    typeof value.snippet === "string"
+  );
+}
+
+// Check an event's payload against its name; malformed or unknown events are dropped
+function toStreamEvent(event: string, data: unknown): StreamEvent | null {
+  if (!isRecord(data)) return null;
+
+  switch (event) {
+    case "token":
+      return typeof data.text === "string" ? { event, data: { text: data.text } } : null;
+    case "tool":
+      return typeof data.name === "string" &&
+        isRecord(data.arguments) &&
+        typeof data.result === "string" &&
+        typeof data.durationMs === "number"
+        ? {
+            event,
+            data: {
+              name: data.name,
+              arguments: data.arguments,
+              result: data.result,
+              error: data.error === true,
+              durationMs: data.durationMs,
+            },
+          }
+        : null;
+    case "sources":
+      return Array.isArray(data.sources)
+        ? { event, data: { sources: data.sources.filter(isMessageSource) } }
+        : null;
+    case "error":
+      return typeof data.error === "string" ? { event, data: { error: data.error } } : null;
+    default:
+      return null;
+  }
+}
+
+// Parse the Server-Sent Events sent by /api/chat in streaming mode
+async function* readStreamEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<StreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const raw = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let event = "message";
+      let data = "";
+      for (const line of raw.split("\n")) {
+        if (line.startsWith("event: ")) event = line.slice(7);
+        else if (line.startsWith("data: ")) data += line.slice(6);
+      }
+      const parsed = data ? toStreamEvent(event, JSON.parse(data)) : null;
+      if (parsed) yield parsed;
+    }
+  }
 }
 
 const SUGGESTED_QUESTIONS = [
@@ -51,11 +156,9 @@ const SUGGESTED_QUESTIONS = [
   },
 ];
 
-export function ChatInterface() {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      role: "assistant",
-      content: `Halo! 👋 Saya adalah AI assistant yang dapat menganalisis data followers Instagram Anda.
+const WELCOME_MESSAGE: Message = {
+  role: "assistant",
+  content: `Halo! 👋 Saya adalah AI assistant yang dapat menganalisis data followers Instagram Anda.
 
 **Saya bisa membantu Anda dengan:**
 
@@ -75,12 +178,70 @@ export function ChatInterface() {
 • Analisis profile tertentu
 
 Silakan ajukan pertanyaan atau pilih salah satu contoh di bawah!`,
-    },
-  ]);
+};
+
+interface StoredMessage extends Message {
+  stopped?: boolean;
+}
+
+interface ChatInterfaceProps {
+  // Conversation to load and save into; a new one is created on first message
+  conversationId?: string | null;
+  onConversationCreated?: (conversationId: string) => void;
+  onMessagesSaved?: () => void;
+}
+
+export function ChatInterface({
+  conversationId = null,
+  onConversationCreated,
+  onMessagesSaved,
+}: ChatInterfaceProps) {
+  const [messages, setMessages] = useState<Message[]>([WELCOME_MESSAGE]);
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
+  const [streaming, setStreaming] = useState(false);
+  const [activeTool, setActiveTool] = useState<string | null>(null);
   const [showSuggestions, setShowSuggestions] = useState(true);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const conversationRef = useRef<string | null>(conversationId);
+  // History is loaded once; a conversation created mid-chat is already on screen
+  const [initialConversationId] = useState(conversationId);
+  const [loadingHistory, setLoadingHistory] = useState(!!conversationId);
+
+  // Cancel an in-flight answer when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!initialConversationId) return;
+
+    const fetchConversation = async () => {
+      try {
+        const response = await fetch(`/api/conversations/${initialConversationId}`);
+        const data = await response.json();
+
+        if (data.success) {
+          const stored: StoredMessage[] = data.conversation.messages;
+          setMessages([
+            WELCOME_MESSAGE,
+            ...stored.map((m) => ({
+              role: m.role,
+              content: m.stopped ? `${m.content}\n\n[Dihentikan]` : m.content,
+              sources: m.sources,
+              toolCalls: m.toolCalls,
+            })),
+          ]);
+          setShowSuggestions(stored.length === 0);
+        }
+      } catch (error) {
+        console.error("Failed to fetch conversation:", error);
+      } finally {
+        setLoadingHistory(false);
+      }
+    };
+
+    fetchConversation();
+  }, [initialConversationId]);
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -95,59 +256,116 @@ Silakan ajukan pertanyaan atau pilih salah satu contoh di bawah!`,
     await sendMessage(input);
   };
 
+  const updateLastMessage = (update: (message: Message) => Message) => {
+    setMessages((prev) => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+  };
+
   const sendMessage = async (text: string) => {
     const userMessage: Message = { role: "user", content: text };
+    const history = [...messages, userMessage];
     setMessages((prev) => [...prev, userMessage]);
     setInput("");
     setLoading(true);
     setShowSuggestions(false);
 
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+    let started = false;
+
+    // Start a conversation on the first question so the exchange is saved
+    if (!conversationRef.current) {
+      try {
+        const response = await fetch("/api/conversations", { method: "POST" });
+        const data = await response.json();
+        if (data.success) {
+          conversationRef.current = data.conversation.conversationId;
+          onConversationCreated?.(data.conversation.conversationId);
+        }
+      } catch (error) {
+        console.error("Failed to create conversation:", error);
+      }
+    }
+
+    // Tools usually run before the first token, so they're collected here
+    const toolCalls: ToolCall[] = [];
+
+    // The assistant message is added on the first token and then grown in place
+    const appendToAnswer = (content: string, sources?: Message["sources"]) => {
+      if (!started) {
+        started = true;
+        setStreaming(true);
+        setMessages((prev) => [
+          ...prev,
+          { role: "assistant", content, sources, toolCalls: [...toolCalls] },
+        ]);
+      } else {
+        updateLastMessage((message) => ({
+          ...message,
+          content: message.content + content,
+          sources: sources ?? message.sources,
+          toolCalls: [...toolCalls],
+        }));
+      }
+    };
+
     try {
       const response = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          messages: [...messages, userMessage].map((m) => ({
+          messages: history.map((m) => ({
             role: m.role,
             content: m.content,
           })),
+          stream: true,
+          conversationId: conversationRef.current ?? undefined,
         }),
+        signal: abortController.signal,
       });
 
-      const data = await response.json();
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        appendToAnswer(data.error || "Maaf, terjadi kesalahan. Silakan coba lagi.");
+        return;
+      }
 
-      if (data.success) {
-        setMessages((prev) => [
-          ...prev,
-          {
-            role: "assistant",
-            content: data.message,
-            sources: data.sources,
-          },
-        ]);
+      for await (const streamEvent of readStreamEvents(response.body)) {
+        if (streamEvent.event === "token") {
+          appendToAnswer(streamEvent.data.text);
+        } else if (streamEvent.event === "tool") {
+          toolCalls.push(streamEvent.data);
+          if (started) {
+            appendToAnswer("");
+          } else {
+            setActiveTool(streamEvent.data.name);
+          }
+        } else if (streamEvent.event === "sources") {
+          appendToAnswer("", streamEvent.data.sources);
+        } else {
+          appendToAnswer(
+            `${started ? "\n\n" : ""}${streamEvent.data.error}`
+          );
+        }
+      }
+    } catch {
+      if (abortController.signal.aborted) {
+        appendToAnswer(started ? "\n\n[Dihentikan]" : "Permintaan dihentikan.");
       } else {
-        setMessages((prev) => [
-          ...prev,
-          {
-            role: "assistant",
-            content:
-              data.error || "Maaf, terjadi kesalahan. Silakan coba lagi.",
-          },
-        ]);
+        appendToAnswer("Terjadi kesalahan koneksi. Silakan coba lagi.");
       }
-    } catch (error) {
-      setMessages((prev) => [
-        ...prev,
-        {
-          role: "assistant",
-          content: "Terjadi kesalahan koneksi. Silakan coba lagi.",
-        },
-      ]);
     } finally {
+      abortRef.current = null;
       setLoading(false);
+      setStreaming(false);
+      setActiveTool(null);
+      onMessagesSaved?.();
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -200,25 +418,81 @@ Silakan ajukan pertanyaan atau pilih salah satu contoh di bawah!`,
                   })}
                 </div>
 
-                {message.sources && message.sources.length > 0 && (
+                {message.toolCalls && message.toolCalls.length > 0 && (
+                  <details className="mt-3 pt-3 border-t border-zinc-700">
+                    <summary className="text-xs text-zinc-400 cursor-pointer flex items-center gap-1">
+                      <Wrench className="h-3 w-3" />
+                      Tools digunakan ({message.toolCalls.length})
+                    </summary>
+                    <div className="mt-2 space-y-2">
+                      {message.toolCalls.map((call, i) => (
+                        <div key={i} className="rounded-md bg-zinc-900/60 p-2 text-xs">
+                          <p className={call.error ? "text-red-400" : "text-purple-300"}>
+                            {call.name}({Object.entries(call.arguments)
+                              .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+                              .join(", ")})
+                            <span className="ml-2 text-zinc-500">{call.durationMs}ms</span>
+                          </p>
+                          <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap text-zinc-500">
+                            {call.result}
+                          </pre>
+                        </div>
+                      ))}
+                    </div>
+                  </details>
+                )}
+
+                {message.sources?.some((source) => !source.shortcode) && (
                   <div className="mt-3 pt-3 border-t border-zinc-700">
                     <p className="text-xs text-zinc-400 mb-2 flex items-center gap-1">
                       <Sparkles className="h-3 w-3" />
                       Profile Terkait:
                     </p>
                     <div className="flex flex-wrap gap-2">
-                      {message.sources.slice(0, 5).map((source) => (
-                        <Badge
-                          key={source.username}
-                          variant="outline"
-                          className="bg-zinc-700/50 border-zinc-600 text-zinc-300 text-xs"
-                        >
-                          @{source.username}
-                          <span className="ml-1 text-zinc-500">
-                            ({Math.round(source.relevance * 100)}%)
-                          </span>
-                        </Badge>
-                      ))}
+                      {message.sources
+                        .filter((source) => !source.shortcode)
+                        .slice(0, 5)
+                        .map((source) => (
+                          <Badge
+                            key={source.username}
+                            variant="outline"
+                            className="bg-zinc-700/50 border-zinc-600 text-zinc-300 text-xs"
+                          >
+                            @{source.username}
+                            <span className="ml-1 text-zinc-500">
+                              ({Math.round(source.relevance * 100)}%)
+                            </span>
+                          </Badge>
+                        ))}
+                    </div>
+                  </div>
+                )}
+
+                {message.sources?.some((source) => source.shortcode) && (
+                  <div className="mt-3 pt-3 border-t border-zinc-700">
+                    <p className="text-xs text-zinc-400 mb-2 flex items-center gap-1">
+                      <ImageIcon className="h-3 w-3" />
+                      Post Terkait:
+                    </p>
+                    <div className="space-y-1">
+                      {message.sources
+                        .filter((source) => source.shortcode)
+                        .slice(0, 5)
+                        .map((source) => (
+                          <a
+                            key={source.shortcode}
+                            href={getSourcePostUrl(source)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block text-xs text-zinc-300 hover:text-white truncate"
+                          >
+                            @{source.username}
+                            <span className="mx-1 text-zinc-500">
+                              · {source.postType} ({Math.round(source.relevance * 100)}%)
+                            </span>
+                            {source.snippet}
+                          </a>
+                        ))}
                     </div>
                   </div>
                 )}
@@ -255,7 +529,13 @@ Silakan ajukan pertanyaan atau pilih salah satu contoh di bawah!`,
             </div>
           )}
 
-          {loading && (
+          {loadingHistory && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-purple-400" />
+            </div>
+          )}
+
+          {loading && !streaming && (
             <div className="flex gap-3">
               <div className="flex-shrink-0 h-8 w-8 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
                 <Bot className="h-4 w-4 text-white" />
@@ -263,7 +543,9 @@ Silakan ajukan pertanyaan atau pilih salah satu contoh di bawah!`,
               <div className="bg-zinc-800 rounded-2xl rounded-tl-sm px-4 py-3 flex items-center gap-2">
                 <Loader2 className="h-4 w-4 animate-spin text-purple-400" />
                 <span className="text-sm text-zinc-400">
-                  Menganalisis data...
+                  {activeTool
+                    ? `Menjalankan ${activeTool}...`
+                    : "Menganalisis data..."}
                 </span>
               </div>
             </div>
@@ -284,17 +566,24 @@ Silakan ajukan pertanyaan atau pilih salah satu contoh di bawah!`,
               className="min-h-[44px] max-h-32 bg-zinc-900 border-zinc-700 text-white placeholder:text-zinc-500 focus:border-purple-500 resize-none"
               rows={1}
             />
-            <Button
-              type="submit"
-              disabled={loading || !input.trim()}
-              className="bg-purple-600 hover:bg-purple-700 text-white px-4"
-            >
-              {loading ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
+            {loading ? (
+              <Button
+                type="button"
+                onClick={handleStop}
+                title="Stop"
+                className="bg-zinc-700 hover:bg-zinc-600 text-white px-4"
+              >
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                disabled={!input.trim()}
+                className="bg-purple-600 hover:bg-purple-700 text-white px-4"
+              >
                 <Send className="h-4 w-4" />
-              )}
-            </Button>
+              </Button>
+            )}
           </form>
         </CardContent>
       </Card>
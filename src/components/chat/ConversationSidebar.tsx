@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Plus,
+  MessageSquare,
+  Pencil,
+  Trash2,
+  Check,
+  X,
+  Link2,
+} from "lucide-react";
+
+export interface ConversationItem {
+  conversationId: string;
+  title: string;
+  messageCount: number;
+  updatedAt: string;
+}
+
+interface ConversationSidebarProps {
+  conversations: ConversationItem[];
+  activeId: string | null;
+  onSelect: (conversationId: string) => void;
+  onNew: () => void;
+  onRename: (conversationId: string, title: string) => void;
+  onDelete: (conversationId: string) => void;
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const startEditing = (conversation: ConversationItem) => {
+    setEditingId(conversation.conversationId);
+    setEditTitle(conversation.title);
+  };
+
+  const submitRename = (conversationId: string) => {
+    if (editTitle.trim()) {
+      onRename(conversationId, editTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const copyLink = async (conversationId: string) => {
+    const url = `${window.location.origin}/chat?c=${conversationId}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedId(conversationId);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch {
+      window.prompt("Link percakapan:", url);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("id-ID", {
+      day: "numeric",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <Card className="bg-zinc-900/50 border-zinc-800 h-full">
+      <CardContent className="p-3 flex flex-col h-full gap-3">
+        <Button
+          onClick={onNew}
+          className="w-full bg-purple-600 hover:bg-purple-700 text-white"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Percakapan Baru
+        </Button>
+
+        <ScrollArea className="flex-1">
+          {conversations.length === 0 ? (
+            <p className="text-xs text-zinc-500 text-center py-6">
+              Belum ada percakapan tersimpan
+            </p>
+          ) : (
+            <div className="space-y-1">
+              {conversations.map((conversation) => {
+                const active = conversation.conversationId === activeId;
+                const editing = conversation.conversationId === editingId;
+
+                return (
+                  <div
+                    key={conversation.conversationId}
+                    className={`group rounded-lg p-2 transition-colors ${
+                      active
+                        ? "bg-purple-500/20 border border-purple-500/30"
+                        : "hover:bg-zinc-800/70 border border-transparent"
+                    }`}
+                  >
+                    {editing ? (
+                      <div className="flex items-center gap-1">
+                        <Input
+                          value={editTitle}
+                          autoFocus
+                          onChange={(e) => setEditTitle(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") submitRename(conversation.conversationId);
+                            if (e.key === "Escape") setEditingId(null);
+                          }}
+                          className="h-7 text-sm bg-zinc-900 border-zinc-700 text-white"
+                        />
+                        <button
+                          onClick={() => submitRename(conversation.conversationId)}
+                          className="text-green-400 hover:text-green-300"
+                        >
+                          <Check className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="text-zinc-500 hover:text-zinc-300"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-start gap-2">
+                        <button
+                          onClick={() => onSelect(conversation.conversationId)}
+                          className="flex-1 min-w-0 text-left"
+                        >
+                          <p className="text-sm text-zinc-200 truncate flex items-center gap-1.5">
+                            <MessageSquare className="h-3.5 w-3.5 flex-shrink-0 text-zinc-500" />
+                            {conversation.title || "Percakapan tanpa judul"}
+                          </p>
+                          <p className="text-xs text-zinc-500 mt-0.5">
+                            {formatDate(conversation.updatedAt)} · {conversation.messageCount} pesan
+                          </p>
+                        </button>
+                        <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button
+                            onClick={() => copyLink(conversation.conversationId)}
+                            title="Salin link"
+                            className="text-zinc-500 hover:text-purple-400"
+                          >
+                            {copiedId === conversation.conversationId ? (
+                              <Check className="h-3.5 w-3.5 text-green-400" />
+                            ) : (
+                              <Link2 className="h-3.5 w-3.5" />
+                            )}
+                          </button>
+                          <button
+                            onClick={() => startEditing(conversation)}
+                            title="Ganti nama"
+                            className="text-zinc-500 hover:text-white"
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </button>
+                          <button
+                            onClick={() => onDelete(conversation.conversationId)}
+                            title="Hapus"
+                            className="text-zinc-500 hover:text-red-400"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,17 +4,40 @@ import { useSession } from '@/hooks/useSession';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Instagram, LogOut, User, Settings } from 'lucide-react';
+import { Instagram, LogOut, User, Settings, Globe, ShieldAlert } from 'lucide-react';
 import Link from 'next/link';
+import type { SessionProxyInfo } from '@/types';
+
+// The proxy line under the account name
+function describeProxy(proxy?: SessionProxyInfo): string {
+  if (!proxy || proxy.mode === 'direct') return 'Tanpa proxy';
+  if (proxy.mode === 'fixed') return proxy.server || 'Proxy tetap';
+  if (!proxy.server) return 'Pool proxy (belum dipilih)';
+  return `Pool: ${proxy.label || proxy.server}`;
+}
 
 export function Header() {
-  const { username, logout } = useSession();
+  const { username, proxy, challenged, shareInPool, logout, refreshSession } = useSession();
+
+  const handleShareInPool = async (checked: boolean) => {
+    try {
+      await fetch('/api/auth/pool', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ shareInPool: checked }),
+      });
+      refreshSession();
+    } catch (error) {
+      console.error('Failed to update session pool sharing:', error);
+    }
+  };
 
   return (
     <header className="sticky top-0 z-50 w-full border-b border-zinc-800 bg-zinc-950/80 backdrop-blur-sm">
@@ -39,18 +62,42 @@ export function Header() {
           >
             Profiles
           </Link>
+          <Link
+            href="/posts"
+            className="text-sm text-zinc-400 hover:text-white transition-colors"
+          >
+            Posts
+          </Link>
           <Link
             href="/jobs"
             className="text-sm text-zinc-400 hover:text-white transition-colors"
           >
             Jobs
           </Link>
+          <Link
+            href="/schedules"
+            className="text-sm text-zinc-400 hover:text-white transition-colors"
+          >
+            Schedules
+          </Link>
           <Link
             href="/chat"
             className="text-sm text-zinc-400 hover:text-white transition-colors"
           >
             Chat
           </Link>
+          <Link
+            href="/admin/niches"
+            className="text-sm text-zinc-400 hover:text-white transition-colors"
+          >
+            Niches
+          </Link>
+          <Link
+            href="/admin/proxies"
+            className="text-sm text-zinc-400 hover:text-white transition-colors"
+          >
+            Proxies
+          </Link>
         </nav>
 
         <DropdownMenu>
@@ -75,7 +122,29 @@ export function Header() {
                 <span className="text-xs text-zinc-400">Instagram Account</span>
               </div>
             </div>
+            <Link
+              href="/admin/proxies"
+              title="Proxy yang dipakai sesi ini"
+              className="flex items-center gap-2 px-2 pb-2 text-xs text-zinc-400 hover:text-zinc-300"
+            >
+              <Globe className="h-3.5 w-3.5 flex-shrink-0" />
+              <span className="truncate">{describeProxy(proxy)}</span>
+            </Link>
+            {challenged && (
+              <div className="flex items-start gap-2 px-2 pb-2 text-xs text-yellow-400">
+                <ShieldAlert className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+                <span>Instagram meminta verifikasi akun ini. Selesaikan di Instagram lalu login ulang untuk scraping lagi.</span>
+              </div>
+            )}
             <DropdownMenuSeparator className="bg-zinc-800" />
+            <DropdownMenuCheckboxItem
+              checked={shareInPool}
+              onCheckedChange={handleShareInPool}
+              title="Crawl session pool milik pengguna lain boleh memakai akun ini"
+              className="text-zinc-300 focus:text-white focus:bg-zinc-800 cursor-pointer"
+            >
+              Bagikan ke session pool
+            </DropdownMenuCheckboxItem>
             <DropdownMenuItem className="text-zinc-300 focus:text-white focus:bg-zinc-800 cursor-pointer">
               <User className="mr-2 h-4 w-4" />
               Profile
@@ -14,13 +14,16 @@ import {
   RefreshCw,
   User,
   Users,
-  AlertTriangle
+  AlertTriangle,
+  Pause,
+  Play,
+  PauseCircle
 } from 'lucide-react';
 
 interface Job {
   jobId: string;
   entryUsername: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
   maxDepth: number;
   currentDepth: number;
   totalProfiles: number;
@@ -68,12 +71,32 @@ export function JobsList({ refreshTrigger }: JobsListProps) {
     return () => clearInterval(interval);
   }, [refreshTrigger]);
 
+  const handlePauseJob = async (jobId: string) => {
+    try {
+      await fetch(`/api/jobs/${jobId}/pause`, { method: 'POST' });
+      fetchJobs();
+    } catch (error) {
+      console.error('Failed to pause job:', error);
+    }
+  };
+
+  const handleResumeJob = async (jobId: string) => {
+    try {
+      await fetch(`/api/jobs/${jobId}/resume`, { method: 'POST' });
+      fetchJobs();
+    } catch (error) {
+      console.error('Failed to resume job:', error);
+    }
+  };
+
   const getStatusIcon = (status: Job['status']) => {
     switch (status) {
       case 'pending':
         return <Clock className="h-4 w-4 text-yellow-400" />;
       case 'processing':
         return <Loader2 className="h-4 w-4 text-blue-400 animate-spin" />;
+      case 'paused':
+        return <PauseCircle className="h-4 w-4 text-sky-400" />;
       case 'completed':
         return <CheckCircle className="h-4 w-4 text-green-400" />;
       case 'failed':
@@ -87,6 +110,7 @@ export function JobsList({ refreshTrigger }: JobsListProps) {
     const variants: Record<Job['status'], string> = {
       pending: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
       processing: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+      paused: 'bg-sky-500/20 text-sky-400 border-sky-500/30',
       completed: 'bg-green-500/20 text-green-400 border-green-500/30',
       failed: 'bg-red-500/20 text-red-400 border-red-500/30',
       cancelled: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
@@ -159,10 +183,32 @@ export function JobsList({ refreshTrigger }: JobsListProps) {
                       <User className="h-4 w-4 text-zinc-400" />
                       <span className="font-medium text-white">@{job.entryUsername}</span>
                     </div>
-                    {getStatusBadge(job.status)}
+                    <div className="flex items-center gap-1">
+                      {(job.status === 'processing' || job.status === 'pending') && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handlePauseJob(job.jobId)}
+                          className="h-7 w-7 text-sky-400 hover:text-sky-300 hover:bg-sky-900/20"
+                        >
+                          <Pause className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                      {job.status === 'paused' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleResumeJob(job.jobId)}
+                          className="h-7 w-7 text-green-400 hover:text-green-300 hover:bg-green-900/20"
+                        >
+                          <Play className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                      {getStatusBadge(job.status)}
+                    </div>
                   </div>
 
-                  {(job.status === 'processing' || job.status === 'pending') && (
+                  {(job.status === 'processing' || job.status === 'pending' || job.status === 'paused') && (
                     <div className="space-y-1">
                       <div className="flex justify-between text-xs text-zinc-400">
                         <span>Progress</span>
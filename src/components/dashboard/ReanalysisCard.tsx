@@ -0,0 +1,264 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Loader2,
+  Sparkles,
+  Search,
+  Play,
+  AlertCircle,
+  CheckCircle,
+} from 'lucide-react';
+
+interface ReanalysisJob {
+  jobId: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  totalProfiles: number;
+  processedProfiles: number;
+  failedProfiles: number;
+  progress: number;
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+const STATUS_STYLES: Record<ReanalysisJob['status'], string> = {
+  pending: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  processing: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  completed: 'bg-green-500/20 text-green-400 border-green-500/30',
+  failed: 'bg-red-500/20 text-red-400 border-red-500/30',
+};
+
+export function ReanalysisCard() {
+  const [unknownNiche, setUnknownNiche] = useState(true);
+  const [outdatedVersion, setOutdatedVersion] = useState(false);
+  const [outdatedModel, setOutdatedModel] = useState(false);
+  const [analyzedBefore, setAnalyzedBefore] = useState('');
+  const [matching, setMatching] = useState<number | null>(null);
+  const [latestJob, setLatestJob] = useState<ReanalysisJob | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState('');
+
+  const isActive =
+    latestJob?.status === 'pending' || latestJob?.status === 'processing';
+
+  const criteria = {
+    ...(unknownNiche ? { unknownNiche } : {}),
+    ...(outdatedVersion ? { outdatedVersion } : {}),
+    ...(outdatedModel ? { outdatedModel } : {}),
+    ...(analyzedBefore ? { analyzedBefore } : {}),
+  };
+  const hasCriteria = Object.keys(criteria).length > 0;
+
+  const fetchLatestJob = async () => {
+    try {
+      const response = await fetch('/api/reanalysis');
+      const data = await response.json();
+      if (data.success) {
+        setLatestJob(data.jobs[0] || null);
+      }
+    } catch (error) {
+      console.error('Failed to fetch re-analysis jobs:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchLatestJob();
+  }, []);
+
+  // Poll while a job is running
+  useEffect(() => {
+    if (!isActive) return;
+    const interval = setInterval(fetchLatestJob, 3000);
+    return () => clearInterval(interval);
+  }, [isActive]);
+
+  const submit = async (dryRun: boolean) => {
+    setError('');
+    const response = await fetch('/api/reanalysis', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...criteria, dryRun }),
+    });
+    const data = await response.json();
+    if (!data.success) {
+      setError(data.details?.[0]?.message || data.error || 'Failed to start re-analysis');
+      return null;
+    }
+    return data;
+  };
+
+  const handleCheck = async () => {
+    setChecking(true);
+    try {
+      const data = await submit(true);
+      if (data) setMatching(data.matching);
+    } catch {
+      setError('Connection error. Please try again.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      const data = await submit(false);
+      if (data) {
+        setMatching(null);
+        fetchLatestJob();
+      }
+    } catch {
+      setError('Connection error. Please try again.');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  // Changing the criteria invalidates the last count
+  const updateCriteria = (update: () => void) => {
+    update();
+    setMatching(null);
+  };
+
+  return (
+    <Card className="bg-zinc-900/50 border-zinc-800">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Sparkles className="h-5 w-5 text-purple-400" />
+          Re-analyze Profiles
+        </CardTitle>
+        <CardDescription className="text-zinc-400">
+          Jalankan ulang analisis AI dan embedding untuk profile yang niche-nya
+          Unknown atau hasil analisisnya sudah usang
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive" className="bg-red-900/50 border-red-800">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-3">
+          <Label className="text-zinc-300">Kriteria (salah satu terpenuhi)</Label>
+          <div className="flex flex-col gap-2">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={unknownNiche}
+                onChange={(e) => updateCriteria(() => setUnknownNiche(e.target.checked))}
+                className="rounded border-zinc-600 bg-zinc-800 text-purple-500 focus:ring-purple-500"
+              />
+              <span className="text-sm text-zinc-300">Niche Unknown</span>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={outdatedVersion}
+                onChange={(e) => updateCriteria(() => setOutdatedVersion(e.target.checked))}
+                className="rounded border-zinc-600 bg-zinc-800 text-purple-500 focus:ring-purple-500"
+              />
+              <span className="text-sm text-zinc-300">Dianalisis dengan versi prompt lama</span>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={outdatedModel}
+                onChange={(e) => updateCriteria(() => setOutdatedModel(e.target.checked))}
+                className="rounded border-zinc-600 bg-zinc-800 text-purple-500 focus:ring-purple-500"
+              />
+              <span className="text-sm text-zinc-300">Dianalisis dengan model lain</span>
+            </label>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="analyzedBefore" className="text-zinc-300">
+            Dianalisis sebelum
+          </Label>
+          <Input
+            id="analyzedBefore"
+            type="date"
+            value={analyzedBefore}
+            onChange={(e) => updateCriteria(() => setAnalyzedBefore(e.target.value))}
+            className="bg-zinc-800 border-zinc-700 text-white focus:border-purple-500"
+          />
+        </div>
+
+        {matching !== null && (
+          <p className="text-sm text-zinc-400">
+            {matching.toLocaleString()} profile cocok dengan kriteria ini
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={handleCheck}
+            disabled={checking || !hasCriteria}
+            className="flex-1 bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700"
+          >
+            {checking ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Search className="mr-2 h-4 w-4" />
+            )}
+            Cek Jumlah
+          </Button>
+          <Button
+            onClick={handleStart}
+            disabled={starting || isActive || !hasCriteria || matching === 0}
+            className="flex-1 bg-gradient-to-r from-pink-500 via-purple-500 to-orange-500 text-white font-semibold"
+          >
+            {starting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Play className="mr-2 h-4 w-4" />
+            )}
+            Mulai
+          </Button>
+        </div>
+
+        {latestJob && (
+          <div className="p-4 rounded-lg bg-zinc-800/50 border border-zinc-700 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-zinc-300">Re-analysis terakhir</span>
+              <Badge variant="outline" className={STATUS_STYLES[latestJob.status]}>
+                {isActive && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                {latestJob.status === 'completed' && <CheckCircle className="mr-1 h-3 w-3" />}
+                <span className="capitalize">{latestJob.status}</span>
+              </Badge>
+            </div>
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-zinc-400">
+                <span>Progress</span>
+                <span>
+                  {latestJob.processedProfiles + latestJob.failedProfiles} / {latestJob.totalProfiles} profiles
+                </span>
+              </div>
+              <Progress value={latestJob.progress} className="h-2 bg-zinc-700" />
+            </div>
+            {latestJob.failedProfiles > 0 && (
+              <p className="text-xs text-red-400">Failed: {latestJob.failedProfiles}</p>
+            )}
+            {latestJob.error && (
+              <p className="text-xs text-red-400 bg-red-900/20 rounded p-2">
+                {latestJob.error}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
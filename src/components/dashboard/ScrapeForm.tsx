@@ -20,6 +20,7 @@ import {
   ImageIcon,
   AlertCircle,
   CheckCircle,
+  UsersRound,
 } from "lucide-react";
 
 interface ScrapeFormProps {
@@ -32,6 +33,8 @@ export function ScrapeForm({ onJobStarted }: ScrapeFormProps) {
   const [scrapeFollowers, setScrapeFollowers] = useState(true);
   const [scrapeFollowing, setScrapeFollowing] = useState(true);
   const [scrapePosts, setScrapePosts] = useState(true);
+  const [reuseWithinDays, setReuseWithinDays] = useState(0);
+  const [useSessionPool, setUseSessionPool] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
@@ -52,6 +55,8 @@ export function ScrapeForm({ onJobStarted }: ScrapeFormProps) {
           scrapeFollowers,
           scrapeFollowing,
           scrapePosts,
+          reuseWithinDays,
+          useSessionPool,
         }),
       });
 
@@ -145,6 +150,25 @@ export function ScrapeForm({ onJobStarted }: ScrapeFormProps) {
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="reuse" className="text-zinc-300">
+              Reuse Recent Profiles (days)
+            </Label>
+            <Input
+              id="reuse"
+              type="number"
+              min={0}
+              max={90}
+              value={reuseWithinDays}
+              onChange={(e) => setReuseWithinDays(parseInt(e.target.value) || 0)}
+              className="bg-zinc-800 border-zinc-700 text-white focus:border-purple-500"
+            />
+            <p className="text-xs text-zinc-500">
+              0 = selalu scrape ulang, N = pakai data profil yang sudah di-scrape
+              dalam N hari terakhir.
+            </p>
+          </div>
+
           <div className="space-y-3">
             <Label className="text-zinc-300">Data to Scrape</Label>
             <div className="flex flex-wrap gap-3">
@@ -183,6 +207,24 @@ export function ScrapeForm({ onJobStarted }: ScrapeFormProps) {
             </div>
           </div>
 
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useSessionPool}
+                onChange={(e) => setUseSessionPool(e.target.checked)}
+                className="rounded border-zinc-600 bg-zinc-800 text-purple-500 focus:ring-purple-500"
+              />
+              <UsersRound className="h-4 w-4 text-zinc-400" />
+              <span className="text-sm text-zinc-300">Gunakan akun-akun di session pool</span>
+            </label>
+            <p className="text-xs text-zinc-500">
+              Scraping dibagi ke akun ini dan akun tim yang memilih &quot;Bagikan ke
+              session pool&quot; di menu akun, dengan kuota dan jeda per akun.
+              Akun yang terkena challenge otomatis dikeluarkan dari rotasi.
+            </p>
+          </div>
+
           <Button
             type="submit"
             disabled={loading || !username}
@@ -0,0 +1,207 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Loader2,
+  Search,
+  Heart,
+  MessageCircle,
+  ExternalLink,
+  ImageIcon,
+  AlertCircle,
+} from 'lucide-react';
+
+interface PostResult {
+  postId: string;
+  shortcode: string;
+  username: string;
+  caption: string;
+  type: 'post' | 'reel' | 'carousel';
+  likesCount: number;
+  commentsCount: number;
+  postedAt: string;
+  score: number;
+  url: string;
+}
+
+const EXAMPLE_QUERY = 'reels tentang budget travel dengan >1k likes';
+
+export function PostSearch() {
+  const [query, setQuery] = useState('');
+  const [type, setType] = useState('-');
+  const [minLikes, setMinLikes] = useState('');
+  const [username, setUsername] = useState('');
+  const [posts, setPosts] = useState<PostResult[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const params = new URLSearchParams({ q: query });
+      if (type !== '-') params.set('type', type);
+      if (minLikes) params.set('minLikes', minLikes);
+      if (username) params.set('username', username);
+
+      const response = await fetch(`/api/posts/search?${params}`);
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.details?.[0]?.message || data.error || 'Search failed');
+        return;
+      }
+      setPosts(data.posts);
+    } catch {
+      setError('Connection error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <form onSubmit={handleSearch} className="flex flex-col md:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-zinc-500" />
+          <Input
+            type="text"
+            placeholder={EXAMPLE_QUERY}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-10 bg-zinc-800 border-zinc-700 text-white placeholder:text-zinc-500"
+          />
+        </div>
+
+        <Select value={type} onValueChange={setType}>
+          <SelectTrigger className="w-[150px] bg-zinc-800 border-zinc-700 text-white">
+            <SelectValue placeholder="All Types" />
+          </SelectTrigger>
+          <SelectContent className="bg-zinc-800 border-zinc-700">
+            <SelectItem value="-">All Types</SelectItem>
+            <SelectItem value="post">Post</SelectItem>
+            <SelectItem value="reel">Reel</SelectItem>
+            <SelectItem value="carousel">Carousel</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Input
+          type="number"
+          min={0}
+          placeholder="Min likes"
+          value={minLikes}
+          onChange={(e) => setMinLikes(e.target.value)}
+          className="md:w-[130px] bg-zinc-800 border-zinc-700 text-white placeholder:text-zinc-500"
+        />
+
+        <Input
+          type="text"
+          placeholder="@username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value.replace('@', ''))}
+          className="md:w-[160px] bg-zinc-800 border-zinc-700 text-white placeholder:text-zinc-500"
+        />
+
+        <Button
+          type="submit"
+          disabled={loading || !query.trim()}
+          className="bg-purple-600 hover:bg-purple-700"
+        >
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Search'}
+        </Button>
+      </form>
+
+      <p className="text-xs text-zinc-500">
+        Filter juga bisa ditulis langsung di pencarian, misalnya &quot;{EXAMPLE_QUERY}&quot;.
+      </p>
+
+      {error && (
+        <Alert variant="destructive" className="bg-red-900/50 border-red-800">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Results */}
+      {posts && posts.length === 0 && (
+        <div className="text-center py-12 text-zinc-500">
+          <ImageIcon className="h-12 w-12 mx-auto mb-3 opacity-50" />
+          <p>Tidak ada post yang cocok.</p>
+        </div>
+      )}
+
+      {posts && posts.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {posts.map((post) => (
+            <Card key={post.postId} className="bg-zinc-900/50 border-zinc-800">
+              <CardContent className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <Link
+                    href={`/profiles/${post.username}`}
+                    className="font-medium text-white hover:text-purple-400"
+                  >
+                    @{post.username}
+                  </Link>
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant="outline"
+                      className="bg-zinc-800/50 text-zinc-300 border-zinc-700 capitalize"
+                    >
+                      {post.type}
+                    </Badge>
+                    <span className="text-xs text-zinc-500">
+                      {Math.round(post.score * 100)}%
+                    </span>
+                  </div>
+                </div>
+
+                <p className="text-sm text-zinc-300 line-clamp-4 whitespace-pre-line">
+                  {post.caption}
+                </p>
+
+                <div className="flex items-center justify-between text-xs text-zinc-400">
+                  <div className="flex items-center gap-3">
+                    <span className="flex items-center gap-1">
+                      <Heart className="h-3 w-3" />
+                      {post.likesCount.toLocaleString()}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <MessageCircle className="h-3 w-3" />
+                      {post.commentsCount.toLocaleString()}
+                    </span>
+                    <span>{new Date(post.postedAt).toLocaleDateString('id-ID')}</span>
+                  </div>
+                  <a
+                    href={post.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 hover:text-white"
+                  >
+                    <ExternalLink className="h-3 w-3" />
+                    Buka
+                  </a>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, ArrowLeftRight, UserPlus, UserMinus } from 'lucide-react';
+import Link from 'next/link';
+
+interface FollowChangeEvent {
+  relatedUsername: string;
+  change: 'gained' | 'lost';
+  detectedAt: string;
+}
+
+type ChangeFilter = 'all' | 'gained' | 'lost';
+type ListFilter = 'followers' | 'following';
+
+interface FollowChangesProps {
+  username: string;
+}
+
+export function FollowChanges({ username }: FollowChangesProps) {
+  const [events, setEvents] = useState<FollowChangeEvent[]>([]);
+  const [counts, setCounts] = useState({ gained: 0, lost: 0 });
+  const [change, setChange] = useState<ChangeFilter>('all');
+  const [list, setList] = useState<ListFilter>('followers');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchChanges = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({
+          list,
+          page: page.toString(),
+          days: '90',
+        });
+        if (change !== 'all') params.set('change', change);
+
+        const response = await fetch(`/api/profiles/${username}/changes?${params}`);
+        const data = await response.json();
+
+        if (data.success) {
+          setEvents(data.events);
+          setCounts(data.counts);
+          setTotalPages(Math.max(data.pagination.totalPages, 1));
+        }
+      } catch (error) {
+        console.error('Failed to fetch follow changes:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchChanges();
+  }, [username, change, list, page]);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('id-ID', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+  };
+
+  const filterButtonClass = (active: boolean) =>
+    active
+      ? 'bg-purple-500/20 text-purple-400 hover:bg-purple-500/30'
+      : 'text-zinc-400 hover:text-white';
+
+  return (
+    <Card className="bg-zinc-900/50 border-zinc-800">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-white flex items-center gap-2">
+            <ArrowLeftRight className="h-5 w-5 text-purple-400" />
+            Changes (90 hari terakhir)
+          </CardTitle>
+          <div className="flex gap-1">
+            {(['followers', 'following'] as ListFilter[]).map((value) => (
+              <Button
+                key={value}
+                size="sm"
+                variant="ghost"
+                onClick={() => { setList(value); setPage(1); }}
+                className={filterButtonClass(list === value)}
+              >
+                {value === 'followers' ? 'Followers' : 'Following'}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-1 pt-2">
+          {(['all', 'gained', 'lost'] as ChangeFilter[]).map((value) => (
+            <Button
+              key={value}
+              size="sm"
+              variant="ghost"
+              onClick={() => { setChange(value); setPage(1); }}
+              className={filterButtonClass(change === value)}
+            >
+              {value === 'all' && `All (${counts.gained + counts.lost})`}
+              {value === 'gained' && `Gained (${counts.gained})`}
+              {value === 'lost' && `Lost (${counts.lost})`}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-purple-400" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-zinc-500 text-center py-8">
+            Belum ada perubahan. Perubahan muncul setelah profil ini di-scrape ulang.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {events.map((event) => (
+              <div
+                key={`${event.relatedUsername}-${event.detectedAt}`}
+                className="flex items-center justify-between p-2 rounded-lg bg-zinc-800/30"
+              >
+                <div className="flex items-center gap-2">
+                  {event.change === 'gained' ? (
+                    <UserPlus className="h-4 w-4 text-green-400" />
+                  ) : (
+                    <UserMinus className="h-4 w-4 text-red-400" />
+                  )}
+                  <Link
+                    href={`/profiles/${event.relatedUsername}`}
+                    className="text-zinc-300 hover:text-purple-400"
+                  >
+                    @{event.relatedUsername}
+                  </Link>
+                  <Badge
+                    variant="outline"
+                    className={event.change === 'gained'
+                      ? 'bg-green-500/20 text-green-400 border-green-500/30'
+                      : 'bg-red-500/20 text-red-400 border-red-500/30'}
+                  >
+                    {event.change === 'gained' ? 'Gained' : 'Lost'}
+                  </Badge>
+                </div>
+                <span className="text-xs text-zinc-500">{formatDate(event.detectedAt)}</span>
+              </div>
+            ))}
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-center gap-2 pt-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={page <= 1}
+                  onClick={() => setPage(page - 1)}
+                  className="border-zinc-700 text-zinc-300"
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-zinc-500">
+                  {page} / {totalPages}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={page >= totalPages}
+                  onClick={() => setPage(page + 1)}
+                  className="border-zinc-700 text-zinc-300"
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2, TrendingUp } from 'lucide-react';
+
+interface Snapshot {
+  scrapedAt: string;
+  followersCount: number;
+  followingCount: number;
+  postsCount: number;
+  followersGained: number | null;
+  followersLost: number | null;
+}
+
+interface WeeklyGrowth {
+  weekStart: string;
+  followersCount: number;
+  followersChange: number | null;
+  followingChange: number | null;
+  postsChange: number | null;
+  followersGained: number;
+  followersLost: number;
+}
+
+type Metric = 'followersCount' | 'followingCount' | 'postsCount';
+
+const METRICS: Array<{ key: Metric; label: string }> = [
+  { key: 'followersCount', label: 'Followers' },
+  { key: 'followingCount', label: 'Following' },
+  { key: 'postsCount', label: 'Posts' },
+];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = 8;
+
+interface GrowthChartProps {
+  username: string;
+}
+
+export function GrowthChart({ username }: GrowthChartProps) {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [weekly, setWeekly] = useState<WeeklyGrowth[]>([]);
+  const [metric, setMetric] = useState<Metric>('followersCount');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(`/api/profiles/${username}/history`);
+        const data = await response.json();
+
+        if (data.success) {
+          setSnapshots(data.snapshots);
+          setWeekly(data.weekly);
+        }
+      } catch (error) {
+        console.error('Failed to fetch profile history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [username]);
+
+  const formatChange = (change: number | null) => {
+    if (change === null) return '-';
+    return change > 0 ? `+${change.toLocaleString()}` : change.toLocaleString();
+  };
+
+  const changeColor = (change: number | null) => {
+    if (!change) return 'text-zinc-400';
+    return change > 0 ? 'text-green-400' : 'text-red-400';
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('id-ID', {
+      day: 'numeric',
+      month: 'short',
+    });
+  };
+
+  // Scale the selected metric into the SVG viewBox
+  const values = snapshots.map((snapshot) => snapshot[metric]);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const points = values.map((value, i) => {
+    const x = values.length > 1
+      ? CHART_PADDING + (i / (values.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2)
+      : CHART_WIDTH / 2;
+    const y = CHART_HEIGHT - CHART_PADDING - ((value - min) / range) * (CHART_HEIGHT - CHART_PADDING * 2);
+    return { x, y, value };
+  });
+
+  return (
+    <Card className="bg-zinc-900/50 border-zinc-800">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-white flex items-center gap-2">
+            <TrendingUp className="h-5 w-5 text-purple-400" />
+            Growth
+          </CardTitle>
+          <div className="flex gap-1">
+            {METRICS.map(({ key, label }) => (
+              <Button
+                key={key}
+                size="sm"
+                variant="ghost"
+                onClick={() => setMetric(key)}
+                className={metric === key
+                  ? 'bg-purple-500/20 text-purple-400 hover:bg-purple-500/30'
+                  : 'text-zinc-400 hover:text-white'}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-purple-400" />
+          </div>
+        ) : snapshots.length < 2 ? (
+          <p className="text-zinc-500 text-center py-8">
+            Belum cukup data. Scrape profil ini lagi untuk melihat pertumbuhan.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <svg
+                viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+                className="w-full h-44"
+                preserveAspectRatio="none"
+              >
+                <polyline
+                  fill="none"
+                  stroke="#a855f7"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                  points={points.map((p) => `${p.x},${p.y}`).join(' ')}
+                />
+                {points.map((p, i) => (
+                  <circle key={i} cx={p.x} cy={p.y} r={3} fill="#a855f7">
+                    <title>
+                      {formatDate(snapshots[i].scrapedAt)}: {p.value.toLocaleString()}
+                    </title>
+                  </circle>
+                ))}
+              </svg>
+              <div className="flex justify-between text-xs text-zinc-500 mt-1">
+                <span>{formatDate(snapshots[0].scrapedAt)}</span>
+                <span>
+                  {min.toLocaleString()} - {max.toLocaleString()}
+                </span>
+                <span>{formatDate(snapshots[snapshots.length - 1].scrapedAt)}</span>
+              </div>
+            </div>
+
+            {weekly.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-zinc-500 border-b border-zinc-800">
+                      <th className="py-2 font-normal">Week</th>
+                      <th className="py-2 font-normal">Followers</th>
+                      <th className="py-2 font-normal">Change</th>
+                      <th className="py-2 font-normal">Gained / Lost</th>
+                      <th className="py-2 font-normal">Posts</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...weekly].reverse().map((week) => (
+                      <tr key={week.weekStart} className="border-b border-zinc-800/50">
+                        <td className="py-2 text-zinc-300">{formatDate(week.weekStart)}</td>
+                        <td className="py-2 text-white">{week.followersCount.toLocaleString()}</td>
+                        <td className={`py-2 ${changeColor(week.followersChange)}`}>
+                          {formatChange(week.followersChange)}
+                        </td>
+                        <td className="py-2 text-zinc-400">
+                          <span className="text-green-400">+{week.followersGained}</span>
+                          {' / '}
+                          <span className="text-red-400">-{week.followersLost}</span>
+                        </td>
+                        <td className={`py-2 ${changeColor(week.postsChange)}`}>
+                          {formatChange(week.postsChange)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,11 +2,15 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
+import type { SessionProxyInfo } from '@/types';
 
 interface Session {
   valid: boolean;
   username?: string;
   sessionId?: string;
+  proxy?: SessionProxyInfo;
+  challenged?: boolean;
+  shareInPool?: boolean;
 }
 
 export function useSession(requireAuth: boolean = false) {
@@ -58,6 +62,9 @@ export function useSession(requireAuth: boolean = false) {
     loading,
     isAuthenticated: session?.valid ?? false,
     username: session?.username,
+    proxy: session?.proxy,
+    challenged: session?.challenged ?? false,
+    shareInPool: session?.shareInPool ?? false,
     logout,
     refreshSession,
   };
@@ -0,0 +1,215 @@
+import { streamChatStep, type AgentMessage } from "./openai";
+import { getChatToolDefinitions, runChatTool } from "./chatTools";
+import { buildComprehensiveContext, searchRelevantProfiles } from "./rag";
+import { searchPosts, type PostSearchResult } from "./postSearch";
+import type { ProfileMetadata } from "../qdrant/client";
+import type { ChatMessage, ProfileSource, ToolCallRecord } from "@/types";
+
+// Model turns that may call tools before it has to answer
+const MAX_TOOL_STEPS = 5;
+
+const BUSY_RESPONSE =
+  "Maaf, layanan sedang sibuk. Silakan coba lagi dalam beberapa saat.";
+
+export type ChatEvent =
+  | { type: "token"; text: string }
+  | { type: "tool"; call: ToolCallRecord };
+
+// Reply for requests that can't be answered, or null if the chat can proceed
+function getUnanswerableResponse(
+  lastUserMessage: ChatMessage | undefined,
+  sessionId: string | undefined
+): string | null {
+  if (!lastUserMessage) {
+    return "Silakan ajukan pertanyaan tentang data Instagram profiles.";
+  }
+  if (!sessionId) {
+    return "Session tidak ditemukan. Silakan login ulang.";
+  }
+  return null;
+}
+
+// Build the base LLM context and profile and post sources for a user question
+async function buildChatContext(
+  question: string,
+  sessionId: string
+): Promise<{ context: string; sources: ProfileSource[] }> {
+  // Search for relevant profiles (for specific profile questions)
+  let relevantProfiles: Array<{
+    username: string;
+    score: number;
+    metadata: ProfileMetadata;
+  }> = [];
+
+  try {
+    relevantProfiles = await searchRelevantProfiles(question, sessionId, 5);
+  } catch (error) {
+    // If Qdrant search fails, continue with just stats
+    console.error("Qdrant search error:", error);
+  }
+
+  // Posts let answers cite the specific content they are based on
+  let relevantPosts: PostSearchResult[] = [];
+  try {
+    relevantPosts = await searchPosts(question, { sessionId }, 5);
+  } catch (error) {
+    console.error("Qdrant post search error:", error);
+  }
+
+  // Build comprehensive context including statistics
+  const context = await buildComprehensiveContext(
+    sessionId,
+    relevantProfiles,
+    relevantPosts
+  );
+
+  const sources: ProfileSource[] = [
+    ...relevantProfiles.map((profile) => ({
+      username: profile.username,
+      relevance: profile.score,
+      snippet:
+        profile.metadata.bio || profile.metadata.niche || "No description",
+    })),
+    ...relevantPosts.map((post) => ({
+      username: post.username,
+      relevance: post.score,
+      snippet: post.caption.slice(0, 200),
+      shortcode: post.shortcode,
+      postType: post.type,
+    })),
+  ];
+
+  return { context, sources };
+}
+
+/**
+ * Let the model answer, calling tools across up to MAX_TOOL_STEPS turns.
+ * Yields answer tokens as they stream and each tool call once it has run.
+ */
+async function* runAgent(
+  messages: ChatMessage[],
+  sessionId: string,
+  context: string,
+  signal?: AbortSignal
+): AsyncGenerator<ChatEvent> {
+  const tools = getChatToolDefinitions();
+  const history: AgentMessage[] = messages.map((m) => ({
+    role: m.role,
+    content: m.content,
+  }));
+
+  for (let step = 0; step <= MAX_TOOL_STEPS; step++) {
+    // The last turn gets no tools so the model has to answer
+    const stepStream = streamChatStep(
+      history,
+      context,
+      step < MAX_TOOL_STEPS ? tools : [],
+      signal
+    );
+
+    let next = await stepStream.next();
+    while (!next.done) {
+      yield { type: "token", text: next.value };
+      next = await stepStream.next();
+    }
+
+    const { content, toolCalls } = next.value;
+    if (toolCalls.length === 0) {
+      return;
+    }
+
+    history.push({ role: "assistant", content, toolCalls });
+    for (const call of toolCalls) {
+      const record = await runChatTool(call, sessionId);
+      yield { type: "tool", call: record };
+      history.push({ role: "tool", toolCallId: call.id, content: record.result });
+    }
+  }
+}
+
+export async function chat(
+  messages: ChatMessage[],
+  sessionId?: string
+): Promise<{
+  response: string;
+  sources: ProfileSource[];
+  toolCalls: ToolCallRecord[];
+  context?: string;
+}> {
+  // Get the last user message for context search
+  const lastUserMessage = [...messages]
+    .reverse()
+    .find((m) => m.role === "user");
+
+  const unanswerable = getUnanswerableResponse(lastUserMessage, sessionId);
+  if (unanswerable || !lastUserMessage || !sessionId) {
+    return { response: unanswerable || "", sources: [], toolCalls: [] };
+  }
+
+  const { context, sources } = await buildChatContext(
+    lastUserMessage.content,
+    sessionId
+  );
+
+  let response = "";
+  const toolCalls: ToolCallRecord[] = [];
+
+  try {
+    for await (const event of runAgent(messages, sessionId, context)) {
+      if (event.type === "token") {
+        response += event.text;
+      } else {
+        toolCalls.push(event.call);
+      }
+    }
+  } catch (error) {
+    console.error("[chat] Failed after all retries:", error);
+    response = BUSY_RESPONSE;
+  }
+
+  return {
+    response:
+      response ||
+      "Maaf, saya tidak dapat menghasilkan respons. Silakan coba lagi.",
+    sources,
+    toolCalls,
+    context,
+  };
+}
+
+/**
+ * Streaming variant of chat(). Context and sources are resolved before the
+ * first event; answer tokens and tool calls are yielded as they happen.
+ */
+export async function chatStream(
+  messages: ChatMessage[],
+  sessionId: string | undefined,
+  signal?: AbortSignal
+): Promise<{
+  events: AsyncIterable<ChatEvent> | Iterable<ChatEvent>;
+  sources: ProfileSource[];
+  context?: string;
+}> {
+  const lastUserMessage = [...messages]
+    .reverse()
+    .find((m) => m.role === "user");
+
+  const unanswerable = getUnanswerableResponse(lastUserMessage, sessionId);
+  if (unanswerable || !lastUserMessage || !sessionId) {
+    return {
+      events: [{ type: "token", text: unanswerable || "" }],
+      sources: [],
+    };
+  }
+
+  const { context, sources } = await buildChatContext(
+    lastUserMessage.content,
+    sessionId
+  );
+
+  return {
+    events: runAgent(messages, sessionId, context, signal),
+    sources,
+    context,
+  };
+}
@@ -0,0 +1,273 @@
+import { z } from "zod";
+import { findOwnedProfile, findOwnedProfiles } from "../db/ownedProfiles";
+import {
+  formatStatsContext,
+  getComprehensiveStats,
+  getFollowChangesContext,
+  getFollowersFollowingNicheAnalysis,
+  getFollowingNicheAnalysis,
+  getRelationshipContext,
+  formatPostsContext,
+} from "./rag";
+import { searchPosts } from "./postSearch";
+import { searchProfiles } from "./profileSearch";
+import type { ChatToolDefinition, ToolCallRequest } from "./openai";
+import type { ToolCallRecord } from "@/types";
+
+// Tool output longer than this is cut to keep the prompt bounded
+const MAX_RESULT_LENGTH = 12000;
+
+interface ChatTool<T extends z.ZodObject> {
+  name: string;
+  description: string;
+  schema: T;
+  run: (args: z.infer<T>, sessionId: string) => Promise<string>;
+}
+
+// Keeps each tool's run() typed against its own schema
+function defineTool<T extends z.ZodObject>(tool: ChatTool<T>): ChatTool<T> {
+  return tool;
+}
+
+const username = z
+  .string()
+  .regex(/^@?[\w.]+$/)
+  .describe("Instagram username, tanpa @");
+
+function normalizeUsername(value: string): string {
+  return value.replace(/^@/, "").toLowerCase();
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const CHAT_TOOLS = [
+  defineTool({
+    name: "get_profile",
+    description:
+      "Ambil detail satu profile yang sudah di-scrape: bio, jumlah followers/following/posts, niche, interests, dan kapan di-scrape.",
+    schema: z.object({ username }),
+    run: async ({ username }, sessionId) => {
+      const profile = await findOwnedProfile(normalizeUsername(username), sessionId);
+      if (!profile) {
+        return `Profile @${username} tidak ditemukan dalam database.`;
+      }
+      return [
+        `Profile @${profile.username}`,
+        `Name: ${profile.fullName || "N/A"}`,
+        `Bio: ${profile.bio || "N/A"}`,
+        `Followers: ${profile.followersCount}`,
+        `Following: ${profile.followingCount}`,
+        `Posts: ${profile.postsCount}`,
+        `Niche: ${profile.niche || "Unknown"}`,
+        `Interests: ${(profile.interests || []).join(", ") || "Unknown"}`,
+        `Private: ${profile.isPrivate ? "Yes" : "No"}`,
+        `Verified: ${profile.isVerified ? "Yes" : "No"}`,
+        `Scraped: ${new Date(profile.scrapedAt).toISOString()} (depth ${profile.scrapedDepth}${profile.parentUsername ? `, dari @${profile.parentUsername}` : ""})`,
+      ].join("\n");
+    },
+  }),
+  defineTool({
+    name: "list_relationships",
+    description:
+      "Daftar followers atau following sebuah akun yang tersimpan, 100 akun per halaman.",
+    schema: z.object({
+      username,
+      type: z.enum(["followers", "following"]),
+      page: z.number().int().min(1).optional().describe("Halaman, mulai dari 1"),
+    }),
+    run: async ({ username, type, page }, sessionId) =>
+      getRelationshipContext(normalizeUsername(username), type, sessionId, page || 1),
+  }),
+  defineTool({
+    name: "following_niche_analysis",
+    description:
+      "Distribusi niche dan interests dari akun-akun yang di-follow oleh sebuah akun.",
+    schema: z.object({ username }),
+    run: async ({ username }, sessionId) =>
+      getFollowingNicheAnalysis(normalizeUsername(username), sessionId),
+  }),
+  defineTool({
+    name: "followers_following_niche_analysis",
+    description:
+      "Analisis agregat: niche apa yang paling banyak di-follow oleh followers dari sebuah akun.",
+    schema: z.object({ username }),
+    run: async ({ username }, sessionId) =>
+      getFollowersFollowingNicheAnalysis(normalizeUsername(username), sessionId),
+  }),
+  defineTool({
+    name: "find_profiles_by_niche",
+    description:
+      "Cari profile yang sudah di-scrape berdasarkan niche (pencocokan sebagian, tidak case-sensitive), diurutkan dari followers terbanyak.",
+    schema: z.object({
+      niche: z.string().min(1).describe('Nama niche, misalnya "Fitness" atau "Food & Cooking"'),
+      limit: z.number().int().min(1).max(50).optional().describe("Jumlah profile, default 20"),
+    }),
+    run: async ({ niche, limit }, sessionId) => {
+      const profiles = await findOwnedProfiles(sessionId, {
+        match: { niche: { $regex: escapeRegex(niche), $options: "i" } },
+        sort: { followersCount: -1 },
+        limit: limit || 20,
+      });
+      if (profiles.length === 0) {
+        return `Tidak ada profile dengan niche "${niche}".`;
+      }
+      return [
+        `Profile dengan niche "${niche}" (${profiles.length} teratas):`,
+        ...profiles.map(
+          (p, i) =>
+            `${i + 1}. @${p.username} - ${p.followersCount.toLocaleString()} followers (${p.niche}) - ${p.bio?.slice(0, 100) || "no bio"}`
+        ),
+      ].join("\n");
+    },
+  }),
+  defineTool({
+    name: "search_profiles",
+    description:
+      "Pencarian profile berdasarkan deskripsi bebas (misalnya \"pelatih gym di Surabaya\"). Filter di dalam query seperti niche, jumlah followers (\"over 50k followers\"), verified, private/public, depth, atau \"followers of @akun\" ikut diterapkan.",
+    schema: z.object({
+      query: z.string().min(1),
+      limit: z.number().int().min(1).max(20).optional().describe("Jumlah hasil, default 10"),
+    }),
+    run: async ({ query, limit }, sessionId) => {
+      const { profiles, filter } = await searchProfiles(query, { sessionId }, limit || 10);
+      const { text, ...applied } = filter;
+      const filterLine = `Filter: ${JSON.stringify(applied)}${text ? `, teks: "${text}"` : ""}`;
+      if (profiles.length === 0) {
+        return `Tidak ada profile yang cocok dengan "${query}".\n${filterLine}`;
+      }
+      return [
+        filterLine,
+        ...profiles.map(
+          (r, i) =>
+            `${i + 1}. @${r.username} (relevance ${(r.score * 100).toFixed(1)}%) - ${r.metadata.niche || "Unknown"} - ${r.metadata.followersCount} followers${r.metadata.isVerified ? ", verified" : ""} - ${r.metadata.bio?.slice(0, 100) || "no bio"}`
+        ),
+      ].join("\n");
+    },
+  }),
+  defineTool({
+    name: "search_posts",
+    description:
+      "Pencarian semantik post dan reels berdasarkan caption (misalnya \"reels tentang budget travel\"). Hasilnya berisi link post untuk dikutip sebagai sumber.",
+    schema: z.object({
+      query: z.string().min(1),
+      type: z.enum(["post", "reel", "carousel"]).optional(),
+      minLikes: z.number().int().min(0).optional().describe("Minimal jumlah likes"),
+      username: username.optional().describe("Hanya post dari akun ini, tanpa @"),
+      limit: z.number().int().min(1).max(20).optional().describe("Jumlah hasil, default 10"),
+    }),
+    run: async ({ query, type, minLikes, username, limit }, sessionId) => {
+      const posts = await searchPosts(
+        query,
+        {
+          sessionId,
+          type,
+          minLikes,
+          username: username ? normalizeUsername(username) : undefined,
+        },
+        limit || 10
+      );
+      if (posts.length === 0) {
+        return `Tidak ada post yang cocok dengan "${query}".`;
+      }
+      return formatPostsContext(posts);
+    },
+  }),
+  defineTool({
+    name: "get_stats",
+    description:
+      "Statistik seluruh profile di session ini: distribusi niche dan interests, statistik followers, top profiles, dan saran konten.",
+    schema: z.object({
+      weighting: z
+        .enum(["primary", "confidence"])
+        .optional()
+        .describe(
+          'Distribusi niche: "primary" (default) menghitung niche utama saja, "confidence" menghitung semua niche profile dibobot confidence'
+        ),
+    }),
+    run: async ({ weighting }, sessionId) =>
+      formatStatsContext(await getComprehensiveStats(sessionId, weighting)),
+  }),
+  defineTool({
+    name: "follow_changes",
+    description:
+      "Followers baru dan yang unfollow, dibandingkan dengan scrape sebelumnya. Tanpa username berarti semua akun yang di-scrape ulang.",
+    schema: z.object({
+      username: username.optional(),
+      days: z.number().int().min(1).max(365).optional().describe("Periode dalam hari, default 30"),
+    }),
+    run: async ({ username, days }, sessionId) => {
+      const period = days || 30;
+      return getFollowChangesContext(
+        sessionId,
+        username ? normalizeUsername(username) : null,
+        new Date(Date.now() - period * 24 * 60 * 60 * 1000),
+        `${period} hari terakhir`
+      );
+    },
+  }),
+];
+
+const toolsByName = new Map(CHAT_TOOLS.map((tool) => [tool.name, tool]));
+
+export function getChatToolDefinitions(): ChatToolDefinition[] {
+  return CHAT_TOOLS.map((tool) => {
+    const parameters = z.toJSONSchema(tool.schema, { target: "openapi-3.0" });
+    delete parameters.$schema;
+    return { name: tool.name, description: tool.description, parameters };
+  });
+}
+
+/**
+ * Validate and execute a tool call requested by the model. Failures are
+ * returned as the result text so the model can correct itself.
+ */
+export async function runChatTool(
+  call: ToolCallRequest,
+  sessionId: string
+): Promise<ToolCallRecord> {
+  const startedAt = Date.now();
+  let args: Record<string, unknown> = {};
+
+  const fail = (message: string): ToolCallRecord => ({
+    name: call.name,
+    arguments: args,
+    result: `Error: ${message}`,
+    error: true,
+    durationMs: Date.now() - startedAt,
+  });
+
+  const tool = toolsByName.get(call.name);
+  if (!tool) {
+    return fail(`Unknown tool "${call.name}"`);
+  }
+
+  try {
+    args = call.arguments ? JSON.parse(call.arguments) : {};
+  } catch {
+    return fail("Arguments are not valid JSON");
+  }
+
+  const parsed = tool.schema.safeParse(args);
+  if (!parsed.success) {
+    return fail(parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "));
+  }
+
+  try {
+    // The map loses the per-tool pairing of schema and run()
+    const result = await (tool.run as ChatTool<z.ZodObject>["run"])(parsed.data, sessionId);
+    return {
+      name: call.name,
+      arguments: args,
+      result:
+        result.length > MAX_RESULT_LENGTH
+          ? `${result.slice(0, MAX_RESULT_LENGTH)}\n[dipotong]`
+          : result,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    console.error(`[ChatTools] ${call.name} failed:`, error);
+    return fail(error instanceof Error ? error.message : "Tool failed");
+  }
+}
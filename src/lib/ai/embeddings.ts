@@ -1,11 +1,30 @@
 import { generateEmbedding, generateEmbeddings } from "./localEmbeddings";
-import { analyzeInterests, analyzeInterestsBatch, ProfileAnalysisInput, ProfileAnalysisResult } from "./openai";
+import {
+  analyzeInterests,
+  analyzeInterestsBatch,
+  getAnalysisModel,
+  ProfileAnalysisInput,
+  ProfileAnalysisResult,
+} from "./openai";
 import {
   upsertProfileEmbedding,
   upsertBulkProfileEmbeddings,
-  ProfileMetadata,
+  upsertBulkPostEmbeddings,
+  toProfileMetadata,
 } from "../qdrant/client";
-import type { InstagramProfile, InstagramPost } from "@/types";
+import {
+  UNKNOWN_NICHE,
+  canonicalizeNiches,
+  getNicheNames,
+  mergeNicheScores,
+} from "../db/nicheTaxonomy";
+import {
+  LOCAL_CLASSIFIER_MODEL,
+  classifyProfilesLocally,
+  getNicheClassifierMode,
+  isAmbiguous,
+} from "./nicheClassifier";
+import type { InstagramProfile, InstagramPost, NicheScore } from "@/types";
 
 export async function createProfileEmbedding(
   profile: InstagramProfile,
@@ -17,18 +36,12 @@ export async function createProfileEmbedding(
   // Generate embedding
   const embedding = await generateEmbedding(textContent);
 
-  // Prepare metadata
-  const metadata: ProfileMetadata = {
-    username: profile.username,
-    bio: profile.bio || "",
-    interests: profile.interests || [],
-    niche: profile.niche || "Unknown",
-    followersCount: profile.followersCount,
-    sessionId: profile.sessionId,
-  };
-
   // Store in Qdrant
-  await upsertProfileEmbedding(profile.username, embedding, metadata);
+  await upsertProfileEmbedding(
+    profile.username,
+    embedding,
+    toProfileMetadata(profile)
+  );
 }
 
 export async function createBulkProfileEmbeddings(
@@ -49,59 +62,271 @@ export async function createBulkProfileEmbeddings(
   const records = profiles.map(({ profile }, index) => ({
     id: profile.username,
     embedding: embeddings[index],
-    metadata: {
-      username: profile.username,
-      bio: profile.bio || "",
-      interests: profile.interests || [],
-      niche: profile.niche || "Unknown",
-      followersCount: profile.followersCount,
-      sessionId: profile.sessionId,
-    } as ProfileMetadata,
+    metadata: toProfileMetadata(profile),
   }));
 
   // Store in Qdrant
   await upsertBulkProfileEmbeddings(records);
 }
 
+/**
+ * Embed every captioned post on its own, so posts can be searched and cited
+ * individually. Posts are stored under the session of the owning profile.
+ */
+export async function createBulkPostEmbeddings(
+  profiles: Array<{
+    profile: InstagramProfile;
+    posts: InstagramPost[];
+  }>
+): Promise<number> {
+  const captioned = profiles.flatMap(({ profile, posts }) =>
+    posts
+      .filter((post) => post.caption?.trim())
+      .map((post) => ({ profile, post }))
+  );
+  if (captioned.length === 0) {
+    return 0;
+  }
+
+  const embeddings = await generateEmbeddings(
+    captioned.map(({ post }) => post.caption)
+  );
+
+  await upsertBulkPostEmbeddings(
+    captioned.map(({ profile, post }, index) => ({
+      embedding: embeddings[index],
+      metadata: {
+        postId: post.postId,
+        shortcode: post.shortcode,
+        username: profile.username,
+        caption: post.caption,
+        type: post.type,
+        likesCount: post.likesCount,
+        commentsCount: post.commentsCount,
+        postedAt: new Date(post.postedAt).toISOString(),
+        sessionId: profile.sessionId,
+      },
+    }))
+  );
+
+  return captioned.length;
+}
+
+// Taxonomy failures must not lose an analysis; the re-map job fixes leftovers
+async function getPromptNiches(): Promise<string[]> {
+  try {
+    return await getNicheNames();
+  } catch (error) {
+    console.error("[NicheTaxonomy] Failed to load niches:", error);
+    return [];
+  }
+}
+
+async function toCanonicalNiches(labels: string[]): Promise<string[]> {
+  try {
+    return await canonicalizeNiches(labels);
+  } catch (error) {
+    console.error("[NicheTaxonomy] Failed to canonicalize niches:", error);
+    return labels;
+  }
+}
+
+// Map every ranked niche onto the taxonomy and re-derive the top niche
+async function canonicalizeAnalyses<
+  T extends { niche: string; niches: NicheScore[] },
+>(analyses: T[]): Promise<T[]> {
+  const canonical = await toCanonicalNiches(
+    analyses.flatMap((analysis) => analysis.niches.map((n) => n.niche))
+  );
+
+  let next = 0;
+  return analyses.map((analysis) => {
+    const niches = mergeNicheScores(
+      analysis.niches.map((score) => ({ ...score, niche: canonical[next++] }))
+    );
+    return { ...analysis, niche: niches[0]?.niche || UNKNOWN_NICHE, niches };
+  });
+}
+
+type NicheAnalysis = { interests: string[]; niche: string; niches: NicheScore[] };
+
+// An analysis labeled with the model that produced it
+type ModelAnalysis = NicheAnalysis & { model: string };
+
+export type ProfileAnalysis = ProfileAnalysisResult & { model: string };
+
+type ProfileData = { profile: InstagramProfile; posts: InstagramPost[] };
+
+function getCaptions(posts: InstagramPost[]): string[] {
+  return posts.filter((p) => p.caption).map((p) => p.caption);
+}
+
+// The offline classifier failing falls back to the LLM path
+async function tryClassifyLocally(
+  profilesData: ProfileData[]
+): Promise<ModelAnalysis[] | null> {
+  try {
+    const results = await classifyProfilesLocally(
+      profilesData.map(({ profile, posts }) => ({
+        // Leave out any previous analysis so it doesn't vote for itself
+        text: buildProfileText(
+          { ...profile, interests: [], niche: undefined, niches: undefined },
+          posts
+        ),
+        bio: profile.bio || "",
+        captions: getCaptions(posts),
+      }))
+    );
+    return results.map((result) => ({ ...result, model: LOCAL_CLASSIFIER_MODEL }));
+  } catch (error) {
+    console.error("[NicheClassifier] Local classification failed:", error);
+    return null;
+  }
+}
+
+// In the combined modes an LLM failure is covered by the offline classifier
+async function tryRunLLM(
+  runLLM: () => Promise<ModelAnalysis[]>
+): Promise<ModelAnalysis[] | null> {
+  try {
+    return await runLLM();
+  } catch (error) {
+    console.error("[NicheClassifier] LLM analysis failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Assign interests and niches with the classifier(s) chosen by
+ * NICHE_CLASSIFIER. `analyze` runs the LLM on the profiles it gets, in order.
+ * Throws when no classifier could analyze the profiles.
+ */
+async function classifyProfiles(
+  profilesData: ProfileData[],
+  analyze: (profilesData: ProfileData[]) => Promise<NicheAnalysis[]>
+): Promise<ModelAnalysis[]> {
+  const mode = getNicheClassifierMode();
+  const runLLM = async (subset: ProfileData[]): Promise<ModelAnalysis[]> => {
+    const model = getAnalysisModel();
+    const results = await analyze(subset);
+    return results.map((result) => ({ ...result, model }));
+  };
+
+  if (mode === "llm") {
+    return runLLM(profilesData);
+  }
+
+  if (mode === "fallback") {
+    const llm = await tryRunLLM(() => runLLM(profilesData));
+    if (llm && llm.every((result) => result.niches.length > 0)) {
+      return llm;
+    }
+
+    const missing = profilesData
+      .map((_, index) => (!llm || llm[index].niches.length === 0 ? index : -1))
+      .filter((index) => index >= 0);
+    const local = await tryClassifyLocally(missing.map((i) => profilesData[i]));
+    if (!llm && !local) {
+      throw new Error("Both the LLM and the offline classifier failed");
+    }
+
+    const results = llm || (local as ModelAnalysis[]);
+    if (llm && local) {
+      missing.forEach((index, i) => {
+        results[index] = local[i];
+      });
+    }
+    console.log(
+      `[NicheClassifier] ${missing.length}/${profilesData.length} profiles classified locally after the LLM returned no niche`
+    );
+    return results;
+  }
+
+  const local = await tryClassifyLocally(profilesData);
+  if (!local) {
+    return runLLM(profilesData);
+  }
+  if (mode === "local") {
+    return local;
+  }
+
+  // prefilter: only profiles the local classifier isn't sure about cost an LLM call
+  const ambiguous = local
+    .map((result, index) => (isAmbiguous(result) ? index : -1))
+    .filter((index) => index >= 0);
+  console.log(
+    `[NicheClassifier] ${ambiguous.length}/${local.length} ambiguous profiles sent to the LLM`
+  );
+  if (ambiguous.length > 0) {
+    // Without the LLM the local results stand, ambiguous or not
+    const llm = await tryRunLLM(() =>
+      runLLM(ambiguous.map((i) => profilesData[i]))
+    );
+    ambiguous.forEach((index, i) => {
+      if (llm && llm[i].niches.length > 0) local[index] = llm[i];
+    });
+  }
+  return local;
+}
+
 export async function analyzeAndUpdateProfile(
   profile: InstagramProfile,
   posts: InstagramPost[]
-): Promise<{ interests: string[]; niche: string }> {
-  const captions = posts.filter((p) => p.caption).map((p) => p.caption);
-
-  const analysis = await analyzeInterests(profile.bio || "", captions);
+): Promise<ModelAnalysis> {
+  const [analysis] = await classifyProfiles(
+    [{ profile, posts }],
+    async (profilesData) => {
+      const niches = await getPromptNiches();
+      return Promise.all(
+        profilesData.map(({ profile, posts }) =>
+          analyzeInterests(profile.bio || "", getCaptions(posts), niches)
+        )
+      );
+    }
+  );
 
-  return analysis;
+  const [canonical] = await canonicalizeAnalyses([analysis]);
+  return canonical;
 }
 
 /**
- * Batch analyze multiple profiles in a single API call
+ * Batch analyze multiple profiles, using a single LLM call for the profiles
+ * that need one (see NICHE_CLASSIFIER)
  * @param profilesData Array of profiles with their posts
- * @returns Array of analysis results with username, interests, and niche
+ * @returns Array of analysis results with username, interests, a canonical niche
+ * and the model that produced them
  */
 export async function analyzeAndUpdateProfilesBatch(
-  profilesData: Array<{
-    profile: InstagramProfile;
-    posts: InstagramPost[];
-  }>
-): Promise<ProfileAnalysisResult[]> {
+  profilesData: ProfileData[]
+): Promise<ProfileAnalysis[]> {
   if (profilesData.length === 0) {
     return [];
   }
 
-  // Prepare input for batch analysis
-  const analysisInputs: ProfileAnalysisInput[] = profilesData.map(
-    ({ profile, posts }) => ({
-      username: profile.username,
-      bio: profile.bio || "",
-      captions: posts.filter((p) => p.caption).map((p) => p.caption),
-    })
-  );
+  const results = await classifyProfiles(profilesData, async (subset) => {
+    // Prepare input for batch analysis
+    const analysisInputs: ProfileAnalysisInput[] = subset.map(
+      ({ profile, posts }) => ({
+        username: profile.username,
+        bio: profile.bio || "",
+        captions: getCaptions(posts),
+      })
+    );
 
-  // Call batch analysis
-  const results = await analyzeInterestsBatch(analysisInputs);
+    // Call batch analysis
+    return analyzeInterestsBatch(analysisInputs, await getPromptNiches());
+  });
 
-  return results;
+  // Map free-text niches onto the taxonomy
+  const canonical = await canonicalizeAnalyses(results);
+
+  return canonical.map((analysis, i) => ({
+    username: profilesData[i].profile.username,
+    interests: analysis.interests,
+    niche: analysis.niche,
+    niches: analysis.niches,
+    model: analysis.model,
+  }));
 }
 
 function buildProfileText(
@@ -116,6 +341,11 @@ function buildProfileText(
     parts.push(`Name: ${profile.fullName}`);
   }
 
+  // Add Instagram's own account category
+  if (profile.category) {
+    parts.push(`Category: ${profile.category}`);
+  }
+
   // Add bio
   if (profile.bio) {
     parts.push(`Bio: ${profile.bio}`);
@@ -1,6 +1,6 @@
 import { pipeline, FeatureExtractionPipeline } from "@xenova/transformers";
 
-const MODEL_NAME = "Xenova/all-MiniLM-L6-v2";
+export const MODEL_NAME = "Xenova/all-MiniLM-L6-v2";
 export const EMBEDDING_DIMENSION = 384;
 
 let embeddingPipeline: FeatureExtractionPipeline | null = null;
@@ -0,0 +1,215 @@
+import { MODEL_NAME, generateEmbedding, generateEmbeddings } from "./localEmbeddings";
+import { getNicheCatalog } from "../db/nicheTaxonomy";
+import type { NicheScore } from "@/types";
+
+/**
+ * How niches are assigned during profile analysis:
+ * - llm (default): the LLM only (profiles it can't classify stay Unknown).
+ *   LLM errors fail the batch, so the AI analysis queue retries it.
+ * - local: the offline classifier only, no LLM calls
+ * - fallback: the LLM, with the offline classifier for profiles it returns
+ *   nothing for or when it fails
+ * - prefilter: the offline classifier, sending only ambiguous profiles to the LLM
+ */
+export type NicheClassifierMode = "llm" | "local" | "fallback" | "prefilter";
+
+const CLASSIFIER_MODES: NicheClassifierMode[] = ["llm", "local", "fallback", "prefilter"];
+
+// Recorded as the analysis model of locally classified profiles
+export const LOCAL_CLASSIFIER_MODEL = `local:${MODEL_NAME}`;
+
+// Cosine similarity mapped to confidence 0 and 1. MiniLM scores a profile
+// against an unrelated niche around 0.1 and a clear match around 0.5.
+const SIMILARITY_FLOOR = 0.15;
+const SIMILARITY_CEILING = 0.55;
+
+// Niches below this confidence are not assigned
+const MIN_CONFIDENCE = 0.25;
+
+// A result is ambiguous when the top niche is weak or the runner-up is close
+const CONFIDENT_THRESHOLD = 0.6;
+const AMBIGUOUS_MARGIN = 0.1;
+
+const MAX_NICHES = 3;
+const MAX_SNIPPETS = 8;
+const MAX_EVIDENCE = 2;
+const MAX_SNIPPET_LENGTH = 200;
+
+// Niche catalog changes rarely; re-embed it at most this often. A niche
+// merged away meanwhile is still mapped onto its target by canonicalizeNiches
+const CATALOG_TTL_MS = 10 * 60 * 1000;
+
+export interface LocalProfileInput {
+  // Profile text without any previous analysis (see buildProfileText)
+  text: string;
+  bio: string;
+  captions: string[];
+}
+
+export interface LocalNicheAnalysis {
+  interests: string[];
+  niche: string;
+  niches: NicheScore[];
+}
+
+interface NicheVectors {
+  vectors: Array<{ name: string; aliases: string[]; embedding: number[] }>;
+  loadedAt: number;
+}
+
+let nicheVectors: Promise<NicheVectors> | null = null;
+
+export function getNicheClassifierMode(): NicheClassifierMode {
+  const mode = process.env.NICHE_CLASSIFIER as NicheClassifierMode | undefined;
+  return mode && CLASSIFIER_MODES.includes(mode) ? mode : "llm";
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function toConfidence(similarity: number): number {
+  const scaled =
+    (similarity - SIMILARITY_FLOOR) / (SIMILARITY_CEILING - SIMILARITY_FLOOR);
+  return Math.round(Math.min(1, Math.max(0, scaled)) * 100) / 100;
+}
+
+// A niche is described by its name and aliases, e.g. "Travel: wisata, tourism"
+async function loadNicheVectors(): Promise<NicheVectors> {
+  const catalog = await getNicheCatalog();
+  const embeddings = await generateEmbeddings(
+    catalog.map((niche) =>
+      niche.aliases.length > 0
+        ? `${niche.name}: ${niche.aliases.join(", ")}`
+        : niche.name
+    )
+  );
+
+  return {
+    vectors: catalog.map((niche, i) => ({
+      name: niche.name,
+      aliases: niche.aliases,
+      embedding: embeddings[i],
+    })),
+    loadedAt: Date.now(),
+  };
+}
+
+async function getNicheVectors(): Promise<NicheVectors> {
+  if (nicheVectors) {
+    const loaded = await nicheVectors;
+    if (Date.now() - loaded.loadedAt < CATALOG_TTL_MS) {
+      return loaded;
+    }
+  }
+
+  nicheVectors = loadNicheVectors().catch((error) => {
+    nicheVectors = null;
+    throw error;
+  });
+  return nicheVectors;
+}
+
+function getSnippets(input: LocalProfileInput): string[] {
+  return [...input.bio.split("\n"), ...input.captions]
+    .map((snippet) => snippet.trim().slice(0, MAX_SNIPPET_LENGTH))
+    .filter((snippet) => snippet.length > 0)
+    .slice(0, MAX_SNIPPETS);
+}
+
+// Hashtags plus niche aliases that appear in the text
+function extractInterests(input: LocalProfileInput, aliases: string[]): string[] {
+  const text = `${input.bio}\n${input.captions.join("\n")}`.toLowerCase();
+  const hashtags = text.match(/#[\p{L}\p{N}_]+/gu) || [];
+  const counts = new Map<string, number>();
+  for (const tag of hashtags) {
+    const interest = tag.slice(1);
+    counts.set(interest, (counts.get(interest) || 0) + 1);
+  }
+
+  const mentioned = aliases
+    .map((alias) => alias.toLowerCase())
+    .filter((alias) => text.includes(alias));
+
+  const topHashtags = [...counts]
+    .sort((a, b) => b[1] - a[1])
+    .map(([interest]) => interest);
+
+  return [...new Set([...mentioned, ...topHashtags])].slice(0, 10);
+}
+
+/**
+ * Zero-shot niche classification: the profile text is compared with an
+ * embedding of every niche in the taxonomy, and the closest ones are kept.
+ * Evidence is the bio line or caption closest to each assigned niche.
+ */
+export async function classifyProfilesLocally(
+  inputs: LocalProfileInput[]
+): Promise<LocalNicheAnalysis[]> {
+  if (inputs.length === 0) {
+    return [];
+  }
+
+  const { vectors } = await getNicheVectors();
+  const results: LocalNicheAnalysis[] = [];
+
+  for (const input of inputs) {
+    const embedding = await generateEmbedding(input.text);
+
+    const ranked = vectors
+      .map((vector) => ({
+        vector,
+        confidence: toConfidence(dot(embedding, vector.embedding)),
+      }))
+      .filter((match) => match.confidence >= MIN_CONFIDENCE)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, MAX_NICHES);
+
+    const snippets = getSnippets(input);
+    const snippetEmbeddings =
+      ranked.length > 0 && snippets.length > 0
+        ? await generateEmbeddings(snippets)
+        : [];
+
+    const niches: NicheScore[] = ranked.map(({ vector, confidence }) => ({
+      niche: vector.name,
+      confidence,
+      evidence: snippets
+        .map((snippet, i) => ({
+          snippet,
+          score: dot(snippetEmbeddings[i], vector.embedding),
+        }))
+        .filter((match) => match.score >= SIMILARITY_FLOOR)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_EVIDENCE)
+        .map((match) => match.snippet),
+    }));
+
+    results.push({
+      interests: extractInterests(
+        input,
+        ranked.flatMap(({ vector }) => vector.aliases)
+      ),
+      niche: niches[0]?.niche || "Unknown",
+      niches,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Whether a local result should be double-checked by the LLM in prefilter
+ * mode: no niche, a weak top niche, or two niches too close to call.
+ */
+export function isAmbiguous(analysis: LocalNicheAnalysis): boolean {
+  const [top, second] = analysis.niches;
+  if (!top || top.confidence < CONFIDENT_THRESHOLD) {
+    return true;
+  }
+  return !!second && top.confidence - second.confidence < AMBIGUOUS_MARGIN;
+}
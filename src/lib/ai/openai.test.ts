@@ -0,0 +1,120 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { analyzeInterestsBatch, streamChatStep, type AgentMessage } from "./openai";
+import { setLLMProvider, type ChatToolDefinition } from "./providers";
+
+// The embedding model isn't needed to talk to the provider
+vi.mock("./localEmbeddings", () => ({
+  generateEmbedding: vi.fn(),
+  generateEmbeddings: vi.fn(),
+}));
+
+const GET_PROFILE: ChatToolDefinition = {
+  name: "get_profile",
+  description: "Look up a scraped profile",
+  parameters: {
+    type: "object",
+    properties: { username: { type: "string" } },
+    required: ["username"],
+  },
+};
+
+// Run a chat step to its end, collecting the streamed tokens
+async function runStep(
+  messages: AgentMessage[],
+  tools: ChatToolDefinition[]
+) {
+  const stream = streamChatStep(messages, "Total profiles: 3", tools);
+  const tokens: string[] = [];
+  for (;;) {
+    const next = await stream.next();
+    if (next.done) return { tokens, step: next.value };
+    tokens.push(next.value);
+  }
+}
+
+beforeAll(() => {
+  vi.stubEnv("LLM_PROVIDER", "fake");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  setLLMProvider(null);
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  setLLMProvider(null);
+});
+
+describe("analyzeInterestsBatch", () => {
+  it("returns one ranked analysis per profile, in order", async () => {
+    const results = await analyzeInterestsBatch([
+      { username: "budi.santoso", bio: "Coach gym, workout tiap pagi", captions: ["Olahraga itu sehat"] },
+      { username: "sari_bakery", bio: "Resep kue rumahan", captions: ["Kuliner Jakarta"] },
+      { username: "dimas_adi", bio: "", captions: [] },
+    ]);
+
+    expect(results).toEqual([
+      {
+        username: "budi.santoso",
+        interests: ["gym", "workout", "olahraga", "sehat"],
+        niche: "Fitness & Health",
+        // Evidence is capped at three snippets
+        niches: [{ niche: "Fitness & Health", confidence: 1, evidence: ["gym", "workout", "olahraga"] }],
+      },
+      {
+        username: "sari_bakery",
+        interests: ["kuliner", "resep"],
+        niche: "Food & Cooking",
+        niches: [{ niche: "Food & Cooking", confidence: 0.7, evidence: ["kuliner", "resep"] }],
+      },
+      { username: "dimas_adi", interests: [], niche: "Unknown", niches: [] },
+    ]);
+  });
+
+  it("skips the provider for an empty batch", async () => {
+    expect(await analyzeInterestsBatch([])).toEqual([]);
+  });
+});
+
+describe("streamChatStep", () => {
+  const question: AgentMessage = { role: "user", content: "Siapa @rani.kusuma?" };
+
+  it("requests a tool call for a mentioned account without streaming tokens", async () => {
+    const { tokens, step } = await runStep([question], [GET_PROFILE]);
+
+    expect(tokens).toEqual([]);
+    expect(step).toEqual({
+      content: "",
+      toolCalls: [
+        {
+          id: "fake_call_0",
+          name: "get_profile",
+          arguments: JSON.stringify({ username: "rani.kusuma" }),
+        },
+      ],
+    });
+  });
+
+  it("streams the answer once the tool result is in", async () => {
+    const { tokens, step } = await runStep(
+      [
+        question,
+        { role: "assistant", content: "", toolCalls: [{ id: "fake_call_0", name: "get_profile", arguments: "{}" }] },
+        { role: "tool", toolCallId: "fake_call_0", content: "@rani.kusuma: Home baker\nNiche: Food & Cooking" },
+      ],
+      [GET_PROFILE]
+    );
+
+    expect(step.toolCalls).toEqual([]);
+    expect(tokens.join("")).toBe(step.content);
+    expect(step.content).toContain('Pertanyaan: "Siapa @rani.kusuma?"');
+    expect(step.content).toContain("Hasil tool: @rani.kusuma: Home baker");
+  });
+
+  it("answers directly when no tools are offered", async () => {
+    const { tokens, step } = await runStep([question], []);
+
+    expect(step.toolCalls).toEqual([]);
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join("")).toBe(step.content);
+  });
+});
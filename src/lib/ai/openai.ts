@@ -1,71 +1,15 @@
-import OpenAI from "openai";
+import type { NicheScore } from "@/types";
+import {
+  getLLMProvider,
+  type ChatToolDefinition,
+  type LLMMessage,
+  type LLMStepResult,
+} from "./providers";
 
 // Re-export embedding functions from local embeddings module
 export { generateEmbedding, generateEmbeddings } from "./localEmbeddings";
 
-let aiClient: OpenAI | null = null;
-
-// Model configuration
-const DEFAULT_MODEL = "gemini-3-flash-preview";
-const FALLBACK_MODEL = "gemini-1.5-flash";
-
-// Gemini OpenAI-compatible endpoint
-const GEMINI_OPENAI_BASE_URL =
-  "https://generativelanguage.googleapis.com/v1beta/openai/";
-
-function getApiKey(): string {
-  // Prefer Gemini key; allow OpenRouter key as a transitional fallback
-  return process.env.GEMINI_API_KEY || process.env.OPENROUTER_API_KEY || "";
-}
-
-// Retry configuration
-const MAX_RETRIES = 3;
-const INITIAL_DELAY_MS = 5000; // 5 seconds
-
-function getModel(): string {
-  return process.env.GEMINI_MODEL || process.env.OPENROUTER_MODEL || DEFAULT_MODEL;
-}
-
-function getFallbackModel(): string {
-  return (
-    process.env.GEMINI_FALLBACK_MODEL ||
-    process.env.OPENROUTER_FALLBACK_MODEL ||
-    FALLBACK_MODEL
-  );
-}
-
-export function getOpenAIClient(): OpenAI {
-  if (!aiClient) {
-    const apiKey = getApiKey();
-    if (!apiKey) {
-      throw new Error(
-        "GEMINI_API_KEY environment variable is not set (or OPENROUTER_API_KEY as fallback)"
-      );
-    }
-    aiClient = new OpenAI({
-      apiKey,
-      baseURL: GEMINI_OPENAI_BASE_URL,
-    });
-  }
-  return aiClient;
-}
-
-/**
- * Check if an error is a rate limit error (HTTP 429)
- */
-function isRateLimitError(error: unknown): boolean {
-  if (error instanceof OpenAI.APIError) {
-    return error.status === 429;
-  }
-  return false;
-}
-
-/**
- * Sleep for a given number of milliseconds
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+export type { ChatToolDefinition, ToolCallRequest } from "./providers";
 
 /**
  * Clean and parse JSON from model response
@@ -99,93 +43,107 @@ function parseJSONResponse(content: string): Record<string, unknown> {
 }
 
 /**
- * Execute a function with exponential backoff retry and fallback model support
+ * Version of the analysis prompts, stored with every analyzed profile so
+ * results from older prompts can be found and re-analyzed. Bump it when the
+ * prompts or the result format change (2: ranked niches with evidence).
+ */
+export const ANALYSIS_PROMPT_VERSION = 2;
+
+/**
+ * "provider:model" of the LLM behind profile analysis. Analysis must still
+ * run (and fall back) when no provider is configured, so this never throws.
  */
-async function withRetryAndFallback<T>(
-  fn: (model: string) => Promise<T>,
-  context: string = "API call"
-): Promise<T> {
-  const primaryModel = getModel();
-  const fallbackModel = getFallbackModel();
-  
-  let lastError: unknown;
-  
-  // Try with primary model first
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      return await fn(primaryModel);
-    } catch (error) {
-      lastError = error;
-      
-      if (isRateLimitError(error)) {
-        const delay = INITIAL_DELAY_MS * Math.pow(2, attempt);
-        console.warn(
-          `[${context}] Rate limited on ${primaryModel}, attempt ${attempt + 1}/${MAX_RETRIES}. Retrying in ${delay}ms...`
-        );
-        await sleep(delay);
-      } else {
-        // Non-rate-limit error, don't retry
-        throw error;
-      }
-    }
+export function getAnalysisModel(): string {
+  try {
+    const provider = getLLMProvider();
+    return `${provider.name}:${provider.model}`;
+  } catch {
+    return "unconfigured";
   }
-  
-  // Primary model exhausted retries, try fallback model
-  console.warn(
-    `[${context}] Primary model ${primaryModel} rate limited after ${MAX_RETRIES} retries. Switching to fallback: ${fallbackModel}`
-  );
-  
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      return await fn(fallbackModel);
-    } catch (error) {
-      lastError = error;
-      
-      if (isRateLimitError(error)) {
-        const delay = INITIAL_DELAY_MS * Math.pow(2, attempt);
-        console.warn(
-          `[${context}] Rate limited on fallback ${fallbackModel}, attempt ${attempt + 1}/${MAX_RETRIES}. Retrying in ${delay}ms...`
-        );
-        await sleep(delay);
-      } else {
-        // Non-rate-limit error, don't retry
-        throw error;
-      }
-    }
+}
+
+// Niches kept per profile, and evidence snippets kept per niche
+const MAX_NICHES = 3;
+const MAX_EVIDENCE = 3;
+const MAX_EVIDENCE_LENGTH = 200;
+
+const NICHE_FORMAT_EXAMPLE =
+  '{"niche": "niche name", "confidence": 0.85, "evidence": ["snippet from bio or caption", ...]}, ...';
+
+const NICHE_SCORE_RULES = `List 1-${MAX_NICHES} niches, most likely first. "confidence" is 0-1: how sure you are the account belongs to that niche. Only add a second or third niche when the content clearly covers it. "evidence" holds short snippets quoted verbatim from the bio or captions that support the niche.`;
+
+/**
+ * Read the ranked niches of one analysis result. Answers that only carry a
+ * single "niche" string are kept with full confidence and no evidence;
+ * entries without a confidence count as 0.5.
+ */
+function parseNicheScores(result: Record<string, unknown>): NicheScore[] {
+  if (!Array.isArray(result.niches)) {
+    return typeof result.niche === "string" && result.niche.trim()
+      ? [{ niche: result.niche.trim(), confidence: 1, evidence: [] }]
+      : [];
+  }
+
+  return result.niches
+    .filter(
+      (entry): entry is Record<string, unknown> =>
+        !!entry && typeof entry.niche === "string" && !!entry.niche.trim()
+    )
+    .map((entry) => ({
+      niche: String(entry.niche).trim(),
+      confidence:
+        typeof entry.confidence === "number" && Number.isFinite(entry.confidence)
+          ? Math.min(1, Math.max(0, entry.confidence))
+          : 0.5,
+      evidence: (Array.isArray(entry.evidence) ? entry.evidence : [])
+        .filter((snippet): snippet is string => typeof snippet === "string")
+        .map((snippet) => snippet.trim().slice(0, MAX_EVIDENCE_LENGTH))
+        .filter(Boolean)
+        .slice(0, MAX_EVIDENCE),
+    }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_NICHES);
+}
+
+/**
+ * Niche instructions for the analysis prompts. With a taxonomy the model is
+ * asked to pick from it; outputs are still canonicalized afterwards.
+ */
+function nicheGuidance(niches: string[]): string {
+  if (niches.length === 0) {
+    return `Keep interests specific and relevant. Each niche should be a single category like "Fitness & Health", "Fashion & Beauty", "Technology", "Food & Cooking", "Travel", "Business & Entrepreneurship", "Relationship & Dating", "Self-Development & Motivation", "Games & Esports", "Environment & Sustainability", "Comics & Pop Culture", "Spirituality & Religion", "Property & Home Decor", "Gardening & Urban Farming", etc.`;
   }
-  
-  // Both models exhausted retries
-  console.error(
-    `[${context}] All retries exhausted for both primary and fallback models`
-  );
-  throw lastError;
+  return `Keep interests specific and relevant. Use exactly these names for niches, or a new short category only if none of them fits:
+${niches.map((niche) => `- ${niche}`).join("\n")}`;
 }
 
 export async function analyzeInterests(
   bio: string,
-  captions: string[]
+  captions: string[],
+  niches: string[] = []
 ): Promise<{
   interests: string[];
   niche: string;
+  niches: NicheScore[];
 }> {
-  const client = getOpenAIClient();
   const captionsText = captions.slice(0, 10).join("\n---\n");
 
-  const messages: OpenAI.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     {
       role: "system",
       content: `You are an expert at analyzing Instagram profiles to determine user interests and niche.
 Analyze the provided bio and post captions to identify:
 1. A list of specific interests (e.g., "fitness", "photography", "travel", "fashion", "relationship", "self-development", "games", "environment", "comics", "spirituality", "property", "gardening", etc.)
-2. The primary niche or category this account belongs to
+2. The niches or categories this account belongs to, ranked by confidence
 
 Respond in JSON format:
 {
   "interests": ["interest1", "interest2", ...],
-  "niche": "primary niche"
+  "niches": [${NICHE_FORMAT_EXAMPLE}]
 }
 
-Keep interests specific and relevant. The niche should be a single category like "Fitness & Health", "Fashion & Beauty", "Technology", "Food & Cooking", "Travel", "Business & Entrepreneurship", "Relationship & Dating", "Self-Development & Motivation", "Games & Esports", "Environment & Sustainability", "Comics & Pop Culture", "Spirituality & Religion", "Property & Home Decor", "Gardening & Urban Farming", etc.`,
+${NICHE_SCORE_RULES}
+${nicheGuidance(niches)}`,
     },
     {
       role: "user",
@@ -196,28 +154,23 @@ Keep interests specific and relevant. The niche should be a single category like
   ];
 
   try {
-    const response = await withRetryAndFallback(
-      async (model) =>
-        client.chat.completions.create({
-          model,
-          messages,
-          response_format: { type: "json_object" },
-          temperature: 0.3,
-        }),
-      "analyzeInterests"
-    );
-
-    const content = response.choices[0]?.message?.content || "{}";
+    const content = await getLLMProvider().completeJSON({
+      messages,
+      temperature: 0.3,
+    });
     const parsed = parseJSONResponse(content);
+    const nicheScores = parseNicheScores(parsed);
     return {
       interests: Array.isArray(parsed.interests) ? parsed.interests : [],
-      niche: typeof parsed.niche === "string" ? parsed.niche : "Unknown",
+      niche: nicheScores[0]?.niche || "Unknown",
+      niches: nicheScores,
     };
   } catch (error) {
     console.error("[analyzeInterests] Failed after all retries:", error);
     return {
       interests: [],
       niche: "Unknown",
+      niches: [],
     };
   }
 }
@@ -231,23 +184,26 @@ export interface ProfileAnalysisInput {
 export interface ProfileAnalysisResult {
   username: string;
   interests: string[];
+  // Top entry of `niches`, or "Unknown"
   niche: string;
+  niches: NicheScore[];
 }
 
 /**
  * Analyze multiple profiles in a single API call for efficiency
  * @param profiles Array of profiles with bio and captions
- * @returns Array of analysis results with interests and niche for each profile
+ * @param niches Canonical niche names the model should choose from
+ * @returns Array of analysis results with interests and ranked niches for each profile
+ * @throws When the provider fails after its retries, so the batch can be retried
  */
 export async function analyzeInterestsBatch(
-  profiles: ProfileAnalysisInput[]
+  profiles: ProfileAnalysisInput[],
+  niches: string[] = []
 ): Promise<ProfileAnalysisResult[]> {
   if (profiles.length === 0) {
     return [];
   }
 
-  const client = getOpenAIClient();
-
   // Build the prompt with all profiles
   const profilesText = profiles
     .map((profile, index) => {
@@ -259,24 +215,25 @@ ${captionsText || "No captions available"}`;
     })
     .join("\n\n---\n\n");
 
-  const messages: OpenAI.ChatCompletionMessageParam[] = [
+  const messages: LLMMessage[] = [
     {
       role: "system",
       content: `You are an expert at analyzing Instagram profiles to determine user interests and niche.
 Analyze the provided profiles and for each one identify:
 1. A list of specific interests (e.g., "fitness", "photography", "travel", "fashion", "relationship", "self-development", "games", "environment", "comics", "spirituality", "property", "gardening", etc.)
-2. The primary niche or category this account belongs to
+2. The niches or categories this account belongs to, ranked by confidence
 
 Respond in JSON format with an array of results matching the order of profiles provided:
 {
   "results": [
-    {"interests": ["interest1", "interest2", ...], "niche": "primary niche"},
-    {"interests": ["interest1", "interest2", ...], "niche": "primary niche"},
+    {"interests": ["interest1", "interest2", ...], "niches": [${NICHE_FORMAT_EXAMPLE}]},
+    {"interests": ["interest1", "interest2", ...], "niches": [${NICHE_FORMAT_EXAMPLE}]},
     ...
   ]
 }
 
-Keep interests specific and relevant. The niche should be a single category like "Fitness & Health", "Fashion & Beauty", "Technology", "Food & Cooking", "Travel", "Business & Entrepreneurship", "Relationship & Dating", "Self-Development & Motivation", "Games & Esports", "Environment & Sustainability", "Comics & Pop Culture", "Spirituality & Religion", "Property & Home Decor", "Gardening & Urban Farming", etc.
+${NICHE_SCORE_RULES}
+${nicheGuidance(niches)}
 
 IMPORTANT: Return exactly one result per profile in the same order they were provided.`,
     },
@@ -287,18 +244,10 @@ IMPORTANT: Return exactly one result per profile in the same order they were pro
   ];
 
   try {
-    const response = await withRetryAndFallback(
-      async (model) =>
-        client.chat.completions.create({
-          model,
-          messages,
-          response_format: { type: "json_object" },
-          temperature: 0.3,
-        }),
-      "analyzeInterestsBatch"
-    );
-
-    const content = response.choices[0]?.message?.content || "{}";
+    const content = await getLLMProvider().completeJSON({
+      messages,
+      temperature: 0.3,
+    });
     const parsed = parseJSONResponse(content);
 
     // Validate and map results
@@ -306,30 +255,22 @@ IMPORTANT: Return exactly one result per profile in the same order they were pro
 
     return profiles.map((profile, index) => {
       const result = results[index] || {};
+      const nicheScores = parseNicheScores(result);
       return {
         username: profile.username,
         interests: Array.isArray(result.interests) ? result.interests : [],
-        niche: typeof result.niche === "string" ? result.niche : "Unknown",
+        niche: nicheScores[0]?.niche || "Unknown",
+        niches: nicheScores,
       };
     });
   } catch (error) {
     console.error("[analyzeInterestsBatch] Failed after all retries:", error);
-    // Return default values for all profiles on failure
-    return profiles.map((profile) => ({
-      username: profile.username,
-      interests: [],
-      niche: "Unknown",
-    }));
+    throw error;
   }
 }
 
-export async function chatWithContext(
-  messages: Array<{ role: "user" | "assistant" | "system"; content: string }>,
-  context: string
-): Promise<string> {
-  const client = getOpenAIClient();
-
-  const systemMessage = `Kamu adalah AI assistant yang ahli dalam menganalisis data followers Instagram. Kamu memiliki akses ke database lengkap berisi profile Instagram yang sudah di-scrape, termasuk:
+function buildChatSystemPrompt(context: string): string {
+  return `Kamu adalah AI assistant yang ahli dalam menganalisis data followers Instagram. Kamu memiliki akses ke database lengkap berisi profile Instagram yang sudah di-scrape, termasuk:
 
 - Statistik lengkap (distribusi niche, distribusi minat/interest, dll)
 - Data followers individual (bio, jumlah followers, niche, interests)
@@ -343,12 +284,19 @@ KEMAMPUAN KAMU:
 4. Mencari profile dengan karakteristik tertentu
 5. Memberikan insight dan rekomendasi strategis
 
-KEMAMPUAN FOLLOWERS/FOLLOWING:
+KEMAMPUAN FOLLOWERS/FOLLOWING (melalui tools):
 6. Menampilkan daftar followers dari akun X (100 per halaman, bisa pagination)
 7. Menampilkan daftar following dari akun X (100 per halaman, bisa pagination)
 8. Menganalisis niche apa yang disukai/difollow oleh akun X
 9. Menganalisis niche apa yang paling banyak difollow oleh followers dari akun X (analisis agregat)
 10. Memberikan rekomendasi konten berdasarkan pola following audience
+11. Menampilkan followers baru dan yang unfollow sejak scrape sebelumnya
+
+PENGGUNAAN TOOLS:
+- Jika tersedia, panggil tools untuk data yang tidak ada di DATA CONTEXT (profil tertentu, daftar followers/following, analisis niche, perubahan followers)
+- Boleh memanggil beberapa tools berturut-turut, misalnya cek profil dulu lalu analisis following-nya
+- Username ditulis tanpa "@"
+- Jangan mengarang data; jika tool tidak menemukan data, sampaikan apa adanya
 
 Contoh pertanyaan yang bisa dijawab:
 - "Following akun wahy.all siapa saja?"
@@ -357,7 +305,7 @@ Contoh pertanyaan yang bisa dijawab:
 - "Lanjutkan daftar following wahy.all halaman 2"
 
 PANDUAN MENJAWAB:
-- Gunakan data dari context untuk memberikan jawaban yang akurat
+- Gunakan data dari context dan hasil tools untuk memberikan jawaban yang akurat
 - Sertakan angka dan persentase jika relevan
 - Berikan insight yang actionable
 - Jawab dalam bahasa yang sama dengan pertanyaan user
@@ -370,32 +318,30 @@ DATA CONTEXT:
 ${context}
 
 Jawab pertanyaan user berdasarkan data di atas dengan informatif dan helpful.`;
+}
 
-  const chatMessages: OpenAI.ChatCompletionMessageParam[] = [
-    { role: "system", content: systemMessage },
-    ...messages,
-  ];
+// Conversation turns of a tool-calling chat
+export type AgentMessage = LLMMessage;
 
-  try {
-    const response = await withRetryAndFallback(
-      async (model) =>
-        client.chat.completions.create({
-          model,
-          messages: chatMessages,
-          temperature: 0.7,
-          max_tokens: 2000,
-        }),
-      "chatWithContext"
-    );
-
-    return (
-      response.choices[0]?.message?.content ||
-      "Maaf, saya tidak dapat menghasilkan respons. Silakan coba lagi."
-    );
-  } catch (error) {
-    console.error("[chatWithContext] Failed after all retries:", error);
-    return "Maaf, layanan sedang sibuk. Silakan coba lagi dalam beberapa saat.";
-  }
+/**
+ * Stream one step of a tool-calling chat. Answer tokens are yielded as they
+ * arrive; the step resolves with the full text and any tool calls the model
+ * requested. Pass no tools to force a final answer.
+ */
+export function streamChatStep(
+  messages: AgentMessage[],
+  context: string,
+  tools: ChatToolDefinition[],
+  signal?: AbortSignal
+): AsyncGenerator<string, LLMStepResult> {
+  return getLLMProvider().streamChat({
+    messages: [
+      { role: "system", content: buildChatSystemPrompt(context) },
+      ...messages,
+    ],
+    temperature: 0.7,
+    maxTokens: 2000,
+    tools,
+    signal,
+  });
 }
-
-export default getOpenAIClient;
@@ -0,0 +1,91 @@
+import { generateEmbedding } from "./localEmbeddings";
+import { COUNT_PATTERN, cleanQueryText, parseCount } from "./queryFilters";
+import {
+  queryPosts,
+  type PostMetadata,
+  type PostSearchFilter,
+} from "../qdrant/client";
+import type { InstagramPost } from "@/types";
+
+export interface PostSearchResult extends PostMetadata {
+  score: number;
+  url: string;
+}
+
+export interface ParsedPostQuery {
+  // The query with recognized filters removed, used for the embedding
+  text: string;
+  type?: InstagramPost["type"];
+  minLikes?: number;
+}
+
+const TYPE_WORDS: Array<[RegExp, InstagramPost["type"]]> = [
+  [/\b(reels?|videos?)\b/i, "reel"],
+  [/\b(carousels?|slides?)\b/i, "carousel"],
+];
+
+// ">1k likes", "over 500 likes", "lebih dari 2rb likes", "min 1.5k like"
+const MIN_LIKES_PATTERN = new RegExp(
+  String.raw`(?:>=?|\bover|\bmore than|\bat least|\bmin(?:imal|imum)?|\blebih dari|\bdi atas)\s*` +
+    COUNT_PATTERN +
+    String.raw`\s*(?:likes?|suka)\b`,
+  "i"
+);
+
+export function getPostUrl(post: Pick<PostMetadata, "shortcode" | "type">): string {
+  return post.type === "reel"
+    ? `https://www.instagram.com/reel/${post.shortcode}/`
+    : `https://www.instagram.com/p/${post.shortcode}/`;
+}
+
+/**
+ * Pull post type and like thresholds out of a free-text query, e.g.
+ * "reels about budget travel with >1k likes" searches "about budget travel"
+ * among reels with at least 1000 likes.
+ */
+export function parsePostQuery(query: string): ParsedPostQuery {
+  let text = query;
+  const parsed: ParsedPostQuery = { text };
+
+  const likes = text.match(MIN_LIKES_PATTERN);
+  if (likes) {
+    parsed.minLikes = parseCount(likes[1], likes[2]);
+    text = text.replace(likes[0], " ");
+  }
+
+  for (const [pattern, type] of TYPE_WORDS) {
+    if (pattern.test(text)) {
+      parsed.type = type;
+      text = text.replace(pattern, " ");
+      break;
+    }
+  }
+
+  parsed.text = cleanQueryText(text) || query;
+  return parsed;
+}
+
+/**
+ * Semantic search over a session's post captions. Filters given explicitly
+ * take precedence over those recognized in the query text.
+ */
+export async function searchPosts(
+  query: string,
+  filter: PostSearchFilter,
+  topK: number = 10
+): Promise<PostSearchResult[]> {
+  const parsed = parsePostQuery(query);
+  const embedding = await generateEmbedding(parsed.text);
+
+  const results = await queryPosts(embedding, topK, {
+    ...filter,
+    type: filter.type ?? parsed.type,
+    minLikes: filter.minLikes ?? parsed.minLikes,
+  });
+
+  return results.map(({ score, metadata }) => ({
+    ...metadata,
+    score,
+    url: getPostUrl(metadata),
+  }));
+}
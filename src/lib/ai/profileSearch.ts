@@ -0,0 +1,262 @@
+import { generateEmbedding } from "./localEmbeddings";
+import { COUNT_PATTERN, cleanQueryText, parseCount } from "./queryFilters";
+import {
+  queryProfiles,
+  toProfileMetadata,
+  type ProfileMetadata,
+  type ProfileSearchFilter,
+} from "../qdrant/client";
+import { searchOwnedProfilesByText } from "../db/ownedProfiles";
+import { getNicheCatalog } from "../db/nicheTaxonomy";
+import type { Niche } from "@/types";
+
+export interface ProfileSearchResult {
+  username: string;
+  // Reciprocal rank fusion score, scaled so 1 means first in every ranking
+  score: number;
+  // Cosine similarity, when the profile came up in the vector search
+  vectorScore?: number;
+  // Mongo text score, when the profile matched the keyword search
+  textScore?: number;
+  metadata: ProfileMetadata;
+}
+
+export interface ParsedProfileQuery extends Omit<ProfileSearchFilter, "sessionId"> {
+  // The query with recognized filters removed, used for both rankings
+  text: string;
+}
+
+// Dampens the lead of top ranks so neither ranking dominates the fusion
+const RRF_K = 60;
+
+const FOLLOWERS = String.raw`\s*(?:followers?|pengikut)\b`;
+
+// "10k-100k followers", "between 10k and 100k followers", "antara 1rb dan 5rb pengikut"
+const FOLLOWER_RANGE_PATTERN = new RegExp(
+  String.raw`(?:\b(?:between|antara)\s*)?` +
+    COUNT_PATTERN +
+    String.raw`\s*(?:-|–|\bto|\band|\bdan|\bsampai|\bhingga)\s*` +
+    COUNT_PATTERN +
+    FOLLOWERS,
+  "i"
+);
+
+// ">50k followers", "over 50k followers", "lebih dari 10rb pengikut"
+const MIN_FOLLOWERS_PATTERN = new RegExp(
+  String.raw`(?:>=?|\bover|\bmore than|\babove|\bat least|\bmin(?:imal|imum)?|\blebih dari|\bdi atas)\s*` +
+    COUNT_PATTERN +
+    FOLLOWERS,
+  "i"
+);
+
+// "<10k followers", "under 10k followers", "kurang dari 5rb pengikut"
+const MAX_FOLLOWERS_PATTERN = new RegExp(
+  String.raw`(?:<=?|\bunder|\bless than|\bbelow|\bat most|\bmax(?:imal|imum)?|\bkurang dari|\bdi bawah)\s*` +
+    COUNT_PATTERN +
+    FOLLOWERS,
+  "i"
+);
+
+const UNVERIFIED_PATTERN =
+  /\b(?:unverified|not verified|non[- ]verified|belum terverifikasi|tidak terverifikasi)\b/i;
+const VERIFIED_PATTERN = /\b(?:verified|terverifikasi|centang biru)\b/i;
+// "private accounts", "akun privat"; not "private chef" or "public speaker"
+const PRIVATE_PATTERN =
+  /\b(?:(?:private|privat)\s+(?:accounts?|profiles?|akun|profil)|(?:akun|profil)\s+(?:yang\s+)?(?:private|privat))\b/i;
+const PUBLIC_PATTERN =
+  /\b(?:(?:public|publik)\s+(?:accounts?|profiles?|akun|profil)|(?:akun|profil)\s+(?:yang\s+)?(?:public|publik))\b/i;
+const DEPTH_PATTERN = /\b(?:depth|kedalaman)\s*(\d+)\b/i;
+
+// "followers of @nike", "pengikut @nike", "parent @nike"
+const PARENT_PATTERN =
+  /\b(?:followers? (?:of|dari)|pengikut|parent)\s*@([\w.]+)/i;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Niches whose name or an alias appears as whole words in the text
+function findNiches(
+  text: string,
+  catalog: Array<Pick<Niche, "name" | "aliases">>
+): string[] {
+  return catalog
+    .filter((niche) =>
+      [niche.name, ...niche.aliases].some((label) =>
+        new RegExp(`(?:^|[^\\w])${escapeRegex(label)}(?:$|[^\\w])`, "i").test(text)
+      )
+    )
+    .map((niche) => niche.name);
+}
+
+/**
+ * Pull structured filters out of a free-text query, e.g. "fitness influencers
+ * over 50k followers, verified" searches "fitness influencers" among verified
+ * Fitness & Health profiles with at least 50,000 followers. Niche names stay
+ * in the text since they help both rankings.
+ */
+export function parseProfileQuery(
+  query: string,
+  catalog: Array<Pick<Niche, "name" | "aliases">> = []
+): ParsedProfileQuery {
+  let text = query;
+  const parsed: ParsedProfileQuery = { text };
+
+  const range = text.match(FOLLOWER_RANGE_PATTERN);
+  if (range) {
+    parsed.minFollowers = parseCount(range[1], range[2]);
+    parsed.maxFollowers = parseCount(range[3], range[4]);
+    text = text.replace(range[0], " ");
+  }
+  const min = text.match(MIN_FOLLOWERS_PATTERN);
+  if (min) {
+    parsed.minFollowers = parseCount(min[1], min[2]);
+    text = text.replace(min[0], " ");
+  }
+  const max = text.match(MAX_FOLLOWERS_PATTERN);
+  if (max) {
+    parsed.maxFollowers = parseCount(max[1], max[2]);
+    text = text.replace(max[0], " ");
+  }
+
+  const parent = text.match(PARENT_PATTERN);
+  if (parent) {
+    parsed.parentUsername = parent[1].toLowerCase();
+    text = text.replace(parent[0], " ");
+  }
+  const depth = text.match(DEPTH_PATTERN);
+  if (depth) {
+    parsed.scrapedDepth = parseInt(depth[1]);
+    text = text.replace(depth[0], " ");
+  }
+
+  // Checked first so "unverified" isn't read as "verified"
+  if (UNVERIFIED_PATTERN.test(text)) {
+    parsed.isVerified = false;
+    text = text.replace(UNVERIFIED_PATTERN, " ");
+  } else if (VERIFIED_PATTERN.test(text)) {
+    parsed.isVerified = true;
+    text = text.replace(VERIFIED_PATTERN, " ");
+  }
+  if (PRIVATE_PATTERN.test(text)) {
+    parsed.isPrivate = true;
+    text = text.replace(PRIVATE_PATTERN, " ");
+  } else if (PUBLIC_PATTERN.test(text)) {
+    parsed.isPrivate = false;
+    text = text.replace(PUBLIC_PATTERN, " ");
+  }
+
+  const niches = findNiches(text, catalog);
+  if (niches.length > 0) {
+    parsed.niches = niches;
+  }
+
+  parsed.text = cleanQueryText(text);
+  return parsed;
+}
+
+// The same filter as a match on merged Mongo profiles
+function toProfileMatch(filter: ProfileSearchFilter): Record<string, unknown> {
+  const match: Record<string, unknown> = {};
+
+  if (filter.niches?.length) {
+    match.niche = { $in: filter.niches };
+  }
+  if (filter.minFollowers !== undefined || filter.maxFollowers !== undefined) {
+    match.followersCount = {
+      ...(filter.minFollowers !== undefined && { $gte: filter.minFollowers }),
+      ...(filter.maxFollowers !== undefined && { $lte: filter.maxFollowers }),
+    };
+  }
+  if (filter.isVerified !== undefined) match.isVerified = filter.isVerified;
+  if (filter.isPrivate !== undefined) match.isPrivate = filter.isPrivate;
+  if (filter.scrapedDepth !== undefined) match.scrapedDepth = filter.scrapedDepth;
+  if (filter.parentUsername) match.parentUsername = filter.parentUsername;
+
+  return match;
+}
+
+// Taxonomy failures only cost niche recognition, not the search
+async function getCatalogForParsing(): Promise<
+  Array<Pick<Niche, "name" | "aliases">>
+> {
+  try {
+    return await getNicheCatalog();
+  } catch (error) {
+    console.error("[ProfileSearch] Failed to load niches:", error);
+    return [];
+  }
+}
+
+/**
+ * Hybrid profile search: filters recognized in the query (or given
+ * explicitly, which wins) restrict both a Qdrant vector search and a Mongo
+ * keyword search, and the two rankings are merged by reciprocal rank fusion.
+ */
+export async function searchProfiles(
+  query: string,
+  filter: ProfileSearchFilter & { sessionId: string },
+  topK: number = 10
+): Promise<{ profiles: ProfileSearchResult[]; filter: ParsedProfileQuery }> {
+  const parsed = parseProfileQuery(query, await getCatalogForParsing());
+  const { text, ...parsedFilter } = parsed;
+  const { sessionId, ...given } = filter;
+  const effective: ProfileSearchFilter = {
+    ...parsedFilter,
+    ...Object.fromEntries(
+      Object.entries(given).filter(([, value]) => value !== undefined)
+    ),
+  };
+  const applied = { ...effective, sessionId };
+
+  // Each ranking contributes more candidates than are returned
+  const candidates = Math.max(topK * 2, 20);
+  const [vectorHits, textHits] = await Promise.all([
+    generateEmbedding(text || query).then((embedding) =>
+      queryProfiles(embedding, candidates, applied)
+    ),
+    text
+      ? searchOwnedProfilesByText(
+          sessionId,
+          text,
+          toProfileMatch(applied),
+          candidates
+        )
+      : Promise.resolve([]),
+  ]);
+
+  const fused = new Map<string, ProfileSearchResult>();
+  const addRank = (rank: number, hit: Omit<ProfileSearchResult, "score">) => {
+    const existing = fused.get(hit.username);
+    fused.set(hit.username, {
+      ...existing,
+      ...hit,
+      // Prefer the stored payload, which is what the vector was built from
+      metadata: existing?.metadata || hit.metadata,
+      score: (existing?.score || 0) + 1 / (RRF_K + rank + 1),
+    });
+  };
+
+  vectorHits.forEach((hit, rank) =>
+    addRank(rank, {
+      username: hit.metadata.username,
+      vectorScore: hit.score,
+      metadata: hit.metadata,
+    })
+  );
+  textHits.forEach((profile, rank) =>
+    addRank(rank, {
+      username: profile.username,
+      textScore: profile.textScore,
+      metadata: toProfileMetadata(profile),
+    })
+  );
+
+  const best = (text ? 2 : 1) / (RRF_K + 1);
+  const profiles = [...fused.values()]
+    .map((result) => ({ ...result, score: result.score / best }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+
+  return { profiles, filter: { ...effective, text } };
+}
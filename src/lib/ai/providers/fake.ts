@@ -0,0 +1,115 @@
+import type {
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+  LLMStepResult,
+  LLMStreamRequest,
+} from "./types";
+
+// Keyword -> niche table used to fake profile analysis
+const NICHE_KEYWORDS: Array<{ niche: string; keywords: string[] }> = [
+  { niche: "Fitness & Health", keywords: ["fitness", "gym", "workout", "olahraga", "sehat"] },
+  { niche: "Food & Cooking", keywords: ["food", "kuliner", "makan", "resep", "cooking"] },
+  { niche: "Travel", keywords: ["travel", "trip", "jalan-jalan", "wisata"] },
+  { niche: "Fashion & Beauty", keywords: ["fashion", "ootd", "makeup", "beauty", "skincare"] },
+  { niche: "Technology", keywords: ["tech", "coding", "developer", "gadget", "software"] },
+  { niche: "Games & Esports", keywords: ["game", "gaming", "esports", "mobile legends"] },
+  { niche: "Business & Entrepreneurship", keywords: ["bisnis", "business", "usaha", "startup"] },
+  { niche: "Photography", keywords: ["photo", "foto", "photography", "kamera"] },
+];
+
+// Confidence grows with the number of keywords found for a niche
+function analyzeText(text: string) {
+  const lower = text.toLowerCase();
+  const matches = NICHE_KEYWORDS.map(({ niche, keywords }) => ({
+    niche,
+    found: keywords.filter((keyword) => lower.includes(keyword)),
+  })).filter((match) => match.found.length > 0);
+
+  if (matches.length === 0) {
+    return { interests: [], niches: [] };
+  }
+
+  matches.sort((a, b) => b.found.length - a.found.length);
+  return {
+    interests: [...new Set(matches.flatMap((match) => match.found))],
+    niches: matches.slice(0, 3).map((match) => ({
+      niche: match.niche,
+      confidence: Math.min(1, 0.3 + 0.2 * match.found.length),
+      evidence: match.found,
+    })),
+  };
+}
+
+function lastMessage(messages: LLMMessage[], role: LLMMessage["role"]) {
+  return [...messages].reverse().find((m) => m.role === role);
+}
+
+/**
+ * Deterministic offline provider for tests and local development without
+ * API keys. Answers echo the question, profile analysis uses a keyword table,
+ * and a question mentioning @username triggers one get_profile tool call.
+ */
+export class FakeProvider implements LLMProvider {
+  readonly name = "fake";
+  readonly model = "fake";
+
+  async chat(request: LLMRequest): Promise<string> {
+    const question = lastMessage(request.messages, "user")?.content || "";
+    const toolResults = request.messages.filter((m) => m.role === "tool");
+    const system = request.messages.find((m) => m.role === "system");
+
+    return [
+      `[fake] Pertanyaan: "${question}"`,
+      `Context: ${system?.content.length || 0} karakter`,
+      ...toolResults.map(
+        (m) => `Hasil tool: ${m.content.split("\n")[0].slice(0, 200)}`
+      ),
+    ].join("\n");
+  }
+
+  async completeJSON(request: LLMRequest): Promise<string> {
+    const prompt = lastMessage(request.messages, "user")?.content || "";
+    const system = request.messages.find((m) => m.role === "system");
+
+    // Batch prompts list "Profile N (username):" sections and expect "results"
+    if (system?.content.includes('"results"')) {
+      const sections = prompt.split(/^Profile \d+ \([^)]*\):$/m).slice(1);
+      return JSON.stringify({ results: sections.map(analyzeText) });
+    }
+
+    return JSON.stringify(analyzeText(prompt));
+  }
+
+  async *streamChat(
+    request: LLMStreamRequest
+  ): AsyncGenerator<string, LLMStepResult> {
+    const question = lastMessage(request.messages, "user")?.content || "";
+    const mention = question.match(/@([\w.]+)/);
+    const hasToolResults = request.messages.some((m) => m.role === "tool");
+
+    if (
+      mention &&
+      !hasToolResults &&
+      request.tools?.some((tool) => tool.name === "get_profile")
+    ) {
+      return {
+        content: "",
+        toolCalls: [
+          {
+            id: "fake_call_0",
+            name: "get_profile",
+            arguments: JSON.stringify({ username: mention[1] }),
+          },
+        ],
+      };
+    }
+
+    const content = await this.chat(request);
+    for (const token of content.match(/\S+\s*/g) || []) {
+      if (request.signal?.aborted) break;
+      yield token;
+    }
+    return { content, toolCalls: [] };
+  }
+}
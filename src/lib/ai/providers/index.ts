@@ -0,0 +1,115 @@
+import { OpenAICompatibleProvider } from "./openaiCompatible";
+import { FakeProvider } from "./fake";
+import type { LLMProvider } from "./types";
+
+export type {
+  ChatToolDefinition,
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+  LLMStepResult,
+  LLMStreamRequest,
+  ToolCallRequest,
+} from "./types";
+
+export type LLMProviderName = "gemini" | "openai" | "openai-compatible" | "fake";
+
+// Gemini OpenAI-compatible endpoint
+const GEMINI_OPENAI_BASE_URL =
+  "https://generativelanguage.googleapis.com/v1beta/openai/";
+
+// Model configuration
+const GEMINI_DEFAULT_MODEL = "gemini-3-flash-preview";
+const GEMINI_FALLBACK_MODEL = "gemini-1.5-flash";
+const OPENAI_DEFAULT_MODEL = "gpt-4o-mini";
+
+let provider: LLMProvider | null = null;
+
+function createGeminiProvider(): LLMProvider {
+  // Prefer Gemini settings; OPENROUTER_* are accepted as a transitional fallback
+  const apiKey = process.env.GEMINI_API_KEY || process.env.OPENROUTER_API_KEY;
+  if (!apiKey) {
+    throw new Error(
+      "GEMINI_API_KEY environment variable is not set (or OPENROUTER_API_KEY as fallback)"
+    );
+  }
+
+  return new OpenAICompatibleProvider({
+    name: "gemini",
+    apiKey,
+    baseURL: GEMINI_OPENAI_BASE_URL,
+    model:
+      process.env.GEMINI_MODEL ||
+      process.env.OPENROUTER_MODEL ||
+      GEMINI_DEFAULT_MODEL,
+    fallbackModel:
+      process.env.GEMINI_FALLBACK_MODEL ||
+      process.env.OPENROUTER_FALLBACK_MODEL ||
+      GEMINI_FALLBACK_MODEL,
+  });
+}
+
+function createOpenAIProvider(): LLMProvider {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY environment variable is not set");
+  }
+
+  return new OpenAICompatibleProvider({
+    name: "openai",
+    apiKey: process.env.OPENAI_API_KEY,
+    model: process.env.OPENAI_MODEL || OPENAI_DEFAULT_MODEL,
+    fallbackModel: process.env.OPENAI_FALLBACK_MODEL,
+  });
+}
+
+// Self-hosted endpoints (Ollama, vLLM, LM Studio, ...)
+function createCompatibleProvider(): LLMProvider {
+  const baseURL = process.env.LLM_BASE_URL;
+  const model = process.env.LLM_MODEL;
+  if (!baseURL || !model) {
+    throw new Error(
+      "LLM_BASE_URL and LLM_MODEL must be set for the openai-compatible provider"
+    );
+  }
+
+  return new OpenAICompatibleProvider({
+    name: "openai-compatible",
+    // Local servers usually ignore the key, but the client requires one
+    apiKey: process.env.LLM_API_KEY || "not-needed",
+    baseURL,
+    model,
+    fallbackModel: process.env.LLM_FALLBACK_MODEL,
+  });
+}
+
+export function createLLMProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case "gemini":
+      return createGeminiProvider();
+    case "openai":
+      return createOpenAIProvider();
+    case "openai-compatible":
+      return createCompatibleProvider();
+    case "fake":
+      return new FakeProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+  }
+}
+
+/**
+ * The provider selected by LLM_PROVIDER (default: gemini)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    const name = (process.env.LLM_PROVIDER || "gemini") as LLMProviderName;
+    provider = createLLMProvider(name);
+    console.log(`[LLM] Using ${provider.name} provider`);
+  }
+  return provider;
+}
+
+// Swap the provider at runtime, e.g. FakeProvider in tests
+export function setLLMProvider(override: LLMProvider | null): void {
+  provider = override;
+}
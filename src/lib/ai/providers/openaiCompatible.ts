@@ -0,0 +1,218 @@
+import OpenAI from "openai";
+import type {
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+  LLMStepResult,
+  LLMStreamRequest,
+  ToolCallRequest,
+} from "./types";
+
+// Retry configuration
+const MAX_RETRIES = 3;
+const INITIAL_DELAY_MS = 5000; // 5 seconds
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  apiKey: string;
+  // Omit for api.openai.com
+  baseURL?: string;
+  model: string;
+  // Used once the primary model stays rate limited
+  fallbackModel?: string;
+}
+
+/**
+ * Check if an error is a rate limit error (HTTP 429)
+ */
+function isRateLimitError(error: unknown): boolean {
+  if (error instanceof OpenAI.APIError) {
+    return error.status === 429;
+  }
+  return false;
+}
+
+/**
+ * Sleep for a given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function toOpenAIMessage(message: LLMMessage): OpenAI.ChatCompletionMessageParam {
+  if (message.role === "tool") {
+    return {
+      role: "tool",
+      tool_call_id: message.toolCallId,
+      content: message.content,
+    };
+  }
+  if ("toolCalls" in message) {
+    return {
+      role: "assistant",
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return message;
+}
+
+/**
+ * Provider for any endpoint speaking the OpenAI chat completions API:
+ * OpenAI itself, Gemini's compatibility layer, Ollama, vLLM, OpenRouter, ...
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private client: OpenAI;
+  readonly model: string;
+  private fallbackModel?: string;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name;
+    this.client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+    this.model = config.model;
+    this.fallbackModel =
+      config.fallbackModel && config.fallbackModel !== config.model
+        ? config.fallbackModel
+        : undefined;
+  }
+
+  /**
+   * Execute a function with exponential backoff retry and fallback model support
+   */
+  private async withRetryAndFallback<T>(
+    fn: (model: string) => Promise<T>,
+    context: string
+  ): Promise<T> {
+    const models = this.fallbackModel
+      ? [this.model, this.fallbackModel]
+      : [this.model];
+    let lastError: unknown;
+
+    for (const model of models) {
+      if (model !== this.model) {
+        console.warn(
+          `[${context}] Primary model ${this.model} rate limited after ${MAX_RETRIES} retries. Switching to fallback: ${model}`
+        );
+      }
+
+      for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+        try {
+          return await fn(model);
+        } catch (error) {
+          lastError = error;
+
+          if (!isRateLimitError(error)) {
+            // Non-rate-limit error, don't retry
+            throw error;
+          }
+
+          const delay = INITIAL_DELAY_MS * Math.pow(2, attempt);
+          console.warn(
+            `[${context}] Rate limited on ${model}, attempt ${attempt + 1}/${MAX_RETRIES}. Retrying in ${delay}ms...`
+          );
+          await sleep(delay);
+        }
+      }
+    }
+
+    console.error(`[${context}] All retries exhausted on ${this.name}`);
+    throw lastError;
+  }
+
+  async chat(request: LLMRequest): Promise<string> {
+    const response = await this.withRetryAndFallback(
+      (model) =>
+        this.client.chat.completions.create({
+          model,
+          messages: request.messages.map(toOpenAIMessage),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+        }),
+      `${this.name}.chat`
+    );
+    return response.choices[0]?.message?.content || "";
+  }
+
+  async completeJSON(request: LLMRequest): Promise<string> {
+    const response = await this.withRetryAndFallback(
+      (model) =>
+        this.client.chat.completions.create({
+          model,
+          messages: request.messages.map(toOpenAIMessage),
+          response_format: { type: "json_object" },
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+        }),
+      `${this.name}.completeJSON`
+    );
+    return response.choices[0]?.message?.content || "{}";
+  }
+
+  /**
+   * Retries and the fallback model only apply until the stream is opened;
+   * aborting the signal cancels the upstream request.
+   */
+  async *streamChat(
+    request: LLMStreamRequest
+  ): AsyncGenerator<string, LLMStepResult> {
+    const tools = request.tools || [];
+    const stream = await this.withRetryAndFallback(
+      (model) =>
+        this.client.chat.completions.create(
+          {
+            model,
+            messages: request.messages.map(toOpenAIMessage),
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            stream: true,
+            ...(tools.length > 0
+              ? {
+                  tools: tools.map((tool) => ({
+                    type: "function" as const,
+                    function: tool,
+                  })),
+                }
+              : {}),
+          },
+          { signal: request.signal }
+        ),
+      `${this.name}.streamChat`
+    );
+
+    let content = "";
+    // Tool call fragments arrive spread over chunks, keyed by index
+    const toolCalls: ToolCallRequest[] = [];
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        content += delta.content;
+        yield delta.content;
+      }
+      for (const fragment of delta?.tool_calls || []) {
+        const call = (toolCalls[fragment.index] ??= {
+          id: "",
+          name: "",
+          arguments: "",
+        });
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) {
+          call.arguments += fragment.function.arguments;
+        }
+      }
+    }
+
+    return {
+      content,
+      toolCalls: toolCalls
+        .filter((call) => call?.name)
+        .map((call, i) => ({ ...call, id: call.id || `call_${i}` })),
+    };
+  }
+}
@@ -0,0 +1,51 @@
+export interface ChatToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema of the tool arguments
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCallRequest {
+  id: string;
+  name: string;
+  // Raw JSON arguments as produced by the model
+  arguments: string;
+}
+
+export type LLMMessage =
+  | { role: "system" | "user" | "assistant"; content: string }
+  | { role: "assistant"; content: string; toolCalls: ToolCallRequest[] }
+  | { role: "tool"; toolCallId: string; content: string };
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMStreamRequest extends LLMRequest {
+  // Offered to the model; omit to force a plain answer
+  tools?: ChatToolDefinition[];
+  signal?: AbortSignal;
+}
+
+export interface LLMStepResult {
+  content: string;
+  toolCalls: ToolCallRequest[];
+}
+
+/**
+ * A chat model backend. Implementations handle their own retries; callers
+ * only see the final text (or a thrown error once retries are exhausted).
+ */
+export interface LLMProvider {
+  readonly name: string;
+  // Primary model id, recorded with analysis results
+  readonly model: string;
+  // Plain chat completion
+  chat(request: LLMRequest): Promise<string>;
+  // Completion constrained to a JSON object, returned unparsed
+  completeJSON(request: LLMRequest): Promise<string>;
+  // Streamed completion: yields answer tokens, resolves with the full step
+  streamChat(request: LLMStreamRequest): AsyncGenerator<string, LLMStepResult>;
+}
@@ -0,0 +1,33 @@
+// A count as written in a query: "500", "10,000", "1.5k", "2,5rb", "1jt".
+// "," or "." followed by exactly three digits separates thousands.
+export const COUNT_PATTERN = String.raw`(\d{1,3}(?:[.,]\d{3})+(?!\d)|\d+(?:[.,]\d+)?)\s*(k|rb|ribu|m|jt|juta)?`;
+
+const THOUSANDS_PATTERN = /^\d{1,3}(?:[.,]\d{3})+$/;
+
+const COUNT_MULTIPLIERS: Record<string, number> = {
+  k: 1_000,
+  rb: 1_000,
+  ribu: 1_000,
+  m: 1_000_000,
+  jt: 1_000_000,
+  juta: 1_000_000,
+};
+
+// Turn the two COUNT_PATTERN groups into a number
+export function parseCount(value: string, unit?: string): number {
+  const multiplier = unit ? COUNT_MULTIPLIERS[unit.toLowerCase()] : 1;
+  const number = THOUSANDS_PATTERN.test(value)
+    ? parseInt(value.replace(/[.,]/g, ""), 10)
+    : parseFloat(value.replace(",", "."));
+  return Math.round(number * multiplier);
+}
+
+// Collapse what's left of a query once filter phrases are cut out
+export function cleanQueryText(text: string): string {
+  return text
+    .replace(/\b(with|dengan|and|dan|yang)\s*(?=[,.]|$)/gi, " ")
+    .replace(/\s*,(\s*,)+/g, ",")
+    .replace(/^[\s,]+|[\s,]+$/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -1,13 +1,25 @@
 import { generateEmbedding } from "./localEmbeddings";
-import { chatWithContext } from "./openai";
 import { queryProfiles, ProfileMetadata } from "../qdrant/client";
-import { Profile } from "../db/models";
-import connectDB from "../db/mongodb";
-import type { ChatMessage, ProfileSource } from "@/types";
-
+import { findOwnedProfile, findOwnedProfiles } from "../db/ownedProfiles";
+import {
+  aggregateRelatedProfiles,
+  countRelationships,
+  getFollowersFollowingNiches,
+  getRelationshipPage,
+} from "../db/followGraph";
+import { getFollowEvents } from "../db/followEvents";
+import { searchProfiles } from "./profileSearch";
+import type { PostSearchResult } from "./postSearch";
+import type { InstagramProfile, RelationshipType } from "@/types";
+
+/**
+ * Profiles relevant to a question, by hybrid search (see searchProfiles):
+ * filters in the question such as niche or follower range are applied, and
+ * score is the fused rank score
+ */
 export async function searchRelevantProfiles(
   query: string,
-  sessionId?: string,
+  sessionId: string,
   topK: number = 10
 ): Promise<
   Array<{
@@ -16,109 +28,88 @@ export async function searchRelevantProfiles(
     metadata: ProfileMetadata;
   }>
 > {
-  // Generate embedding for the query
-  const queryEmbedding = await generateEmbedding(query);
-
-  // Build filter if sessionId provided
-  const filter = sessionId ? { sessionId } : undefined;
-
-  // Query Qdrant
-  const results = await queryProfiles(queryEmbedding, topK, filter);
+  const { profiles } = await searchProfiles(query, { sessionId }, topK);
 
-  return results.map((result) => ({
-    username: result.metadata.username,
+  return profiles.map((result) => ({
+    username: result.username,
     score: result.score,
     metadata: result.metadata,
   }));
 }
 
-// Query type detection for followers/following queries
-type QueryType =
-  | 'list_followers'
-  | 'list_following'
-  | 'following_niche'
-  | 'followers_following_niche'
-  | 'general';
-
-interface QueryInfo {
-  type: QueryType;
-  username: string | null;
-  page: number;
-}
-
-function detectQueryType(message: string): QueryInfo {
-  // Extract username pattern: @username or "akun X" or just username after certain keywords
-  const usernamePatterns = [
-    /@([\w.]+)/i,
-    /akun\s+([\w.]+)/i,
-    /username\s+([\w.]+)/i,
-    /following\s+([\w.]+)/i,
-    /followers\s+(?:dari\s+)?([\w.]+)/i,
-  ];
-
-  let username: string | null = null;
-  for (const pattern of usernamePatterns) {
-    const match = message.match(pattern);
-    if (match && match[1]) {
-      username = match[1];
-      break;
-    }
-  }
-
-  // Extract page number
-  const pageMatch = message.match(/halaman\s+(\d+)|page\s+(\d+)/i);
-  const page = pageMatch ? parseInt(pageMatch[1] || pageMatch[2]) : 1;
+// Summarize gained and lost followers between scrape runs
+export async function getFollowChangesContext(
+  sessionId: string,
+  username: string | null,
+  since: Date,
+  periodLabel: string
+): Promise<string> {
+  const events = await getFollowEvents(sessionId, {
+    username: username || undefined,
+    list: 'followers',
+    since,
+    limit: 1000,
+  });
 
-  // Detect query patterns - order matters (more specific patterns first)
+  const scope = username ? `@${username}` : 'semua akun yang di-scrape ulang';
 
-  // Pattern: "followers X kebanyakan mem-follow niche apa" or "niche yang difollow followers X"
-  if (/followers.*mem-?follow.*niche|niche.*difollow.*followers|apa\s+yang\s+difollow.*followers|followers.*follow.*akun.*niche/i.test(message)) {
-    return { type: 'followers_following_niche', username, page };
+  if (events.length === 0) {
+    return `
+=== PERUBAHAN FOLLOWERS ${scope} (${periodLabel}) ===
+Tidak ada perubahan followers yang tercatat. Perubahan hanya terdeteksi jika akun di-scrape ulang dengan opsi followers aktif.
+`;
   }
 
-  // Pattern: "akun X suka follow niche apa" or "niche apa yang difollow akun X"
-  if (/niche\s+apa.*following|follow.*niche\s+apa|suka\s+follow.*niche|niche.*yang.*difollow|following.*niche/i.test(message)) {
-    return { type: 'following_niche', username, page };
+  // Group events per observed account
+  const byAccount = new Map<string, { gained: string[]; lost: string[] }>();
+  for (const event of events) {
+    const entry = byAccount.get(event.username) || { gained: [], lost: [] };
+    entry[event.change].push(event.relatedUsername);
+    byAccount.set(event.username, entry);
   }
 
-  // Pattern: "followers X siapa saja" or "daftar followers X"
-  if (/followers\s+.*\s+siapa|siapa\s+saja\s+followers|daftar\s+followers|list\s+followers/i.test(message)) {
-    return { type: 'list_followers', username, page };
-  }
+  const maxListed = 50;
+  const sections = [...byAccount.entries()].map(([account, { gained, lost }]) => {
+    const formatList = (accounts: string[]) =>
+      accounts.length === 0
+        ? '-'
+        : accounts.slice(0, maxListed).map(acc => `@${acc}`).join(', ') +
+          (accounts.length > maxListed ? ` (+${accounts.length - maxListed} lainnya)` : '');
+
+    return `@${account}:
+- Followers baru (${gained.length}): ${formatList(gained)}
+- Unfollow (${lost.length}): ${formatList(lost)}`;
+  });
 
-  // Pattern: "following X siapa saja" or "daftar following X"
-  if (/following\s+.*\s+siapa|siapa\s+saja.*following|daftar\s+following|list\s+following|lanjutkan.*following/i.test(message)) {
-    return { type: 'list_following', username, page };
-  }
+  return `
+=== PERUBAHAN FOLLOWERS ${scope} (${periodLabel}) ===
+Dibandingkan dengan hasil scrape sebelumnya.
 
-  return { type: 'general', username, page };
+${sections.join('\n\n')}
+`;
 }
 
 // Get paginated list of followers or following
 export async function getRelationshipContext(
   username: string,
-  type: 'followers' | 'following',
+  type: RelationshipType,
   sessionId: string,
   page: number = 1,
   pageSize: number = 100
 ): Promise<string> {
-  await connectDB();
-
-  // Try to find profile with sessionId first, then without
-  let profile = await Profile.findOne({ username, sessionId }).lean();
-  if (!profile) {
-    profile = await Profile.findOne({ username }).lean();
-  }
+  const profile = await findOwnedProfile(username, sessionId);
 
   if (!profile) {
     return `Profile @${username} tidak ditemukan dalam database.`;
   }
 
-  const accountList = type === 'followers'
-    ? (profile.followers || [])
-    : (profile.following || []);
-
-  const total = accountList.length;
+  const { total, accounts } = await getRelationshipPage(
+    sessionId,
+    username,
+    type,
+    page,
+    pageSize
+  );
 
   if (total === 0) {
     return `@${username} tidak memiliki data ${type} yang tersimpan.`;
@@ -126,8 +117,11 @@ export async function getRelationshipContext(
 
   const totalPages = Math.ceil(total / pageSize);
   const startIdx = (page - 1) * pageSize;
-  const endIdx = Math.min(startIdx + pageSize, total);
-  const paginatedAccounts = accountList.slice(startIdx, endIdx);
+  const endIdx = startIdx + accounts.length;
+
+  if (accounts.length === 0) {
+    return `@${username} hanya memiliki ${totalPages} halaman ${type} (${pageSize} akun per halaman).`;
+  }
 
   return `
 === DAFTAR ${type.toUpperCase()} @${username} ===
@@ -135,7 +129,7 @@ Total: ${total.toLocaleString()} akun
 Halaman: ${page} dari ${totalPages} (${pageSize} akun per halaman)
 
 ${type === 'followers' ? 'Followers' : 'Following'} (${startIdx + 1}-${endIdx}):
-${paginatedAccounts.map(acc => `@${acc}`).join(', ')}
+${accounts.map(acc => `@${acc}`).join(', ')}
 
 ${page < totalPages ? `[Untuk melihat halaman berikutnya, tanyakan "lanjutkan daftar ${type} ${username} halaman ${page + 1}"]` : '[Ini adalah halaman terakhir]'}
 `;
@@ -146,27 +140,24 @@ export async function getFollowingNicheAnalysis(
   username: string,
   sessionId: string
 ): Promise<string> {
-  await connectDB();
-
-  // Try to find profile with sessionId first, then without
-  let profile = await Profile.findOne({ username, sessionId }).lean();
-  if (!profile) {
-    profile = await Profile.findOne({ username }).lean();
-  }
+  const profile = await findOwnedProfile(username, sessionId);
 
   if (!profile) {
     return `Profile @${username} tidak ditemukan dalam database.`;
   }
 
-  const followingList = profile.following || [];
+  const totalFollowing = await countRelationships(sessionId, username, 'following');
 
-  if (followingList.length === 0) {
+  if (totalFollowing === 0) {
     return `@${username} tidak memiliki data following yang tersimpan.`;
   }
 
-  // Use MongoDB aggregation to analyze niche distribution
-  const nicheAggregation = await Profile.aggregate([
-    { $match: { username: { $in: followingList } } },
+  // Use MongoDB aggregation over the following edges to analyze niche distribution
+  const nicheAggregation = await aggregateRelatedProfiles<{
+    niche: string | null;
+    count: number;
+    sampleAccounts: string[];
+  }>(sessionId, username, 'following', [
     { $group: {
         _id: '$niche',
         count: { $sum: 1 },
@@ -180,16 +171,17 @@ export async function getFollowingNicheAnalysis(
     }}
   ]);
 
-  const interestAggregation = await Profile.aggregate([
-    { $match: { username: { $in: followingList } } },
+  const interestAggregation = await aggregateRelatedProfiles<{
+    _id: string;
+    count: number;
+  }>(sessionId, username, 'following', [
     { $unwind: '$interests' },
     { $group: { _id: '$interests', count: { $sum: 1 } } },
     { $sort: { count: -1 } },
     { $limit: 15 }
   ]);
 
-  const analyzedCount = await Profile.countDocuments({ username: { $in: followingList } });
-  const totalFollowing = followingList.length;
+  const analyzedCount = nicheAggregation.reduce((sum, n) => sum + n.count, 0);
 
   if (analyzedCount === 0) {
     return `@${username} mem-follow ${totalFollowing} akun, namun tidak ada yang ditemukan di database untuk dianalisis.`;
@@ -228,97 +220,48 @@ export async function getFollowersFollowingNicheAnalysis(
   entryUsername: string,
   sessionId: string
 ): Promise<string> {
-  await connectDB();
+  // Follower edges of the entry account joined with each follower's following edges
+  const analysis = await getFollowersFollowingNiches(sessionId, entryUsername);
 
-  // Get followers of entry account (profiles with parentUsername = entryUsername)
-  const followers = await Profile.find({
-    parentUsername: entryUsername,
-    sessionId
-  }).lean();
-
-  if (followers.length === 0) {
+  if (analysis.totalFollowers === 0) {
     return `Tidak ada data followers dari @${entryUsername} yang tersimpan dalam session ini.`;
   }
 
-  // Collect all following from all followers
-  const allFollowing: string[] = [];
-  const followersWithData: string[] = [];
-
-  followers.forEach(f => {
-    if (f.following && f.following.length > 0) {
-      allFollowing.push(...f.following);
-      followersWithData.push(f.username);
-    }
-  });
-
-  if (allFollowing.length === 0) {
+  if (analysis.totalFollows === 0) {
     return `Followers @${entryUsername} tidak memiliki data following yang tersimpan.`;
   }
 
-  // Count frequency of each followed account
-  const followCounts: Record<string, number> = {};
-  allFollowing.forEach(username => {
-    followCounts[username] = (followCounts[username] || 0) + 1;
-  });
-
-  const uniqueFollowed = Object.keys(followCounts);
-
-  // Aggregate niche distribution
-  const nicheAggregation = await Profile.aggregate([
-    { $match: { username: { $in: uniqueFollowed } } },
-    { $group: {
-        _id: '$niche',
-        uniqueAccounts: { $sum: 1 },
-        accounts: { $push: '$username' }
-    }},
-    { $sort: { uniqueAccounts: -1 } }
-  ]);
-
-  // Enhance with follow counts
-  const nicheDistribution = nicheAggregation.map(n => {
-    const totalFollowsForNiche = n.accounts.reduce((sum: number, acc: string) =>
-      sum + (followCounts[acc] || 0), 0);
-    const topAccounts = n.accounts
-      .map((acc: string) => ({ username: acc, count: followCounts[acc] || 0 }))
-      .sort((a: {count: number}, b: {count: number}) => b.count - a.count)
-      .slice(0, 5);
-
-    return {
-      niche: n._id || 'Unknown',
-      totalFollows: totalFollowsForNiche,
-      uniqueAccounts: n.uniqueAccounts,
-      topAccounts
-    };
-  }).sort((a, b) => b.totalFollows - a.totalFollows);
-
-  const totalFollows = Object.values(followCounts).reduce((a, b) => a + b, 0);
-  const foundInDb = await Profile.countDocuments({ username: { $in: uniqueFollowed } });
+  const nicheDistribution = analysis.niches.map((n) => ({
+    ...n,
+    niche: n.niche || 'Unknown',
+  }));
+  const foundInDb = nicheDistribution.reduce((sum, n) => sum + n.uniqueAccounts, 0);
 
   if (foundInDb === 0) {
-    return `Followers @${entryUsername} mem-follow ${uniqueFollowed.length} unique akun, namun tidak ada yang ditemukan di database untuk dianalisis.`;
+    return `Followers @${entryUsername} mem-follow ${analysis.uniqueFollowed} unique akun, namun tidak ada yang ditemukan di database untuk dianalisis.`;
   }
 
   return `
 === ANALISIS AGREGAT: APA YANG DIFOLLOW OLEH FOLLOWERS @${entryUsername} ===
 
 Entry Account: @${entryUsername}
-Total Followers: ${followers.length.toLocaleString()} akun
-Followers dengan Data Following: ${followersWithData.length.toLocaleString()} akun (${Math.round((followersWithData.length / followers.length) * 100 * 10) / 10}%)
+Total Followers: ${analysis.totalFollowers.toLocaleString()} akun
+Followers dengan Data Following: ${analysis.followersWithData.toLocaleString()} akun (${Math.round((analysis.followersWithData / analysis.totalFollowers) * 100 * 10) / 10}%)
 
 --- RINGKASAN ---
-Total Unique Akun yang Difollow: ${uniqueFollowed.length.toLocaleString()} akun
-Ditemukan di Database: ${foundInDb.toLocaleString()} akun (${Math.round((foundInDb / uniqueFollowed.length) * 100 * 10) / 10}%)
+Total Unique Akun yang Difollow: ${analysis.uniqueFollowed.toLocaleString()} akun
+Ditemukan di Database: ${foundInDb.toLocaleString()} akun (${Math.round((foundInDb / analysis.uniqueFollowed) * 100 * 10) / 10}%)
 
 --- DISTRIBUSI NICHE YANG PALING BANYAK DIFOLLOW ---
 ${nicheDistribution.slice(0, 10).map((n, i) =>
   `${i + 1}. ${n.niche}: ${n.totalFollows.toLocaleString()} follows dari ${n.uniqueAccounts} unique akun
-   Top: ${n.topAccounts.map((a: {username: string, count: number}) => `@${a.username} (${a.count}x)`).join(', ')}`
+   Top: ${n.topAccounts.map((a) => `@${a.username} (${a.count}x)`).join(', ')}`
 ).join('\n')}
 
 --- INSIGHT ---
 Followers @${entryUsername} paling banyak mem-follow akun dengan niche:
 ${nicheDistribution.slice(0, 3).map((n, i) =>
-  `${i + 1}. ${n.niche} (${Math.round((n.totalFollows / totalFollows) * 100)}%)`
+  `${i + 1}. ${n.niche} (${Math.round((n.totalFollows / analysis.totalFollows) * 100)}%)`
 ).join('\n')}
 `;
 }
@@ -328,19 +271,20 @@ export async function buildContextFromProfiles(
     username: string;
     score: number;
     metadata: ProfileMetadata;
-  }>
+  }>,
+  sessionId: string
 ): Promise<string> {
-  await connectDB();
-
   const contextParts: string[] = [];
 
   for (const { username, score, metadata } of profiles) {
-    // Get full profile from database
-    const fullProfile = await Profile.findOne({ username }).lean();
+    // Get full profile as seen by this session
+    const fullProfile = await findOwnedProfile(username, sessionId);
 
     if (fullProfile) {
-      const followersList = fullProfile.followers || [];
-      const followingList = fullProfile.following || [];
+      const [followers, following] = await Promise.all([
+        getRelationshipPage(sessionId, username, "followers", 1, 20),
+        getRelationshipPage(sessionId, username, "following", 1, 20),
+      ]);
 
       const profileContext = [
         `--- Profile: @${username} (Relevance: ${(score * 100).toFixed(
@@ -348,8 +292,8 @@ export async function buildContextFromProfiles(
         )}%) ---`,
         `Name: ${fullProfile.fullName || "N/A"}`,
         `Bio: ${fullProfile.bio || "N/A"}`,
-        `Followers: ${followersList.length} akun${followersList.length > 0 ? ` (sample: ${followersList.slice(0, 20).join(", ")}${followersList.length > 20 ? "..." : ""})` : ""}`,
-        `Following: ${followingList.length} akun${followingList.length > 0 ? ` (sample: ${followingList.slice(0, 20).join(", ")}${followingList.length > 20 ? "..." : ""})` : ""}`,
+        `Followers: ${followers.total} akun${followers.total > 0 ? ` (sample: ${followers.accounts.join(", ")}${followers.total > 20 ? "..." : ""})` : ""}`,
+        `Following: ${following.total} akun${following.total > 0 ? ` (sample: ${following.accounts.join(", ")}${following.total > 20 ? "..." : ""})` : ""}`,
         `Posts: ${fullProfile.postsCount}`,
         `Interests: ${metadata.interests.join(", ") || "Unknown"}`,
         `Niche: ${metadata.niche || "Unknown"}`,
@@ -364,8 +308,34 @@ export async function buildContextFromProfiles(
   return contextParts.join("\n\n");
 }
 
-// Get comprehensive statistics for all scraped profiles
-export async function getComprehensiveStats(sessionId: string): Promise<{
+// How profiles count towards the niche distribution: one vote for the top
+// niche, or a vote per ranked niche weighted by its confidence
+export type NicheWeighting = "primary" | "confidence";
+
+function getNicheWeights(
+  profile: InstagramProfile,
+  weighting: NicheWeighting
+): Array<{ niche: string; weight: number }> {
+  if (weighting === "confidence" && profile.niches?.length) {
+    // A merge in the taxonomy can leave the same niche listed twice
+    const weights = new Map<string, number>();
+    for (const { niche, confidence } of profile.niches) {
+      weights.set(niche, Math.max(weights.get(niche) || 0, confidence));
+    }
+    return [...weights].map(([niche, weight]) => ({ niche, weight }));
+  }
+  return [{ niche: profile.niche || "Unknown", weight: 1 }];
+}
+
+/**
+ * Get comprehensive statistics for all scraped profiles.
+ * With confidence weighting a niche's count is the expected number of
+ * profiles in it, so percentages can add up to more than 100.
+ */
+export async function getComprehensiveStats(
+  sessionId: string,
+  weighting: NicheWeighting = "primary"
+): Promise<{
   totalProfiles: number;
   nicheDistribution: Array<{
     niche: string;
@@ -393,9 +363,7 @@ export async function getComprehensiveStats(sessionId: string): Promise<{
   }>;
   contentSuggestions: string[];
 }> {
-  await connectDB();
-
-  const profiles = await Profile.find({ sessionId }).lean();
+  const profiles = await findOwnedProfiles(sessionId);
   const totalProfiles = profiles.length;
 
   if (totalProfiles === 0) {
@@ -414,14 +382,15 @@ export async function getComprehensiveStats(sessionId: string): Promise<{
   // Niche distribution with percentage
   const nicheCounts: Record<string, number> = {};
   profiles.forEach((profile) => {
-    const niche = profile.niche || "Unknown";
-    nicheCounts[niche] = (nicheCounts[niche] || 0) + 1;
+    for (const { niche, weight } of getNicheWeights(profile, weighting)) {
+      nicheCounts[niche] = (nicheCounts[niche] || 0) + weight;
+    }
   });
 
   const nicheDistribution = Object.entries(nicheCounts)
     .map(([niche, count]) => ({
       niche,
-      count,
+      count: Math.round(count * 10) / 10,
       percentage: Math.round((count / totalProfiles) * 100 * 10) / 10,
     }))
     .sort((a, b) => b.count - a.count);
@@ -732,19 +701,11 @@ function generateContentSuggestions(
   return [...new Set(suggestions)].slice(0, 8);
 }
 
-// Build comprehensive context for chat including statistics
-async function buildComprehensiveContext(
-  sessionId: string,
-  relevantProfiles: Array<{
-    username: string;
-    score: number;
-    metadata: ProfileMetadata;
-  }>
-): Promise<string> {
-  const stats = await getComprehensiveStats(sessionId);
-  const profileContext = await buildContextFromProfiles(relevantProfiles);
-
-  const statsContext = `
+// Format session statistics for the LLM
+export function formatStatsContext(
+  stats: Awaited<ReturnType<typeof getComprehensiveStats>>
+): string {
+  return `
 === STATISTIK DATA FOLLOWERS ===
 
 Total Profiles Scraped: ${stats.totalProfiles}
@@ -791,117 +752,56 @@ ${stats.topProfilesByFollowers
 
 --- SARAN KONTEN BERDASARKAN DATA (JUGA BERIKAN SARAN KONTEN DI LUAR DATA INI) ---
 ${stats.contentSuggestions.map((s, i) => `${i + 1}. ${s}`).join("\n")}
-
-=== PROFILE RELEVAN DENGAN PERTANYAAN ===
-${profileContext || "Tidak ada profile spesifik yang relevan."}
 `;
-
-  return statsContext;
 }
 
-// Enhanced chat function with comprehensive context
-export async function chat(
-  messages: ChatMessage[],
-  sessionId?: string
-): Promise<{
-  response: string;
-  sources: ProfileSource[];
-}> {
-  // Get the last user message for context search
-  const lastUserMessage = [...messages]
-    .reverse()
-    .find((m) => m.role === "user");
-
-  if (!lastUserMessage) {
-    return {
-      response: "Silakan ajukan pertanyaan tentang data Instagram profiles.",
-      sources: [],
-    };
-  }
-
-  if (!sessionId) {
-    return {
-      response: "Session tidak ditemukan. Silakan login ulang.",
-      sources: [],
-    };
-  }
-
-  // Detect query type for followers/following queries
-  const queryInfo = detectQueryType(lastUserMessage.content);
-  let additionalContext = "";
-
-  // Generate additional context based on query type
-  if (queryInfo.username) {
-    switch (queryInfo.type) {
-      case 'list_followers':
-        additionalContext = await getRelationshipContext(
-          queryInfo.username, 'followers', sessionId, queryInfo.page
-        );
-        break;
-      case 'list_following':
-        additionalContext = await getRelationshipContext(
-          queryInfo.username, 'following', sessionId, queryInfo.page
-        );
-        break;
-      case 'following_niche':
-        additionalContext = await getFollowingNicheAnalysis(queryInfo.username, sessionId);
-        break;
-      case 'followers_following_niche':
-        additionalContext = await getFollowersFollowingNicheAnalysis(queryInfo.username, sessionId);
-        break;
-    }
-  }
-
-  // Search for relevant profiles (for specific profile questions)
-  let relevantProfiles: Array<{
+// Build comprehensive context for chat including statistics
+export async function buildComprehensiveContext(
+  sessionId: string,
+  relevantProfiles: Array<{
     username: string;
     score: number;
     metadata: ProfileMetadata;
-  }> = [];
-
-  try {
-    relevantProfiles = await searchRelevantProfiles(
-      lastUserMessage.content,
-      sessionId,
-      5
-    );
-  } catch (error) {
-    // If Qdrant search fails, continue with just stats
-    console.error("Qdrant search error:", error);
-  }
-
-  // Build comprehensive context including statistics
-  const context = await buildComprehensiveContext(sessionId, relevantProfiles);
-
-  // Combine additional context with main context
-  const fullContext = additionalContext
-    ? `${additionalContext}\n\n${context}`
-    : context;
-
-  // Generate response with context
-  const response = await chatWithContext(
-    messages.map((m) => ({ role: m.role, content: m.content })),
-    fullContext
+  }>,
+  relevantPosts: PostSearchResult[] = []
+): Promise<string> {
+  const stats = await getComprehensiveStats(sessionId);
+  const profileContext = await buildContextFromProfiles(
+    relevantProfiles,
+    sessionId
   );
 
-  // Build sources
-  const sources: ProfileSource[] = relevantProfiles.map((profile) => ({
-    username: profile.username,
-    relevance: profile.score,
-    snippet: profile.metadata.bio || profile.metadata.niche || "No description",
-  }));
+  return `${formatStatsContext(stats)}
+=== PROFILE RELEVAN DENGAN PERTANYAAN ===
+${profileContext || "Tidak ada profile spesifik yang relevan."}
 
-  return { response, sources };
+=== POST RELEVAN DENGAN PERTANYAAN ===
+${formatPostsContext(relevantPosts) || "Tidak ada post spesifik yang relevan."}
+`;
+}
+
+// List posts with the link the model should cite them by
+export function formatPostsContext(posts: PostSearchResult[]): string {
+  return posts
+    .map(
+      (post) => `@${post.username} - ${post.type}, ${post.likesCount.toLocaleString()} likes, ${post.commentsCount.toLocaleString()} komentar, ${post.postedAt.slice(0, 10)}
+Link: ${post.url}
+Caption: ${post.caption.slice(0, 300)}`
+    )
+    .join("\n\n");
 }
 
 // Legacy function for API compatibility
-export async function getProfileStats(sessionId: string): Promise<{
+export async function getProfileStats(
+  sessionId: string,
+  weighting: NicheWeighting = "primary"
+): Promise<{
   totalProfiles: number;
   nicheDistribution: Record<string, number>;
   averageFollowers: number;
   topInterests: Array<{ interest: string; count: number }>;
 }> {
-  const stats = await getComprehensiveStats(sessionId);
+  const stats = await getComprehensiveStats(sessionId, weighting);
 
   const nicheDistribution: Record<string, number> = {};
   stats.nicheDistribution.forEach((n) => {
@@ -921,6 +821,7 @@ export async function getProfileStats(sessionId: string): Promise<{
 
 export async function findSimilarProfiles(
   username: string,
+  sessionId: string,
   topK: number = 5
 ): Promise<
   Array<{
@@ -929,10 +830,8 @@ export async function findSimilarProfiles(
     metadata: ProfileMetadata;
   }>
 > {
-  await connectDB();
-
   // Get the profile
-  const profile = await Profile.findOne({ username }).lean();
+  const profile = await findOwnedProfile(username, sessionId);
 
   if (!profile) {
     throw new Error(`Profile ${username} not found`);
@@ -945,12 +844,15 @@ export async function findSimilarProfiles(
     profile.niche || "",
   ].join(" ");
 
-  // Search for similar profiles
-  const results = await searchRelevantProfiles(
-    searchText,
-    profile.sessionId,
-    topK + 1
-  );
+  // Search for similar profiles (plain vector search, a bio isn't a query)
+  const queryEmbedding = await generateEmbedding(searchText);
+  const results = (
+    await queryProfiles(queryEmbedding, topK + 1, { sessionId })
+  ).map((result) => ({
+    username: result.metadata.username,
+    score: result.score,
+    metadata: result.metadata,
+  }));
 
   // Filter out the original profile
   return results.filter((r) => r.username !== username).slice(0, topK);
@@ -980,19 +882,13 @@ export async function getFollowersAnalysis(
     }>;
   };
 }> {
-  await connectDB();
-
   // Get entry point profile
-  const entryProfile = await Profile.findOne({
-    username: entryUsername,
-    sessionId,
-  }).lean();
+  const entryProfile = await findOwnedProfile(entryUsername, sessionId);
 
   // Get all followers (profiles with parentUsername = entryUsername)
-  const followers = await Profile.find({
-    parentUsername: entryUsername,
-    sessionId,
-  }).lean();
+  const followers = await findOwnedProfiles(sessionId, {
+    linkMatch: { parentUsername: entryUsername },
+  });
 
   if (followers.length === 0) {
     return {
@@ -0,0 +1,127 @@
+import { v4 as uuidv4 } from "uuid";
+import { Conversation } from "./models";
+import connectDB from "./mongodb";
+import type {
+  Conversation as ConversationType,
+  ConversationMessage,
+} from "@/types";
+
+// Length of titles derived from the first question
+const AUTO_TITLE_LENGTH = 60;
+
+export interface ConversationSummary {
+  conversationId: string;
+  title: string;
+  messageCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export async function listConversations(
+  sessionId: string,
+  limit: number = 50
+): Promise<ConversationSummary[]> {
+  await connectDB();
+  return Conversation.aggregate<ConversationSummary>([
+    { $match: { sessionId } },
+    { $sort: { updatedAt: -1 } },
+    { $limit: limit },
+    {
+      $project: {
+        _id: 0,
+        conversationId: 1,
+        title: 1,
+        messageCount: { $size: "$messages" },
+        createdAt: 1,
+        updatedAt: 1,
+      },
+    },
+  ]);
+}
+
+export async function createConversation(
+  sessionId: string,
+  title: string = ""
+): Promise<Omit<ConversationType, "_id">> {
+  await connectDB();
+  const conversation = await Conversation.create({
+    conversationId: uuidv4(),
+    sessionId,
+    title,
+    messages: [],
+  });
+  return conversation.toObject();
+}
+
+/**
+ * Get a conversation owned by the session
+ * @param includeContext Include the data context stored with each answer
+ */
+export async function getConversation(
+  conversationId: string,
+  sessionId: string,
+  includeContext: boolean = false
+): Promise<ConversationType | null> {
+  await connectDB();
+  return Conversation.findOne(
+    { conversationId, sessionId },
+    includeContext ? {} : { "messages.context": 0 }
+  ).lean<ConversationType>();
+}
+
+/**
+ * @returns false if the conversation doesn't exist for this session
+ */
+export async function renameConversation(
+  conversationId: string,
+  sessionId: string,
+  title: string
+): Promise<boolean> {
+  await connectDB();
+  const result = await Conversation.updateOne(
+    { conversationId, sessionId },
+    { $set: { title } }
+  );
+  return result.matchedCount > 0;
+}
+
+export async function deleteConversation(
+  conversationId: string,
+  sessionId: string
+): Promise<boolean> {
+  await connectDB();
+  const result = await Conversation.deleteOne({ conversationId, sessionId });
+  return result.deletedCount > 0;
+}
+
+/**
+ * Append a question and its answer. Untitled conversations are named after
+ * their first question.
+ */
+export async function appendConversationMessages(
+  conversationId: string,
+  sessionId: string,
+  messages: ConversationMessage[]
+): Promise<void> {
+  await connectDB();
+
+  await Conversation.updateOne(
+    { conversationId, sessionId },
+    { $push: { messages: { $each: messages } } }
+  );
+
+  const firstQuestion = messages.find((m) => m.role === "user")?.content.trim();
+  if (firstQuestion) {
+    await Conversation.updateOne(
+      { conversationId, sessionId, title: "" },
+      {
+        $set: {
+          title:
+            firstQuestion.length > AUTO_TITLE_LENGTH
+              ? `${firstQuestion.slice(0, AUTO_TITLE_LENGTH - 1)}…`
+              : firstQuestion,
+        },
+      }
+    );
+  }
+}
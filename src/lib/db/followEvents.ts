@@ -0,0 +1,130 @@
+import type { AnyBulkWriteOperation } from "mongoose";
+import { FollowEvent } from "./models";
+import connectDB from "./mongodb";
+import type { SnapshotDiffs } from "./profileHistory";
+import type { FollowChange, FollowEvent as FollowEventType } from "@/types";
+
+export interface FollowEventQuery {
+  username?: string;
+  list?: FollowEventType["list"];
+  change?: FollowChange;
+  since?: Date;
+  skip?: number;
+  limit?: number;
+}
+
+/**
+ * Persist the gained/lost accounts of a scrape as FollowEvent records.
+ * Upserted per job so retried scrapes don't create duplicates.
+ * @returns Number of events in the diffs
+ */
+export async function recordFollowEvents(
+  sessionId: string,
+  username: string,
+  jobId: string,
+  diffs: SnapshotDiffs,
+  detectedAt: Date
+): Promise<number> {
+  const lists = [
+    { list: "followers" as const, diff: diffs.followersDiff },
+    { list: "following" as const, diff: diffs.followingDiff },
+  ];
+
+  const events: Omit<FollowEventType, "_id">[] = lists.flatMap(
+    ({ list, diff }) =>
+      diff
+        ? [
+            ...diff.added.map((relatedUsername) => ({
+              sessionId,
+              username,
+              relatedUsername,
+              list,
+              change: "gained" as const,
+              jobId,
+              detectedAt,
+            })),
+            ...diff.removed.map((relatedUsername) => ({
+              sessionId,
+              username,
+              relatedUsername,
+              list,
+              change: "lost" as const,
+              jobId,
+              detectedAt,
+            })),
+          ]
+        : []
+  );
+
+  if (events.length === 0) return 0;
+
+  await connectDB();
+
+  const operations: AnyBulkWriteOperation[] = events.map((event) => ({
+    updateOne: {
+      filter: {
+        sessionId,
+        username,
+        list: event.list,
+        relatedUsername: event.relatedUsername,
+        jobId,
+      },
+      update: { $setOnInsert: event },
+      upsert: true,
+    },
+  }));
+
+  await FollowEvent.bulkWrite(operations, { ordered: false });
+
+  return events.length;
+}
+
+function buildFilter(sessionId: string, query: FollowEventQuery) {
+  return {
+    sessionId,
+    ...(query.username ? { username: query.username } : {}),
+    ...(query.list ? { list: query.list } : {}),
+    ...(query.change ? { change: query.change } : {}),
+    ...(query.since ? { detectedAt: { $gte: query.since } } : {}),
+  };
+}
+
+/**
+ * Get a session's follow events, newest first
+ */
+export async function getFollowEvents(
+  sessionId: string,
+  query: FollowEventQuery = {}
+): Promise<FollowEventType[]> {
+  await connectDB();
+
+  return FollowEvent.find(buildFilter(sessionId, query))
+    .sort({ detectedAt: -1, relatedUsername: 1 })
+    .skip(query.skip || 0)
+    .limit(query.limit || 100)
+    .lean<FollowEventType[]>();
+}
+
+/**
+ * Count a session's follow events per change type
+ */
+export async function countFollowEvents(
+  sessionId: string,
+  query: Omit<FollowEventQuery, "change" | "skip" | "limit"> = {}
+): Promise<Record<FollowChange, number>> {
+  await connectDB();
+
+  const results = await FollowEvent.aggregate<{
+    _id: FollowChange;
+    count: number;
+  }>([
+    { $match: buildFilter(sessionId, query) },
+    { $group: { _id: "$change", count: { $sum: 1 } } },
+  ]);
+
+  const counts: Record<FollowChange, number> = { gained: 0, lost: 0 };
+  results.forEach((r) => {
+    counts[r._id] = r.count;
+  });
+  return counts;
+}
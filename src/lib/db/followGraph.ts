@@ -0,0 +1,337 @@
+import type { AnyBulkWriteOperation, PipelineStage } from "mongoose";
+import { Edge, Profile, ProfileLink } from "./models";
+import connectDB from "./mongodb";
+import type { RelationshipType } from "@/types";
+
+// Edges upserted per bulkWrite call
+const WRITE_BATCH_SIZE = 1000;
+
+export interface Relationships {
+  followers?: string[];
+  following?: string[];
+}
+
+export interface FollowedNiche {
+  niche: string | null;
+  totalFollows: number;
+  uniqueAccounts: number;
+  topAccounts: Array<{ username: string; count: number }>;
+}
+
+export interface FollowersFollowingAnalysis {
+  totalFollowers: number;
+  followersWithData: number;
+  uniqueFollowed: number;
+  totalFollows: number;
+  niches: FollowedNiche[];
+}
+
+/**
+ * The `type` list of `source` as last stored for the session (empty if it
+ * was never scraped)
+ */
+export async function getRelationships(
+  sessionId: string,
+  source: string,
+  type: RelationshipType
+): Promise<string[]> {
+  await connectDB();
+
+  const edges = await Edge.find(
+    { sessionId, source, type },
+    { _id: 0, target: 1 }
+  ).lean();
+
+  return edges.map((edge) => edge.target);
+}
+
+/**
+ * Upsert edges from `source` to accounts seen in its `type` list, keeping
+ * the firstSeen of accounts seen before. Accounts missing from `targets` are
+ * left alone, so this is safe for lists that were only partially scraped.
+ */
+export async function addRelationships(
+  sessionId: string,
+  source: string,
+  type: RelationshipType,
+  targets: string[],
+  jobId: string,
+  seenAt: Date = new Date()
+): Promise<void> {
+  await connectDB();
+
+  const uniqueTargets = [...new Set(targets)];
+  for (let i = 0; i < uniqueTargets.length; i += WRITE_BATCH_SIZE) {
+    const operations: AnyBulkWriteOperation[] = uniqueTargets
+      .slice(i, i + WRITE_BATCH_SIZE)
+      .map((target) => ({
+        updateOne: {
+          filter: { sessionId, source, type, target },
+          update: {
+            $set: { jobId, lastSeen: seenAt },
+            $setOnInsert: { firstSeen: seenAt },
+          },
+          upsert: true,
+        },
+      }));
+    await Edge.bulkWrite(operations, { ordered: false });
+  }
+}
+
+/**
+ * Replace the `type` list of `source` with a freshly scraped, complete one.
+ * Accounts seen again keep their firstSeen; accounts that left the list are
+ * removed (FollowEvents keep track of them).
+ */
+export async function replaceRelationships(
+  sessionId: string,
+  source: string,
+  type: RelationshipType,
+  targets: string[],
+  jobId: string,
+  seenAt: Date = new Date()
+): Promise<void> {
+  await addRelationships(sessionId, source, type, targets, jobId, seenAt);
+  await Edge.deleteMany({ sessionId, source, type, lastSeen: { $lt: seenAt } });
+}
+
+export async function countRelationships(
+  sessionId: string,
+  username: string,
+  type: RelationshipType
+): Promise<number> {
+  await connectDB();
+  return Edge.countDocuments({ sessionId, source: username, type });
+}
+
+/**
+ * Get one page of a profile's followers or following, sorted by username
+ */
+export async function getRelationshipPage(
+  sessionId: string,
+  username: string,
+  type: RelationshipType,
+  page: number = 1,
+  pageSize: number = 100
+): Promise<{ total: number; accounts: string[] }> {
+  await connectDB();
+
+  const [total, edges] = await Promise.all([
+    countRelationships(sessionId, username, type),
+    Edge.find({ sessionId, source: username, type }, { _id: 0, target: 1 })
+      .sort({ target: 1 })
+      .skip((page - 1) * pageSize)
+      .limit(pageSize)
+      .lean(),
+  ]);
+
+  return { total, accounts: edges.map((edge) => edge.target) };
+}
+
+/**
+ * Get the most recently scraped list of a profile from any session, so a
+ * crawl can reuse it instead of scraping it again.
+ * @returns undefined if no list was scraped since the given date
+ */
+export async function getRecentRelationships(
+  username: string,
+  type: RelationshipType,
+  since: Date
+): Promise<string[] | undefined> {
+  await connectDB();
+
+  const latest = await Edge.findOne({
+    source: username,
+    type,
+    lastSeen: { $gte: since },
+  })
+    .sort({ lastSeen: -1 })
+    .lean();
+
+  if (!latest) {
+    return undefined;
+  }
+
+  return getRelationships(latest.sessionId, username, type);
+}
+
+/**
+ * Aggregation stages (run on Edge) that resolve each edge's target to the
+ * canonical profile, keeping only accounts the session has scraped itself.
+ */
+function targetProfileStages(sessionId: string): PipelineStage[] {
+  return [
+    {
+      $lookup: {
+        from: ProfileLink.collection.name,
+        localField: "target",
+        foreignField: "username",
+        pipeline: [{ $match: { sessionId } }, { $project: { _id: 1 } }],
+        as: "link",
+      },
+    },
+    { $match: { "link.0": { $exists: true } } },
+    {
+      $lookup: {
+        from: Profile.collection.name,
+        localField: "target",
+        foreignField: "username",
+        as: "profile",
+      },
+    },
+    { $unwind: "$profile" },
+    { $replaceRoot: { newRoot: "$profile" } },
+  ];
+}
+
+/**
+ * Run an aggregation over the scraped profiles in one of a profile's lists
+ * @param stages Stages appended after the related profiles are produced
+ */
+export async function aggregateRelatedProfiles<T>(
+  sessionId: string,
+  username: string,
+  type: RelationshipType,
+  stages: PipelineStage[] = []
+): Promise<T[]> {
+  await connectDB();
+  return Edge.aggregate<T>([
+    { $match: { sessionId, source: username, type } },
+    ...targetProfileStages(sessionId),
+    ...stages,
+  ]).allowDiskUse(true);
+}
+
+/**
+ * Niches followed by the followers of an account, based on the following
+ * lists scraped for those followers. Runs entirely in MongoDB.
+ */
+export async function getFollowersFollowingNiches(
+  sessionId: string,
+  username: string
+): Promise<FollowersFollowingAnalysis> {
+  await connectDB();
+
+  const followedCounts: PipelineStage.FacetPipelineStage[] = [
+    { $unwind: "$following" },
+    { $group: { _id: "$following.target", follows: { $sum: 1 } } },
+  ];
+
+  const [result] = await Edge.aggregate<{
+    totalFollowers: Array<{ count: number }>;
+    followersWithData: Array<{ count: number }>;
+    totals: Array<{ uniqueFollowed: number; totalFollows: number }>;
+    niches: FollowedNiche[];
+  }>([
+    { $match: { sessionId, source: username, type: "followers" } },
+    {
+      $lookup: {
+        from: Edge.collection.name,
+        localField: "target",
+        foreignField: "source",
+        pipeline: [
+          { $match: { sessionId, type: "following" } },
+          { $project: { _id: 0, target: 1 } },
+        ],
+        as: "following",
+      },
+    },
+    {
+      $facet: {
+        totalFollowers: [{ $count: "count" }],
+        followersWithData: [
+          { $match: { "following.0": { $exists: true } } },
+          { $count: "count" },
+        ],
+        totals: [
+          ...followedCounts,
+          {
+            $group: {
+              _id: null,
+              uniqueFollowed: { $sum: 1 },
+              totalFollows: { $sum: "$follows" },
+            },
+          },
+        ],
+        niches: [
+          ...followedCounts,
+          { $sort: { follows: -1 } },
+          { $set: { target: "$_id" } },
+          ...(targetProfileStages(sessionId).slice(
+            0,
+            -1
+          ) as PipelineStage.FacetPipelineStage[]),
+          {
+            $group: {
+              _id: "$profile.niche",
+              totalFollows: { $sum: "$follows" },
+              uniqueAccounts: { $sum: 1 },
+              topAccounts: { $push: { username: "$_id", count: "$follows" } },
+            },
+          },
+          { $sort: { totalFollows: -1 } },
+          {
+            $project: {
+              _id: 0,
+              niche: "$_id",
+              totalFollows: 1,
+              uniqueAccounts: 1,
+              topAccounts: { $slice: ["$topAccounts", 5] },
+            },
+          },
+        ],
+      },
+    },
+  ]).allowDiskUse(true);
+
+  return {
+    totalFollowers: result?.totalFollowers[0]?.count || 0,
+    followersWithData: result?.followersWithData[0]?.count || 0,
+    uniqueFollowed: result?.totals[0]?.uniqueFollowed || 0,
+    totalFollows: result?.totals[0]?.totalFollows || 0,
+    niches: result?.niches || [],
+  };
+}
+
+/**
+ * One-off migration for relationship arrays stored on ProfileLink before the
+ * Edge collection existed. Safe to run repeatedly.
+ */
+export async function migrateRelationshipArrays(): Promise<number> {
+  await connectDB();
+
+  const legacy = ProfileLink.collection.find({
+    $or: [{ followers: { $exists: true } }, { following: { $exists: true } }],
+  });
+  let migrated = 0;
+
+  for await (const doc of legacy) {
+    const seenAt: Date = doc.scrapedAt || new Date();
+
+    for (const type of ["followers", "following"] as const) {
+      const targets: string[] = doc[type] || [];
+      if (targets.length > 0) {
+        await replaceRelationships(
+          doc.sessionId,
+          doc.username,
+          type,
+          targets,
+          doc.jobId || "legacy",
+          seenAt
+        );
+      }
+    }
+
+    await ProfileLink.collection.updateOne(
+      { _id: doc._id },
+      { $unset: { followers: "", following: "" } }
+    );
+    migrated++;
+  }
+
+  if (migrated > 0) {
+    console.log(`[FollowGraph] Migrated relationships of ${migrated} profiles`);
+  }
+
+  return migrated;
+}
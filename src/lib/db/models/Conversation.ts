@@ -0,0 +1,87 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type {
+  Conversation as ConversationType,
+  ConversationMessage,
+  ToolCallRecord,
+} from '@/types';
+
+export interface IConversationDocument
+  extends Omit<ConversationType, '_id'>,
+    Document {}
+
+const ToolCallRecordSchema = new Schema<ToolCallRecord>(
+  {
+    name: String,
+    arguments: Schema.Types.Mixed,
+    result: String,
+    error: Boolean,
+    durationMs: Number,
+  },
+  { _id: false }
+);
+
+const ConversationMessageSchema = new Schema<ConversationMessage>(
+  {
+    role: {
+      type: String,
+      enum: ['user', 'assistant'],
+      required: true,
+    },
+    content: {
+      type: String,
+      default: '',
+    },
+    sources: [
+      {
+        username: String,
+        relevance: Number,
+        snippet: String,
+        shortcode: String,
+        postType: String,
+      },
+    ],
+    toolCalls: [ToolCallRecordSchema],
+    context: String,
+    stopped: Boolean,
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const ConversationSchema = new Schema<IConversationDocument>(
+  {
+    conversationId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    sessionId: {
+      type: String,
+      required: true,
+    },
+    title: {
+      type: String,
+      default: '',
+    },
+    messages: {
+      type: [ConversationMessageSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for the conversation sidebar (most recently active first)
+ConversationSchema.index({ sessionId: 1, updatedAt: -1 });
+
+export const Conversation: Model<IConversationDocument> =
+  mongoose.models.Conversation ||
+  mongoose.model<IConversationDocument>('Conversation', ConversationSchema);
+
+export default Conversation;
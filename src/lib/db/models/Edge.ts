@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { FollowEdge, RelationshipType } from '@/types';
+
+export interface IEdgeDocument extends Omit<FollowEdge, '_id'>, Document {}
+
+const EdgeSchema = new Schema<IEdgeDocument>(
+  {
+    sessionId: {
+      type: String,
+      required: true,
+    },
+    source: {
+      type: String,
+      required: true,
+    },
+    target: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['followers', 'following'] as RelationshipType[],
+      required: true,
+    },
+    jobId: {
+      type: String,
+      required: true,
+    },
+    firstSeen: {
+      type: Date,
+      default: Date.now,
+    },
+    lastSeen: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+// One edge per relationship per session; also serves list paging
+EdgeSchema.index({ sessionId: 1, source: 1, type: 1, target: 1 }, { unique: true });
+
+// Reverse lookups ("whose followers list is X in?")
+EdgeSchema.index({ sessionId: 1, target: 1, type: 1 });
+
+// Reuse of recently scraped lists across sessions
+EdgeSchema.index({ source: 1, type: 1, lastSeen: -1 });
+
+export const Edge: Model<IEdgeDocument> =
+  mongoose.models.Edge || mongoose.model<IEdgeDocument>('Edge', EdgeSchema);
+
+export default Edge;
@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { FollowEvent as FollowEventType } from '@/types';
+
+export interface IFollowEventDocument extends Omit<FollowEventType, '_id'>, Document {}
+
+const FollowEventSchema = new Schema<IFollowEventDocument>(
+  {
+    sessionId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    username: {
+      type: String,
+      required: true,
+    },
+    relatedUsername: {
+      type: String,
+      required: true,
+    },
+    list: {
+      type: String,
+      enum: ['followers', 'following'],
+      required: true,
+    },
+    change: {
+      type: String,
+      enum: ['gained', 'lost'],
+      required: true,
+    },
+    jobId: {
+      type: String,
+      required: true,
+    },
+    detectedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One event per account per list per scrape job
+FollowEventSchema.index(
+  { sessionId: 1, username: 1, list: 1, relatedUsername: 1, jobId: 1 },
+  { unique: true }
+);
+
+// Index for change feeds
+FollowEventSchema.index({ sessionId: 1, username: 1, detectedAt: -1 });
+FollowEventSchema.index({ sessionId: 1, change: 1, detectedAt: -1 });
+
+export const FollowEvent: Model<IFollowEventDocument> =
+  mongoose.models.FollowEvent ||
+  mongoose.model<IFollowEventDocument>('FollowEvent', FollowEventSchema);
+
+export default FollowEvent;
@@ -22,7 +22,7 @@ const JobSchema = new Schema<IJobDocument>(
     },
     status: {
       type: String,
-      enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'] as JobStatus[],
+      enum: ['pending', 'processing', 'paused', 'completed', 'failed', 'cancelled'] as JobStatus[],
       default: 'pending',
       index: true,
     },
@@ -46,6 +46,14 @@ const JobSchema = new Schema<IJobDocument>(
       type: Number,
       default: 0,
     },
+    cancelledProfiles: {
+      type: Number,
+      default: 0,
+    },
+    reusedProfiles: {
+      type: Number,
+      default: 0,
+    },
     scrapeFollowers: {
       type: Boolean,
       default: true,
@@ -58,9 +66,24 @@ const JobSchema = new Schema<IJobDocument>(
       type: Boolean,
       default: true,
     },
+    reuseWithinDays: {
+      type: Number,
+      default: 0,
+    },
+    useSessionPool: {
+      type: Boolean,
+      default: false,
+    },
+    scheduleId: {
+      type: String,
+      index: true,
+    },
     startedAt: {
       type: Date,
     },
+    pausedAt: {
+      type: Date,
+    },
     completedAt: {
       type: Date,
     },
@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { Niche as NicheType, NicheSource } from '@/types';
+
+export interface INicheDocument extends Omit<NicheType, '_id'>, Document {}
+
+const NicheSchema = new Schema<INicheDocument>(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    aliases: {
+      type: [String],
+      default: [],
+    },
+    parent: {
+      type: String,
+    },
+    source: {
+      type: String,
+      enum: ['seed', 'model'] as NicheSource[],
+      default: 'model',
+    },
+    embedding: {
+      type: [Number],
+      default: undefined,
+      select: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const Niche: Model<INicheDocument> =
+  mongoose.models.Niche || mongoose.model<INicheDocument>('Niche', NicheSchema);
+
+export default Niche;
@@ -1,7 +1,27 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
-import type { InstagramProfile } from '@/types';
+import type { CanonicalProfile } from '@/types';
 
-export interface IProfileDocument extends Omit<InstagramProfile, '_id'>, Document {}
+export interface IProfileDocument extends Omit<CanonicalProfile, '_id'>, Document {}
+
+export const NicheScoreSchema = new Schema(
+  {
+    niche: {
+      type: String,
+      required: true,
+    },
+    confidence: {
+      type: Number,
+      min: 0,
+      max: 1,
+      required: true,
+    },
+    evidence: {
+      type: [String],
+      default: [],
+    },
+  },
+  { _id: false }
+);
 
 const ProfileSchema = new Schema<IProfileDocument>(
   {
@@ -46,22 +66,38 @@ const ProfileSchema = new Schema<IProfileDocument>(
     externalUrl: {
       type: String,
     },
-    scrapedAt: {
-      type: Date,
-      default: Date.now,
-    },
-    scrapedDepth: {
-      type: Number,
-      default: 0,
+    instagramId: {
+      type: String,
     },
-    parentUsername: {
+    category: {
       type: String,
-      index: true,
     },
-    sessionId: {
+    businessEmail: {
       type: String,
-      required: true,
-      index: true,
+    },
+    isBusinessAccount: {
+      type: Boolean,
+    },
+    pronouns: {
+      type: [String],
+      default: undefined,
+    },
+    bioLinks: {
+      type: [
+        {
+          title: String,
+          url: String,
+        },
+      ],
+      default: undefined,
+      _id: false,
+    },
+    highlightCount: {
+      type: Number,
+    },
+    scrapedAt: {
+      type: Date,
+      default: Date.now,
     },
     interests: {
       type: [String],
@@ -70,13 +106,18 @@ const ProfileSchema = new Schema<IProfileDocument>(
     niche: {
       type: String,
     },
-    followers: {
-      type: [String],
-      default: [],
+    niches: {
+      type: [NicheScoreSchema],
+      default: undefined,
     },
-    following: {
-      type: [String],
-      default: [],
+    analyzedAt: {
+      type: Date,
+    },
+    analysisVersion: {
+      type: Number,
+    },
+    analysisModel: {
+      type: String,
     },
   },
   {
@@ -88,12 +129,8 @@ const ProfileSchema = new Schema<IProfileDocument>(
 ProfileSchema.index({ username: 'text', fullName: 'text', bio: 'text' });
 
 // Compound indexes
-ProfileSchema.index({ sessionId: 1, scrapedAt: -1 });
 ProfileSchema.index({ niche: 1, followersCount: -1 });
-
-// Indexes for followers/following queries
-ProfileSchema.index({ parentUsername: 1, sessionId: 1 });
-ProfileSchema.index({ username: 1, sessionId: 1 });
+ProfileSchema.index({ 'niches.niche': 1 });
 
 export const Profile: Model<IProfileDocument> =
   mongoose.models.Profile || mongoose.model<IProfileDocument>('Profile', ProfileSchema);
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { ProfileLink as ProfileLinkType } from '@/types';
+
+export interface IProfileLinkDocument extends Omit<ProfileLinkType, '_id'>, Document {}
+
+const ProfileLinkSchema = new Schema<IProfileLinkDocument>(
+  {
+    sessionId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    username: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    jobId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    scrapedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    scrapedDepth: {
+      type: Number,
+      default: 0,
+    },
+    parentUsername: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One link per profile per session
+ProfileLinkSchema.index({ sessionId: 1, username: 1 }, { unique: true });
+
+// Compound indexes
+ProfileLinkSchema.index({ sessionId: 1, scrapedAt: -1 });
+
+// Index for followers/following queries
+ProfileLinkSchema.index({ sessionId: 1, parentUsername: 1 });
+
+export const ProfileLink: Model<IProfileLinkDocument> =
+  mongoose.models.ProfileLink ||
+  mongoose.model<IProfileLinkDocument>('ProfileLink', ProfileLinkSchema);
+
+export default ProfileLink;
@@ -0,0 +1,92 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { NicheScoreSchema } from './Profile';
+import type { ProfileSnapshot as ProfileSnapshotType } from '@/types';
+
+export interface IProfileSnapshotDocument
+  extends Omit<ProfileSnapshotType, '_id'>,
+    Document {}
+
+const RelationshipDiffSchema = new Schema(
+  {
+    added: {
+      type: [String],
+      default: [],
+    },
+    removed: {
+      type: [String],
+      default: [],
+    },
+  },
+  { _id: false }
+);
+
+const ProfileSnapshotSchema = new Schema<IProfileSnapshotDocument>(
+  {
+    sessionId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    username: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    jobId: {
+      type: String,
+      required: true,
+    },
+    scrapedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    followersCount: {
+      type: Number,
+      default: 0,
+    },
+    followingCount: {
+      type: Number,
+      default: 0,
+    },
+    postsCount: {
+      type: Number,
+      default: 0,
+    },
+    bio: {
+      type: String,
+      default: '',
+    },
+    niche: {
+      type: String,
+    },
+    niches: {
+      type: [NicheScoreSchema],
+      default: undefined,
+    },
+    interests: {
+      type: [String],
+      default: [],
+    },
+    followersDiff: {
+      type: RelationshipDiffSchema,
+    },
+    followingDiff: {
+      type: RelationshipDiffSchema,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One snapshot per profile per scrape job
+ProfileSnapshotSchema.index({ sessionId: 1, username: 1, jobId: 1 }, { unique: true });
+
+// Index for history queries
+ProfileSnapshotSchema.index({ sessionId: 1, username: 1, scrapedAt: -1 });
+
+export const ProfileSnapshot: Model<IProfileSnapshotDocument> =
+  mongoose.models.ProfileSnapshot ||
+  mongoose.model<IProfileSnapshotDocument>('ProfileSnapshot', ProfileSnapshotSchema);
+
+export default ProfileSnapshot;
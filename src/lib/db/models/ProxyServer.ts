@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { ProxyPoolEntry } from '@/types';
+
+export interface IProxyServerDocument extends Omit<ProxyPoolEntry, '_id'>, Document {}
+
+const ProxyServerSchema = new Schema<IProxyServerDocument>(
+  {
+    proxyId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    label: {
+      type: String,
+      default: '',
+    },
+    server: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    config: {
+      type: String,
+      required: true,
+    },
+    healthScore: {
+      type: Number,
+      default: 1,
+    },
+    successCount: {
+      type: Number,
+      default: 0,
+    },
+    failureCount: {
+      type: Number,
+      default: 0,
+    },
+    lastUsedAt: Date,
+    lastFailureAt: Date,
+    lastError: String,
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+// Healthiest, then least recently used, proxy first
+ProxyServerSchema.index({ healthScore: -1, lastUsedAt: 1 });
+
+export const ProxyServer: Model<IProxyServerDocument> =
+  mongoose.models.ProxyServer ||
+  mongoose.model<IProxyServerDocument>('ProxyServer', ProxyServerSchema);
+
+export default ProxyServer;
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { ReanalysisJob as ReanalysisJobType, ReanalysisStatus } from '@/types';
+
+export interface IReanalysisJobDocument extends Omit<ReanalysisJobType, '_id'>, Document {}
+
+const ReanalysisJobSchema = new Schema<IReanalysisJobDocument>(
+  {
+    jobId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    sessionId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    criteria: {
+      unknownNiche: { type: Boolean },
+      analyzedBefore: { type: Date },
+      outdatedVersion: { type: Boolean },
+      outdatedModel: { type: Boolean },
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'completed', 'failed'] as ReanalysisStatus[],
+      default: 'pending',
+      index: true,
+    },
+    totalProfiles: {
+      type: Number,
+      default: 0,
+    },
+    processedProfiles: {
+      type: Number,
+      default: 0,
+    },
+    failedProfiles: {
+      type: Number,
+      default: 0,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    error: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ReanalysisJobSchema.index({ sessionId: 1, createdAt: -1 });
+
+export const ReanalysisJob: Model<IReanalysisJobDocument> =
+  mongoose.models.ReanalysisJob ||
+  mongoose.model<IReanalysisJobDocument>('ReanalysisJob', ReanalysisJobSchema);
+
+export default ReanalysisJob;
@@ -0,0 +1,102 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { ScrapeSchedule as ScrapeScheduleType, ScheduleRunStatus } from '@/types';
+
+export interface IScrapeScheduleDocument
+  extends Omit<ScrapeScheduleType, '_id'>,
+    Document {}
+
+const ScrapeScheduleSchema = new Schema<IScrapeScheduleDocument>(
+  {
+    scheduleId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    sessionId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      default: '',
+    },
+    entryUsername: {
+      type: String,
+      required: true,
+    },
+    maxDepth: {
+      type: Number,
+      default: 1,
+    },
+    scrapeFollowers: {
+      type: Boolean,
+      default: true,
+    },
+    scrapeFollowing: {
+      type: Boolean,
+      default: false,
+    },
+    scrapePosts: {
+      type: Boolean,
+      default: true,
+    },
+    reuseWithinDays: {
+      type: Number,
+      default: 0,
+    },
+    useSessionPool: {
+      type: Boolean,
+      default: false,
+    },
+    cron: {
+      type: String,
+    },
+    intervalMinutes: {
+      type: Number,
+    },
+    timezone: {
+      type: String,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    nextRunAt: {
+      type: Date,
+    },
+    lastRunAt: {
+      type: Date,
+    },
+    lastRunStatus: {
+      type: String,
+      enum: ['started', 'skipped', 'failed'] as ScheduleRunStatus[],
+    },
+    lastRunMessage: {
+      type: String,
+    },
+    lastJobId: {
+      type: String,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+    updatedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ScrapeScheduleSchema.index({ sessionId: 1, createdAt: -1 });
+
+export const ScrapeSchedule: Model<IScrapeScheduleDocument> =
+  mongoose.models.ScrapeSchedule ||
+  mongoose.model<IScrapeScheduleDocument>('ScrapeSchedule', ScrapeScheduleSchema);
+
+export default ScrapeSchedule;
@@ -36,6 +36,29 @@ const SessionSchema = new Schema<ISessionDocument>(
       type: Boolean,
       default: true,
     },
+    proxy: {
+      type: String,
+    },
+    rotateProxy: {
+      type: Boolean,
+      default: false,
+    },
+    proxyId: {
+      type: String,
+    },
+    proxyChangedAt: {
+      type: Date,
+    },
+    challengedAt: {
+      type: Date,
+    },
+    challengeReason: {
+      type: String,
+    },
+    shareInPool: {
+      type: Boolean,
+      default: false,
+    },
   },
   {
     timestamps: false,
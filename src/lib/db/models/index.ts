@@ -1,10 +1,28 @@
 export { Session } from './Session';
 export { Profile } from './Profile';
+export { ProfileLink } from './ProfileLink';
+export { ProfileSnapshot } from './ProfileSnapshot';
+export { FollowEvent } from './FollowEvent';
+export { Edge } from './Edge';
 export { Post } from './Post';
 export { Job } from './Job';
+export { ScrapeSchedule } from './ScrapeSchedule';
+export { Conversation } from './Conversation';
+export { Niche } from './Niche';
+export { ReanalysisJob } from './ReanalysisJob';
+export { ProxyServer } from './ProxyServer';
 
 export type { ISessionDocument } from './Session';
 export type { IProfileDocument } from './Profile';
+export type { IProfileLinkDocument } from './ProfileLink';
+export type { IProfileSnapshotDocument } from './ProfileSnapshot';
+export type { IFollowEventDocument } from './FollowEvent';
+export type { IEdgeDocument } from './Edge';
 export type { IPostDocument } from './Post';
 export type { IJobDocument } from './Job';
+export type { IScrapeScheduleDocument } from './ScrapeSchedule';
+export type { IConversationDocument } from './Conversation';
+export type { INicheDocument } from './Niche';
+export type { IReanalysisJobDocument } from './ReanalysisJob';
+export type { IProxyServerDocument } from './ProxyServer';
 
@@ -9,6 +9,8 @@ declare global {
 }
 
 const MONGODB_URI = process.env.MONGODB_URI || '';
+// Overrides the database named in the URI (the mock crawl test uses its own)
+const MONGODB_DB = process.env.MONGODB_DB || undefined;
 
 let cached = global.mongooseCache;
 
@@ -28,6 +30,7 @@ export async function connectDB(): Promise<Mongoose> {
   if (!cached!.promise) {
     const opts = {
       bufferCommands: false,
+      dbName: MONGODB_DB,
     };
 
     cached!.promise = mongoose.connect(MONGODB_URI, opts).then((mongooseInstance) => {
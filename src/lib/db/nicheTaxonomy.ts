@@ -0,0 +1,456 @@
+import { Niche, Profile, ProfileSnapshot } from "./models";
+import connectDB from "./mongodb";
+import { generateEmbedding, generateEmbeddings } from "../ai/localEmbeddings";
+import { renameNichePayload } from "../qdrant/client";
+import type { Niche as NicheType, NicheScore, NicheSource } from "@/types";
+
+export const UNKNOWN_NICHE = "Unknown";
+
+// Cosine similarity a label needs to be mapped onto an existing niche
+const NICHE_MATCH_THRESHOLD = 0.7;
+
+// Other processes (web vs worker) see taxonomy edits after at most this long
+const TAXONOMY_TTL_MS = 60 * 1000;
+
+// Longest label kept when an unmatched model output becomes a new niche
+const MAX_NICHE_NAME_LENGTH = 60;
+
+// Words that don't distinguish niches ("Food and Cooking" = "Food & Cooking")
+const STOP_WORDS = new Set(["and", "dan", "the", "of"]);
+
+interface SeedNiche {
+  name: string;
+  parent: string;
+  aliases: string[];
+}
+
+// Built-in taxonomy; the names match the content suggestions in rag.ts
+const SEED_NICHES: SeedNiche[] = [
+  { name: "Fitness & Health", parent: "Health & Wellness", aliases: ["Fitness", "Health", "Gym", "Workout", "Olahraga"] },
+  { name: "Yoga & Meditation", parent: "Health & Wellness", aliases: ["Yoga", "Meditation", "Mindfulness"] },
+  { name: "Bodybuilding & Strength", parent: "Health & Wellness", aliases: ["Bodybuilding", "Powerlifting", "Weightlifting"] },
+  { name: "Fashion & Beauty", parent: "Style & Beauty", aliases: ["Fashion", "Beauty", "Makeup", "Skincare", "Style"] },
+  { name: "Men's Fashion", parent: "Style & Beauty", aliases: ["Menswear", "Men's Grooming"] },
+  { name: "Hijab & Modest", parent: "Style & Beauty", aliases: ["Hijab", "Modest Fashion", "Hijab Fashion"] },
+  { name: "Technology", parent: "Technology", aliases: ["Tech", "Gadget", "Gadgets", "Teknologi"] },
+  { name: "Programming & Coding", parent: "Technology", aliases: ["Programming", "Coding", "Software Development", "Web Development"] },
+  { name: "Food & Cooking", parent: "Food & Drink", aliases: ["Food", "Cooking", "Culinary", "Kuliner", "Recipes", "Food & Beverage"] },
+  { name: "Baking & Dessert", parent: "Food & Drink", aliases: ["Baking", "Dessert", "Pastry"] },
+  { name: "Travel", parent: "Travel & Outdoors", aliases: ["Traveling", "Travelling", "Tourism", "Wisata"] },
+  { name: "Outdoor & Adventure", parent: "Travel & Outdoors", aliases: ["Outdoor", "Adventure", "Hiking", "Camping"] },
+  { name: "Business & Entrepreneurship", parent: "Business & Career", aliases: ["Business", "Entrepreneurship", "Bisnis", "UMKM", "Small Business"] },
+  { name: "Personal Finance & Investment", parent: "Business & Career", aliases: ["Finance", "Personal Finance", "Investment", "Investing", "Investasi"] },
+  { name: "Career & Productivity", parent: "Business & Career", aliases: ["Career", "Productivity", "Karir"] },
+  { name: "Entertainment", parent: "Entertainment & Culture", aliases: ["Comedy", "Music", "Movies", "Film", "Celebrity", "Hiburan"] },
+  { name: "Games & Esports", parent: "Entertainment & Culture", aliases: ["Gaming", "Games", "Esports", "Video Games"] },
+  { name: "Comics & Pop Culture", parent: "Entertainment & Culture", aliases: ["Anime", "Manga", "Comics", "Pop Culture"] },
+  { name: "Lifestyle & Daily Vlog", parent: "Lifestyle", aliases: ["Lifestyle", "Vlog", "Daily Vlog", "Daily Life", "Personal Blog"] },
+  { name: "Relationship & Dating", parent: "Lifestyle", aliases: ["Relationship", "Relationships", "Dating", "Love"] },
+  { name: "Self-Development & Motivation", parent: "Lifestyle", aliases: ["Self-Development", "Self Improvement", "Personal Development", "Motivation"] },
+  { name: "Spirituality & Religion", parent: "Lifestyle", aliases: ["Spirituality", "Religion", "Islamic", "Dakwah"] },
+  { name: "Environment & Sustainability", parent: "Lifestyle", aliases: ["Environment", "Sustainability", "Eco Living", "Zero Waste"] },
+  { name: "Education", parent: "Education & Science", aliases: ["Edukasi", "Learning", "Teaching"] },
+  { name: "Science", parent: "Education & Science", aliases: ["Sains", "Science Communication"] },
+  { name: "Parenting & Family", parent: "Home & Family", aliases: ["Parenting", "Family", "Mom Life", "Keluarga"] },
+  { name: "Pets & Animals", parent: "Home & Family", aliases: ["Pets", "Animals", "Cats", "Dogs"] },
+  { name: "Property & Home Decor", parent: "Home & Family", aliases: ["Property", "Real Estate", "Home Decor", "Interior Design"] },
+  { name: "Gardening & Urban Farming", parent: "Home & Family", aliases: ["Gardening", "Urban Farming", "Plants", "Berkebun"] },
+  { name: "Photography & Videography", parent: "Art & Creative", aliases: ["Photography", "Videography", "Photographer", "Fotografi"] },
+  { name: "Art & Design", parent: "Art & Creative", aliases: ["Art", "Design", "Illustration", "Graphic Design"] },
+  { name: "Automotive & Motor", parent: "Automotive", aliases: ["Automotive", "Cars", "Motorcycles", "Otomotif"] },
+];
+
+export interface NicheSummary {
+  name: string;
+  aliases: string[];
+  parent?: string;
+  source: NicheSource;
+  profileCount: number;
+}
+
+interface TaxonomyIndex {
+  // Normalized name/alias -> canonical name
+  byKey: Map<string, string>;
+  vectors: Array<{ name: string; embedding: number[] }>;
+  loadedAt: number;
+}
+
+let taxonomyIndex: Promise<TaxonomyIndex> | null = null;
+let seeded: Promise<void> | null = null;
+
+/**
+ * Lookup key for a niche label: case, punctuation, filler words and word
+ * order are ignored, so "Health and Fitness" matches "Fitness & Health".
+ */
+export function normalizeNicheKey(label: string): string {
+  const words = label
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !STOP_WORDS.has(word));
+  return [...new Set(words)].sort().join(" ");
+}
+
+function isUnknownLabel(label: string): boolean {
+  return /^(unknown|n\/?a|none|-)?$/i.test(label.trim());
+}
+
+function cleanNicheName(label: string): string {
+  return label.trim().replace(/\s+/g, " ").slice(0, MAX_NICHE_NAME_LENGTH);
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Insert the built-in niches once per process. Seeds that were merged into
+ * another niche (their name is now an alias) are not brought back.
+ */
+function ensureSeeded(): Promise<void> {
+  if (!seeded) {
+    seeded = (async () => {
+      await connectDB();
+
+      const existing = await Niche.find({}, { name: 1, aliases: 1 }).lean<
+        Pick<NicheType, "name" | "aliases">[]
+      >();
+      const names = new Set(existing.map((niche) => niche.name));
+      const aliasKeys = new Set(
+        existing.flatMap((niche) => niche.aliases.map(normalizeNicheKey))
+      );
+
+      const missing = SEED_NICHES.filter(
+        (seed) =>
+          !names.has(seed.name) && !aliasKeys.has(normalizeNicheKey(seed.name))
+      );
+      if (missing.length === 0) return;
+
+      await Niche.bulkWrite(
+        missing.map((seed) => ({
+          updateOne: {
+            filter: { name: seed.name },
+            update: {
+              $setOnInsert: {
+                name: seed.name,
+                parent: seed.parent,
+                aliases: seed.aliases,
+                source: "seed",
+              },
+            },
+            upsert: true,
+          },
+        })),
+        { ordered: false }
+      );
+      console.log(`[NicheTaxonomy] Seeded ${missing.length} niches`);
+    })().catch((error) => {
+      seeded = null;
+      throw error;
+    });
+  }
+  return seeded;
+}
+
+async function loadTaxonomy(): Promise<TaxonomyIndex> {
+  await ensureSeeded();
+
+  const niches = await Niche.find()
+    .select("+embedding")
+    .lean<NicheType[]>();
+
+  // Embed names the first time they're needed and keep the vectors
+  const unembedded = niches.filter((niche) => !niche.embedding?.length);
+  if (unembedded.length > 0) {
+    const embeddings = await generateEmbeddings(unembedded.map((n) => n.name));
+    await Niche.bulkWrite(
+      unembedded.map((niche, i) => ({
+        updateOne: {
+          filter: { name: niche.name },
+          update: { $set: { embedding: embeddings[i] } },
+        },
+      }))
+    );
+    unembedded.forEach((niche, i) => (niche.embedding = embeddings[i]));
+  }
+
+  const byKey = new Map<string, string>();
+  // Names win over aliases that normalize to the same key
+  for (const niche of niches) {
+    for (const alias of niche.aliases) {
+      byKey.set(normalizeNicheKey(alias), niche.name);
+    }
+  }
+  for (const niche of niches) {
+    byKey.set(normalizeNicheKey(niche.name), niche.name);
+  }
+
+  return {
+    byKey,
+    vectors: niches.map((niche) => ({
+      name: niche.name,
+      embedding: niche.embedding || [],
+    })),
+    loadedAt: Date.now(),
+  };
+}
+
+async function getTaxonomy(): Promise<TaxonomyIndex> {
+  if (taxonomyIndex) {
+    const index = await taxonomyIndex;
+    if (Date.now() - index.loadedAt < TAXONOMY_TTL_MS) {
+      return index;
+    }
+  }
+
+  taxonomyIndex = loadTaxonomy().catch((error) => {
+    taxonomyIndex = null;
+    throw error;
+  });
+  return taxonomyIndex;
+}
+
+// Drop the cached taxonomy after an edit in this process (other processes
+// notice merged niches in canonicalizeNiches)
+export function resetNicheTaxonomyCache(): void {
+  taxonomyIndex = null;
+}
+
+/**
+ * Map one model label onto the taxonomy: exact name or alias first, then the
+ * nearest niche by name embedding. Embedding matches are kept as aliases;
+ * labels with no close niche become new niches to review and merge.
+ */
+async function resolveNiche(
+  index: TaxonomyIndex,
+  label: string
+): Promise<string> {
+  const key = normalizeNicheKey(label);
+  const known = index.byKey.get(key);
+  if (known) {
+    return known;
+  }
+
+  const embedding = await generateEmbedding(label);
+  let best: { name: string; score: number } | null = null;
+  for (const vector of index.vectors) {
+    const score = dot(embedding, vector.embedding);
+    if (!best || score > best.score) {
+      best = { name: vector.name, score };
+    }
+  }
+
+  if (best && best.score >= NICHE_MATCH_THRESHOLD) {
+    await Niche.updateOne({ name: best.name }, { $addToSet: { aliases: label } });
+    index.byKey.set(key, best.name);
+    return best.name;
+  }
+
+  const name = cleanNicheName(label);
+  await Niche.updateOne(
+    { name },
+    { $setOnInsert: { name, aliases: [], source: "model", embedding } },
+    { upsert: true }
+  );
+  index.byKey.set(key, name);
+  index.vectors.push({ name, embedding });
+  console.log(`[NicheTaxonomy] New niche "${name}" (closest: ${best?.name || "none"})`);
+  return name;
+}
+
+async function resolveLabels(
+  index: TaxonomyIndex,
+  labels: string[]
+): Promise<Map<string, string>> {
+  const resolved = new Map<string, string>();
+
+  for (const label of labels) {
+    if (isUnknownLabel(label) || resolved.has(label)) continue;
+    resolved.set(label, await resolveNiche(index, label.trim()));
+  }
+  return resolved;
+}
+
+/**
+ * Canonical niche names for model outputs, in the same order. A niche merged
+ * away by another process since the taxonomy was cached (or still offered by
+ * the offline classifier's catalog) is caught here: the taxonomy is reloaded
+ * and the labels resolved again, onto the merge target.
+ */
+export async function canonicalizeNiches(labels: string[]): Promise<string[]> {
+  if (labels.every(isUnknownLabel)) {
+    return labels.map(() => UNKNOWN_NICHE);
+  }
+
+  let resolved = await resolveLabels(await getTaxonomy(), labels);
+
+  const names = [...new Set(resolved.values())];
+  const existing = await Niche.countDocuments({ name: { $in: names } });
+  if (existing < names.length) {
+    resetNicheTaxonomyCache();
+    resolved = await resolveLabels(await getTaxonomy(), labels);
+  }
+
+  return labels.map((label) => resolved.get(label) || UNKNOWN_NICHE);
+}
+
+/**
+ * Combine entries that ended up on the same niche after canonicalization,
+ * keeping the highest confidence. Unknown entries are dropped.
+ */
+export function mergeNicheScores(scores: NicheScore[]): NicheScore[] {
+  const byNiche = new Map<string, NicheScore>();
+
+  for (const score of scores) {
+    if (score.niche === UNKNOWN_NICHE) continue;
+    const existing = byNiche.get(score.niche);
+    if (!existing) {
+      byNiche.set(score.niche, { ...score, evidence: [...score.evidence] });
+      continue;
+    }
+    existing.confidence = Math.max(existing.confidence, score.confidence);
+    existing.evidence = [...new Set([...existing.evidence, ...score.evidence])];
+  }
+
+  return [...byNiche.values()].sort((a, b) => b.confidence - a.confidence);
+}
+
+// Canonical names for the analysis prompt
+export async function getNicheNames(): Promise<string[]> {
+  const index = await getTaxonomy();
+  return index.vectors.map((vector) => vector.name).sort();
+}
+
+// Names and aliases of every niche, for the offline classifier
+export async function getNicheCatalog(): Promise<
+  Array<Pick<NicheType, "name" | "aliases">>
+> {
+  await ensureSeeded();
+  return Niche.find({}, { _id: 0, name: 1, aliases: 1 }).lean<
+    Array<Pick<NicheType, "name" | "aliases">>
+  >();
+}
+
+export async function listNiches(): Promise<NicheSummary[]> {
+  await ensureSeeded();
+
+  const [niches, counts] = await Promise.all([
+    Niche.find()
+      .sort({ parent: 1, name: 1 })
+      .lean<NicheType[]>(),
+    Profile.aggregate<{ _id: string; count: number }>([
+      { $match: { niche: { $type: "string" } } },
+      { $group: { _id: "$niche", count: { $sum: 1 } } },
+    ]),
+  ]);
+
+  const countByName = new Map(counts.map((c) => [c._id, c.count]));
+
+  return niches.map((niche) => ({
+    name: niche.name,
+    aliases: niche.aliases,
+    parent: niche.parent,
+    source: niche.source,
+    profileCount: countByName.get(niche.name) || 0,
+  }));
+}
+
+// Relabel stored profiles, their history and vectors from one niche to another
+async function relabelProfiles(from: string, to: string): Promise<number> {
+  const result = await Profile.updateMany({ niche: from }, { $set: { niche: to } });
+  await ProfileSnapshot.updateMany({ niche: from }, { $set: { niche: to } });
+
+  // Ranked niches; a profile may now list `to` twice, which readers merge
+  const rankedFilter = { "niches.niche": from };
+  const rankedUpdate = { $set: { "niches.$[entry].niche": to } };
+  const rankedOptions = { arrayFilters: [{ "entry.niche": from }] };
+  await Profile.updateMany(rankedFilter, rankedUpdate, rankedOptions);
+  await ProfileSnapshot.updateMany(rankedFilter, rankedUpdate, rankedOptions);
+
+  try {
+    await renameNichePayload(from, to);
+  } catch (error) {
+    console.error(`[NicheTaxonomy] Failed to relabel vectors "${from}":`, error);
+  }
+
+  return result.modifiedCount;
+}
+
+/**
+ * Fold `source` into `target`: the source name and aliases become aliases of
+ * the target, child niches move over and profiles are relabelled.
+ * @returns The number of profiles relabelled, or null if either niche is missing
+ */
+export async function mergeNiches(
+  source: string,
+  target: string
+): Promise<{ profiles: number } | null> {
+  await connectDB();
+
+  const [from, to] = await Promise.all([
+    Niche.findOne({ name: source }).lean<NicheType>(),
+    Niche.findOne({ name: target }).lean<NicheType>(),
+  ]);
+  if (!from || !to) {
+    return null;
+  }
+
+  await Niche.updateOne(
+    { name: to.name },
+    { $addToSet: { aliases: { $each: [from.name, ...from.aliases] } } }
+  );
+  await Niche.updateMany({ parent: from.name }, { $set: { parent: to.name } });
+  await Niche.deleteOne({ name: from.name });
+
+  const profiles = await relabelProfiles(from.name, to.name);
+  resetNicheTaxonomyCache();
+
+  console.log(
+    `[NicheTaxonomy] Merged "${from.name}" into "${to.name}" (${profiles} profiles)`
+  );
+  return { profiles };
+}
+
+/**
+ * Re-map every niche label stored on profiles and snapshots onto the
+ * current taxonomy. Safe to re-run; labels already canonical are untouched.
+ */
+export async function remapProfileNiches(): Promise<{
+  labels: number;
+  remapped: number;
+  profiles: number;
+}> {
+  await connectDB();
+
+  const labelLists = await Promise.all([
+    Profile.distinct("niche"),
+    Profile.distinct("niches.niche"),
+    ProfileSnapshot.distinct("niche"),
+    ProfileSnapshot.distinct("niches.niche"),
+  ]);
+  const labels = [...new Set(labelLists.flat())].filter(
+    (label): label is string =>
+      typeof label === "string" && label !== UNKNOWN_NICHE
+  );
+
+  const canonical = await canonicalizeNiches(labels);
+
+  let remapped = 0;
+  let profiles = 0;
+  for (let i = 0; i < labels.length; i++) {
+    if (canonical[i] === labels[i]) continue;
+    profiles += await relabelProfiles(labels[i], canonical[i]);
+    remapped++;
+  }
+
+  console.log(
+    `[NicheTaxonomy] Re-mapped ${remapped}/${labels.length} labels (${profiles} profiles)`
+  );
+  return { labels: labels.length, remapped, profiles };
+}
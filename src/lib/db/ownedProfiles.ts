@@ -0,0 +1,336 @@
+import type { PipelineStage } from "mongoose";
+import { Profile, ProfileLink } from "./models";
+import connectDB from "./mongodb";
+import { getRecentRelationships, replaceRelationships } from "./followGraph";
+import type {
+  InstagramProfile,
+  CanonicalProfile,
+  ScrapedProfileData,
+} from "@/types";
+
+// Link fields that are merged on top of the canonical profile
+const LINK_FIELDS = [
+  "sessionId",
+  "jobId",
+  "scrapedAt",
+  "scrapedDepth",
+  "parentUsername",
+] as const;
+
+export interface RecentProfile {
+  profile: ScrapedProfileData & { scrapedAt: Date };
+  followers?: string[];
+  following?: string[];
+}
+
+export interface OwnedProfileQuery {
+  // Filter on ProfileLink fields (parentUsername, scrapedDepth, username, ...)
+  linkMatch?: Record<string, unknown>;
+  // Filter on the merged profile (niche, bio, followersCount, ...)
+  match?: Record<string, unknown>;
+  sort?: Record<string, 1 | -1>;
+  skip?: number;
+  limit?: number;
+}
+
+/**
+ * Aggregation stages (run on ProfileLink) that resolve a session's links to
+ * their canonical Profile documents and merge both into one InstagramProfile.
+ * Links without a canonical profile are dropped.
+ */
+export function ownedProfileStages(
+  sessionId: string,
+  linkMatch: Record<string, unknown> = {}
+): PipelineStage[] {
+  const linkValues = Object.fromEntries(
+    LINK_FIELDS.map((field) => [field, `$${field}`])
+  );
+
+  return [
+    { $match: { ...linkMatch, sessionId } },
+    {
+      $lookup: {
+        from: Profile.collection.name,
+        localField: "username",
+        foreignField: "username",
+        as: "profile",
+      },
+    },
+    { $unwind: "$profile" },
+    {
+      $replaceRoot: {
+        newRoot: { $mergeObjects: ["$profile", linkValues] },
+      },
+    },
+  ];
+}
+
+/**
+ * Run an aggregation over the profiles owned by a session
+ * @param sessionId Owning session
+ * @param linkMatch Filter applied to the session's links before the join
+ * @param stages Stages appended after the merged profiles are produced
+ */
+export async function aggregateOwnedProfiles<T = InstagramProfile>(
+  sessionId: string,
+  linkMatch: Record<string, unknown>,
+  stages: PipelineStage[] = []
+): Promise<T[]> {
+  await connectDB();
+  return ProfileLink.aggregate<T>([
+    ...ownedProfileStages(sessionId, linkMatch),
+    ...stages,
+  ]);
+}
+
+export async function findOwnedProfiles(
+  sessionId: string,
+  query: OwnedProfileQuery = {}
+): Promise<InstagramProfile[]> {
+  const stages: PipelineStage[] = [];
+
+  if (query.match) stages.push({ $match: query.match });
+  if (query.sort) stages.push({ $sort: query.sort });
+  if (query.skip) stages.push({ $skip: query.skip });
+  if (query.limit) stages.push({ $limit: query.limit });
+
+  return aggregateOwnedProfiles(sessionId, query.linkMatch || {}, stages);
+}
+
+export async function findOwnedProfile(
+  username: string,
+  sessionId: string
+): Promise<InstagramProfile | null> {
+  const [profile] = await findOwnedProfiles(sessionId, {
+    linkMatch: { username },
+    limit: 1,
+  });
+  return profile || null;
+}
+
+export async function countOwnedProfiles(
+  sessionId: string,
+  query: Pick<OwnedProfileQuery, "linkMatch" | "match"> = {}
+): Promise<number> {
+  const [result] = await aggregateOwnedProfiles<{ count: number }>(
+    sessionId,
+    query.linkMatch || {},
+    [...(query.match ? [{ $match: query.match }] : []), { $count: "count" }]
+  );
+  return result?.count || 0;
+}
+
+/**
+ * Keyword search over username, full name and bio (the Profile text index),
+ * limited to the session's profiles and ranked by text score
+ * @param match Filter on the merged profile, as in findOwnedProfiles
+ */
+export async function searchOwnedProfilesByText(
+  sessionId: string,
+  text: string,
+  match: Record<string, unknown> = {},
+  limit: number = 20
+): Promise<Array<InstagramProfile & { textScore: number }>> {
+  await connectDB();
+
+  const linkValues = Object.fromEntries(
+    LINK_FIELDS.map((field) => [field, `$link.${field}`])
+  );
+
+  // $text has to run first, so this starts from Profile and joins the links
+  return Profile.aggregate([
+    { $match: { $text: { $search: text } } },
+    { $addFields: { textScore: { $meta: "textScore" } } },
+    {
+      $lookup: {
+        from: ProfileLink.collection.name,
+        let: { username: "$username" },
+        pipeline: [
+          { $match: { $expr: { $eq: ["$username", "$$username"] } } },
+          { $match: { sessionId } },
+        ],
+        as: "link",
+      },
+    },
+    { $unwind: "$link" },
+    { $replaceRoot: { newRoot: { $mergeObjects: ["$$ROOT", linkValues] } } },
+    { $unset: "link" },
+    { $match: match },
+    { $sort: { textScore: -1 } },
+    { $limit: limit },
+  ]);
+}
+
+export async function getOwnedNiches(sessionId: string): Promise<string[]> {
+  const results = await aggregateOwnedProfiles<{ _id: string | null }>(
+    sessionId,
+    {},
+    [{ $group: { _id: "$niche" } }, { $sort: { _id: 1 } }]
+  );
+  return results.map((r) => r._id).filter((n): n is string => !!n);
+}
+
+/**
+ * Persist a scraped profile: the canonical record is shared across sessions,
+ * while depth and parent are stored on the session's link. Relationship lists
+ * live in the Edge collection (see followGraph).
+ * Existing interests/niches are kept until the AI analysis overwrites them.
+ */
+export async function saveOwnedProfile(
+  profile: InstagramProfile,
+  jobId: string
+): Promise<void> {
+  await connectDB();
+
+  const {
+    sessionId,
+    scrapedDepth,
+    parentUsername,
+    interests,
+    niche,
+    niches,
+    ...scraped
+  } = profile;
+
+  const canonical: Omit<CanonicalProfile, "interests" | "niche" | "niches"> =
+    scraped;
+
+  await Profile.updateOne(
+    { username: profile.username },
+    {
+      $set: canonical,
+      $setOnInsert: {
+        interests,
+        ...(niche ? { niche } : {}),
+        ...(niches ? { niches } : {}),
+      },
+    },
+    { upsert: true }
+  );
+
+  await ProfileLink.updateOne(
+    { sessionId, username: profile.username },
+    {
+      $set: {
+        jobId,
+        scrapedAt: profile.scrapedAt,
+        scrapedDepth,
+        parentUsername,
+      },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Find a profile scraped by any session within the last maxAgeDays, so a crawl
+ * can reuse it instead of fetching it from Instagram again.
+ * Relationship lists come from the most recent session that scraped them.
+ */
+export async function findRecentProfile(
+  username: string,
+  maxAgeDays: number
+): Promise<RecentProfile | null> {
+  await connectDB();
+
+  const since = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000);
+  const profile = await Profile.findOne({
+    username,
+    scrapedAt: { $gte: since },
+  }).lean();
+
+  if (!profile) {
+    return null;
+  }
+
+  const [followers, following] = await Promise.all([
+    getRecentRelationships(username, "followers", since),
+    getRecentRelationships(username, "following", since),
+  ]);
+
+  return {
+    profile: {
+      username: profile.username,
+      fullName: profile.fullName,
+      bio: profile.bio,
+      profilePicUrl: profile.profilePicUrl,
+      followersCount: profile.followersCount,
+      followingCount: profile.followingCount,
+      postsCount: profile.postsCount,
+      isPrivate: profile.isPrivate,
+      isVerified: profile.isVerified,
+      externalUrl: profile.externalUrl,
+      instagramId: profile.instagramId,
+      category: profile.category,
+      businessEmail: profile.businessEmail,
+      isBusinessAccount: profile.isBusinessAccount,
+      pronouns: profile.pronouns,
+      bioLinks: profile.bioLinks,
+      highlightCount: profile.highlightCount,
+      scrapedAt: profile.scrapedAt,
+    },
+    followers,
+    following,
+  };
+}
+
+/**
+ * One-off migration for profiles written before the ownership layer existed.
+ * Creates a link for every legacy profile that still carries a sessionId and
+ * strips the session-specific fields from the canonical document.
+ * Safe to run repeatedly.
+ */
+export async function migrateLegacyProfileOwnership(): Promise<number> {
+  await connectDB();
+
+  const legacy = Profile.collection.find({ sessionId: { $exists: true } });
+  let migrated = 0;
+
+  for await (const doc of legacy) {
+    await ProfileLink.updateOne(
+      { sessionId: doc.sessionId, username: doc.username },
+      {
+        $setOnInsert: {
+          jobId: "legacy",
+          scrapedAt: doc.scrapedAt || new Date(),
+          scrapedDepth: doc.scrapedDepth || 0,
+          parentUsername: doc.parentUsername,
+        },
+      },
+      { upsert: true }
+    );
+
+    for (const type of ["followers", "following"] as const) {
+      if (doc[type]?.length) {
+        await replaceRelationships(
+          doc.sessionId,
+          doc.username,
+          type,
+          doc[type],
+          "legacy",
+          doc.scrapedAt || new Date()
+        );
+      }
+    }
+
+    await Profile.collection.updateOne(
+      { _id: doc._id },
+      {
+        $unset: {
+          sessionId: "",
+          scrapedDepth: "",
+          parentUsername: "",
+          followers: "",
+          following: "",
+        },
+      }
+    );
+    migrated++;
+  }
+
+  if (migrated > 0) {
+    console.log(`[OwnedProfiles] Migrated ${migrated} legacy profiles`);
+  }
+
+  return migrated;
+}
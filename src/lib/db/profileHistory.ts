@@ -0,0 +1,223 @@
+import { ProfileSnapshot } from "./models";
+import connectDB from "./mongodb";
+import type { Relationships } from "./followGraph";
+import type {
+  InstagramProfile,
+  ProfileSnapshot as ProfileSnapshotType,
+  RelationshipDiff,
+} from "@/types";
+
+// Share of a profile's follower/following count a scraped list must reach to
+// count as complete (counts like "12.3K" are rounded)
+const MIN_LIST_COVERAGE = 0.9;
+
+export interface SnapshotDiffs {
+  followersDiff?: RelationshipDiff;
+  followingDiff?: RelationshipDiff;
+}
+
+export interface WeeklyGrowth {
+  weekStart: Date;
+  followersCount: number;
+  followingCount: number;
+  postsCount: number;
+  // Change against the previous week that has a snapshot (null for the first)
+  followersChange: number | null;
+  followingChange: number | null;
+  postsChange: number | null;
+  followersGained: number;
+  followersLost: number;
+}
+
+export function diffRelationships(
+  previous: string[],
+  current: string[]
+): RelationshipDiff {
+  const previousSet = new Set(previous);
+  const currentSet = new Set(current);
+
+  return {
+    added: current.filter((username) => !previousSet.has(username)),
+    removed: previous.filter((username) => !currentSet.has(username)),
+  };
+}
+
+/**
+ * The scraped lists that look complete next to the profile's counts. The
+ * scraper returns an empty list when Instagram shows a login prompt and a
+ * partial one when scrolling fails; diffing those would report everyone
+ * missing as lost, so they are left out.
+ */
+export function completeRelationshipLists(
+  lists: Relationships,
+  profile: Pick<InstagramProfile, "followersCount" | "followingCount">
+): Relationships {
+  const complete: Relationships = {};
+  const expected = {
+    followers: profile.followersCount,
+    following: profile.followingCount,
+  };
+
+  for (const type of ["followers", "following"] as const) {
+    const accounts = lists[type];
+    if (
+      accounts?.length &&
+      accounts.length >= expected[type] * MIN_LIST_COVERAGE
+    ) {
+      complete[type] = accounts;
+    }
+  }
+
+  return complete;
+}
+
+/**
+ * Diff freshly scraped relationship lists against the previous run.
+ * A list is only diffed when it was scraped now and a previous list exists,
+ * otherwise the first run would report everyone as gained.
+ */
+export function diffRelationshipLists(
+  previous: Relationships | null,
+  current: Relationships
+): SnapshotDiffs {
+  const diffs: SnapshotDiffs = {};
+
+  if (current.followers && previous?.followers?.length) {
+    diffs.followersDiff = diffRelationships(
+      previous.followers,
+      current.followers
+    );
+  }
+  if (current.following && previous?.following?.length) {
+    diffs.followingDiff = diffRelationships(
+      previous.following,
+      current.following
+    );
+  }
+
+  return diffs;
+}
+
+/**
+ * Record a point-in-time snapshot of a scraped profile.
+ * Upserted per job so retried scrapes don't create duplicates.
+ */
+export async function recordProfileSnapshot(
+  profile: InstagramProfile,
+  jobId: string,
+  diffs: SnapshotDiffs = {}
+): Promise<void> {
+  await connectDB();
+
+  await ProfileSnapshot.updateOne(
+    { sessionId: profile.sessionId, username: profile.username, jobId },
+    {
+      $set: {
+        scrapedAt: profile.scrapedAt,
+        followersCount: profile.followersCount,
+        followingCount: profile.followingCount,
+        postsCount: profile.postsCount,
+        bio: profile.bio,
+        ...diffs,
+      },
+      $setOnInsert: {
+        interests: profile.interests,
+        ...(profile.niche ? { niche: profile.niche } : {}),
+        ...(profile.niches ? { niches: profile.niches } : {}),
+      },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Fill in the AI analysis on the snapshots taken by a job, since the analysis
+ * runs after the profile was scraped.
+ */
+export async function updateSnapshotAnalysis(
+  username: string,
+  jobId: string,
+  analysis: Pick<ProfileSnapshotType, "interests" | "niche" | "niches">
+): Promise<void> {
+  await connectDB();
+  await ProfileSnapshot.updateMany({ username, jobId }, { $set: analysis });
+}
+
+/**
+ * Get a session's snapshots of a profile, oldest first
+ */
+export async function getProfileHistory(
+  username: string,
+  sessionId: string,
+  options: { since?: Date; limit?: number } = {}
+): Promise<ProfileSnapshotType[]> {
+  await connectDB();
+
+  const snapshots = await ProfileSnapshot.find({
+    sessionId,
+    username,
+    ...(options.since ? { scrapedAt: { $gte: options.since } } : {}),
+  })
+    .sort({ scrapedAt: -1 })
+    .limit(options.limit || 200)
+    .lean<ProfileSnapshotType[]>();
+
+  return snapshots.reverse();
+}
+
+// Monday 00:00 UTC of the week containing the date
+function getWeekStart(date: Date): Date {
+  const weekStart = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  const daysSinceMonday = (weekStart.getUTCDay() + 6) % 7;
+  weekStart.setUTCDate(weekStart.getUTCDate() - daysSinceMonday);
+  return weekStart;
+}
+
+/**
+ * Summarize snapshots (oldest first) into week-over-week growth.
+ * Each week uses its latest snapshot for the counts.
+ */
+export function summarizeWeeklyGrowth(
+  snapshots: ProfileSnapshotType[]
+): WeeklyGrowth[] {
+  const weeks = new Map<number, WeeklyGrowth>();
+
+  for (const snapshot of snapshots) {
+    const weekStart = getWeekStart(new Date(snapshot.scrapedAt));
+    const week = weeks.get(weekStart.getTime()) || {
+      weekStart,
+      followersCount: 0,
+      followingCount: 0,
+      postsCount: 0,
+      followersChange: null,
+      followingChange: null,
+      postsChange: null,
+      followersGained: 0,
+      followersLost: 0,
+    };
+
+    week.followersCount = snapshot.followersCount;
+    week.followingCount = snapshot.followingCount;
+    week.postsCount = snapshot.postsCount;
+    week.followersGained += snapshot.followersDiff?.added.length || 0;
+    week.followersLost += snapshot.followersDiff?.removed.length || 0;
+
+    weeks.set(weekStart.getTime(), week);
+  }
+
+  const summary = [...weeks.values()].sort(
+    (a, b) => a.weekStart.getTime() - b.weekStart.getTime()
+  );
+
+  for (let i = 1; i < summary.length; i++) {
+    summary[i].followersChange =
+      summary[i].followersCount - summary[i - 1].followersCount;
+    summary[i].followingChange =
+      summary[i].followingCount - summary[i - 1].followingCount;
+    summary[i].postsChange = summary[i].postsCount - summary[i - 1].postsCount;
+  }
+
+  return summary;
+}
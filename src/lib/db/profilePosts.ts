@@ -0,0 +1,29 @@
+import { Post } from "./models";
+import connectDB from "./mongodb";
+import type { InstagramPost } from "@/types";
+
+// Posts loaded per profile for analysis
+const POSTS_PER_PROFILE = 50;
+
+/**
+ * Most recent posts of each profile, keyed by username
+ */
+export async function loadProfilePosts(
+  usernames: string[]
+): Promise<Map<string, InstagramPost[]>> {
+  await connectDB();
+
+  const posts = await Post.find({ profileId: { $in: usernames } }, { _id: 0 })
+    .sort({ postedAt: -1 })
+    .lean<InstagramPost[]>();
+
+  const byProfile = new Map<string, InstagramPost[]>();
+  for (const post of posts) {
+    const list = byProfile.get(post.profileId) || [];
+    if (list.length < POSTS_PER_PROFILE) {
+      list.push(post);
+      byProfile.set(post.profileId, list);
+    }
+  }
+  return byProfile;
+}
@@ -0,0 +1,158 @@
+import { z } from "zod";
+import { ReanalysisJob } from "./models";
+import connectDB from "./mongodb";
+import { aggregateOwnedProfiles, countOwnedProfiles } from "./ownedProfiles";
+import { UNKNOWN_NICHE } from "./nicheTaxonomy";
+import { ANALYSIS_PROMPT_VERSION, getAnalysisModel } from "../ai/openai";
+import {
+  LOCAL_CLASSIFIER_MODEL,
+  getNicheClassifierMode,
+} from "../ai/nicheClassifier";
+import type {
+  ReanalysisCriteria,
+  ReanalysisJob as ReanalysisJobType,
+  ReanalysisStatus,
+} from "@/types";
+
+// Statuses in which a re-analysis job still has work queued or running
+export const ACTIVE_REANALYSIS_STATUSES: ReanalysisStatus[] = [
+  "pending",
+  "processing",
+];
+
+export const reanalysisCriteriaSchema = z
+  .object({
+    unknownNiche: z.boolean().optional(),
+    analyzedBefore: z.coerce.date().optional(),
+    outdatedVersion: z.boolean().optional(),
+    outdatedModel: z.boolean().optional(),
+  })
+  .refine(
+    (criteria) =>
+      criteria.unknownNiche ||
+      criteria.analyzedBefore ||
+      criteria.outdatedVersion ||
+      criteria.outdatedModel,
+    { message: "Select at least one criterion" }
+  );
+
+/**
+ * Models whose results count as current: the configured LLM, plus the
+ * offline classifier when NICHE_CLASSIFIER lets it assign niches
+ */
+function getCurrentAnalysisModels(): string[] {
+  return getNicheClassifierMode() === "llm"
+    ? [getAnalysisModel()]
+    : [getAnalysisModel(), LOCAL_CLASSIFIER_MODEL];
+}
+
+/**
+ * Filter on merged profiles matching any of the criteria. Profiles saved
+ * before analysis metadata was recorded count as stale for every criterion.
+ */
+export function buildReanalysisMatch(
+  criteria: ReanalysisCriteria
+): Record<string, unknown> {
+  const conditions: Record<string, unknown>[] = [];
+
+  if (criteria.unknownNiche) {
+    conditions.push({ niche: { $in: [null, "", UNKNOWN_NICHE] } });
+  }
+  if (criteria.analyzedBefore) {
+    conditions.push(
+      { analyzedAt: { $lt: criteria.analyzedBefore } },
+      { analyzedAt: null }
+    );
+  }
+  if (criteria.outdatedVersion) {
+    conditions.push(
+      { analysisVersion: { $lt: ANALYSIS_PROMPT_VERSION } },
+      { analysisVersion: null }
+    );
+  }
+  if (criteria.outdatedModel) {
+    conditions.push({ analysisModel: { $nin: getCurrentAnalysisModels() } });
+  }
+
+  return { $or: conditions };
+}
+
+export async function countReanalysisCandidates(
+  sessionId: string,
+  criteria: ReanalysisCriteria
+): Promise<number> {
+  return countOwnedProfiles(sessionId, {
+    match: buildReanalysisMatch(criteria),
+  });
+}
+
+/**
+ * Usernames of the session's profiles matching the criteria. Taken once when
+ * a job starts, so profiles re-analyzed along the way aren't picked up again.
+ */
+export async function findReanalysisCandidates(
+  sessionId: string,
+  criteria: ReanalysisCriteria
+): Promise<string[]> {
+  const results = await aggregateOwnedProfiles<{ username: string }>(
+    sessionId,
+    {},
+    [
+      { $match: buildReanalysisMatch(criteria) },
+      { $project: { _id: 0, username: 1 } },
+      { $sort: { username: 1 } },
+    ]
+  );
+  return results.map((r) => r.username);
+}
+
+export async function findOpenReanalysisJob(
+  sessionId: string
+): Promise<ReanalysisJobType | null> {
+  await connectDB();
+  return ReanalysisJob.findOne({
+    sessionId,
+    status: { $in: ACTIVE_REANALYSIS_STATUSES },
+  }).lean<ReanalysisJobType>();
+}
+
+export async function getReanalysisJob(
+  jobId: string,
+  sessionId: string
+): Promise<ReanalysisJobType | null> {
+  await connectDB();
+  return ReanalysisJob.findOne({ jobId, sessionId }).lean<ReanalysisJobType>();
+}
+
+export async function getReanalysisJobs(
+  sessionId: string,
+  limit: number = 10
+): Promise<ReanalysisJobType[]> {
+  await connectDB();
+  return ReanalysisJob.find({ sessionId })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .lean<ReanalysisJobType[]>();
+}
+
+export function toReanalysisResponse(job: ReanalysisJobType) {
+  const done = job.processedProfiles + job.failedProfiles;
+  return {
+    jobId: job.jobId,
+    criteria: job.criteria,
+    status: job.status,
+    totalProfiles: job.totalProfiles,
+    processedProfiles: job.processedProfiles,
+    failedProfiles: job.failedProfiles,
+    progress:
+      job.totalProfiles > 0
+        ? Math.round((done / job.totalProfiles) * 100)
+        : job.status === "completed"
+          ? 100
+          : 0,
+    error: job.error,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+  };
+}
@@ -0,0 +1,178 @@
+import { parseExpression } from "cron-parser";
+import { z } from "zod";
+import { Job, ScrapeSchedule as ScrapeScheduleModel } from "./models";
+import connectDB from "./mongodb";
+import type { ScrapeJob, ScrapeSchedule } from "@/types";
+
+// Shortest allowed interval, to keep recurring crawls from hammering Instagram
+const MIN_INTERVAL_MINUTES = 60;
+
+// Upcoming fire times compared when checking a cron pattern's interval
+const CRON_RUNS_CHECKED = 24;
+
+/**
+ * Cron patterns are held to the same minimum interval as intervalMinutes:
+ * none of the next few runs may follow the previous one sooner than that
+ * @returns An error message, or null if the pattern is allowed
+ */
+export function getCronError(pattern: string): string | null {
+  let runs: number[];
+  try {
+    const expression = parseExpression(pattern);
+    runs = Array.from({ length: CRON_RUNS_CHECKED }, () =>
+      expression.next().getTime()
+    );
+  } catch {
+    return "Invalid cron pattern";
+  }
+
+  for (let i = 1; i < runs.length; i++) {
+    if (runs[i] - runs[i - 1] < MIN_INTERVAL_MINUTES * 60 * 1000) {
+      return `Cron must not run more often than every ${MIN_INTERVAL_MINUTES} minutes`;
+    }
+  }
+  return null;
+}
+
+// Fields a client may set on a schedule (shared by create and update routes)
+export const scheduleFieldsSchema = z.object({
+  name: z.string().trim().max(100),
+  entryUsername: z
+    .string()
+    .min(1, "Username is required")
+    .regex(/^[a-zA-Z0-9._]+$/, "Invalid username format"),
+  maxDepth: z.number().int().min(0).max(3),
+  scrapeFollowers: z.boolean(),
+  scrapeFollowing: z.boolean(),
+  scrapePosts: z.boolean(),
+  reuseWithinDays: z.number().int().min(0).max(90),
+  useSessionPool: z.boolean(),
+  cron: z
+    .string()
+    .trim()
+    .regex(/^(\S+\s+){4,5}\S+$/, "Cron must have 5 or 6 fields")
+    .superRefine((pattern, ctx) => {
+      const error = getCronError(pattern);
+      if (error) ctx.addIssue({ code: "custom", message: error });
+    })
+    .nullable(),
+  intervalMinutes: z
+    .number()
+    .int()
+    .min(MIN_INTERVAL_MINUTES)
+    .max(30 * 24 * 60)
+    .nullable(),
+  timezone: z.string().trim().max(64).nullable(),
+  enabled: z.boolean(),
+});
+
+export type ScheduleFields = z.infer<typeof scheduleFieldsSchema>;
+
+// Applied before validating a new schedule (updates are validated as partials)
+export const SCHEDULE_DEFAULTS: Omit<ScheduleFields, "entryUsername"> = {
+  name: "",
+  maxDepth: 1,
+  scrapeFollowers: true,
+  scrapeFollowing: false,
+  scrapePosts: true,
+  reuseWithinDays: 0,
+  useSessionPool: false,
+  cron: null,
+  intervalMinutes: null,
+  timezone: null,
+  enabled: true,
+};
+
+/**
+ * A schedule fires on exactly one trigger: a cron pattern or an interval
+ * @returns An error message, or null if the trigger is valid
+ */
+export function getTriggerError(
+  schedule: Pick<ScheduleFields, "cron" | "intervalMinutes">
+): string | null {
+  if (!schedule.cron && !schedule.intervalMinutes) {
+    return "Either cron or intervalMinutes is required";
+  }
+  if (schedule.cron && schedule.intervalMinutes) {
+    return "Use either cron or intervalMinutes, not both";
+  }
+  return null;
+}
+
+/**
+ * Turn validated fields into a Mongo update. Cleared (null) trigger fields
+ * are unset so a schedule can switch between cron and interval.
+ */
+export function toScheduleUpdate(fields: Partial<ScheduleFields>): {
+  $set: Partial<ScrapeSchedule>;
+  $unset: Record<string, "">;
+} {
+  const $set: Partial<ScrapeSchedule> = {};
+  const $unset: Record<string, ""> = {};
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === null) {
+      $unset[key] = "";
+    } else if (value !== undefined) {
+      Object.assign($set, { [key]: value });
+    }
+  }
+
+  return { $set, $unset };
+}
+
+export function toScheduleResponse(schedule: Omit<ScrapeSchedule, "_id">) {
+  return {
+    scheduleId: schedule.scheduleId,
+    name: schedule.name,
+    entryUsername: schedule.entryUsername,
+    maxDepth: schedule.maxDepth,
+    scrapeFollowers: schedule.scrapeFollowers,
+    scrapeFollowing: schedule.scrapeFollowing,
+    scrapePosts: schedule.scrapePosts,
+    reuseWithinDays: schedule.reuseWithinDays || 0,
+    useSessionPool: !!schedule.useSessionPool,
+    cron: schedule.cron || null,
+    intervalMinutes: schedule.intervalMinutes || null,
+    timezone: schedule.timezone || null,
+    enabled: schedule.enabled,
+    nextRunAt: schedule.nextRunAt,
+    lastRunAt: schedule.lastRunAt,
+    lastRunStatus: schedule.lastRunStatus,
+    lastRunMessage: schedule.lastRunMessage,
+    lastJobId: schedule.lastJobId,
+    createdAt: schedule.createdAt,
+  };
+}
+
+/**
+ * Jobs started by a schedule, newest first, so runs can be compared. Runs
+ * from before the account logged in again belong to its previous session.
+ */
+export async function getScheduleRuns(
+  scheduleId: string,
+  limit: number = 20
+): Promise<ScrapeJob[]> {
+  await connectDB();
+  return Job.find({ scheduleId })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .lean<ScrapeJob[]>();
+}
+
+/**
+ * Logging in again replaces an account's session; its schedules move to the
+ * new session so they keep firing (and stay visible) under it
+ */
+export async function moveSchedulesToSession(
+  previousSessionIds: string[],
+  sessionId: string
+): Promise<void> {
+  if (previousSessionIds.length === 0) return;
+
+  await connectDB();
+  await ScrapeScheduleModel.updateMany(
+    { sessionId: { $in: previousSessionIds } },
+    { $set: { sessionId } }
+  );
+}
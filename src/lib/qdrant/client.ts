@@ -1,8 +1,11 @@
 import { QdrantClient } from "@qdrant/js-client-rest";
+import { v5 as uuidv5 } from "uuid";
+import type { InstagramPost, InstagramProfile } from "@/types";
 
 const QDRANT_URL = process.env.QDRANT_URL || "http://localhost:6333";
 const QDRANT_API_KEY = process.env.QDRANT_API_KEY;
 const COLLECTION_NAME = "instagram-profiles";
+const POST_COLLECTION_NAME = "instagram-posts";
 const VECTOR_SIZE = 384; // all-MiniLM-L6-v2 dimension (via @xenova/transformers)
 
 let qdrantClient: QdrantClient | null = null;
@@ -24,9 +27,89 @@ export interface ProfileMetadata {
   interests: string[];
   niche: string;
   followersCount: number;
+  isVerified: boolean;
+  isPrivate: boolean;
+  scrapedDepth: number;
+  parentUsername?: string;
   sessionId: string;
 }
 
+export interface ProfileSearchFilter {
+  sessionId?: string;
+  // Primary niche is any of these
+  niches?: string[];
+  minFollowers?: number;
+  maxFollowers?: number;
+  isVerified?: boolean;
+  isPrivate?: boolean;
+  scrapedDepth?: number;
+  parentUsername?: string;
+}
+
+export interface PostMetadata {
+  postId: string;
+  shortcode: string;
+  username: string;
+  caption: string;
+  type: InstagramPost["type"];
+  likesCount: number;
+  commentsCount: number;
+  // ISO timestamp, indexed as a datetime for range filters
+  postedAt: string;
+  sessionId: string;
+}
+
+export interface PostSearchFilter {
+  sessionId: string;
+  username?: string;
+  type?: InstagramPost["type"];
+  minLikes?: number;
+  postedAfter?: Date;
+  postedBefore?: Date;
+}
+
+// Payload fields profile searches filter on
+const PROFILE_PAYLOAD_INDEXES = {
+  sessionId: "keyword",
+  username: "keyword",
+  niche: "keyword",
+  followersCount: "integer",
+  isVerified: "bool",
+  isPrivate: "bool",
+  scrapedDepth: "integer",
+  parentUsername: "keyword",
+} as const;
+
+// Collections created before an index was added get it on first use
+let profileIndexesChecked = false;
+
+// Payload stored with a profile's vector; search filters run on these fields
+export function toProfileMetadata(profile: InstagramProfile): ProfileMetadata {
+  return {
+    username: profile.username,
+    bio: profile.bio || "",
+    interests: profile.interests || [],
+    niche: profile.niche || "Unknown",
+    followersCount: profile.followersCount,
+    isVerified: profile.isVerified,
+    isPrivate: profile.isPrivate,
+    scrapedDepth: profile.scrapedDepth,
+    ...(profile.parentUsername && { parentUsername: profile.parentUsername }),
+    sessionId: profile.sessionId,
+  };
+}
+
+// Namespace for profile point ids (UUIDv5 of session and username)
+const PROFILE_POINT_NAMESPACE = "0b9c3a5e-5d0f-4f4e-9a53-2d8f6c1e7b42";
+
+// Each session keeps its own vector for a profile, so owners never overwrite each other
+export function getProfilePointId(sessionId: string, username: string): string {
+  return uuidv5(`${sessionId}:${username}`, PROFILE_POINT_NAMESPACE);
+}
+
+// Namespace for post point ids (UUIDv5 of session and post id)
+const POST_POINT_NAMESPACE = "7c6689ba-df43-4bc0-8f55-95e1ec5f1d2c";
+
 // Initialize collection if it doesn't exist
 export async function initializeCollection(): Promise<void> {
   const client = getQdrantClient();
@@ -49,21 +132,26 @@ export async function initializeCollection(): Promise<void> {
         replication_factor: 1,
       });
       console.log(`Created Qdrant collection: ${COLLECTION_NAME}`);
+    }
 
+    if (!profileIndexesChecked) {
       // Create payload indexes for filtering
-      await client.createPayloadIndex(COLLECTION_NAME, {
-        field_name: "sessionId",
-        field_schema: "keyword",
-      });
-      await client.createPayloadIndex(COLLECTION_NAME, {
-        field_name: "username",
-        field_schema: "keyword",
-      });
-      await client.createPayloadIndex(COLLECTION_NAME, {
-        field_name: "niche",
-        field_schema: "keyword",
-      });
-      console.log("Created payload indexes for filtering");
+      const info = await client.getCollection(COLLECTION_NAME);
+      const missing = Object.entries(PROFILE_PAYLOAD_INDEXES).filter(
+        ([field]) => !info.payload_schema?.[field]
+      );
+      for (const [field_name, field_schema] of missing) {
+        await client.createPayloadIndex(COLLECTION_NAME, {
+          field_name,
+          field_schema,
+        });
+      }
+      if (missing.length > 0) {
+        console.log(
+          `Created payload indexes for filtering: ${missing.map(([field]) => field).join(", ")}`
+        );
+      }
+      profileIndexesChecked = true;
     }
   } catch (error) {
     console.error("Error initializing Qdrant collection:", error);
@@ -84,7 +172,7 @@ export async function upsertProfileEmbedding(
     wait: true,
     points: [
       {
-        id: generatePointId(id),
+        id: getProfilePointId(metadata.sessionId, id),
         vector: embedding,
         payload: {
           ...metadata,
@@ -107,7 +195,7 @@ export async function upsertBulkProfileEmbeddings(
   await initializeCollection();
 
   const points = records.map((record) => ({
-    id: generatePointId(record.id),
+    id: getProfilePointId(record.metadata.sessionId, record.id),
     vector: record.embedding,
     payload: {
       ...record.metadata,
@@ -129,7 +217,7 @@ export async function upsertBulkProfileEmbeddings(
 export async function queryProfiles(
   embedding: number[],
   topK: number = 10,
-  filter?: { sessionId?: string }
+  filter?: ProfileSearchFilter
 ): Promise<
   Array<{
     id: string;
@@ -142,22 +230,13 @@ export async function queryProfiles(
   await initializeCollection();
 
   // Build filter for Qdrant
-  const qdrantFilter = filter?.sessionId
-    ? {
-        must: [
-          {
-            key: "sessionId",
-            match: { value: filter.sessionId },
-          },
-        ],
-      }
-    : undefined;
+  const must = filter ? buildProfileConditions(filter) : [];
 
   const results = await client.search(COLLECTION_NAME, {
     vector: embedding,
     limit: topK,
     with_payload: true,
-    filter: qdrantFilter,
+    filter: must.length > 0 ? { must } : undefined,
   });
 
   return results.map((result) => {
@@ -171,21 +250,294 @@ export async function queryProfiles(
         interests: payload?.interests || [],
         niche: payload?.niche || "",
         followersCount: payload?.followersCount || 0,
+        isVerified: payload?.isVerified || false,
+        isPrivate: payload?.isPrivate || false,
+        scrapedDepth: payload?.scrapedDepth || 0,
+        parentUsername: payload?.parentUsername,
         sessionId: payload?.sessionId || "",
       },
     };
   });
 }
 
-export async function deleteProfileEmbedding(id: string): Promise<void> {
+function buildProfileConditions(
+  filter: ProfileSearchFilter
+): Array<Record<string, unknown>> {
+  const must: Array<Record<string, unknown>> = [];
+
+  if (filter.sessionId) {
+    must.push({ key: "sessionId", match: { value: filter.sessionId } });
+  }
+  if (filter.niches?.length) {
+    must.push({ key: "niche", match: { any: filter.niches } });
+  }
+  if (filter.minFollowers !== undefined || filter.maxFollowers !== undefined) {
+    must.push({
+      key: "followersCount",
+      range: {
+        ...(filter.minFollowers !== undefined && { gte: filter.minFollowers }),
+        ...(filter.maxFollowers !== undefined && { lte: filter.maxFollowers }),
+      },
+    });
+  }
+  if (filter.isVerified !== undefined) {
+    must.push({ key: "isVerified", match: { value: filter.isVerified } });
+  }
+  if (filter.isPrivate !== undefined) {
+    must.push({ key: "isPrivate", match: { value: filter.isPrivate } });
+  }
+  if (filter.scrapedDepth !== undefined) {
+    must.push({ key: "scrapedDepth", match: { value: filter.scrapedDepth } });
+  }
+  if (filter.parentUsername) {
+    must.push({
+      key: "parentUsername",
+      match: { value: filter.parentUsername },
+    });
+  }
+
+  return must;
+}
+
+// Posts are stored once per session, so a session only searches its own copies
+export async function initializePostCollection(): Promise<void> {
+  const client = getQdrantClient();
+
+  try {
+    const collections = await client.getCollections();
+    const exists = collections.collections.some(
+      (c) => c.name === POST_COLLECTION_NAME
+    );
+
+    if (!exists) {
+      await client.createCollection(POST_COLLECTION_NAME, {
+        vectors: {
+          size: VECTOR_SIZE,
+          distance: "Cosine",
+        },
+        optimizers_config: {
+          default_segment_number: 2,
+        },
+        replication_factor: 1,
+      });
+      console.log(`Created Qdrant collection: ${POST_COLLECTION_NAME}`);
+
+      for (const field_name of ["sessionId", "username", "type"]) {
+        await client.createPayloadIndex(POST_COLLECTION_NAME, {
+          field_name,
+          field_schema: "keyword",
+        });
+      }
+      await client.createPayloadIndex(POST_COLLECTION_NAME, {
+        field_name: "likesCount",
+        field_schema: "integer",
+      });
+      await client.createPayloadIndex(POST_COLLECTION_NAME, {
+        field_name: "postedAt",
+        field_schema: "datetime",
+      });
+      console.log("Created post payload indexes for filtering");
+    }
+  } catch (error) {
+    console.error("Error initializing Qdrant post collection:", error);
+    throw error;
+  }
+}
+
+export async function upsertBulkPostEmbeddings(
+  records: Array<{
+    embedding: number[];
+    metadata: PostMetadata;
+  }>
+): Promise<void> {
+  if (records.length === 0) {
+    return;
+  }
+
+  const client = getQdrantClient();
+
+  await initializePostCollection();
+
+  const points = records.map((record) => ({
+    id: uuidv5(
+      `${record.metadata.sessionId}:${record.metadata.postId}`,
+      POST_POINT_NAMESPACE
+    ),
+    vector: record.embedding,
+    payload: { ...record.metadata },
+  }));
+
+  const batchSize = 100;
+  for (let i = 0; i < points.length; i += batchSize) {
+    await client.upsert(POST_COLLECTION_NAME, {
+      wait: true,
+      points: points.slice(i, i + batchSize),
+    });
+  }
+}
+
+export async function queryPosts(
+  embedding: number[],
+  topK: number,
+  filter: PostSearchFilter
+): Promise<Array<{ score: number; metadata: PostMetadata }>> {
+  const client = getQdrantClient();
+
+  await initializePostCollection();
+
+  const must: Array<Record<string, unknown>> = [
+    { key: "sessionId", match: { value: filter.sessionId } },
+  ];
+  if (filter.username) {
+    must.push({ key: "username", match: { value: filter.username } });
+  }
+  if (filter.type) {
+    must.push({ key: "type", match: { value: filter.type } });
+  }
+  if (filter.minLikes) {
+    must.push({ key: "likesCount", range: { gte: filter.minLikes } });
+  }
+  if (filter.postedAfter || filter.postedBefore) {
+    must.push({
+      key: "postedAt",
+      range: {
+        ...(filter.postedAfter && { gte: filter.postedAfter.toISOString() }),
+        ...(filter.postedBefore && { lte: filter.postedBefore.toISOString() }),
+      },
+    });
+  }
+
+  const results = await client.search(POST_COLLECTION_NAME, {
+    vector: embedding,
+    limit: topK,
+    with_payload: true,
+    filter: { must },
+  });
+
+  return results.map((result) => ({
+    score: result.score,
+    metadata: result.payload as unknown as PostMetadata,
+  }));
+}
+
+export async function deleteProfileEmbedding(
+  username: string,
+  sessionId: string
+): Promise<void> {
   const client = getQdrantClient();
 
   await client.delete(COLLECTION_NAME, {
     wait: true,
-    points: [generatePointId(id)],
+    points: [getProfilePointId(sessionId, username)],
   });
 }
 
+export async function deleteProfilePoints(
+  ids: Array<string | number>
+): Promise<void> {
+  if (ids.length === 0) {
+    return;
+  }
+
+  const client = getQdrantClient();
+  await client.delete(COLLECTION_NAME, { wait: true, points: ids });
+}
+
+export interface ProfilePointRef {
+  id: string | number;
+  username: string;
+  sessionId: string;
+}
+
+/**
+ * Id and owner of every profile point, optionally only those whose payload
+ * names the session. Vectors are not loaded.
+ */
+export async function listProfilePoints(
+  sessionId?: string
+): Promise<ProfilePointRef[]> {
+  const client = getQdrantClient();
+
+  await initializeCollection();
+
+  const points: ProfilePointRef[] = [];
+  let offset: string | number | undefined = undefined;
+  do {
+    const page = await client.scroll(COLLECTION_NAME, {
+      limit: 1000,
+      offset,
+      with_payload: ["username", "originalId", "sessionId"],
+      with_vector: false,
+      filter: sessionId
+        ? { must: [{ key: "sessionId", match: { value: sessionId } }] }
+        : undefined,
+    });
+    for (const point of page.points) {
+      const payload = point.payload as Partial<ProfileMetadata> & {
+        originalId?: string;
+      };
+      points.push({
+        id: point.id,
+        username: payload?.username || payload?.originalId || "",
+        sessionId: payload?.sessionId || "",
+      });
+    }
+    offset = (page.next_page_offset as string | number | null) ?? undefined;
+  } while (offset !== undefined);
+
+  return points;
+}
+
+/**
+ * Re-key points stored under the old 32-bit username hash to their
+ * (sessionId, username) UUID. A point the session already has under its new
+ * id is newer, so the legacy copy is just dropped. Safe to run repeatedly.
+ * @returns Number of legacy points re-keyed or dropped
+ */
+export async function migrateProfilePointIds(sessionId?: string): Promise<number> {
+  const client = getQdrantClient();
+
+  const legacy = (await listProfilePoints(sessionId)).filter(
+    (point) => point.id !== getProfilePointId(point.sessionId, point.username)
+  );
+
+  const batchSize = 100;
+  for (let i = 0; i < legacy.length; i += batchSize) {
+    const batch = legacy.slice(i, i + batchSize);
+    const [points, existing] = await Promise.all([
+      client.retrieve(COLLECTION_NAME, {
+        ids: batch.map((point) => point.id),
+        with_payload: true,
+        with_vector: true,
+      }),
+      client.retrieve(COLLECTION_NAME, {
+        ids: batch.map((point) => getProfilePointId(point.sessionId, point.username)),
+        with_payload: false,
+        with_vector: false,
+      }),
+    ]);
+    const existingIds = new Set(existing.map((point) => point.id));
+
+    // Points without an owner in their payload can't be re-keyed and are dropped
+    const rekeyed = points.flatMap((point) => {
+      const ref = batch.find((b) => b.id === point.id);
+      if (!ref?.sessionId || !ref.username || !point.vector) return [];
+      const id = getProfilePointId(ref.sessionId, ref.username);
+      if (existingIds.has(id)) return [];
+      return [{ id, vector: point.vector as number[], payload: point.payload }];
+    });
+    if (rekeyed.length > 0) {
+      await client.upsert(COLLECTION_NAME, { wait: true, points: rekeyed });
+    }
+    await deleteProfilePoints(batch.map((point) => point.id));
+  }
+
+  if (legacy.length > 0) {
+    console.log(`[Qdrant] Re-keyed ${legacy.length} legacy profile points`);
+  }
+  return legacy.length;
+}
+
 export async function deleteProfilesBySession(sessionId: string): Promise<void> {
   const client = getQdrantClient();
 
@@ -202,6 +554,80 @@ export async function deleteProfilesBySession(sessionId: string): Promise<void>
   });
 }
 
+export interface PostPointRef {
+  id: string | number;
+  postId: string;
+  username: string;
+}
+
+/**
+ * Id, post and owner of every post point stored for the session
+ */
+export async function listPostPoints(sessionId: string): Promise<PostPointRef[]> {
+  const client = getQdrantClient();
+
+  await initializePostCollection();
+
+  const points: PostPointRef[] = [];
+  let offset: string | number | undefined = undefined;
+  do {
+    const page = await client.scroll(POST_COLLECTION_NAME, {
+      limit: 1000,
+      offset,
+      with_payload: ["postId", "username"],
+      with_vector: false,
+      filter: { must: [{ key: "sessionId", match: { value: sessionId } }] },
+    });
+    for (const point of page.points) {
+      const payload = point.payload as Partial<PostMetadata>;
+      points.push({
+        id: point.id,
+        postId: payload?.postId || "",
+        username: payload?.username || "",
+      });
+    }
+    offset = (page.next_page_offset as string | number | null) ?? undefined;
+  } while (offset !== undefined);
+
+  return points;
+}
+
+export async function deletePostsBySession(sessionId: string): Promise<void> {
+  const client = getQdrantClient();
+
+  await client.delete(POST_COLLECTION_NAME, {
+    wait: true,
+    filter: {
+      must: [
+        {
+          key: "sessionId",
+          match: { value: sessionId },
+        },
+      ],
+    },
+  });
+}
+
+// Rewrite the niche stored on every point labelled `from` (taxonomy re-map/merge)
+export async function renameNichePayload(from: string, to: string): Promise<void> {
+  const client = getQdrantClient();
+
+  await initializeCollection();
+
+  await client.setPayload(COLLECTION_NAME, {
+    wait: true,
+    payload: { niche: to },
+    filter: {
+      must: [
+        {
+          key: "niche",
+          match: { value: from },
+        },
+      ],
+    },
+  });
+}
+
 // Get collection info
 export async function getCollectionInfo(): Promise<{
   vectorsCount: number;
@@ -220,16 +646,5 @@ export async function getCollectionInfo(): Promise<{
   }
 }
 
-// Generate a numeric ID from string (Qdrant prefers numeric IDs for performance)
-function generatePointId(stringId: string): number {
-  let hash = 0;
-  for (let i = 0; i < stringId.length; i++) {
-    const char = stringId.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32bit integer
-  }
-  return Math.abs(hash);
-}
-
 export default getQdrantClient;
 
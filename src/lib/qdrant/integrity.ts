@@ -0,0 +1,142 @@
+import {
+  deleteProfilePoints,
+  getProfilePointId,
+  listProfilePoints,
+  migrateProfilePointIds,
+} from "./client";
+import { aggregateOwnedProfiles, findOwnedProfiles } from "../db/ownedProfiles";
+import { loadProfilePosts } from "../db/profilePosts";
+import { createBulkProfileEmbeddings } from "../ai/embeddings";
+
+// Usernames listed per category; counts always cover everything
+const MAX_LISTED = 50;
+
+// Profiles re-embedded per batch while repairing
+const REPAIR_BATCH_SIZE = 50;
+
+export interface VectorIntegrityReport {
+  // Analyzed profiles of the session, each of which should have a point
+  analyzedProfiles: number;
+  points: number;
+  // Analyzed profiles without a point
+  missing: { count: number; usernames: string[] };
+  // Points whose profile is no longer linked to the session
+  orphaned: { count: number; usernames: string[] };
+  // Points still stored under the old username-hash id
+  legacy: { count: number; usernames: string[] };
+  healthy: boolean;
+  checkedAt: Date;
+}
+
+export interface VectorRepairResult {
+  rekeyed: number;
+  deleted: number;
+  reembedded: number;
+  report: VectorIntegrityReport;
+}
+
+function listed(usernames: string[]): { count: number; usernames: string[] } {
+  return { count: usernames.length, usernames: usernames.slice(0, MAX_LISTED) };
+}
+
+async function compareSession(sessionId: string) {
+  const [profiles, points] = await Promise.all([
+    aggregateOwnedProfiles<{ username: string; analyzed: boolean }>(
+      sessionId,
+      {},
+      [
+        {
+          $project: {
+            _id: 0,
+            username: 1,
+            // Embeddings are written with the first analysis
+            analyzed: {
+              $or: [
+                { $ne: [{ $ifNull: ["$analyzedAt", null] }, null] },
+                { $eq: [{ $type: "$niche" }, "string"] },
+              ],
+            },
+          },
+        },
+      ]
+    ),
+    listProfilePoints(sessionId),
+  ]);
+
+  const linked = new Set(profiles.map((p) => p.username));
+  const analyzed = profiles.filter((p) => p.analyzed).map((p) => p.username);
+  const pointIds = new Set(points.map((point) => point.id));
+
+  return {
+    analyzed,
+    points,
+    missing: analyzed.filter(
+      (username) => !pointIds.has(getProfilePointId(sessionId, username))
+    ),
+    orphaned: points.filter((point) => !linked.has(point.username)),
+    legacy: points.filter(
+      (point) => point.id !== getProfilePointId(sessionId, point.username)
+    ),
+  };
+}
+
+/**
+ * Compare a session's Qdrant profile points with its profiles in MongoDB
+ */
+export async function checkProfileVectorIntegrity(
+  sessionId: string
+): Promise<VectorIntegrityReport> {
+  const { analyzed, points, missing, orphaned, legacy } =
+    await compareSession(sessionId);
+
+  return {
+    analyzedProfiles: analyzed.length,
+    points: points.length,
+    missing: listed(missing),
+    orphaned: listed(orphaned.map((point) => point.username)),
+    legacy: listed(legacy.map((point) => point.username)),
+    healthy: missing.length === 0 && orphaned.length === 0 && legacy.length === 0,
+    checkedAt: new Date(),
+  };
+}
+
+/**
+ * Bring a session's points in line with MongoDB: re-key legacy points, drop
+ * orphaned ones and re-embed analyzed profiles that have no point (embedding
+ * only, the stored analysis is kept)
+ */
+export async function repairProfileVectorIntegrity(
+  sessionId: string
+): Promise<VectorRepairResult> {
+  const rekeyed = await migrateProfilePointIds(sessionId);
+
+  const { missing, orphaned } = await compareSession(sessionId);
+  await deleteProfilePoints(orphaned.map((point) => point.id));
+
+  for (let i = 0; i < missing.length; i += REPAIR_BATCH_SIZE) {
+    const usernames = missing.slice(i, i + REPAIR_BATCH_SIZE);
+    const [profiles, posts] = await Promise.all([
+      findOwnedProfiles(sessionId, { linkMatch: { username: { $in: usernames } } }),
+      loadProfilePosts(usernames),
+    ]);
+    if (profiles.length > 0) {
+      await createBulkProfileEmbeddings(
+        profiles.map((profile) => ({
+          profile,
+          posts: posts.get(profile.username) || [],
+        }))
+      );
+    }
+  }
+
+  console.log(
+    `[VectorIntegrity] Session ${sessionId}: re-keyed ${rekeyed}, deleted ${orphaned.length}, re-embedded ${missing.length}`
+  );
+
+  return {
+    rekeyed,
+    deleted: orphaned.length,
+    reembedded: missing.length,
+    report: await checkProfileVectorIntegrity(sessionId),
+  };
+}
@@ -0,0 +1,149 @@
+import { Queue } from 'bullmq';
+import { createNewRedisConnection, getRedisClient, QUEUE_PREFIX } from './redis';
+import type { AIAnalysisDeadLetter, AIAnalysisJobData } from '@/types';
+
+export const AI_ANALYSIS_QUEUE_NAME = 'ai-analysis';
+
+// Profiles that still failed after every retry end up here for inspection
+export const AI_ANALYSIS_DEAD_LETTER_QUEUE_NAME = 'ai-analysis-dead';
+
+export const AI_ANALYSIS_ATTEMPTS = 5;
+
+// Redis list used before analysis moved onto BullMQ
+const LEGACY_BUFFER_KEY = 'ai-analysis:buffer';
+
+let aiAnalysisQueue: Queue<AIAnalysisJobData> | null = null;
+let deadLetterQueue: Queue<AIAnalysisDeadLetter> | null = null;
+
+export function getAIAnalysisQueue(): Queue<AIAnalysisJobData> {
+  if (!aiAnalysisQueue) {
+    const connection = createNewRedisConnection();
+    aiAnalysisQueue = new Queue<AIAnalysisJobData>(AI_ANALYSIS_QUEUE_NAME, {
+      connection,
+      prefix: QUEUE_PREFIX,
+      defaultJobOptions: {
+        attempts: AI_ANALYSIS_ATTEMPTS,
+        backoff: {
+          type: 'exponential',
+          delay: 30000,
+        },
+        removeOnComplete: {
+          count: 1000,
+          age: 24 * 60 * 60, // 24 hours
+        },
+        removeOnFail: {
+          count: 1000,
+          age: 7 * 24 * 60 * 60, // 7 days
+        },
+      },
+    });
+  }
+  return aiAnalysisQueue;
+}
+
+export function getAIAnalysisDeadLetterQueue(): Queue<AIAnalysisDeadLetter> {
+  if (!deadLetterQueue) {
+    const connection = createNewRedisConnection();
+    deadLetterQueue = new Queue<AIAnalysisDeadLetter>(
+      AI_ANALYSIS_DEAD_LETTER_QUEUE_NAME,
+      { connection, prefix: QUEUE_PREFIX }
+    );
+  }
+  return deadLetterQueue;
+}
+
+// A profile is analyzed once per scrape job, however often it is queued
+function getAnalysisEntryId(data: AIAnalysisJobData): string {
+  return `${data.jobId}-${data.username}`;
+}
+
+/**
+ * Queue a saved profile for AI analysis. The AI analysis worker picks
+ * queued profiles up in batches (see AI_ANALYSIS_BATCH_SIZE).
+ */
+export async function enqueueProfileAnalysis(
+  data: AIAnalysisJobData
+): Promise<string> {
+  const job = await getAIAnalysisQueue().add(`analyze-${data.username}`, data, {
+    jobId: getAnalysisEntryId(data),
+  });
+  return job.id || '';
+}
+
+/**
+ * Number of a scrape job's profiles still waiting for (or retrying) analysis
+ */
+export async function countPendingAnalysis(jobId: string): Promise<number> {
+  const jobs = await getAIAnalysisQueue().getJobs([
+    'waiting',
+    'active',
+    'delayed',
+  ]);
+  return jobs.filter((job) => job?.data?.jobId === jobId).length;
+}
+
+export async function getDeadLetters(
+  sessionId: string
+): Promise<AIAnalysisDeadLetter[]> {
+  const jobs = await getAIAnalysisDeadLetterQueue().getWaiting();
+  return jobs
+    .filter((job) => job?.data?.sessionId === sessionId)
+    .map((job) => job.data);
+}
+
+/**
+ * Move a session's dead-lettered profiles back onto the analysis queue
+ * @returns Number of profiles re-queued
+ */
+export async function requeueDeadLetters(sessionId: string): Promise<number> {
+  const jobs = await getAIAnalysisDeadLetterQueue().getWaiting();
+  const queue = getAIAnalysisQueue();
+  let requeued = 0;
+
+  for (const job of jobs) {
+    if (job?.data?.sessionId !== sessionId) continue;
+
+    const { username, jobId } = job.data;
+    const data: AIAnalysisJobData = { username, sessionId, jobId };
+    // The failed entry still holds the id until removeOnFail prunes it
+    await queue.remove(getAnalysisEntryId(data));
+    await queue.add(`analyze-${username}`, data, {
+      jobId: getAnalysisEntryId(data),
+    });
+    await job.remove();
+    requeued++;
+  }
+
+  return requeued;
+}
+
+/**
+ * Move profiles left in the old Redis list buffer onto the queue. Items are
+ * only dropped once queued; queuing twice is harmless since entry ids dedupe.
+ */
+export async function migrateLegacyAnalysisBuffer(): Promise<number> {
+  const redis = getRedisClient();
+  const items = await redis.lrange(LEGACY_BUFFER_KEY, 0, -1);
+  if (items.length === 0) {
+    return 0;
+  }
+
+  for (const item of items) {
+    try {
+      const { jobId, profile } = JSON.parse(item);
+      await enqueueProfileAnalysis({
+        username: profile.username,
+        sessionId: profile.sessionId,
+        jobId,
+      });
+    } catch (error) {
+      console.error('[AIAnalysisQueue] Skipping unreadable buffer item:', error);
+    }
+  }
+
+  await redis.ltrim(LEGACY_BUFFER_KEY, items.length, -1);
+  console.log(
+    `[AIAnalysisQueue] Moved ${items.length} profiles from the legacy buffer`
+  );
+  return items.length;
+}
@@ -1,60 +1,110 @@
+import { Worker, Job } from "bullmq";
+import { v4 as uuidv4 } from "uuid";
+import { createNewRedisConnection, QUEUE_PREFIX } from "./redis";
 import {
-  flushBuffer,
-  flushBufferForJob,
-  BufferedProfile,
-  BUFFER_THRESHOLD,
-} from "./aiAnalysisBuffer";
+  AI_ANALYSIS_QUEUE_NAME,
+  getAIAnalysisDeadLetterQueue,
+} from "./aiAnalysisQueue";
 import {
   analyzeAndUpdateProfilesBatch,
+  createBulkPostEmbeddings,
   createBulkProfileEmbeddings,
 } from "../ai/embeddings";
+import { ANALYSIS_PROMPT_VERSION } from "../ai/openai";
 import { Profile } from "../db/models";
+import { updateSnapshotAnalysis } from "../db/profileHistory";
+import { findOwnedProfiles } from "../db/ownedProfiles";
+import { loadProfilePosts } from "../db/profilePosts";
 import connectDB from "../db/mongodb";
-import type { InstagramProfile, InstagramPost } from "@/types";
+import type {
+  AIAnalysisJobData,
+  InstagramProfile,
+  InstagramPost,
+} from "@/types";
+
+// How long a batch waits for more profiles before running with what it has
+const BATCH_WAIT_MS = 5000;
+const BATCH_POLL_MS = 500;
+
+// Batches can spend minutes in LLM retries; locks are renewed meanwhile
+const LOCK_DURATION_MS = 5 * 60 * 1000;
+const LOCK_RENEW_MS = 60 * 1000;
+
+export interface AIAnalysisWorkerOptions {
+  // Profiles analyzed per LLM call
+  batchSize: number;
+  // Batches processed at the same time
+  concurrency: number;
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || "", 10);
+  return parsed > 0 ? parsed : fallback;
+}
+
+export function getAIAnalysisWorkerOptions(): AIAnalysisWorkerOptions {
+  return {
+    batchSize: readPositiveInt(process.env.AI_ANALYSIS_BATCH_SIZE, 50),
+    concurrency: readPositiveInt(process.env.AI_ANALYSIS_CONCURRENCY, 1),
+  };
+}
+
+export interface AnalysisItem {
+  profile: InstagramProfile;
+  posts: InstagramPost[];
+  // Scrape job whose snapshots receive the analysis; unset for re-analysis
+  jobId?: string;
+}
 
 /**
- * Process a batch of profiles from the buffer
- * 1. Flush profiles from buffer
- * 2. Call batch AI analysis
- * 3. Update Profile documents in MongoDB
- * 4. Create embeddings in Qdrant
+ * Analyze profiles and store the results
+ * 1. Call batch AI analysis
+ * 2. Update Profile documents (and the job's snapshots) in MongoDB
+ * 3. Create profile and post embeddings in Qdrant
+ * @returns Usernames whose analysis or embedding could not be saved
  */
-export async function processBatch(): Promise<number> {
-  // Flush up to BUFFER_THRESHOLD profiles
-  const bufferedProfiles = await flushBuffer(BUFFER_THRESHOLD);
-
-  if (bufferedProfiles.length === 0) {
-    return 0;
+export async function analyzeProfiles(
+  items: AnalysisItem[],
+  context: string
+): Promise<string[]> {
+  if (items.length === 0) {
+    return [];
   }
 
-  console.log(
-    `[AIAnalysisWorker] Processing batch of ${bufferedProfiles.length} profiles`
-  );
-
   await connectDB();
 
-  // Prepare data for batch analysis
-  const profilesData = bufferedProfiles.map((bp) => ({
-    profile: bp.profile,
-    posts: bp.posts,
-  }));
-
-  // Batch AI analysis (SINGLE GEMINI API CALL)
-  const analysisResults = await analyzeAndUpdateProfilesBatch(profilesData);
+  // Batch AI analysis (SINGLE LLM API CALL)
+  const analysisResults = await analyzeAndUpdateProfilesBatch(
+    items.map(({ profile, posts }) => ({ profile, posts }))
+  );
+  const analyzedAt = new Date();
+  const failed = new Set<string>();
 
   // Update profiles in MongoDB with analysis results
-  const updatePromises = analysisResults.map(async (result) => {
+  const updatePromises = analysisResults.map(async (result, i) => {
+    const analysis = {
+      interests: result.interests,
+      niche: result.niche,
+      niches: result.niches,
+    };
     try {
       await Profile.updateOne(
         { username: result.username },
         {
           $set: {
-            interests: result.interests,
-            niche: result.niche,
+            ...analysis,
+            analyzedAt,
+            analysisVersion: ANALYSIS_PROMPT_VERSION,
+            analysisModel: result.model,
           },
         }
       );
+      const jobId = items[i].jobId;
+      if (jobId) {
+        await updateSnapshotAnalysis(result.username, jobId, analysis);
+      }
     } catch (error) {
+      failed.add(result.username);
       console.error(
         `[AIAnalysisWorker] Failed to update profile @${result.username}:`,
         error
@@ -64,136 +114,253 @@ export async function processBatch(): Promise<number> {
 
   await Promise.all(updatePromises);
 
-  // Create embeddings in batch
-  // First, fetch the updated profiles with interests/niche
-  const embeddingData: Array<{
-    profile: InstagramProfile;
-    posts: InstagramPost[];
-  }> = [];
-
-  for (let i = 0; i < bufferedProfiles.length; i++) {
-    const bp = bufferedProfiles[i];
-    const result = analysisResults[i];
-
-    // Update the profile object with analysis results for embedding
-    const updatedProfile: InstagramProfile = {
-      ...bp.profile,
-      interests: result.interests,
-      niche: result.niche,
-    };
-
-    embeddingData.push({
-      profile: updatedProfile,
-      posts: bp.posts,
-    });
-  }
+  // Update the profile objects with analysis results for embedding
+  const embeddingData = items.map(({ profile, posts }, i) => ({
+    profile: {
+      ...profile,
+      interests: analysisResults[i].interests,
+      niche: analysisResults[i].niche,
+      niches: analysisResults[i].niches,
+    },
+    posts,
+  }));
 
   // Create embeddings in bulk
   try {
     await createBulkProfileEmbeddings(embeddingData);
+    const postCount = await createBulkPostEmbeddings(embeddingData);
     console.log(
-      `[AIAnalysisWorker] Created embeddings for ${embeddingData.length} profiles`
+      `[AIAnalysisWorker] Created embeddings for ${embeddingData.length} profiles and ${postCount} posts (${context})`
     );
   } catch (embeddingError) {
     console.error(
       "[AIAnalysisWorker] Failed to create bulk embeddings:",
       embeddingError
     );
+    items.forEach(({ profile }) => failed.add(profile.username));
   }
 
-  console.log(
-    `[AIAnalysisWorker] Completed batch processing of ${bufferedProfiles.length} profiles`
-  );
+  return [...failed];
+}
+
+
+export interface AIAnalysisWorkerHandle {
+  // Finishes the batches in progress before disconnecting
+  close(): Promise<void>;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
-  return bufferedProfiles.length;
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
 }
 
 /**
- * Process all remaining profiles for a specific job
- * Called when a scrape job completes to ensure all profiles are analyzed
- * @param jobId The job ID to process
+ * Take up to batchSize profiles off the queue. Once the first one arrives,
+ * wait up to BATCH_WAIT_MS for the batch to fill.
  */
-export async function processJobRemaining(jobId: string): Promise<number> {
-  const bufferedProfiles = await flushBufferForJob(jobId);
+async function takeBatch(
+  worker: Worker<AIAnalysisJobData>,
+  token: string,
+  batchSize: number
+): Promise<Job<AIAnalysisJobData>[]> {
+  const first = await worker.getNextJob(token);
+  if (!first) {
+    return [];
+  }
 
-  if (bufferedProfiles.length === 0) {
-    return 0;
+  const jobs = [first];
+  const deadline = Date.now() + BATCH_WAIT_MS;
+  while (jobs.length < batchSize) {
+    const next = await worker.getNextJob(token, { block: false });
+    if (next) {
+      jobs.push(next);
+    } else if (Date.now() < deadline) {
+      await sleep(BATCH_POLL_MS);
+    } else {
+      break;
+    }
   }
+  return jobs;
+}
 
-  console.log(
-    `[AIAnalysisWorker] Processing remaining ${bufferedProfiles.length} profiles for job ${jobId}`
-  );
+/**
+ * Retry a profile with backoff, or dead-letter it once its attempts are used up
+ */
+async function failJob(
+  job: Job<AIAnalysisJobData>,
+  error: Error,
+  token: string
+): Promise<void> {
+  try {
+    await job.moveToFailed(error, token, false);
+    if (job.attemptsMade < (job.opts.attempts ?? 1)) {
+      return;
+    }
 
-  await connectDB();
+    await getAIAnalysisDeadLetterQueue().add(
+      `dead-${job.data.username}`,
+      {
+        ...job.data,
+        failedReason: error.message,
+        attemptsMade: job.attemptsMade,
+        failedAt: Date.now(),
+      },
+      { jobId: job.id }
+    );
+    console.error(
+      `[AIAnalysisWorker] @${job.data.username} dead-lettered after ${job.attemptsMade} attempts: ${error.message}`
+    );
+  } catch (moveError) {
+    // The stalled check returns the job to the queue once its lock expires
+    console.error(
+      `[AIAnalysisWorker] Failed to record failure of job ${job.id}:`,
+      moveError
+    );
+  }
+}
 
-  // Prepare data for batch analysis
-  const profilesData = bufferedProfiles.map((bp) => ({
-    profile: bp.profile,
-    posts: bp.posts,
-  }));
+/**
+ * Load the queued profiles from MongoDB, keyed by session and username.
+ * Profiles removed since they were queued are missing from the result.
+ */
+async function loadQueuedProfiles(
+  entries: AIAnalysisJobData[]
+): Promise<Map<string, InstagramProfile>> {
+  const bySession = new Map<string, string[]>();
+  for (const { sessionId, username } of entries) {
+    bySession.set(sessionId, [...(bySession.get(sessionId) || []), username]);
+  }
 
-  // Batch AI analysis
-  const analysisResults = await analyzeAndUpdateProfilesBatch(profilesData);
+  const profiles = new Map<string, InstagramProfile>();
+  for (const [sessionId, usernames] of bySession) {
+    const found = await findOwnedProfiles(sessionId, {
+      linkMatch: { username: { $in: usernames } },
+    });
+    for (const profile of found) {
+      profiles.set(`${sessionId}:${profile.username}`, profile);
+    }
+  }
+  return profiles;
+}
 
-  // Update profiles in MongoDB
-  const updatePromises = analysisResults.map(async (result) => {
-    try {
-      await Profile.updateOne(
-        { username: result.username },
-        {
-          $set: {
-            interests: result.interests,
-            niche: result.niche,
-          },
-        }
-      );
-    } catch (error) {
-      console.error(
-        `[AIAnalysisWorker] Failed to update profile @${result.username}:`,
-        error
+/**
+ * Analyze a batch of queued profiles. Each job is acknowledged only after
+ * its Profile, snapshot and Qdrant writes succeeded; the rest are retried.
+ */
+async function processQueuedBatch(
+  jobs: Job<AIAnalysisJobData>[],
+  token: string
+): Promise<void> {
+  const renewLocks = setInterval(() => {
+    for (const job of jobs) {
+      job.extendLock(token, LOCK_DURATION_MS).catch((error) =>
+        console.error(
+          `[AIAnalysisWorker] Failed to extend lock of job ${job.id}:`,
+          error
+        )
       );
     }
-  });
-
-  await Promise.all(updatePromises);
+  }, LOCK_RENEW_MS);
 
-  // Create embeddings
-  const embeddingData: Array<{
-    profile: InstagramProfile;
-    posts: InstagramPost[];
-  }> = [];
-
-  for (let i = 0; i < bufferedProfiles.length; i++) {
-    const bp = bufferedProfiles[i];
-    const result = analysisResults[i];
-
-    const updatedProfile: InstagramProfile = {
-      ...bp.profile,
-      interests: result.interests,
-      niche: result.niche,
-    };
+  try {
+    await connectDB();
 
-    embeddingData.push({
-      profile: updatedProfile,
-      posts: bp.posts,
-    });
-  }
+    const profiles = await loadQueuedProfiles(jobs.map((job) => job.data));
+    const queued = jobs.map((job) => ({
+      job,
+      profile: profiles.get(`${job.data.sessionId}:${job.data.username}`),
+    }));
+    const found = queued.filter((entry) => entry.profile);
+    const posts = await loadProfilePosts(
+      found.map((entry) => entry.job.data.username)
+    );
 
-  try {
-    await createBulkProfileEmbeddings(embeddingData);
     console.log(
-      `[AIAnalysisWorker] Created embeddings for ${embeddingData.length} profiles (job ${jobId})`
+      `[AIAnalysisWorker] Processing batch of ${found.length} profiles`
     );
-  } catch (embeddingError) {
-    console.error(
-      "[AIAnalysisWorker] Failed to create bulk embeddings:",
-      embeddingError
+
+    const failed = new Set(
+      await analyzeProfiles(
+        found.map(({ job, profile }) => ({
+          profile: profile as InstagramProfile,
+          posts: posts.get(job.data.username) || [],
+          jobId: job.data.jobId,
+        })),
+        `batch of ${found.length}`
+      )
     );
+
+    for (const { job, profile } of queued) {
+      if (!profile) {
+        await job.moveToCompleted({ skipped: "profile not found" }, token, false);
+      } else if (failed.has(job.data.username)) {
+        await failJob(job, new Error("Failed to save analysis"), token);
+      } else {
+        await job.moveToCompleted({ analyzed: true }, token, false);
+      }
+    }
+  } catch (error) {
+    console.error("[AIAnalysisWorker] Batch failed:", error);
+    for (const job of jobs) {
+      await failJob(job, toError(error), token);
+    }
+  } finally {
+    clearInterval(renewLocks);
   }
+}
+
+/**
+ * Analyze queued profiles in batches. Jobs are fetched manually so several
+ * profiles share one LLM call; `concurrency` batches run side by side.
+ */
+export function createAIAnalysisWorker(
+  options: AIAnalysisWorkerOptions = getAIAnalysisWorkerOptions()
+): AIAnalysisWorkerHandle {
+  const connection = createNewRedisConnection();
+
+  const worker = new Worker<AIAnalysisJobData>(AI_ANALYSIS_QUEUE_NAME, null, {
+    connection,
+    prefix: QUEUE_PREFIX,
+    lockDuration: LOCK_DURATION_MS,
+  });
+
+  worker.on("error", (err) => {
+    console.error("[AIAnalysisWorker] Worker error:", err);
+  });
+
+  worker.startStalledCheckTimer().catch((err) => {
+    console.error("[AIAnalysisWorker] Stalled check failed to start:", err);
+  });
+
+  let stopping = false;
+
+  const runBatches = async () => {
+    const token = uuidv4();
+    while (!stopping) {
+      try {
+        const jobs = await takeBatch(worker, token, options.batchSize);
+        if (jobs.length > 0) {
+          await processQueuedBatch(jobs, token);
+        }
+      } catch (error) {
+        console.error("[AIAnalysisWorker] Failed to take a batch:", error);
+        await sleep(BATCH_WAIT_MS);
+      }
+    }
+  };
 
-  console.log(
-    `[AIAnalysisWorker] Completed processing remaining profiles for job ${jobId}`
+  const loops = Array.from({ length: options.concurrency }, () =>
+    runBatches()
   );
 
-  return bufferedProfiles.length;
+  return {
+    async close() {
+      stopping = true;
+      await Promise.all(loops);
+      await worker.close();
+    },
+  };
 }
@@ -1,5 +1,5 @@
 import { Queue } from 'bullmq';
-import { createNewRedisConnection, getRedisClient } from './redis';
+import { createNewRedisConnection, getRedisClient, QUEUE_PREFIX } from './redis';
 import type { AuthJobData, AuthJobState } from '@/types';
 
 const QUEUE_NAME = 'instagram-auth';
@@ -13,6 +13,7 @@ export function getAuthQueue(): Queue<AuthJobData> {
     const connection = createNewRedisConnection();
     authQueue = new Queue<AuthJobData>(QUEUE_NAME, {
       connection,
+      prefix: QUEUE_PREFIX,
       defaultJobOptions: {
         attempts: 1, // No retries for auth jobs
         removeOnComplete: {
@@ -1,28 +1,43 @@
 import { Worker, Job } from "bullmq";
 import { Cookie } from "playwright";
-import { createNewRedisConnection } from "./redis";
+import { createNewRedisConnection, QUEUE_PREFIX } from "./redis";
 import { getAuthJobState, setAuthJobState } from "./authQueue";
-import { InstagramScraper } from "../scraper/instagram";
+import { InstagramScraper, type ScraperOptions } from "../scraper/instagram";
 import { Session } from "../db/models";
+import { decryptProxy } from "../scraper/proxy";
+import { pickProxy, trackProxyHealth } from "../scraper/proxyPool";
 import { encrypt, generateSessionId } from "../utils/encryption";
+import { moveSchedulesToSession } from "../db/scrapeSchedules";
 import connectDB from "../db/mongodb";
 import type { AuthJobData, AuthJobState } from "@/types";
 
 const QUEUE_NAME = "instagram-auth";
 
+// Proxy settings a login carries over to the session it creates
+interface SessionProxyBinding {
+  proxy?: string; // Encrypted ProxyConfig
+  rotateProxy: boolean;
+  proxyId?: string;
+}
+
+interface PendingAuthSession {
+  scraper: InstagramScraper;
+  proxyBinding: SessionProxyBinding;
+}
+
 // Store pending 2FA sessions (scraper instances waiting for 2FA code)
-const pendingAuthSessions: Map<string, InstagramScraper> = new Map();
+const pendingAuthSessions: Map<string, PendingAuthSession> = new Map();
 
 // Cleanup timer for pending sessions
 const cleanupTimers: Map<string, NodeJS.Timeout> = new Map();
 
-function scheduleSessionCleanup(authJobId: string, scraper: InstagramScraper): void {
+function scheduleSessionCleanup(authJobId: string): void {
   // Clean up after 5 minutes if 2FA not completed
   const timer = setTimeout(async () => {
-    const pendingScraper = pendingAuthSessions.get(authJobId);
-    if (pendingScraper) {
+    const pending = pendingAuthSessions.get(authJobId);
+    if (pending) {
       console.log(`[AuthWorker] Cleaning up expired 2FA session: ${authJobId}`);
-      await pendingScraper.close();
+      await pending.scraper.close();
       pendingAuthSessions.delete(authJobId);
     }
     cleanupTimers.delete(authJobId);
@@ -39,12 +54,21 @@ function cancelSessionCleanup(authJobId: string): void {
   }
 }
 
-async function saveSession(username: string, cookies: Cookie[]): Promise<string> {
+async function saveSession(
+  username: string,
+  cookies: Cookie[],
+  proxyBinding: SessionProxyBinding
+): Promise<string> {
   await connectDB();
 
   const sessionId = generateSessionId();
   const encryptedCookies = encrypt(JSON.stringify(cookies));
 
+  // Logging in again keeps the account's session pool opt-in and schedules
+  const previous = await Session.find({ username })
+    .select("sessionId shareInPool")
+    .lean<{ sessionId: string; shareInPool?: boolean }[]>();
+
   // Remove existing sessions for this username
   await Session.deleteMany({ username });
 
@@ -57,11 +81,47 @@ async function saveSession(username: string, cookies: Cookie[]): Promise<string>
     createdAt: new Date(),
     lastUsedAt: new Date(),
     isValid: true,
+    shareInPool: previous.some((session) => session.shareInPool),
+    ...proxyBinding,
   });
+  await moveSchedulesToSession(
+    previous.map((session) => session.sessionId),
+    sessionId
+  );
 
   return sessionId;
 }
 
+/**
+ * The proxy a login goes through: the fixed one it was submitted with, else
+ * a pool proxy when rotation is on, else none. The session inherits it.
+ */
+async function resolveLoginProxy(
+  data: AuthJobData
+): Promise<{ options: ScraperOptions; binding: SessionProxyBinding }> {
+  const rotateProxy = !!data.rotateProxy;
+
+  if (data.proxy) {
+    return {
+      options: { proxy: decryptProxy(data.proxy) },
+      binding: { proxy: data.proxy, rotateProxy },
+    };
+  }
+
+  const picked = rotateProxy ? await pickProxy() : null;
+  if (!picked) {
+    return { options: {}, binding: { rotateProxy } };
+  }
+
+  return {
+    options: {
+      proxy: decryptProxy(picked.config),
+      onProxyResult: trackProxyHealth(picked.proxyId),
+    },
+    binding: { rotateProxy, proxyId: picked.proxyId },
+  };
+}
+
 async function processLoginJob(job: Job<AuthJobData>): Promise<void> {
   const { authJobId, username, password } = job.data;
 
@@ -82,15 +142,16 @@ async function processLoginJob(job: Job<AuthJobData>): Promise<void> {
   const scraper = new InstagramScraper();
 
   try {
-    await scraper.init();
+    const { options, binding } = await resolveLoginProxy(job.data);
+    await scraper.init(undefined, options);
     const result = await scraper.login(username, password!);
 
     if (result.requires2FA) {
       console.log(`[AuthWorker] 2FA required for: ${username}`);
 
       // Store scraper for 2FA completion
-      pendingAuthSessions.set(authJobId, scraper);
-      scheduleSessionCleanup(authJobId, scraper);
+      pendingAuthSessions.set(authJobId, { scraper, proxyBinding: binding });
+      scheduleSessionCleanup(authJobId);
 
       // Update state to waiting_2fa
       await setAuthJobState({
@@ -125,7 +186,7 @@ async function processLoginJob(job: Job<AuthJobData>): Promise<void> {
 
     // Login successful - save session
     console.log(`[AuthWorker] Login successful for: ${username}`);
-    const sessionId = await saveSession(username, result.cookies!);
+    const sessionId = await saveSession(username, result.cookies!, binding);
     await scraper.close();
 
     await setAuthJobState({
@@ -158,8 +219,8 @@ async function process2FAJob(job: Job<AuthJobData>): Promise<void> {
 
   console.log(`[AuthWorker] Processing 2FA verification for job: ${authJobId}`);
 
-  const scraper = pendingAuthSessions.get(authJobId);
-  if (!scraper) {
+  const pending = pendingAuthSessions.get(authJobId);
+  if (!pending) {
     // Check if there's a state we can update
     const currentState = await getAuthJobState(authJobId);
     if (currentState) {
@@ -176,6 +237,7 @@ async function process2FAJob(job: Job<AuthJobData>): Promise<void> {
     return;
   }
 
+  const { scraper, proxyBinding } = pending;
   const currentState = await getAuthJobState(authJobId);
   if (!currentState) {
     await scraper.close();
@@ -218,7 +280,7 @@ async function process2FAJob(job: Job<AuthJobData>): Promise<void> {
     const dsUserIdCookie = cookies.find((c) => c.name === "ds_user_id");
     const username = dsUserIdCookie?.value || "unknown";
 
-    const sessionId = await saveSession(username, cookies);
+    const sessionId = await saveSession(username, cookies, proxyBinding);
 
     // Clean up
     pendingAuthSessions.delete(authJobId);
@@ -272,6 +334,7 @@ export function createAuthWorker(): Worker<AuthJobData> {
     },
     {
       connection,
+      prefix: QUEUE_PREFIX,
       concurrency: 1, // Process one auth job at a time
     }
   );
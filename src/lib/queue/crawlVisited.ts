@@ -0,0 +1,49 @@
+import { getRedisClient } from "./redis";
+
+// Usernames already scraped or queued within a crawl
+const VISITED_KEY_PREFIX = "scrape:visited:";
+const VISITED_TTL = 7 * 24 * 60 * 60; // 7 days in seconds
+
+/**
+ * Claim usernames for a crawl. Only usernames that were not visited yet are
+ * returned, so the same account reached via several parents or depths is
+ * enqueued once.
+ * @param jobId The scrape job ID
+ * @param usernames Candidate usernames
+ * @returns The usernames newly claimed by this call
+ */
+export async function claimUsernames(
+  jobId: string,
+  usernames: string[]
+): Promise<string[]> {
+  if (usernames.length === 0) return [];
+
+  const redis = getRedisClient();
+  const key = `${VISITED_KEY_PREFIX}${jobId}`;
+
+  const pipeline = redis.pipeline();
+  usernames.forEach((username) => pipeline.sadd(key, username));
+  pipeline.expire(key, VISITED_TTL);
+  const results = (await pipeline.exec()) || [];
+
+  return usernames.filter((_, index) => results[index]?.[1] === 1);
+}
+
+/**
+ * Give claimed usernames back, e.g. when queuing them failed, so a retry of
+ * the parent can claim and queue them again
+ */
+export async function releaseUsernames(
+  jobId: string,
+  usernames: string[]
+): Promise<void> {
+  if (usernames.length === 0) return;
+
+  const redis = getRedisClient();
+  await redis.srem(`${VISITED_KEY_PREFIX}${jobId}`, ...usernames);
+}
+
+export async function clearVisited(jobId: string): Promise<void> {
+  const redis = getRedisClient();
+  await redis.del(`${VISITED_KEY_PREFIX}${jobId}`);
+}
@@ -0,0 +1,309 @@
+import { v4 as uuidv4 } from "uuid";
+import { getRedisClient } from "./redis";
+import {
+  addScrapeJob,
+  removeQueuedJobEntries,
+  requeueScrapeJobs,
+} from "./scrapeQueue";
+import { countPendingAnalysis } from "./aiAnalysisQueue";
+import { clearVisited } from "./crawlVisited";
+import { Job as JobModel } from "../db/models";
+import connectDB from "../db/mongodb";
+import type {
+  JobStatus,
+  ScrapeJob,
+  ScrapeJobData,
+  StartScrapeRequest,
+} from "@/types";
+
+// Statuses in which a scrape job still has work queued or running
+export const ACTIVE_JOB_STATUSES: JobStatus[] = ["pending", "processing"];
+
+// Statuses of jobs that are not finished yet (active or paused)
+export const OPEN_JOB_STATUSES: JobStatus[] = [...ACTIVE_JOB_STATUSES, "paused"];
+
+// Children of a paused job are parked here until it is resumed
+const PARKED_KEY_PREFIX = "scrape:parked:";
+
+export interface CancelJobResult {
+  removedEntries: number;
+  // Already scraped profiles still queued for AI analysis
+  pendingAnalysis: number;
+  processedProfiles: number;
+  failedProfiles: number;
+}
+
+export async function getJobStatus(jobId: string): Promise<JobStatus | null> {
+  await connectDB();
+  const job = await JobModel.findOne({ jobId }, { status: 1 }).lean();
+  return job?.status ?? null;
+}
+
+/**
+ * Check whether a scrape job still accepts work.
+ * Used by the worker to skip children of jobs that were cancelled.
+ */
+export async function isJobActive(jobId: string): Promise<boolean> {
+  const status = await getJobStatus(jobId);
+  return !!status && ACTIVE_JOB_STATUSES.includes(status);
+}
+
+/**
+ * Find the session's unfinished scrape job, if any.
+ * A session runs one crawl at a time.
+ */
+export async function findOpenJob(sessionId: string): Promise<ScrapeJob | null> {
+  await connectDB();
+  return JobModel.findOne({
+    sessionId,
+    status: { $in: OPEN_JOB_STATUSES },
+  }).lean<ScrapeJob>();
+}
+
+/**
+ * Create a scrape job and queue its entry profile
+ * @returns The new job ID
+ */
+export async function startScrapeJob(
+  request: StartScrapeRequest & { scheduleId?: string }
+): Promise<string> {
+  await connectDB();
+
+  const jobId = uuidv4();
+  const {
+    sessionId,
+    entryUsername,
+    maxDepth,
+    scrapeFollowers,
+    scrapeFollowing,
+    scrapePosts,
+    reuseWithinDays = 0,
+    useSessionPool = false,
+    scheduleId,
+  } = request;
+
+  await JobModel.create({
+    jobId,
+    sessionId,
+    entryUsername,
+    status: "pending",
+    maxDepth,
+    currentDepth: 0,
+    totalProfiles: 1, // Start with entry profile
+    processedProfiles: 0,
+    failedProfiles: 0,
+    scrapeFollowers,
+    scrapeFollowing,
+    scrapePosts,
+    reuseWithinDays,
+    useSessionPool,
+    scheduleId,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  // Add initial scrape job to queue
+  await addScrapeJob({
+    jobId,
+    sessionId,
+    username: entryUsername,
+    depth: 0,
+    maxDepth,
+    scrapeFollowers,
+    scrapeFollowing,
+    scrapePosts,
+    reuseWithinDays,
+    useSessionPool,
+  });
+
+  return jobId;
+}
+
+/**
+ * Atomically take all parked children of a job out of Redis
+ */
+async function takeParkedJobs(jobId: string): Promise<ScrapeJobData[]> {
+  const redis = getRedisClient();
+  const key = `${PARKED_KEY_PREFIX}${jobId}`;
+
+  const results = await redis.multi().lrange(key, 0, -1).del(key).exec();
+  const items = (results?.[0]?.[1] as string[] | undefined) || [];
+
+  return items.map((item) => JSON.parse(item) as ScrapeJobData);
+}
+
+/**
+ * Park scrape entries of a paused job so they can be re-queued on resume
+ */
+export async function parkScrapeJobs(
+  jobId: string,
+  jobs: ScrapeJobData[]
+): Promise<void> {
+  if (jobs.length === 0) return;
+
+  const redis = getRedisClient();
+  await redis.rpush(
+    `${PARKED_KEY_PREFIX}${jobId}`,
+    ...jobs.map((data) => JSON.stringify(data))
+  );
+
+  // The job may have been resumed while we were parking; don't strand entries
+  if ((await getJobStatus(jobId)) !== "paused") {
+    const parked = await takeParkedJobs(jobId);
+    if ((await isJobActive(jobId)) && parked.length > 0) {
+      await requeueScrapeJobs(parked);
+    }
+  }
+}
+
+/**
+ * Pause a scrape job: its queued children are parked and any child the
+ * worker picks up afterwards is parked as well.
+ * @returns null if the job was not active
+ */
+export async function pauseScrapeJob(
+  jobId: string
+): Promise<{ parkedEntries: number } | null> {
+  await connectDB();
+
+  const job = await JobModel.findOneAndUpdate(
+    { jobId, status: { $in: ACTIVE_JOB_STATUSES } },
+    { status: "paused", pausedAt: new Date() }
+  );
+
+  if (!job) {
+    return null;
+  }
+
+  const removed = await removeQueuedJobEntries(jobId);
+  await parkScrapeJobs(jobId, removed);
+
+  console.log(`[JobControl] Paused job ${jobId}, parked ${removed.length} queued profiles`);
+
+  return { parkedEntries: removed.length };
+}
+
+/**
+ * Mark a job completed (or failed, when every profile failed) once all of
+ * its profiles are processed. Their AI analysis stays queued in the AI
+ * analysis worker. Paused and cancelled jobs are left alone.
+ */
+export async function checkAndCompleteJob(jobId: string): Promise<void> {
+  await connectDB();
+
+  const job = await JobModel.findOne({ jobId });
+  if (!job || !ACTIVE_JOB_STATUSES.includes(job.status)) return;
+
+  const totalProcessed = job.processedProfiles + job.failedProfiles;
+
+  if (totalProcessed >= job.totalProfiles && job.totalProfiles > 0) {
+    const status =
+      job.failedProfiles === job.totalProfiles ? "failed" : "completed";
+
+    await JobModel.updateOne(
+      { jobId },
+      {
+        status,
+        completedAt: new Date(),
+      }
+    );
+
+    await clearVisited(jobId);
+
+    console.log(`Scrape job ${jobId} ${status}`);
+  }
+}
+
+/**
+ * Resume a paused scrape job from where it stopped
+ * @returns null if the job was not paused
+ */
+export async function resumeScrapeJob(
+  jobId: string
+): Promise<{ requeuedEntries: number } | null> {
+  await connectDB();
+
+  const job = await JobModel.findOneAndUpdate(
+    { jobId, status: "paused" },
+    { $unset: { pausedAt: "" } }
+  );
+
+  if (!job) {
+    return null;
+  }
+
+  // Jobs paused before their entry profile was picked up go back to pending
+  await JobModel.updateOne(
+    { jobId },
+    { status: job.startedAt ? "processing" : "pending" }
+  );
+
+  const parked = await takeParkedJobs(jobId);
+  if (parked.length > 0) {
+    await requeueScrapeJobs(parked);
+  } else {
+    // The last child may have finished while the job was paused, in which
+    // case the worker left completing it to us
+    await checkAndCompleteJob(jobId);
+  }
+
+  console.log(`[JobControl] Resumed job ${jobId}, re-queued ${parked.length} profiles`);
+
+  return { requeuedEntries: parked.length };
+}
+
+/**
+ * Cancel a scrape job:
+ * 1. Mark it cancelled so the worker skips any in-flight children
+ * 2. Remove its waiting/delayed (and parked) entries from the scrape queue
+ * 3. Flush its remaining profiles from the AI analysis buffer
+ * 4. Record the final counts on the job
+ * @returns null if the job was already finished
+ */
+export async function cancelScrapeJob(
+  jobId: string
+): Promise<CancelJobResult | null> {
+  await connectDB();
+
+  const job = await JobModel.findOneAndUpdate(
+    { jobId, status: { $in: OPEN_JOB_STATUSES } },
+    { status: "cancelled", completedAt: new Date() },
+    { new: true }
+  );
+
+  if (!job) {
+    return null;
+  }
+
+  const removed = await removeQueuedJobEntries(jobId);
+  const parked = await takeParkedJobs(jobId);
+  const removedEntries = removed.length + parked.length;
+  await clearVisited(jobId);
+  console.log(
+    `[JobControl] Cancelled job ${jobId}, removed ${removedEntries} queued profiles`
+  );
+
+  // What was already scraped is still analyzed by the AI analysis worker
+  let pendingAnalysis = 0;
+  try {
+    pendingAnalysis = await countPendingAnalysis(jobId);
+  } catch (countError) {
+    console.error(
+      `[JobControl] Error counting queued analysis for cancelled job ${jobId}:`,
+      countError
+    );
+  }
+
+  const finalJob = await JobModel.findOneAndUpdate(
+    { jobId },
+    { cancelledProfiles: removedEntries },
+    { new: true }
+  ).lean();
+
+  return {
+    removedEntries,
+    pendingAnalysis,
+    processedProfiles: finalJob?.processedProfiles ?? job.processedProfiles,
+    failedProfiles: finalJob?.failedProfiles ?? job.failedProfiles,
+  };
+}
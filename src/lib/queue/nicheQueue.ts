@@ -0,0 +1,48 @@
+import { Queue } from 'bullmq';
+import { createNewRedisConnection, QUEUE_PREFIX } from './redis';
+import type { NicheRemapJobData } from '@/types';
+
+export const NICHE_QUEUE_NAME = 'niche-remap';
+
+// Only one re-map needs to be pending; later requests fold into it
+const REMAP_DEDUPLICATION_ID = 'niche-remap';
+
+let nicheQueue: Queue<NicheRemapJobData> | null = null;
+
+export function getNicheQueue(): Queue<NicheRemapJobData> {
+  if (!nicheQueue) {
+    const connection = createNewRedisConnection();
+    nicheQueue = new Queue<NicheRemapJobData>(NICHE_QUEUE_NAME, {
+      connection,
+      prefix: QUEUE_PREFIX,
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 30000,
+        },
+        removeOnComplete: {
+          count: 20,
+        },
+        removeOnFail: {
+          count: 20,
+        },
+      },
+    });
+  }
+  return nicheQueue;
+}
+
+/**
+ * Queue a re-map of stored profile niches onto the taxonomy
+ * @returns The BullMQ job id
+ */
+export async function enqueueNicheRemap(reason: string): Promise<string | undefined> {
+  const queue = getNicheQueue();
+  const job = await queue.add(
+    'remap',
+    { reason },
+    { deduplication: { id: REMAP_DEDUPLICATION_ID } }
+  );
+  return job.id;
+}
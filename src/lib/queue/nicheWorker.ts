@@ -0,0 +1,34 @@
+import { Worker, Job } from "bullmq";
+import { createNewRedisConnection, QUEUE_PREFIX } from "./redis";
+import { NICHE_QUEUE_NAME } from "./nicheQueue";
+import { remapProfileNiches } from "../db/nicheTaxonomy";
+import type { NicheRemapJobData } from "@/types";
+
+export function createNicheWorker(): Worker<NicheRemapJobData> {
+  const connection = createNewRedisConnection();
+
+  const worker = new Worker<NicheRemapJobData>(
+    NICHE_QUEUE_NAME,
+    async (job: Job<NicheRemapJobData>) => {
+      console.log(`[NicheWorker] Re-mapping profile niches (${job.data.reason})`);
+      return remapProfileNiches();
+    },
+    {
+      connection,
+      prefix: QUEUE_PREFIX,
+      concurrency: 1,
+    }
+  );
+
+  worker.on("failed", (job, err) => {
+    console.error(`[NicheWorker] Job ${job?.id} failed:`, err.message);
+  });
+
+  worker.on("error", (err) => {
+    console.error("[NicheWorker] Worker error:", err);
+  });
+
+  return worker;
+}
+
+export default createNicheWorker;
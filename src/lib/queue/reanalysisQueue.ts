@@ -0,0 +1,61 @@
+import { Queue } from 'bullmq';
+import { v4 as uuidv4 } from 'uuid';
+import { createNewRedisConnection, QUEUE_PREFIX } from './redis';
+import { ReanalysisJob } from '../db/models';
+import connectDB from '../db/mongodb';
+import type { ReanalysisCriteria, ReanalysisJobData } from '@/types';
+
+export const REANALYSIS_QUEUE_NAME = 'profile-reanalysis';
+
+let reanalysisQueue: Queue<ReanalysisJobData> | null = null;
+
+export function getReanalysisQueue(): Queue<ReanalysisJobData> {
+  if (!reanalysisQueue) {
+    const connection = createNewRedisConnection();
+    reanalysisQueue = new Queue<ReanalysisJobData>(REANALYSIS_QUEUE_NAME, {
+      connection,
+      prefix: QUEUE_PREFIX,
+      defaultJobOptions: {
+        // A retry would start over from the first batch; failures are
+        // recorded on the job instead and it can be started again
+        attempts: 1,
+        removeOnComplete: {
+          count: 50,
+        },
+        removeOnFail: {
+          count: 50,
+        },
+      },
+    });
+  }
+  return reanalysisQueue;
+}
+
+/**
+ * Create a re-analysis job for the session's profiles matching the criteria
+ * @returns The new job ID
+ */
+export async function startReanalysisJob(
+  sessionId: string,
+  criteria: ReanalysisCriteria
+): Promise<string> {
+  await connectDB();
+
+  const jobId = uuidv4();
+  await ReanalysisJob.create({
+    jobId,
+    sessionId,
+    criteria,
+    status: 'pending',
+  });
+
+  // Without its queue entry the job would stay pending and block new ones
+  try {
+    await getReanalysisQueue().add('reanalyze', { jobId }, { jobId });
+  } catch (error) {
+    await ReanalysisJob.deleteOne({ jobId });
+    throw error;
+  }
+
+  return jobId;
+}
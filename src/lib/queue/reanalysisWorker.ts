@@ -0,0 +1,144 @@
+import { Worker, Job } from "bullmq";
+import { createNewRedisConnection, QUEUE_PREFIX } from "./redis";
+import { REANALYSIS_QUEUE_NAME } from "./reanalysisQueue";
+import { analyzeProfiles, getAIAnalysisWorkerOptions } from "./aiAnalysisWorker";
+import { findReanalysisCandidates } from "../db/reanalysis";
+import { findOwnedProfiles } from "../db/ownedProfiles";
+import { loadProfilePosts } from "../db/profilePosts";
+import { ReanalysisJob } from "../db/models";
+import connectDB from "../db/mongodb";
+import type {
+  ReanalysisJob as ReanalysisJobType,
+  ReanalysisJobData,
+} from "@/types";
+
+/**
+ * Re-run AI analysis and embeddings for the profiles matching a job's
+ * criteria, in batches, recording progress on the job after each batch
+ */
+async function processReanalysisJob(jobId: string): Promise<number> {
+  await connectDB();
+
+  const job = await ReanalysisJob.findOneAndUpdate(
+    { jobId, status: "pending" },
+    { $set: { status: "processing", startedAt: new Date() } },
+    { new: true }
+  ).lean<ReanalysisJobType>();
+  if (!job) {
+    // A job already processing was interrupted (its worker stopped and BullMQ
+    // handed the stalled entry to us). Jobs aren't resumable, so fail it and
+    // let it be started again rather than leaving it processing
+    const interrupted = await ReanalysisJob.updateOne(
+      { jobId, status: "processing" },
+      {
+        $set: {
+          status: "failed",
+          error: "Interrupted before it finished; start it again",
+          completedAt: new Date(),
+        },
+      }
+    );
+    console.log(
+      interrupted.modifiedCount > 0
+        ? `[ReanalysisWorker] Job ${jobId} was interrupted, marked failed`
+        : `[ReanalysisWorker] Job ${jobId} is not pending, skipping`
+    );
+    return 0;
+  }
+
+  const usernames = await findReanalysisCandidates(job.sessionId, job.criteria);
+  await ReanalysisJob.updateOne(
+    { jobId },
+    { $set: { totalProfiles: usernames.length } }
+  );
+  console.log(
+    `[ReanalysisWorker] Re-analyzing ${usernames.length} profiles for job ${jobId}`
+  );
+
+  // Same batch size as queued analysis; progress is recorded per batch
+  const { batchSize } = getAIAnalysisWorkerOptions();
+  for (let i = 0; i < usernames.length; i += batchSize) {
+    const batch = usernames.slice(i, i + batchSize);
+    let failed = batch.length;
+
+    try {
+      const profiles = await findOwnedProfiles(job.sessionId, {
+        linkMatch: { username: { $in: batch } },
+      });
+      const posts = await loadProfilePosts(batch);
+
+      const failedUsernames = await analyzeProfiles(
+        profiles.map((profile) => ({
+          profile,
+          posts: posts.get(profile.username) || [],
+        })),
+        `re-analysis ${jobId}`
+      );
+      // Profiles deleted since the job started count as failed
+      failed = batch.length - profiles.length + failedUsernames.length;
+    } catch (error) {
+      console.error(
+        `[ReanalysisWorker] Batch ${i / batchSize + 1} of job ${jobId} failed:`,
+        error
+      );
+    }
+
+    await ReanalysisJob.updateOne(
+      { jobId },
+      {
+        $inc: {
+          processedProfiles: batch.length - failed,
+          failedProfiles: failed,
+        },
+      }
+    );
+  }
+
+  await ReanalysisJob.updateOne(
+    { jobId },
+    { $set: { status: "completed", completedAt: new Date() } }
+  );
+  console.log(`[ReanalysisWorker] Completed job ${jobId}`);
+
+  return usernames.length;
+}
+
+export function createReanalysisWorker(): Worker<ReanalysisJobData> {
+  const connection = createNewRedisConnection();
+
+  const worker = new Worker<ReanalysisJobData>(
+    REANALYSIS_QUEUE_NAME,
+    async (job: Job<ReanalysisJobData>) => processReanalysisJob(job.data.jobId),
+    {
+      connection,
+      prefix: QUEUE_PREFIX,
+      concurrency: 1,
+    }
+  );
+
+  worker.on("failed", async (job, err) => {
+    console.error(`[ReanalysisWorker] Job ${job?.id} failed:`, err.message);
+    if (job) {
+      await ReanalysisJob.updateOne(
+        { jobId: job.data.jobId },
+        {
+          $set: {
+            status: "failed",
+            error: err.message,
+            completedAt: new Date(),
+          },
+        }
+      ).catch((error) =>
+        console.error("[ReanalysisWorker] Failed to record job failure:", error)
+      );
+    }
+  });
+
+  worker.on("error", (err) => {
+    console.error("[ReanalysisWorker] Worker error:", err);
+  });
+
+  return worker;
+}
+
+export default createReanalysisWorker;
@@ -6,9 +6,16 @@ declare global {
 }
 
 const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
+// Put in front of every key, so a test run can share a Redis without
+// touching the app's queues
+const REDIS_PREFIX = process.env.REDIS_PREFIX || '';
 
-function createRedisClient(): Redis {
+// BullMQ rejects ioredis' keyPrefix, so queues and workers take this instead
+export const QUEUE_PREFIX = `${REDIS_PREFIX}bull`;
+
+function createRedisClient(keyPrefix?: string): Redis {
   const client = new Redis(REDIS_URL, {
+    keyPrefix,
     maxRetriesPerRequest: null,
     enableReadyCheck: false,
     retryStrategy(times) {
@@ -30,7 +37,7 @@ function createRedisClient(): Redis {
 
 export function getRedisClient(): Redis {
   if (!global.redis) {
-    global.redis = createRedisClient();
+    global.redis = createRedisClient(REDIS_PREFIX || undefined);
   }
   return global.redis;
 }
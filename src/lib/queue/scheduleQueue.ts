@@ -0,0 +1,77 @@
+import { Queue } from 'bullmq';
+import { createNewRedisConnection, QUEUE_PREFIX } from './redis';
+import type { ScheduleJobData } from '@/types';
+
+export const SCHEDULE_QUEUE_NAME = 'scrape-schedules';
+
+// Schedule fields that decide when (and whether) it fires
+export interface ScheduleTrigger {
+  scheduleId: string;
+  entryUsername: string;
+  cron?: string | null;
+  intervalMinutes?: number | null;
+  timezone?: string | null;
+  enabled: boolean;
+}
+
+let scheduleQueue: Queue<ScheduleJobData> | null = null;
+
+export function getScheduleQueue(): Queue<ScheduleJobData> {
+  if (!scheduleQueue) {
+    const connection = createNewRedisConnection();
+    scheduleQueue = new Queue<ScheduleJobData>(SCHEDULE_QUEUE_NAME, {
+      connection,
+      prefix: QUEUE_PREFIX,
+      defaultJobOptions: {
+        attempts: 1, // A missed run is picked up by the next repetition
+        removeOnComplete: {
+          count: 100,
+          age: 7 * 24 * 60 * 60, // 7 days
+        },
+        removeOnFail: {
+          count: 50,
+          age: 7 * 24 * 60 * 60, // 7 days
+        },
+      },
+    });
+  }
+  return scheduleQueue;
+}
+
+export async function getNextRunAt(scheduleId: string): Promise<Date | undefined> {
+  const queue = getScheduleQueue();
+  const scheduler = await queue.getJobScheduler(scheduleId);
+  return scheduler?.next ? new Date(scheduler.next) : undefined;
+}
+
+/**
+ * Create, update or remove the BullMQ job scheduler that fires a schedule.
+ * The scheduler id is the schedule id, so repeated syncs replace it.
+ * @returns The next run time, or undefined if the schedule is disabled
+ */
+export async function syncScheduleRepeatable(
+  schedule: ScheduleTrigger
+): Promise<Date | undefined> {
+  const queue = getScheduleQueue();
+
+  if (!schedule.enabled) {
+    await queue.removeJobScheduler(schedule.scheduleId);
+    return undefined;
+  }
+
+  const repeat = schedule.cron
+    ? { pattern: schedule.cron, tz: schedule.timezone || undefined }
+    : { every: (schedule.intervalMinutes || 0) * 60 * 1000 };
+
+  await queue.upsertJobScheduler(schedule.scheduleId, repeat, {
+    name: `schedule-${schedule.entryUsername}`,
+    data: { scheduleId: schedule.scheduleId },
+  });
+
+  return getNextRunAt(schedule.scheduleId);
+}
+
+export async function removeScheduleRepeatable(scheduleId: string): Promise<void> {
+  const queue = getScheduleQueue();
+  await queue.removeJobScheduler(scheduleId);
+}
@@ -0,0 +1,120 @@
+import { Worker, Job } from "bullmq";
+import { createNewRedisConnection, QUEUE_PREFIX } from "./redis";
+import { SCHEDULE_QUEUE_NAME, getNextRunAt } from "./scheduleQueue";
+import { findOpenJob, startScrapeJob } from "./jobControl";
+import { getSession } from "../scraper/auth";
+import { ScrapeSchedule } from "../db/models";
+import connectDB from "../db/mongodb";
+import type {
+  ScheduleJobData,
+  ScheduleRunStatus,
+  ScrapeSchedule as ScrapeScheduleType,
+} from "@/types";
+
+interface ScheduleRunResult {
+  status: ScheduleRunStatus;
+  message: string;
+  jobId?: string;
+}
+
+/**
+ * Start one run of a schedule. Runs are skipped (not queued up) while the
+ * session still has an unfinished job, same as starting a scrape by hand.
+ */
+async function runSchedule(
+  schedule: ScrapeScheduleType
+): Promise<ScheduleRunResult> {
+  const session = await getSession(schedule.sessionId);
+  if (!session.valid) {
+    return { status: "failed", message: "Session expired" };
+  }
+
+  const openJob = await findOpenJob(schedule.sessionId);
+  if (openJob) {
+    return {
+      status: "skipped",
+      message: `Job ${openJob.jobId} is still ${openJob.status}`,
+    };
+  }
+
+  const jobId = await startScrapeJob({
+    sessionId: schedule.sessionId,
+    entryUsername: schedule.entryUsername,
+    maxDepth: schedule.maxDepth,
+    scrapeFollowers: schedule.scrapeFollowers,
+    scrapeFollowing: schedule.scrapeFollowing,
+    scrapePosts: schedule.scrapePosts,
+    reuseWithinDays: schedule.reuseWithinDays,
+    useSessionPool: schedule.useSessionPool,
+    scheduleId: schedule.scheduleId,
+  });
+
+  return {
+    status: "started",
+    message: `Started scraping @${schedule.entryUsername}`,
+    jobId,
+  };
+}
+
+export function createScheduleWorker(): Worker<ScheduleJobData> {
+  const connection = createNewRedisConnection();
+
+  const worker = new Worker<ScheduleJobData>(
+    SCHEDULE_QUEUE_NAME,
+    async (job: Job<ScheduleJobData>) => {
+      const { scheduleId } = job.data;
+
+      await connectDB();
+
+      const schedule = await ScrapeSchedule.findOne({ scheduleId }).lean<ScrapeScheduleType>();
+      if (!schedule || !schedule.enabled) {
+        console.log(`[ScheduleWorker] Schedule ${scheduleId} is gone or disabled`);
+        return { status: "skipped", message: "Schedule disabled" };
+      }
+
+      let result: ScheduleRunResult;
+      try {
+        result = await runSchedule(schedule);
+      } catch (error) {
+        result = {
+          status: "failed",
+          message: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+
+      await ScrapeSchedule.updateOne(
+        { scheduleId },
+        {
+          lastRunAt: new Date(),
+          lastRunStatus: result.status,
+          lastRunMessage: result.message,
+          ...(result.jobId ? { lastJobId: result.jobId } : {}),
+          nextRunAt: await getNextRunAt(scheduleId),
+        }
+      );
+
+      console.log(
+        `[ScheduleWorker] Schedule ${scheduleId} run ${result.status}: ${result.message}`
+      );
+
+      return result;
+    },
+    {
+      connection,
+      prefix: QUEUE_PREFIX,
+      concurrency: 1,
+    }
+  );
+
+  worker.on("failed", (job, err) => {
+    console.error(`[ScheduleWorker] Job ${job?.id} failed:`, err.message);
+  });
+
+  worker.on("error", (err) => {
+    console.error("[ScheduleWorker] Worker error:", err);
+  });
+
+  return worker;
+}
+
+export default createScheduleWorker;
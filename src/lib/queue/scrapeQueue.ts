@@ -1,5 +1,5 @@
-import { Queue, QueueEvents } from 'bullmq';
-import { createNewRedisConnection } from './redis';
+import { Job, Queue, QueueEvents } from 'bullmq';
+import { createNewRedisConnection, QUEUE_PREFIX } from './redis';
 import type { ScrapeJobData } from '@/types';
 
 const QUEUE_NAME = 'instagram-scrape';
@@ -12,6 +12,7 @@ export function getScrapeQueue(): Queue<ScrapeJobData> {
     const connection = createNewRedisConnection();
     scrapeQueue = new Queue<ScrapeJobData>(QUEUE_NAME, {
       connection,
+      prefix: QUEUE_PREFIX,
       defaultJobOptions: {
         attempts: 3,
         backoff: {
@@ -35,16 +36,22 @@ export function getScrapeQueue(): Queue<ScrapeJobData> {
 export function getQueueEvents(): QueueEvents {
   if (!queueEvents) {
     const connection = createNewRedisConnection();
-    queueEvents = new QueueEvents(QUEUE_NAME, { connection });
+    queueEvents = new QueueEvents(QUEUE_NAME, { connection, prefix: QUEUE_PREFIX });
   }
   return queueEvents;
 }
 
+// BullMQ job id for a single profile scrape within a crawl
+function getScrapeEntryId(data: ScrapeJobData): string {
+  const id = `${data.jobId}-${data.username}-${data.depth}`;
+  return data.requeueCount ? `${id}-r${data.requeueCount}` : id;
+}
+
 export async function addScrapeJob(data: ScrapeJobData): Promise<string> {
   const queue = getScrapeQueue();
   
   const job = await queue.add(`scrape-${data.username}`, data, {
-    jobId: `${data.jobId}-${data.username}-${data.depth}`,
+    jobId: getScrapeEntryId(data),
     priority: data.depth, // Lower depth = higher priority
     delay: data.depth > 0 ? 3000 : 0, // Delay for chained jobs
   });
@@ -59,7 +66,7 @@ export async function addBulkScrapeJobs(jobs: ScrapeJobData[]): Promise<void> {
     name: `scrape-${data.username}`,
     data,
     opts: {
-      jobId: `${data.jobId}-${data.username}-${data.depth}`,
+      jobId: getScrapeEntryId(data),
       priority: data.depth,
       delay: 3000 + Math.random() * 2000, // Random delay between 3-5 seconds
     },
@@ -68,6 +75,65 @@ export async function addBulkScrapeJobs(jobs: ScrapeJobData[]): Promise<void> {
   await queue.addBulk(bulkJobs);
 }
 
+/**
+ * Re-add scrape entries that were taken out of the queue (e.g. parked while
+ * their job was paused). Finished entries with the same id are removed first,
+ * otherwise BullMQ would treat the re-added entries as duplicates. An entry
+ * still held by a worker (e.g. one parking itself as the job is resumed)
+ * can't be removed, so the re-added entry gets a new id instead.
+ */
+export async function requeueScrapeJobs(jobs: ScrapeJobData[]): Promise<void> {
+  const queue = getScrapeQueue();
+  const entries: ScrapeJobData[] = [];
+
+  for (const data of jobs) {
+    let entry = data;
+    while (
+      (await queue.remove(getScrapeEntryId(entry))) === 0 &&
+      (await queue.getJob(getScrapeEntryId(entry)))
+    ) {
+      entry = { ...entry, requeueCount: (entry.requeueCount ?? 0) + 1 };
+    }
+    entries.push(entry);
+  }
+
+  await addBulkScrapeJobs(entries);
+}
+
+/**
+ * Remove every queued (not yet active) entry that belongs to a scrape job
+ * @param jobId The parent scrape job ID
+ * @returns Data of the removed queue entries
+ */
+export async function removeQueuedJobEntries(
+  jobId: string
+): Promise<ScrapeJobData[]> {
+  const queue = getScrapeQueue();
+  const pageSize = 500;
+  const matching: Job<ScrapeJobData>[] = [];
+
+  // Collect first, then remove, so pagination isn't shifted by removals
+  for (const state of ['waiting', 'delayed', 'prioritized', 'paused'] as const) {
+    for (let start = 0; ; start += pageSize) {
+      const jobs = await queue.getJobs(state, start, start + pageSize - 1);
+      matching.push(...jobs.filter((job) => job?.data?.jobId === jobId));
+      if (jobs.length < pageSize) break;
+    }
+  }
+
+  const removed: ScrapeJobData[] = [];
+  for (const job of matching) {
+    try {
+      await job.remove();
+      removed.push(job.data);
+    } catch {
+      // Job was picked up by a worker in the meantime; the worker skips it
+    }
+  }
+
+  return removed;
+}
+
 export async function getJobCounts(): Promise<{
   waiting: number;
   active: number;
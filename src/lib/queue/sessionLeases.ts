@@ -0,0 +1,59 @@
+import { getRedisClient } from "./redis";
+
+// When each session's scraper was handed out, shared by every worker so the
+// session pool's quotas and cooldowns survive restarts and hold across replicas
+const LEASES_KEY_PREFIX = "session-pool:leases:";
+export const QUOTA_WINDOW = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Lease timestamps of several sessions within the last hour, oldest first
+ * @returns A map from session ID to its recent lease times (ms)
+ */
+export async function getRecentLeases(
+  sessionIds: string[],
+  now: number = Date.now()
+): Promise<Map<string, number[]>> {
+  const leases = new Map<string, number[]>();
+  if (sessionIds.length === 0) return leases;
+
+  const redis = getRedisClient();
+  const pipeline = redis.pipeline();
+  sessionIds.forEach((sessionId) =>
+    pipeline.zrangebyscore(
+      `${LEASES_KEY_PREFIX}${sessionId}`,
+      now - QUOTA_WINDOW,
+      "+inf"
+    )
+  );
+  const results = (await pipeline.exec()) || [];
+
+  sessionIds.forEach((sessionId, index) => {
+    const members = (results[index]?.[1] as string[] | undefined) || [];
+    // Members are "<timestamp>:<nonce>" so leases in the same ms don't collide
+    leases.set(
+      sessionId,
+      members.map((member) => parseInt(member, 10))
+    );
+  });
+
+  return leases;
+}
+
+/**
+ * Record that a session's scraper was handed out, dropping leases that fell
+ * out of the quota window
+ */
+export async function recordLease(
+  sessionId: string,
+  now: number = Date.now()
+): Promise<void> {
+  const redis = getRedisClient();
+  const key = `${LEASES_KEY_PREFIX}${sessionId}`;
+
+  await redis
+    .multi()
+    .zadd(key, now, `${now}:${Math.random().toString(36).slice(2, 8)}`)
+    .zremrangebyscore(key, "-inf", now - QUOTA_WINDOW)
+    .pexpire(key, QUOTA_WINDOW)
+    .exec();
+}
@@ -1,22 +1,82 @@
 import { Worker, Job } from "bullmq";
-import { createNewRedisConnection } from "./redis";
+import { createNewRedisConnection, QUEUE_PREFIX } from "./redis";
 import { addBulkScrapeJobs } from "./scrapeQueue";
+import { leaseScraper, releaseScraperForSession } from "../scraper/session";
+import type { InstagramScraper } from "../scraper/instagram";
+import { Post, Job as JobModel } from "../db/models";
 import {
-  getScraperForSession,
-  releaseScraperForSession,
-} from "../scraper/session";
-import { Profile, Post, Job as JobModel } from "../db/models";
+  findRecentProfile,
+  saveOwnedProfile,
+} from "../db/ownedProfiles";
 import {
-  addToBuffer,
-  shouldProcessBatch,
-  BUFFER_THRESHOLD,
-} from "./aiAnalysisBuffer";
-import { processBatch, processJobRemaining } from "./aiAnalysisWorker";
+  addRelationships,
+  getRelationships,
+  replaceRelationships,
+  type Relationships,
+} from "../db/followGraph";
+import {
+  completeRelationshipLists,
+  diffRelationshipLists,
+  recordProfileSnapshot,
+} from "../db/profileHistory";
+import { recordFollowEvents } from "../db/followEvents";
+import { enqueueProfileAnalysis } from "./aiAnalysisQueue";
+import {
+  ACTIVE_JOB_STATUSES,
+  checkAndCompleteJob,
+  getJobStatus,
+  parkScrapeJobs,
+} from "./jobControl";
+import { claimUsernames, releaseUsernames } from "./crawlVisited";
 import connectDB from "../db/mongodb";
 import type { ScrapeJobData, InstagramProfile, InstagramPost } from "@/types";
 
 const QUEUE_NAME = "instagram-scrape";
 
+/**
+ * Fail the entry when the scraper landed on a checkpoint or login page: its
+ * empty results aren't real, and the retry gets another account from the
+ * pool (the challenged one is taken out of rotation on release)
+ */
+function throwIfChallenged(scraper: InstagramScraper, sessionId: string): void {
+  const challenge = scraper.getChallenge();
+  if (challenge) {
+    throw new Error(
+      `Session ${sessionId} hit an Instagram ${challenge.kind} (${challenge.url})`,
+    );
+  }
+}
+
+/**
+ * Count a parent's newly claimed children in the job's total and queue them,
+ * or park them if the job got paused. Children of a cancelled job are
+ * dropped. A failed enqueue takes the count back out.
+ */
+async function queueChildJobs(
+  jobId: string,
+  childJobs: ScrapeJobData[],
+): Promise<void> {
+  await JobModel.updateOne(
+    { jobId },
+    { $inc: { totalProfiles: childJobs.length } },
+  );
+
+  try {
+    const currentStatus = await getJobStatus(jobId);
+    if (currentStatus === "paused") {
+      await parkScrapeJobs(jobId, childJobs);
+    } else if (currentStatus !== "cancelled") {
+      await addBulkScrapeJobs(childJobs);
+    }
+  } catch (error) {
+    await JobModel.updateOne(
+      { jobId },
+      { $inc: { totalProfiles: -childJobs.length } },
+    );
+    throw error;
+  }
+}
+
 export function createScrapeWorker(): Worker<ScrapeJobData> {
   const connection = createNewRedisConnection();
 
@@ -37,25 +97,63 @@ export function createScrapeWorker(): Worker<ScrapeJobData> {
         scrapeFollowers,
         scrapeFollowing,
         scrapePosts,
+        reuseWithinDays,
+        useSessionPool,
       } = job.data;
 
-      // Update job status
+      // Park children of paused jobs, skip children of finished/cancelled ones
+      const jobStatus = await getJobStatus(jobId);
+      if (jobStatus === "paused") {
+        await parkScrapeJobs(jobId, [job.data]);
+        console.log(`Parked @${username}: job ${jobId} is paused`);
+        return { success: false, reason: "Job paused" };
+      }
+      if (!jobStatus || !ACTIVE_JOB_STATUSES.includes(jobStatus)) {
+        console.log(`Skipping @${username}: job ${jobId} is no longer active`);
+        return { success: false, reason: "Job not active" };
+      }
+
+      // Update job status (only the first child moves it out of pending)
       await JobModel.updateOne(
-        { jobId },
+        { jobId, status: "pending" },
         {
           status: "processing",
           startedAt: new Date(),
         },
       );
 
-      const scraper = await getScraperForSession(sessionId);
-      if (!scraper) {
-        throw new Error("Session not found or expired");
+      // The entry profile is claimed here; children are claimed when enqueued
+      if (depth === 0) {
+        await claimUsernames(jobId, [username]);
+      }
+
+      // Results stay with the job's session whichever account scrapes
+      const lease = await leaseScraper(sessionId, !!useSessionPool);
+      if (!lease) {
+        throw new Error(
+          useSessionPool
+            ? "No account in the session pool is available"
+            : "Session not found, expired or challenged",
+        );
       }
+      const { scraper } = lease;
 
       try {
+        // Reuse a recently scraped profile if the job allows it
+        const recent = reuseWithinDays
+          ? await findRecentProfile(username, reuseWithinDays)
+          : null;
+        if (recent) {
+          console.log(
+            `Reusing @${username} scraped at ${recent.profile.scrapedAt.toISOString()}`,
+          );
+          await JobModel.updateOne({ jobId }, { $inc: { reusedProfiles: 1 } });
+        }
+
         // Scrape profile
-        const profileData = await scraper.scrapeProfile(username);
+        const profileData =
+          recent?.profile ?? (await scraper.scrapeProfile(username));
+        throwIfChallenged(scraper, lease.sessionId);
         if (!profileData) {
           console.log(`Profile @${username} not found or private`);
           await JobModel.updateOne({ jobId }, { $inc: { failedProfiles: 1 } });
@@ -65,141 +163,169 @@ export function createScrapeWorker(): Worker<ScrapeJobData> {
         // Scrape posts if enabled
         let posts: InstagramPost[] = [];
         if (scrapePosts && !profileData.isPrivate) {
-          const scrapedPosts = await scraper.scrapePosts(username, 50);
-          posts = scrapedPosts.map((p) => ({
-            profileId: username,
-            ...p,
-          }));
+          if (recent) {
+            posts = await Post.find({ profileId: username }, { _id: 0 })
+              .sort({ postedAt: -1 })
+              .limit(50)
+              .lean<InstagramPost[]>();
+          } else {
+            const scrapedPosts = await scraper.scrapePosts(username, 50);
+            throwIfChallenged(scraper, lease.sessionId);
+            posts = scrapedPosts.map((p) => ({
+              profileId: username,
+              ...p,
+            }));
+          }
         }
 
         console.log("Profile", profileData);
         console.log("Posts", posts);
 
-        // Save profile to database (without interests/niche initially)
+        // Save canonical profile and this session's link (without interests/niche initially)
         const profile: InstagramProfile = {
           ...profileData,
           sessionId,
-          scrapedAt: new Date(),
+          scrapedAt: recent?.profile.scrapedAt ?? new Date(),
           scrapedDepth: depth,
           parentUsername,
           interests: [],
           niche: undefined,
-          followers: [],
-          following: [],
+          niches: undefined,
         };
 
-        await Profile.findOneAndUpdate({ username }, profile, {
-          upsert: true,
-          new: true,
-        });
+        await saveOwnedProfile(profile, jobId);
 
-        // Save posts to database
-        for (const post of posts) {
+        // Save posts to database (reused posts are already stored)
+        for (const post of recent ? [] : posts) {
           await Post.findOneAndUpdate({ postId: post.postId }, post, {
             upsert: true,
           });
         }
 
-        // Add profile to AI analysis buffer instead of analyzing directly
-        const bufferSize = await addToBuffer(profile, posts, jobId);
-
-        // Trigger batch processing if buffer threshold reached
-        if (bufferSize >= BUFFER_THRESHOLD) {
-          console.log(
-            `[Worker] Buffer threshold reached (${bufferSize}), triggering batch processing`,
-          );
-          // Process batch asynchronously (don't await to avoid blocking scraping)
-          processBatch().catch((err) =>
-            console.error("[Worker] Batch processing error:", err),
-          );
-        }
+        // Queue the saved profile for batched AI analysis
+        await enqueueProfileAnalysis({ username, sessionId, jobId });
 
-        // Update job progress
-        await JobModel.updateOne(
-          { jobId },
-          {
-            $inc: { processedProfiles: 1 },
-            currentDepth: depth,
-          },
-        );
+        const relationships: Relationships = {};
 
         // Queue followers and following for scraping if not at max depth
-        if (depth < maxDepth && !profileData.isPrivate) {
-          const childJobs: ScrapeJobData[] = [];
+        // (re-checked here since the job may have been cancelled mid-scrape)
+        if (
+          depth < maxDepth &&
+          !profileData.isPrivate &&
+          (await getJobStatus(jobId)) !== "cancelled"
+        ) {
+          const candidates = new Set<string>();
 
           if (scrapeFollowers) {
-            const followers = await scraper.scrapeFollowers(username);
-            profile.followers = followers;
-
-            // Update total profiles count
-            await JobModel.updateOne(
-              { jobId },
-              { $inc: { totalProfiles: followers.length } },
-            );
-
-            followers.forEach((follower) => {
-              childJobs.push({
-                jobId,
-                sessionId,
-                username: follower,
-                depth: depth + 1,
-                maxDepth,
-                parentUsername: username,
-                scrapeFollowers,
-                scrapeFollowing,
-                scrapePosts,
-              });
-            });
+            const followers =
+              recent?.followers ?? (await scraper.scrapeFollowers(username));
+            throwIfChallenged(scraper, lease.sessionId);
+            relationships.followers = followers;
+            followers.forEach((follower) => candidates.add(follower));
           }
 
           if (scrapeFollowing) {
-            const following = await scraper.scrapeFollowing(username);
-            profile.following = following;
+            const following =
+              recent?.following ?? (await scraper.scrapeFollowing(username));
+            throwIfChallenged(scraper, lease.sessionId);
+            relationships.following = following;
+            following.forEach((followedUser) => candidates.add(followedUser));
+          }
 
-            // Update total profiles count
-            await JobModel.updateOne(
-              { jobId },
-              { $inc: { totalProfiles: following.length } },
-            );
+          // Skip accounts already visited anywhere in this crawl
+          const newUsernames = await claimUsernames(jobId, [...candidates]);
+          const childJobs: ScrapeJobData[] = newUsernames.map((child) => ({
+            jobId,
+            sessionId,
+            username: child,
+            depth: depth + 1,
+            maxDepth,
+            parentUsername: username,
+            scrapeFollowers,
+            scrapeFollowing,
+            scrapePosts,
+            reuseWithinDays,
+            useSessionPool,
+          }));
 
-            following.forEach((followedUser) => {
-              // Avoid duplicates with followers
-              if (!childJobs.some((j) => j.username === followedUser)) {
-                childJobs.push({
-                  jobId,
-                  sessionId,
-                  username: followedUser,
-                  depth: depth + 1,
-                  maxDepth,
-                  parentUsername: username,
-                  scrapeFollowers,
-                  scrapeFollowing,
-                  scrapePosts,
-                });
-              }
-            });
+          // Queue the claimed children right away; if that fails the claims
+          // are given back so the retried entry queues them again
+          if (childJobs.length > 0) {
+            try {
+              await queueChildJobs(jobId, childJobs);
+            } catch (error) {
+              await releaseUsernames(jobId, newUsernames);
+              throw error;
+            }
           }
 
-          // Update profile with followers/following
-          await Profile.updateOne(
-            { username },
-            { followers: profile.followers, following: profile.following },
+        }
+
+        // Lists cut short by a login prompt or failed scrolling are neither
+        // diffed nor allowed to remove edges
+        const complete = completeRelationshipLists(relationships, profileData);
+
+        // Keep history of fresh scrapes (reused profiles weren't observed
+        // again). The diff reads the stored edges before they are overwritten
+        // below, so a retried entry still records its events.
+        if (!recent) {
+          const previous: Relationships = {};
+          for (const type of ["followers", "following"] as const) {
+            if (complete[type]) {
+              previous[type] = await getRelationships(
+                sessionId,
+                username,
+                type,
+              );
+            }
+          }
+          const diffs = diffRelationshipLists(previous, complete);
+
+          await recordProfileSnapshot(profile, jobId, diffs);
+          await recordFollowEvents(
+            sessionId,
+            username,
+            jobId,
+            diffs,
+            profile.scrapedAt,
           );
+        }
 
-          // Add child jobs to queue
-          if (childJobs.length > 0) {
-            await addBulkScrapeJobs(childJobs);
+        // Complete lists replace this session's edges, partial ones only add
+        for (const type of ["followers", "following"] as const) {
+          const accounts = relationships[type];
+          if (!accounts?.length) continue;
+
+          const write = complete[type]
+            ? replaceRelationships
+            : addRelationships;
+          if (!complete[type]) {
+            console.log(
+              `Only got ${accounts.length} ${type} of @${username}, keeping the previous ones`,
+            );
           }
+          await write(sessionId, username, type, accounts, jobId);
         }
 
+        // Update job progress (last, so an entry retried after a challenge
+        // isn't counted twice)
+        await JobModel.updateOne(
+          { jobId },
+          {
+            $inc: { processedProfiles: 1 },
+            currentDepth: depth,
+          },
+        );
+
         console.log(`Successfully scraped @${username}`);
         return { success: true, username, depth };
       } finally {
-        releaseScraperForSession(sessionId);
+        await releaseScraperForSession(lease.sessionId);
       }
     },
     {
       connection,
+      prefix: QUEUE_PREFIX,
       concurrency: 1, // Process 1 job at a time (reduced for low-RAM servers)
       limiter: {
         max: 10,
@@ -218,7 +344,9 @@ export function createScrapeWorker(): Worker<ScrapeJobData> {
   worker.on("failed", async (job, err) => {
     console.error(`Job ${job?.id} failed:`, err.message);
 
-    if (job) {
+    // Attempts that will be retried (e.g. on another pooled account after a
+    // challenge) aren't failed profiles yet
+    if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
       await JobModel.updateOne(
         { jobId: job.data.jobId },
         { $inc: { failedProfiles: 1 } },
@@ -236,45 +364,4 @@ export function createScrapeWorker(): Worker<ScrapeJobData> {
   return worker;
 }
 
-async function checkAndCompleteJob(jobId: string): Promise<void> {
-  await connectDB();
-
-  const job = await JobModel.findOne({ jobId });
-  if (!job) return;
-
-  const totalProcessed = job.processedProfiles + job.failedProfiles;
-
-  // If all profiles have been processed
-  if (totalProcessed >= job.totalProfiles && job.totalProfiles > 0) {
-    // Flush and process any remaining profiles in the buffer for this job
-    console.log(`[Worker] Job ${jobId} completing, flushing remaining buffer`);
-    try {
-      const processedCount = await processJobRemaining(jobId);
-      if (processedCount > 0) {
-        console.log(
-          `[Worker] Processed ${processedCount} remaining profiles for job ${jobId}`,
-        );
-      }
-    } catch (flushError) {
-      console.error(
-        `[Worker] Error flushing buffer for job ${jobId}:`,
-        flushError,
-      );
-    }
-
-    const status =
-      job.failedProfiles === job.totalProfiles ? "failed" : "completed";
-
-    await JobModel.updateOne(
-      { jobId },
-      {
-        status,
-        completedAt: new Date(),
-      },
-    );
-
-    console.log(`Scrape job ${jobId} ${status}`);
-  }
-}
-
 export default createScrapeWorker;
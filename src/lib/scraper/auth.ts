@@ -3,6 +3,8 @@ import { InstagramScraper } from "./instagram";
 import { Session } from "../db/models";
 import { encrypt, decrypt, generateSessionId } from "../utils/encryption";
 import connectDB from "../db/mongodb";
+import { moveSchedulesToSession } from "../db/scrapeSchedules";
+import type { InstagramSession } from "@/types";
 
 export interface AuthResult {
   success: boolean;
@@ -128,6 +130,11 @@ async function saveSession(
   const sessionId = generateSessionId();
   const encryptedCookies = encrypt(JSON.stringify(cookies));
 
+  // Schedules of the sessions being replaced move to the new one
+  const previous = await Session.find({ username })
+    .select("sessionId")
+    .lean<{ sessionId: string }[]>();
+
   // Remove existing sessions for this username
   await Session.deleteMany({ username });
 
@@ -141,6 +148,10 @@ async function saveSession(
     lastUsedAt: new Date(),
     isValid: true,
   });
+  await moveSchedulesToSession(
+    previous.map((session) => session.sessionId),
+    sessionId
+  );
 
   return sessionId;
 }
@@ -149,6 +160,10 @@ export async function getSession(sessionId: string): Promise<{
   valid: boolean;
   username?: string;
   cookies?: Cookie[];
+  // Raw proxy settings, see resolveSessionProxy
+  proxySettings?: Pick<InstagramSession, "proxy" | "rotateProxy" | "proxyId">;
+  challengedAt?: Date;
+  shareInPool?: boolean;
 }> {
   await connectDB();
 
@@ -169,6 +184,13 @@ export async function getSession(sessionId: string): Promise<{
       valid: true,
       username: session.username,
       cookies,
+      proxySettings: {
+        proxy: session.proxy,
+        rotateProxy: session.rotateProxy,
+        proxyId: session.proxyId,
+      },
+      challengedAt: session.challengedAt,
+      shareInPool: !!session.shareInPool,
     };
   } catch {
     // If decryption fails, invalidate session
@@ -183,6 +205,21 @@ export async function invalidateSession(sessionId: string): Promise<void> {
   await Session.updateOne({ sessionId }, { isValid: false });
 }
 
+/**
+ * Take a session out of scraping after Instagram sent it to a checkpoint or
+ * suspension page. It stays logged in to the app; logging in again clears it.
+ */
+export async function markSessionChallenged(
+  sessionId: string,
+  reason: string
+): Promise<void> {
+  await connectDB();
+  await Session.updateOne(
+    { sessionId },
+    { challengedAt: new Date(), challengeReason: reason }
+  );
+}
+
 export async function validateSession(sessionId: string): Promise<boolean> {
   const session = await getSession(sessionId);
 
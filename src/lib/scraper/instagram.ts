@@ -1,10 +1,38 @@
-import { chromium, Browser, Page, BrowserContext, Cookie } from "playwright";
-import type { ScrapedProfileData, ScrapedPostData } from "@/types";
-
-const INSTAGRAM_URL = "https://www.instagram.com";
+import {
+  chromium,
+  Browser,
+  Page,
+  BrowserContext,
+  Cookie,
+  Response,
+} from "playwright";
+import {
+  detectChallenge,
+  isNotFoundPage,
+  isProfileResponseUrl,
+  parseJsonBody,
+  parsePostLinks,
+  parsePostPage,
+  parseProfileJson,
+  parseProfilePage,
+  parseUsernameLinks,
+  type ChallengeKind,
+  type PostPageSnapshot,
+  type ProfilePageSnapshot,
+} from "./parsing";
+import { formatProxyServer, isProxyError, toPlaywrightProxy } from "./proxy";
+import type { ProxyConfig, ScrapedProfileData, ScrapedPostData } from "@/types";
+
+// Overridable to crawl the local mock (npm run mock:instagram)
+const INSTAGRAM_URL = (
+  process.env.INSTAGRAM_URL || "https://www.instagram.com"
+).replace(/\/+$/, "");
 const USER_AGENT =
   "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
 
+// How long to wait for the profile JSON after the page has loaded
+const PROFILE_JSON_TIMEOUT = 3000;
+
 // Rate limiting configuration
 const RATE_LIMIT = {
   minDelay: 2000,
@@ -20,16 +48,36 @@ function randomDelay(
   return new Promise((resolve) => setTimeout(resolve, delay));
 }
 
+export interface ScraperOptions {
+  // Proxy the browser connects through, direct when unset
+  proxy?: ProxyConfig;
+  // Outcome of every page load made through the proxy, for health scoring
+  onProxyResult?: (ok: boolean, error?: string) => void;
+}
+
+export interface ScraperChallenge {
+  kind: ChallengeKind;
+  url: string;
+}
+
 export class InstagramScraper {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
   private page: Page | null = null;
   private isLoggedIn: boolean = false;
   private resourceBlockMode: "login" | "scrape" = "login";
+  private options: ScraperOptions = {};
+  private challenge: ScraperChallenge | null = null;
+
+  async init(cookies?: Cookie[], options: ScraperOptions = {}): Promise<void> {
+    this.options = options;
+    if (options.proxy) {
+      console.log(`[init] Using proxy ${formatProxyServer(options.proxy)}`);
+    }
 
-  async init(cookies?: Cookie[]): Promise<void> {
     this.browser = await chromium.launch({
       headless: true,
+      proxy: options.proxy ? toPlaywrightProxy(options.proxy) : undefined,
       args: [
         "--no-sandbox",
         "--disable-setuid-sandbox",
@@ -63,6 +111,8 @@ export class InstagramScraper {
       viewport: { width: 1280, height: 720 },
       locale: "en-US",
     });
+    this.watchProxyHealth(this.context);
+    this.watchChallenges(this.context);
 
     if (cookies && cookies.length > 0) {
       await this.context.addCookies(cookies);
@@ -98,6 +148,59 @@ export class InstagramScraper {
     this.isLoggedIn = false;
   }
 
+  /**
+   * Report page loads to onProxyResult: connection errors that point at the
+   * proxy and 407/429 responses count against it, other non-5xx answers for
+   * it. Subresources are left out, they'd mostly repeat the page's outcome.
+   */
+  private watchProxyHealth(context: BrowserContext): void {
+    const report = this.options.onProxyResult;
+    if (!this.options.proxy || !report) return;
+
+    context.on("requestfailed", (request) => {
+      if (request.resourceType() !== "document") return;
+      const errorText = request.failure()?.errorText || "";
+      if (isProxyError(errorText)) report(false, errorText);
+    });
+    context.on("response", (response) => {
+      if (response.request().resourceType() !== "document") return;
+      const status = response.status();
+      if (status === 407 || status === 429) {
+        report(false, `HTTP ${status} from ${new URL(response.url()).host}`);
+      } else if (status < 500) {
+        report(true);
+      }
+    });
+  }
+
+  /**
+   * Remember when a logged-in page load lands on a checkpoint, suspension
+   * or login page. Scrapes after that return nothing useful, so callers
+   * check getChallenge() before treating an empty result as real.
+   */
+  private watchChallenges(context: BrowserContext): void {
+    context.on("response", (response) => {
+      const request = response.request();
+      if (
+        !this.isLoggedIn ||
+        this.challenge ||
+        request.resourceType() !== "document" ||
+        request.frame().parentFrame()
+      ) {
+        return;
+      }
+      const kind = detectChallenge(response.url());
+      if (kind) {
+        console.warn(`[watchChallenges] Session hit ${kind}: ${response.url()}`);
+        this.challenge = { kind, url: response.url() };
+      }
+    });
+  }
+
+  getChallenge(): ScraperChallenge | null {
+    return this.challenge;
+  }
+
   /**
    * Check if the page is still alive and usable
    */
@@ -163,6 +266,9 @@ export class InstagramScraper {
       // Reinitialize with stored cookies
       this.browser = await chromium.launch({
         headless: true,
+        proxy: this.options.proxy
+          ? toPlaywrightProxy(this.options.proxy)
+          : undefined,
         args: [
           "--no-sandbox",
           "--disable-setuid-sandbox",
@@ -196,6 +302,8 @@ export class InstagramScraper {
         viewport: { width: 1280, height: 720 },
         locale: "en-US",
       });
+      this.watchProxyHealth(this.context);
+      this.watchChallenges(this.context);
 
       // Restore cookies if we have them
       if (this.storedCookies.length > 0) {
@@ -595,6 +703,9 @@ export class InstagramScraper {
       }
     }
 
+    // Listen before navigating: the profile JSON loads with the page
+    const profileJson = this.captureProfileJson(username);
+
     try {
       console.log(`[scrapeProfile] Starting scrape for: ${username}`);
 
@@ -614,6 +725,17 @@ export class InstagramScraper {
         });
       await randomDelay(1500, 2500);
 
+      const fromJson = await profileJson.wait(PROFILE_JSON_TIMEOUT);
+      if (fromJson) {
+        console.log("[scrapeProfile] Profile data read from JSON:", {
+          username: fromJson.username,
+          followersCount: fromJson.followersCount,
+          category: fromJson.category,
+          bioLinks: fromJson.bioLinks?.length || 0,
+        });
+        return fromJson;
+      }
+
       // Check if profile exists
       const notFound = await this.page.$(
         'h2:has-text("Sorry, this page isn\'t available")',
@@ -625,206 +747,154 @@ export class InstagramScraper {
 
       // Also check for other "not found" indicators
       const pageContent = await this.page.content();
-      if (
-        pageContent.includes("Sorry, this page isn't available") ||
-        pageContent.includes("Page Not Found")
-      ) {
+      if (isNotFoundPage(pageContent)) {
         console.log("[scrapeProfile] 404 - Page not found (content check)");
         return null;
       }
 
-      console.log("[scrapeProfile] Profile exists, extracting meta tags...");
-
-      // Extract meta tags using $eval (more reliable than evaluate)
-      const getMetaContent = async (selector: string): Promise<string> => {
-        try {
-          const content = await this.page!.$eval(selector, (el) =>
-            el.getAttribute("content"),
-          );
-          return content || "";
-        } catch {
-          return "";
-        }
-      };
-
-      const ogDescription = await getMetaContent(
-        'meta[property="og:description"]',
-      );
-      const metaDescription = await getMetaContent('meta[name="description"]');
-      const ogTitle = await getMetaContent('meta[property="og:title"]');
-      const ogImage = await getMetaContent('meta[property="og:image"]');
-
-      console.log("[scrapeProfile] Meta tags extracted:", {
-        ogDescription: ogDescription?.substring(0, 80) + "...",
-        ogTitle: ogTitle?.substring(0, 50),
-        hasOgImage: !!ogImage,
-      });
-
-      // Parse follower counts from description
-      const parseCount = (str: string | undefined | null): number => {
-        if (!str) return 0;
-        try {
-          const num = str.replace(/,/g, "");
-          if (num.includes("K")) return Math.round(parseFloat(num) * 1000);
-          if (num.includes("M")) return Math.round(parseFloat(num) * 1000000);
-          if (num.includes("B"))
-            return Math.round(parseFloat(num) * 1000000000);
-          return parseInt(num, 10) || 0;
-        } catch {
-          return 0;
-        }
-      };
-
-      // Extract counts from og:description
-      // Format: "698M Followers, 313 Following, 8,272 Posts - See Instagram photos..."
-      const followersMatch = ogDescription.match(
-        /([\d,.]+[KMB]?)\s*Followers/i,
+      console.log(
+        "[scrapeProfile] No profile JSON captured, falling back to meta tags...",
       );
-      const followingMatch = ogDescription.match(
-        /([\d,.]+[KMB]?)\s*Following/i,
+      return await this.scrapeProfileFromMeta(username);
+    } catch (error) {
+      console.error(
+        `[scrapeProfile] Error scraping profile ${username}:`,
+        error,
       );
-      const postsMatch = ogDescription.match(/([\d,.]+[KMB]?)\s*Posts/i);
-
-      console.log("[scrapeProfile] Counts parsed:", {
-        followersRaw: followersMatch?.[1],
-        followingRaw: followingMatch?.[1],
-        postsRaw: postsMatch?.[1],
-      });
-
-      // Get full name from og:title
-      // Format: "Full Name (@username) • Instagram photos and videos"
-      let fullName = "";
-      const titleMatch = ogTitle.match(/^(.+?)\s*\(@/);
-      if (titleMatch) {
-        fullName = titleMatch[1].trim();
-      }
-
-      // Get bio from meta description
-      // Format: "... on Instagram: "Bio text here""
-      let bio = "";
-      const bioMatch = metaDescription.match(/on Instagram:\s*"([^"]+)"/);
-      if (bioMatch) {
-        bio = bioMatch[1];
-      }
-
-      // If bio not found in meta, try to extract from page
-      if (!bio) {
-        try {
-          bio = await this.page.evaluate(() => {
-            const mainElement = document.querySelector("main");
-            if (!mainElement) return "";
-
-            const textContent = mainElement.innerText || "";
-            const lines = textContent.split("\n").filter((l) => l.trim());
-
-            for (const line of lines) {
-              const trimmed = line.trim();
-              if (
-                trimmed &&
-                !trimmed.match(/^\d/) &&
-                !trimmed.match(/posts?$/i) &&
-                !trimmed.match(/followers?$/i) &&
-                !trimmed.match(/following$/i) &&
-                trimmed.length > 5 &&
-                trimmed.length < 500 &&
-                !trimmed.match(/^(Posts|Reels|Tagged|Related|See all)$/i)
-              ) {
-                return trimmed;
-              }
-            }
-            return "";
-          });
-        } catch {
-          console.log("[scrapeProfile] Bio fallback extraction failed");
-        }
-      }
-
-      // Get profile pic - prefer og:image
-      let profilePicUrl = ogImage || "";
-      if (!profilePicUrl) {
-        try {
-          profilePicUrl = await this.page.$eval(
-            'img[alt*="profile picture"]',
-            (el) => el.getAttribute("src") || "",
-          );
-        } catch {
-          profilePicUrl = "";
-        }
-      }
-
-      // Check if private
-      let isPrivate = false;
-      try {
-        isPrivate = await this.page.evaluate(() => {
-          const pageText = document.body.innerText || "";
-          return (
-            pageText.includes("This Account is Private") ||
-            pageText.includes("This account is private")
-          );
-        });
-      } catch {
-        isPrivate = false;
-      }
+      return null;
+    } finally {
+      profileJson.stop();
+    }
+  }
 
-      // Check if verified
-      let isVerified = false;
+  /**
+   * Watch the page's responses for the web_profile_info / GraphQL JSON of
+   * `username`. wait() resolves with the parsed profile once seen, or null
+   * when nothing arrived within the timeout.
+   */
+  private captureProfileJson(username: string): {
+    wait: (timeoutMs: number) => Promise<ScrapedProfileData | null>;
+    stop: () => void;
+  } {
+    const page = this.page!;
+    let found: ScrapedProfileData | null = null;
+    let notify: (() => void) | null = null;
+
+    const onResponse = async (response: Response) => {
+      if (found || !isProfileResponseUrl(response.url())) return;
       try {
-        const verifiedBadge = await this.page.$(
-          'svg[aria-label="Verified"], img[alt="Verified"], [title="Verified"]',
+        const data = parseProfileJson(
+          parseJsonBody(await response.text()),
+          username,
         );
-        isVerified = !!verifiedBadge;
-      } catch {
-        isVerified = false;
-      }
-
-      // Try to get external URL
-      let externalUrl = "";
-      try {
-        externalUrl = await this.page.evaluate(() => {
-          const link = document.querySelector('a[href*="l.instagram.com"]');
-          if (link) {
-            const href = link.getAttribute("href") || "";
-            const match = href.match(/u=([^&]+)/);
-            if (match) return decodeURIComponent(match[1]);
-          }
-          return "";
-        });
+        if (data && !found) {
+          found = data;
+          notify?.();
+        }
       } catch {
-        externalUrl = "";
+        // Redirects, aborted requests and non-JSON bodies can't be read
       }
+    };
+    page.on("response", onResponse);
+
+    return {
+      wait: (timeoutMs) =>
+        found
+          ? Promise.resolve(found)
+          : new Promise((resolve) => {
+              const timer = setTimeout(() => resolve(found), timeoutMs);
+              notify = () => {
+                clearTimeout(timer);
+                resolve(found);
+              };
+            }),
+      stop: () => page.off("response", onResponse),
+    };
+  }
 
-      const profileData: ScrapedProfileData = {
-        username,
-        fullName: fullName || "",
-        bio: bio || "",
-        profilePicUrl: profilePicUrl || "",
-        followersCount: parseCount(followersMatch?.[1]),
-        followingCount: parseCount(followingMatch?.[1]),
-        postsCount: parseCount(postsMatch?.[1]),
-        isPrivate,
-        isVerified,
-        externalUrl: externalUrl || "",
-      };
+  /**
+   * Fallback for when no profile JSON was seen: counts, name and bio from
+   * the meta tags (English pages only), the rest from the rendered page
+   */
+  private async scrapeProfileFromMeta(
+    username: string,
+  ): Promise<ScrapedProfileData> {
+    console.log("[scrapeProfile] Profile exists, reading the page...");
+
+    const profileData = parseProfilePage(
+      await this.readProfileSnapshot(),
+      username,
+    );
+
+    console.log("[scrapeProfile] Final profile data:", {
+      username: profileData.username,
+      fullName: profileData.fullName,
+      followersCount: profileData.followersCount,
+      followingCount: profileData.followingCount,
+      postsCount: profileData.postsCount,
+      isVerified: profileData.isVerified,
+      hasBio: !!profileData.bio,
+      hasProfilePic: !!profileData.profilePicUrl,
+    });
 
-      console.log("[scrapeProfile] Final profile data:", {
-        username: profileData.username,
-        fullName: profileData.fullName,
-        followersCount: profileData.followersCount,
-        followingCount: profileData.followingCount,
-        postsCount: profileData.postsCount,
-        isVerified: profileData.isVerified,
-        hasBio: !!profileData.bio,
-        hasProfilePic: !!profileData.profilePicUrl,
-      });
+    return profileData;
+  }
 
-      return profileData;
-    } catch (error) {
-      console.error(
-        `[scrapeProfile] Error scraping profile ${username}:`,
-        error,
-      );
-      return null;
+  /**
+   * Meta tag contents keyed by property or name, as extractMetaTags reads
+   * them from saved HTML
+   */
+  private async readMetaTags(): Promise<Record<string, string>> {
+    const entries = await this.page!.$$eval(
+      "meta[property], meta[name]",
+      (metas) =>
+        metas.map((meta) => [
+          meta.getAttribute("property") || meta.getAttribute("name") || "",
+          meta.getAttribute("content") || "",
+        ]),
+    );
+    const meta: Record<string, string> = {};
+    for (const [key, content] of entries) {
+      if (key && !(key in meta)) meta[key] = content;
     }
+    return meta;
+  }
+
+  private async readProfileSnapshot(): Promise<ProfilePageSnapshot> {
+    const page = await this.page!.evaluate(() => ({
+      mainText: document.querySelector("main")?.innerText || "",
+      bodyText: document.body.innerText || "",
+      hasVerifiedBadge: !!document.querySelector(
+        'svg[aria-label="Verified"], img[alt="Verified"], [title="Verified"]',
+      ),
+      profilePicSrc:
+        document
+          .querySelector('img[alt*="profile picture"]')
+          ?.getAttribute("src") || undefined,
+      hrefs: Array.from(document.querySelectorAll("a[href]")).map(
+        (a) => a.getAttribute("href") || "",
+      ),
+    }));
+    return { meta: await this.readMetaTags(), ...page };
+  }
+
+  private async readPostSnapshot(): Promise<PostPageSnapshot> {
+    const page = await this.page!.evaluate(() => ({
+      bodyText: document.body.innerText || "",
+      hasCarouselControls:
+        document.querySelector('[aria-label="Next"]') !== null ||
+        document.querySelector('[aria-label="Go to next slide"]') !== null,
+    }));
+    return { meta: await this.readMetaTags(), ...page };
+  }
+
+  // Usernames linked from the open follower/following dialog
+  private async readDialogUsernames(targetUser: string): Promise<string[]> {
+    const hrefs = await this.page!.$$eval(
+      'div[role="dialog"] a[href^="/"]',
+      (links) => links.map((link) => link.getAttribute("href") || ""),
+    );
+    return parseUsernameLinks(hrefs, targetUser);
   }
 
   async scrapeFollowers(username: string): Promise<string[]> {
@@ -901,18 +971,6 @@ export class InstagramScraper {
       let lastScrollHeight = 0;
       let consecutiveCrashRetries = 0;
       const maxCrashRetries = 3;
-      const excludePaths = [
-        "explore",
-        "direct",
-        "accounts",
-        "p",
-        "reel",
-        "stories",
-        "reels",
-        "tags",
-        "about",
-        "help",
-      ];
 
       // Find the scrollable container once using multiple detection strategies
       const scrollContainerFound = await this.page.evaluate(`
@@ -1103,35 +1161,7 @@ export class InstagramScraper {
         // Extract usernames using $$eval for better reliability
         let newUsernames: string[] = [];
         try {
-          newUsernames = await this.page.$$eval(
-            'div[role="dialog"] a[href^="/"]',
-            function (links, args) {
-              const { excludeList, targetUser } = args as {
-                excludeList: string[];
-                targetUser?: string;
-              };
-              const names: string[] = [];
-              links.forEach(function (link) {
-                const href = link.getAttribute("href");
-                if (!href) return;
-
-                const match = href.match(/^\/([a-zA-Z0-9._]+)\/?$/);
-                if (match) {
-                  const extractedUsername = match[1];
-                  if (
-                    extractedUsername &&
-                    !excludeList.includes(extractedUsername.toLowerCase()) &&
-                    extractedUsername !== targetUser &&
-                    !names.includes(extractedUsername)
-                  ) {
-                    names.push(extractedUsername);
-                  }
-                }
-              });
-              return names;
-            },
-            { excludeList: excludePaths, targetUser: username },
-          );
+          newUsernames = await this.readDialogUsernames(username);
         } catch (e) {
           console.log("[scrapeFollowers] Error extracting usernames:", e);
           // Check if this is a crash error
@@ -1289,18 +1319,6 @@ export class InstagramScraper {
       let lastScrollHeight = 0;
       let consecutiveCrashRetries = 0;
       const maxCrashRetries = 3;
-      const excludePaths = [
-        "explore",
-        "direct",
-        "accounts",
-        "p",
-        "reel",
-        "stories",
-        "reels",
-        "tags",
-        "about",
-        "help",
-      ];
 
       // Find the scrollable container once using multiple detection strategies
       const scrollContainerFound = await this.page.evaluate(`
@@ -1491,35 +1509,7 @@ export class InstagramScraper {
         // Extract usernames using $$eval for better reliability
         let newUsernames: string[] = [];
         try {
-          newUsernames = await this.page.$$eval(
-            'div[role="dialog"] a[href^="/"]',
-            function (links, args) {
-              const { excludeList, targetUser } = args as {
-                excludeList: string[];
-                targetUser: string;
-              };
-              const names: string[] = [];
-              links.forEach(function (link) {
-                const href = link.getAttribute("href");
-                if (!href) return;
-
-                const match = href.match(/^\/([a-zA-Z0-9._]+)\/?$/);
-                if (match) {
-                  const extractedUsername = match[1];
-                  if (
-                    extractedUsername &&
-                    !excludeList.includes(extractedUsername.toLowerCase()) &&
-                    extractedUsername !== targetUser &&
-                    !names.includes(extractedUsername)
-                  ) {
-                    names.push(extractedUsername);
-                  }
-                }
-              });
-              return names;
-            },
-            { excludeList: excludePaths, targetUser: username },
-          );
+          newUsernames = await this.readDialogUsernames(username);
         } catch (e) {
           console.log("[scrapeFollowing] Error extracting usernames:", e);
           // Check if this is a crash error
@@ -1642,30 +1632,11 @@ export class InstagramScraper {
       let allLinks: string[] = [];
 
       try {
-        allLinks = await this.page.$$eval(
+        const hrefs = await this.page.$$eval(
           'a[href*="/p/"], a[href*="/reel/"]',
-          function (links, maxPosts) {
-            const hrefs: string[] = [];
-            const seenShortcodes = new Set<string>();
-
-            links.forEach(function (link) {
-              const href = link.getAttribute("href");
-              if (!href || hrefs.length >= maxPosts) return;
-
-              const match = href.match(/\/(p|reel)\/([^/]+)/);
-              if (match) {
-                const shortcode = match[2];
-                if (!seenShortcodes.has(shortcode)) {
-                  seenShortcodes.add(shortcode);
-                  hrefs.push(href);
-                }
-              }
-            });
-
-            return hrefs;
-          },
-          limit,
+          (links) => links.map((link) => link.getAttribute("href") || ""),
         );
+        allLinks = parsePostLinks(hrefs, limit);
       } catch (e) {
         console.log("[scrapePosts] Error extracting post links:", e);
         allLinks = [];
@@ -1675,18 +1646,6 @@ export class InstagramScraper {
 
       const posts: ScrapedPostData[] = [];
 
-      // Helper function to get meta content
-      const getMetaContent = async (selector: string): Promise<string> => {
-        try {
-          const content = await this.page!.$eval(selector, (el) =>
-            el.getAttribute("content"),
-          );
-          return content || "";
-        } catch {
-          return "";
-        }
-      };
-
       for (let i = 0; i < Math.min(allLinks.length, limit); i++) {
         const link = allLinks[i];
         console.log(
@@ -1712,97 +1671,11 @@ export class InstagramScraper {
             .catch(() => {});
           await randomDelay(1000, 2000);
 
-          // Extract meta tags individually for better reliability
-          const ogDescription = await getMetaContent(
-            'meta[property="og:description"]',
-          );
-          const metaDescription = await getMetaContent(
-            'meta[name="description"]',
-          );
-          const imageUrl = await getMetaContent('meta[property="og:image"]');
-          const videoUrl = await getMetaContent('meta[property="og:video"]');
-
-          // Extract shortcode from URL
-          const shortcodeMatch = link.match(/\/(p|reel)\/([^/]+)/);
-          const shortcode = shortcodeMatch ? shortcodeMatch[2] : "";
-          const isReel = link.includes("/reel/");
-
-          // Extract caption from meta description
-          let caption = "";
-          const captionMatch =
-            metaDescription.match(/on Instagram:\s*"([^"]+)"/) ||
-            ogDescription.match(/:\s*"([^"]+)"/) ||
-            metaDescription.match(/: "([^"]+)"/);
-          if (captionMatch) {
-            caption = captionMatch[1];
-          } else {
-            caption = ogDescription || metaDescription || "";
-          }
-
-          // Check for carousel and get engagement metrics
-          let isCarousel = false;
-          let likes = 0;
-          let comments = 0;
-
-          try {
-            const pageInfo = await this.page.evaluate(() => {
-              const isCarousel =
-                document.querySelector('[aria-label="Next"]') !== null ||
-                document.querySelector('[aria-label="Go to next slide"]') !==
-                  null;
-
-              const pageText = document.body.innerText || "";
-              const likesMatch = pageText.match(
-                /([\d,]+)\s*(?:likes?|views?)/i,
-              );
-              const commentsMatch = pageText.match(/([\d,]+)\s*comments?/i);
-
-              return {
-                isCarousel,
-                likes: likesMatch
-                  ? parseInt(likesMatch[1].replace(/,/g, ""), 10) || 0
-                  : 0,
-                comments: commentsMatch
-                  ? parseInt(commentsMatch[1].replace(/,/g, ""), 10) || 0
-                  : 0,
-              };
-            });
-
-            isCarousel = pageInfo.isCarousel;
-            likes = pageInfo.likes;
-            comments = pageInfo.comments;
-          } catch (e) {
-            console.log(
-              `[scrapePosts] Error getting page info for ${shortcode}:`,
-              e,
-            );
-          }
-
-          // Determine post type
-          let type: "post" | "reel" | "carousel" = "post";
-          if (isReel) {
-            type = "reel";
-          } else if (isCarousel) {
-            type = "carousel";
-          }
-
-          if (shortcode) {
-            const postData: ScrapedPostData = {
-              postId: shortcode,
-              shortcode,
-              caption,
-              imageUrl,
-              videoUrl,
-              likesCount: likes,
-              commentsCount: comments,
-              postedAt: new Date(),
-              type,
-              isVideo: isReel || !!videoUrl,
-            };
-
+          const postData = parsePostPage(await this.readPostSnapshot(), link);
+          if (postData) {
             posts.push(postData);
             console.log(
-              `[scrapePosts] Extracted post ${shortcode}: type=${type}, likes=${likes}`,
+              `[scrapePosts] Extracted post ${postData.shortcode}: type=${postData.type}, likes=${postData.likesCount}`,
             );
           }
         } catch (error) {
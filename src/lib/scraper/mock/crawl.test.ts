@@ -0,0 +1,339 @@
+import "dotenv/config";
+import { existsSync } from "fs";
+import type http from "http";
+import Redis from "ioredis";
+import mongoose from "mongoose";
+import { chromium } from "playwright";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { expectCrawl, loadMockGraph } from "./graph";
+import { createMockInstagramServer } from "./server";
+import type { RelationshipType } from "@/types";
+
+// Crawls the mock Instagram graph with the real scrape and AI analysis
+// workers (scraper → Mongo → AI buffer → Qdrant) and checks what they saved.
+// Runs only where MongoDB, Redis, Qdrant and Playwright's Chromium are
+// reachable; elsewhere it is skipped.
+const PORT = Number(process.env.MOCK_CRAWL_PORT) || 4101;
+const BASE_URL = `http://localhost:${PORT}`;
+const ROOT = process.env.MOCK_CRAWL_ROOT || "rani.kusuma";
+const MAX_DEPTH = Number(process.env.MOCK_CRAWL_DEPTH) || 2;
+const TIMEOUT = 15 * 60 * 1000;
+const POLL_INTERVAL = 2000;
+const PROBE_TIMEOUT = 3000;
+
+// The run gets its own database and Redis prefix, so the app's data and
+// any worker already running against the same servers are left alone
+const RUN_ID = `mock_crawl_${Date.now().toString(36)}`;
+const REDIS_PREFIX = `${RUN_ID}:`;
+
+const RELATIONSHIP_TYPES: RelationshipType[] = ["followers", "following"];
+
+type RelationshipLists = Record<string, Record<RelationshipType, string[]>>;
+
+async function findMissingServices(): Promise<string[]> {
+  const missing: string[] = [];
+
+  if (!process.env.MONGODB_URI) {
+    missing.push("MongoDB (MONGODB_URI)");
+  } else {
+    const connection = mongoose.createConnection(process.env.MONGODB_URI, {
+      serverSelectionTimeoutMS: PROBE_TIMEOUT,
+    });
+    try {
+      await connection.asPromise();
+    } catch {
+      missing.push("MongoDB");
+    } finally {
+      await connection.close().catch(() => {});
+    }
+  }
+
+  const redis = new Redis(process.env.REDIS_URL || "redis://localhost:6379", {
+    lazyConnect: true,
+    connectTimeout: PROBE_TIMEOUT,
+    maxRetriesPerRequest: 0,
+    retryStrategy: () => null,
+  });
+  redis.on("error", () => {});
+  try {
+    await redis.connect();
+    await redis.ping();
+  } catch {
+    missing.push("Redis");
+  } finally {
+    redis.disconnect();
+  }
+
+  try {
+    const apiKey = process.env.QDRANT_API_KEY;
+    const res = await fetch(
+      `${process.env.QDRANT_URL || "http://localhost:6333"}/collections`,
+      {
+        headers: apiKey ? { "api-key": apiKey } : {},
+        signal: AbortSignal.timeout(PROBE_TIMEOUT),
+      },
+    );
+    if (!res.ok) missing.push("Qdrant");
+  } catch {
+    missing.push("Qdrant");
+  }
+
+  if (!existsSync(chromium.executablePath())) {
+    missing.push("Playwright Chromium");
+  }
+
+  return missing;
+}
+
+async function waitFor(
+  label: string,
+  check: () => Promise<boolean>,
+  deadline: number,
+): Promise<void> {
+  while (!(await check())) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${label}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+  }
+}
+
+// Followers and following of every source, sorted, with both lists present
+function toRelationshipLists(
+  entries: Array<{ source: string; type: RelationshipType; targets: string[] }>,
+): RelationshipLists {
+  const lists: RelationshipLists = {};
+  for (const { source, type, targets } of entries) {
+    lists[source] ??= { followers: [], following: [] };
+    lists[source][type].push(...targets);
+  }
+  for (const source of Object.keys(lists)) {
+    for (const type of RELATIONSHIP_TYPES) {
+      lists[source][type].sort();
+    }
+  }
+  return lists;
+}
+
+describe("mock Instagram crawl", () => {
+  const graph = loadMockGraph(process.env.MOCK_INSTAGRAM_GRAPH || undefined);
+  const expected = expectCrawl(graph, ROOT, MAX_DEPTH);
+
+  let missing: string[] = [];
+  let sessionId = "";
+  let server: http.Server | null = null;
+  let cleanups: Array<() => Promise<void>> = [];
+
+  beforeAll(async () => {
+    missing = await findMissingServices();
+    if (missing.length > 0) {
+      return;
+    }
+
+    // App modules read these when they're loaded, so they're imported after
+    vi.stubEnv("INSTAGRAM_URL", BASE_URL);
+    vi.stubEnv("LLM_PROVIDER", "fake");
+    vi.stubEnv("NICHE_CLASSIFIER", "llm");
+    vi.stubEnv("MONGODB_DB", RUN_ID);
+    vi.stubEnv("REDIS_PREFIX", REDIS_PREFIX);
+    if (!process.env.ENCRYPTION_KEY) {
+      vi.stubEnv("ENCRYPTION_KEY", RUN_ID);
+    }
+
+    server = createMockInstagramServer(graph, BASE_URL);
+    await new Promise<void>((resolve) => server!.listen(PORT, resolve));
+  });
+
+  afterAll(async () => {
+    // Each step runs even if an earlier one fails, so nothing is left behind
+    for (const cleanup of cleanups.reverse()) {
+      await cleanup().catch((error) => {
+        console.error("Mock crawl cleanup failed:", error);
+      });
+    }
+    cleanups = [];
+    if (server) {
+      await new Promise((resolve) => server!.close(resolve));
+    }
+    vi.unstubAllEnvs();
+  }, 60_000);
+
+  it("saves the expected profiles, edges and Qdrant points", async (context) => {
+    if (missing.length > 0) {
+      console.log(`Skipping mock crawl, not reachable: ${missing.join(", ")}`);
+      context.skip();
+    }
+
+    const { default: connectDB } = await import("@/lib/db/mongodb");
+    const { Edge, Job, Profile, ProfileLink, Session } = await import("@/lib/db/models");
+    const { loadProfilePosts } = await import("@/lib/db/profilePosts");
+    const { createNewRedisConnection, getRedisClient } = await import("@/lib/queue/redis");
+    const { getScrapeQueue } = await import("@/lib/queue/scrapeQueue");
+    const { countPendingAnalysis, getAIAnalysisDeadLetterQueue, getAIAnalysisQueue } =
+      await import("@/lib/queue/aiAnalysisQueue");
+    const { createScrapeWorker } = await import("@/lib/queue/worker");
+    const { createAIAnalysisWorker, getAIAnalysisWorkerOptions } =
+      await import("@/lib/queue/aiAnalysisWorker");
+    const { getJobStatus, startScrapeJob } = await import("@/lib/queue/jobControl");
+    const { deletePostsBySession, deleteProfilesBySession, listPostPoints, listProfilePoints } =
+      await import("@/lib/qdrant/client");
+    const { InstagramScraper } = await import("@/lib/scraper/instagram");
+    const { closeAllScrapers } = await import("@/lib/scraper/session");
+    const { encrypt, generateSessionId } = await import("@/lib/utils/encryption");
+
+    const mongo = await connectDB();
+    sessionId = generateSessionId();
+
+    // Registered in the order things start; afterAll runs them backwards
+    cleanups.push(async () => {
+      if (mongo.connection.name === RUN_ID) {
+        await mongo.connection.dropDatabase();
+      }
+      await mongoose.disconnect();
+    });
+    cleanups.push(async () => {
+      await Promise.all([
+        deleteProfilesBySession(sessionId),
+        deletePostsBySession(sessionId),
+      ]);
+    });
+    cleanups.push(async () => {
+      await Promise.all([
+        getScrapeQueue().close(),
+        getAIAnalysisQueue().close(),
+        getAIAnalysisDeadLetterQueue().close(),
+      ]);
+      getRedisClient().disconnect();
+
+      // Queues, visited sets, leases and anything else under the run's prefix
+      const redis = createNewRedisConnection();
+      try {
+        const stream = redis.scanStream({ match: `${REDIS_PREFIX}*`, count: 500 });
+        for await (const keys of stream as AsyncIterable<string[]>) {
+          if (keys.length > 0) await redis.del(...keys);
+        }
+      } finally {
+        redis.disconnect();
+      }
+    });
+
+    const scrapeWorker = createScrapeWorker();
+    const analysisWorker = createAIAnalysisWorker(getAIAnalysisWorkerOptions());
+    cleanups.push(async () => {
+      await Promise.all([scrapeWorker.close(), analysisWorker.close()]);
+      await closeAllScrapers();
+    });
+
+    // Log in through the mock login page like the auth worker does
+    const loginScraper = new InstagramScraper();
+    await loginScraper.init();
+    let login = await loginScraper.login(graph.login.username, graph.login.password);
+    if (login.requires2FA && graph.login.twoFactorCode) {
+      login = { ...(await loginScraper.verify2FA(graph.login.twoFactorCode)), requires2FA: false };
+    }
+    await loginScraper.close();
+    expect(login.error).toBeUndefined();
+    expect(login.cookies).toBeDefined();
+
+    await Session.create({
+      sessionId,
+      username: graph.login.username,
+      cookies: encrypt(JSON.stringify(login.cookies)),
+      userAgent: "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+      createdAt: new Date(),
+      lastUsedAt: new Date(),
+      isValid: true,
+      rotateProxy: false,
+    });
+
+    const jobId = await startScrapeJob({
+      sessionId,
+      entryUsername: ROOT,
+      maxDepth: MAX_DEPTH,
+      scrapeFollowers: true,
+      scrapeFollowing: true,
+      scrapePosts: true,
+    });
+
+    const deadline = Date.now() + TIMEOUT;
+    let status = await getJobStatus(jobId);
+    await waitFor(
+      "the crawl to finish",
+      async () => {
+        status = await getJobStatus(jobId);
+        return status === "completed" || status === "failed";
+      },
+      deadline,
+    );
+    expect(status).toBe("completed");
+    await waitFor(
+      "the AI analysis to drain",
+      async () => (await countPendingAnalysis(jobId)) === 0,
+      deadline,
+    );
+
+    const usernames = expected.profiles.map((profile) => profile.username).sort();
+
+    // Profiles, their depth and a parent one level up that lists them (which
+    // parent claims a shared child depends on scrape order)
+    const links = await ProfileLink.find({ sessionId })
+      .select("username scrapedDepth parentUsername")
+      .lean<{ username: string; scrapedDepth: number; parentUsername?: string }[]>();
+    expect(links.map((link) => link.username.toLowerCase()).sort()).toEqual(usernames);
+
+    for (const link of links) {
+      const username = link.username.toLowerCase();
+      const profile = expected.profiles.find((entry) => entry.username === username);
+      expect(link.scrapedDepth, `depth of @${username}`).toBe(profile?.depth);
+
+      const parent = link.parentUsername?.toLowerCase();
+      const lists = parent ? expected.relationships[parent] : undefined;
+      const parentListsIt = profile?.depth === 0
+        ? !parent
+        : !!lists && [...(lists.followers || []), ...(lists.following || [])].includes(username);
+      expect(parentListsIt, `parent ${parent ?? "none"} of @${username}`).toBe(true);
+    }
+
+    const job = await Job.findOne({ jobId }).lean<{ failedProfiles: number }>();
+    expect(job?.failedProfiles).toBe(expected.notFound.length);
+
+    const edges = await Edge.find({ sessionId })
+      .select("source target type")
+      .lean<{ source: string; target: string; type: RelationshipType }[]>();
+    expect(
+      toRelationshipLists(
+        edges.map((edge) => ({
+          source: edge.source.toLowerCase(),
+          type: edge.type,
+          targets: [edge.target.toLowerCase()],
+        })),
+      ),
+    ).toEqual(
+      toRelationshipLists(
+        Object.entries(expected.relationships).flatMap(([source, lists]) =>
+          RELATIONSHIP_TYPES.map((type) => ({ source, type, targets: lists[type] || [] })),
+        ),
+      ),
+    );
+
+    // Every saved profile went through the fake LLM and got its vector
+    const analyzed = await Profile.find({ username: { $in: usernames }, analyzedAt: { $ne: null } })
+      .select("username")
+      .lean<{ username: string }[]>();
+    expect(analyzed.map((profile) => profile.username).sort()).toEqual(usernames);
+
+    const profilePoints = await listProfilePoints(sessionId);
+    expect(profilePoints.map((point) => point.username).sort()).toEqual(usernames);
+
+    // Captioned posts of the analyzed profiles are embedded one by one
+    const posts = await loadProfilePosts(usernames);
+    const captioned = [...posts.values()]
+      .flat()
+      .filter((post) => post.caption?.trim())
+      .map((post) => post.postId)
+      .sort();
+    expect(captioned.length).toBeGreaterThan(0);
+    const postPoints = await listPostPoints(sessionId);
+    expect(postPoints.map((point) => point.postId).sort()).toEqual(captioned);
+  }, TIMEOUT + 60_000);
+});
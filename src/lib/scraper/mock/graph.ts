@@ -0,0 +1,170 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+
+const mockPostSchema = z.object({
+  shortcode: z.string().regex(/^[\w-]+$/),
+  caption: z.string(),
+  type: z.enum(["post", "reel", "carousel"]).default("post"),
+  likes: z.number().int().min(0).default(0),
+  comments: z.number().int().min(0).default(0),
+  postedAt: z.string().optional(),
+});
+
+const mockAccountSchema = z.object({
+  username: z
+    .string()
+    .regex(/^[a-z0-9._]+$/, "usernames are lowercase letters, digits, . and _"),
+  fullName: z.string().default(""),
+  bio: z.string().default(""),
+  category: z.string().optional(),
+  isPrivate: z.boolean().default(false),
+  isVerified: z.boolean().default(false),
+  externalUrl: z.string().optional(),
+  posts: z.array(mockPostSchema).default([]),
+});
+
+const mockGraphSchema = z.object({
+  // Credentials the login form accepts (the password also logs in any
+  // account of the graph, for several pooled sessions); a twoFactorCode
+  // sends the login through the 2FA page first
+  login: z.object({
+    username: z.string(),
+    password: z.string(),
+    twoFactorCode: z.string().optional(),
+  }),
+  accounts: z.array(mockAccountSchema),
+  // [follower, followed] pairs. Usernames without an account show up in
+  // follower dialogs but their profile page is "not found".
+  follows: z.array(z.tuple([z.string(), z.string()])).default([]),
+  // Serve web_profile_info to profile pages; off exercises the meta tag
+  // fallback
+  profileJson: z.boolean().default(true),
+  // Accounts loaded per request while a follower dialog is scrolled
+  dialogPageSize: z.number().int().min(1).default(12),
+  // Send a session to the challenge page after this many profile page
+  // views, to exercise the session pool; unset never challenges
+  challengeAfter: z.number().int().min(1).optional(),
+});
+
+export type MockPost = z.infer<typeof mockPostSchema>;
+export type MockAccount = z.infer<typeof mockAccountSchema>;
+export type MockGraph = z.infer<typeof mockGraphSchema>;
+
+export const DEFAULT_MOCK_GRAPH_PATH = path.join(
+  process.cwd(),
+  "src/lib/scraper/fixtures/mock-graph.json",
+);
+
+/**
+ * Read and validate a mock social graph (see fixtures/mock-graph.json).
+ * Throws with zod's issues when the file doesn't match the schema.
+ */
+export function loadMockGraph(file: string = DEFAULT_MOCK_GRAPH_PATH): MockGraph {
+  return parseMockGraph(JSON.parse(readFileSync(file, "utf8")));
+}
+
+export function parseMockGraph(data: unknown): MockGraph {
+  const graph = mockGraphSchema.parse(data);
+  const usernames = new Set<string>();
+  for (const account of graph.accounts) {
+    if (usernames.has(account.username)) {
+      throw new Error(`Duplicate mock account @${account.username}`);
+    }
+    usernames.add(account.username);
+  }
+  return graph;
+}
+
+export function findMockAccount(
+  graph: MockGraph,
+  username: string,
+): MockAccount | undefined {
+  const lower = username.toLowerCase();
+  return graph.accounts.find((account) => account.username === lower);
+}
+
+// Accounts following `username`, in the order the follows list gives them
+export function getMockFollowers(graph: MockGraph, username: string): string[] {
+  return graph.follows
+    .filter(([, followed]) => followed === username)
+    .map(([follower]) => follower);
+}
+
+export function getMockFollowing(graph: MockGraph, username: string): string[] {
+  return graph.follows
+    .filter(([follower]) => follower === username)
+    .map(([, followed]) => followed);
+}
+
+export function findMockPost(
+  graph: MockGraph,
+  shortcode: string,
+): { account: MockAccount; post: MockPost } | undefined {
+  for (const account of graph.accounts) {
+    const post = account.posts.find((p) => p.shortcode === shortcode);
+    if (post) return { account, post };
+  }
+  return undefined;
+}
+
+export interface ExpectedCrawlEntry {
+  username: string;
+  depth: number;
+  parentUsername?: string;
+}
+
+export interface ExpectedCrawl {
+  // Profiles the crawl saves, in the order a single worker reaches them
+  profiles: ExpectedCrawlEntry[];
+  // Usernames claimed by the crawl that have no profile page
+  notFound: string[];
+  // Lists scraped for each expanded (public, below maxDepth) profile
+  relationships: Record<string, { followers?: string[]; following?: string[] }>;
+}
+
+/**
+ * What a crawl of `root` to `maxDepth` should produce against the mock:
+ * the same breadth-first walk the scrape worker does, where every account is
+ * claimed once, private profiles aren't expanded and missing ones fail
+ */
+export function expectCrawl(
+  graph: MockGraph,
+  root: string,
+  maxDepth: number,
+  options: { followers?: boolean; following?: boolean } = {},
+): ExpectedCrawl {
+  const { followers = true, following = true } = options;
+  const start = root.toLowerCase();
+  const claimed = new Set([start]);
+  const queue: ExpectedCrawlEntry[] = [{ username: start, depth: 0 }];
+  const result: ExpectedCrawl = { profiles: [], notFound: [], relationships: {} };
+
+  while (queue.length > 0) {
+    const entry = queue.shift()!;
+    const account = findMockAccount(graph, entry.username);
+    if (!account) {
+      result.notFound.push(entry.username);
+      continue;
+    }
+    result.profiles.push(entry);
+    if (entry.depth >= maxDepth || account.isPrivate) continue;
+
+    const lists: { followers?: string[]; following?: string[] } = {};
+    if (followers) lists.followers = getMockFollowers(graph, account.username);
+    if (following) lists.following = getMockFollowing(graph, account.username);
+    result.relationships[account.username] = lists;
+
+    for (const child of [...(lists.followers || []), ...(lists.following || [])]) {
+      if (child === account.username || claimed.has(child)) continue;
+      claimed.add(child);
+      queue.push({
+        username: child,
+        depth: entry.depth + 1,
+        parentUsername: account.username,
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,369 @@
+/**
+ * Markup and JSON served by the mock Instagram server. Pages carry the same
+ * meta tags, links and dialog behaviour the scraper relies on on the real
+ * site, not its look.
+ */
+import {
+  getMockFollowers,
+  getMockFollowing,
+  type MockAccount,
+  type MockGraph,
+  type MockPost,
+} from "./graph";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// JSON that can sit inside a <script> element
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c");
+}
+
+function formatCount(count: number): string {
+  return count.toLocaleString("en-US");
+}
+
+// Stable numeric id per username, like Instagram's pk
+export function getMockUserId(username: string): string {
+  let hash = 0;
+  for (const char of username) {
+    hash = (hash * 31 + char.charCodeAt(0)) % 1e9;
+  }
+  return String(4e10 + hash);
+}
+
+function layout(title: string, head: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+${head}
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function meta(attribute: "property" | "name", key: string, content: string) {
+  return `<meta ${attribute}="${key}" content="${escapeHtml(content)}">`;
+}
+
+export function renderLoginPage(error?: string): string {
+  return layout(
+    "Login • Instagram",
+    "",
+    `<main role="main">
+<form method="post" action="/accounts/login/">
+<input name="email" aria-label="Phone number, username, or email" autocomplete="username">
+<input name="pass" type="password" aria-label="Password" autocomplete="current-password">
+<button type="submit" data-visualcompletion="ignore">Log in</button>
+${error ? `<div id="slfErrorAlert" role="alert">${escapeHtml(error)}</div>` : ""}
+</form>
+</main>`,
+  );
+}
+
+export function renderTwoFactorPage(error?: string): string {
+  return layout(
+    "Login • Instagram",
+    "",
+    `<main role="main">
+<form method="post" action="/accounts/login/two_factor/">
+<p>Enter the code we sent to your phone.</p>
+<input name="verificationCode" type="number" aria-label="Security code">
+<button type="submit">Confirm</button>
+${error ? `<div role="alert">${escapeHtml(error)}</div>` : ""}
+</form>
+</main>`,
+  );
+}
+
+export function renderHomePage(viewer: string): string {
+  return layout(
+    "Instagram",
+    "",
+    `<nav role="navigation"><a href="/"><svg aria-label="Home" role="img"></svg></a><a href="/${escapeHtml(viewer)}/">Profile</a></nav>
+<main role="main"><p>Welcome back, ${escapeHtml(viewer)}.</p></main>`,
+  );
+}
+
+export function renderChallengePage(): string {
+  return layout(
+    "Instagram",
+    "",
+    `<main role="main">
+<h2>We suspect automated behavior on your account</h2>
+<div>To continue using Instagram, confirm it's you.</div>
+<button type="button">Continue</button>
+</main>`,
+  );
+}
+
+export function renderNotFoundPage(): string {
+  return layout(
+    "Page Not Found • Instagram",
+    "",
+    `<main role="main">
+<h2>Sorry, this page isn't available.</h2>
+<div>The link you followed may be broken, or the page may have been removed. <a href="/">Go back to Instagram.</a></div>
+</main>`,
+  );
+}
+
+function getPostPath(post: MockPost): string {
+  return `/${post.type === "reel" ? "reel" : "p"}/${post.shortcode}/`;
+}
+
+// Opens follower/following dialogs that load more accounts as they scroll,
+// and loads the profile JSON the way the real page does
+const PROFILE_SCRIPT = `
+(function () {
+  var config = JSON.parse(document.getElementById("mock-config").textContent);
+
+  function openDialog(kind, title) {
+    var dialog = document.createElement("div");
+    dialog.setAttribute("role", "dialog");
+    dialog.setAttribute("aria-label", title);
+    dialog.style.cssText = "position:fixed;top:10%;left:30%;width:400px;background:#fff;border:1px solid #ccc";
+    dialog.innerHTML = "<div><h1></h1></div><div style=\\"overflow-y:auto;height:400px\\"></div>";
+    dialog.querySelector("h1").textContent = title;
+    document.body.appendChild(dialog);
+
+    var list = dialog.lastChild;
+    var next = "0";
+    var loading = false;
+
+    function load() {
+      if (next === null || loading) return;
+      loading = true;
+      var spinner = document.createElement("div");
+      spinner.setAttribute("data-visualcompletion", "loading-state");
+      list.appendChild(spinner);
+      fetch("/api/v1/friendships/" + config.username + "/" + kind + "/?max_id=" + next)
+        .then(function (response) { return response.json(); })
+        .then(function (data) {
+          spinner.remove();
+          data.users.forEach(function (user) {
+            var row = document.createElement("div");
+            row.style.height = "56px";
+            var link = document.createElement("a");
+            link.href = "/" + user.username + "/";
+            link.textContent = user.username;
+            var name = document.createElement("span");
+            name.textContent = " " + user.full_name;
+            row.appendChild(link);
+            row.appendChild(name);
+            list.appendChild(row);
+          });
+          next = data.next_max_id;
+          loading = false;
+        });
+    }
+
+    list.addEventListener("scroll", function () {
+      if (list.scrollTop + list.clientHeight >= list.scrollHeight - 100) load();
+    });
+    document.addEventListener("keydown", function (event) {
+      if (event.key === "Escape") dialog.remove();
+    }, { once: true });
+    load();
+  }
+
+  document.querySelectorAll("a[data-dialog]").forEach(function (link) {
+    link.addEventListener("click", function (event) {
+      event.preventDefault();
+      openDialog(link.getAttribute("data-dialog"), link.getAttribute("data-title"));
+    });
+  });
+
+  if (config.profileJson) {
+    fetch("/api/v1/users/web_profile_info/?username=" + config.username, {
+      headers: { "X-IG-App-ID": "936619743392459" },
+    });
+  }
+})();
+`;
+
+export function renderProfilePage(
+  graph: MockGraph,
+  account: MockAccount,
+  baseUrl: string,
+): string {
+  const followers = getMockFollowers(graph, account.username).length;
+  const following = getMockFollowing(graph, account.username).length;
+  const posts = account.posts.length;
+  const name = account.fullName || account.username;
+  const counts = `${formatCount(followers)} Followers, ${formatCount(following)} Following, ${formatCount(posts)} Posts`;
+  const user = escapeHtml(account.username);
+
+  const head = [
+    meta("property", "og:title", `${name} (@${account.username}) • Instagram photos and videos`),
+    meta("property", "og:description", `${counts} - See Instagram photos and videos from ${name} (@${account.username})`),
+    meta(
+      "name",
+      "description",
+      account.bio
+        ? `${counts} - ${name} (@${account.username}) on Instagram: "${account.bio}"`
+        : `${counts} - See Instagram photos and videos from ${name} (@${account.username})`,
+    ),
+    meta("property", "og:image", `${baseUrl}/static/${account.username}.jpg`),
+    meta("property", "og:url", `${baseUrl}/${account.username}/`),
+  ].join("\n");
+
+  // Private accounts don't link their lists or show their grid
+  const countLink = (kind: "followers" | "following", count: number) =>
+    account.isPrivate
+      ? `<span>${formatCount(count)}</span> ${kind}`
+      : `<a href="/${user}/${kind}/" data-dialog="${kind}" data-title="${kind === "followers" ? "Followers" : "Following"}"><span>${formatCount(count)}</span> ${kind}</a>`;
+
+  const externalLink = account.externalUrl
+    ? `<a href="https://l.instagram.com/?u=${encodeURIComponent(account.externalUrl)}&amp;e=mock">${escapeHtml(account.externalUrl.replace(/^https?:\/\//, ""))}</a>`
+    : "";
+
+  const content = account.isPrivate
+    ? `<div><h2>This Account is Private</h2><div>Follow to see their photos and videos.</div></div>`
+    : `<article>${account.posts
+        .map(
+          (post) =>
+            `<a href="${getPostPath(post)}"><img alt="${post.type === "reel" ? "Reel" : "Photo"} by ${escapeHtml(name)}" src="${baseUrl}/static/${post.shortcode}.jpg"></a>`,
+        )
+        .join("\n")}</article>`;
+
+  const body = `<main role="main">
+<header>
+<img alt="${user}'s profile picture" src="${baseUrl}/static/${user}.jpg">
+<section>
+<div><h2>${user}</h2>${account.isVerified ? '<svg aria-label="Verified" role="img"></svg>' : ""}</div>
+<ul>
+<li><span>${formatCount(posts)}</span> posts</li>
+<li>${countLink("followers", followers)}</li>
+<li>${countLink("following", following)}</li>
+</ul>
+<div><span>${escapeHtml(account.fullName)}</span></div>
+${account.category ? `<div>${escapeHtml(account.category)}</div>` : ""}
+<div><span>${escapeHtml(account.bio)}</span></div>
+${externalLink}
+</section>
+</header>
+${content}
+</main>
+<script type="application/json" id="mock-config">${scriptJson({
+    username: account.username,
+    profileJson: graph.profileJson,
+  })}</script>
+<script>${PROFILE_SCRIPT}</script>`;
+
+  return layout(`${name} (@${account.username}) • Instagram photos and videos`, head, body);
+}
+
+/**
+ * web_profile_info response for an account, in the REST field names
+ * parseProfileJson reads
+ */
+export function buildProfileInfo(
+  graph: MockGraph,
+  account: MockAccount,
+  baseUrl: string,
+) {
+  const bioLinks = account.externalUrl
+    ? [{ title: "", url: account.externalUrl, link_type: "external" }]
+    : [];
+
+  return {
+    data: {
+      user: {
+        id: getMockUserId(account.username),
+        username: account.username,
+        full_name: account.fullName,
+        biography: account.bio,
+        bio_links: bioLinks,
+        external_url: account.externalUrl ?? null,
+        category_name: account.category ?? null,
+        is_business_account: !!account.category,
+        is_private: account.isPrivate,
+        is_verified: account.isVerified,
+        highlight_reel_count: 0,
+        profile_pic_url: `${baseUrl}/static/${account.username}.jpg`,
+        edge_followed_by: {
+          count: getMockFollowers(graph, account.username).length,
+        },
+        edge_follow: { count: getMockFollowing(graph, account.username).length },
+        edge_owner_to_timeline_media: { count: account.posts.length },
+      },
+    },
+    status: "ok",
+  };
+}
+
+/**
+ * One page of a follower/following dialog. `next_max_id` is the offset of
+ * the next page, or null after the last one.
+ */
+export function buildFriendshipsPage(
+  graph: MockGraph,
+  usernames: string[],
+  offset: number,
+) {
+  const page = usernames.slice(offset, offset + graph.dialogPageSize);
+  const next = offset + page.length;
+  return {
+    users: page.map((username) => ({
+      pk: getMockUserId(username),
+      username,
+      full_name:
+        graph.accounts.find((account) => account.username === username)
+          ?.fullName || "",
+    })),
+    next_max_id: next < usernames.length ? String(next) : null,
+    status: "ok",
+  };
+}
+
+export function renderPostPage(
+  account: MockAccount,
+  post: MockPost,
+  baseUrl: string,
+): string {
+  const postedAt = post.postedAt ? new Date(post.postedAt) : new Date();
+  const date = postedAt.toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+  const description = `${formatCount(post.likes)} likes, ${formatCount(post.comments)} comments - ${account.username} on ${date}: "${post.caption}"`;
+
+  const head = [
+    meta("property", "og:title", `${account.fullName || account.username} on Instagram: "${post.caption}"`),
+    meta("property", "og:description", description),
+    meta("name", "description", description),
+    meta("property", "og:image", `${baseUrl}/static/${post.shortcode}.jpg`),
+    post.type === "reel"
+      ? meta("property", "og:video", `${baseUrl}/static/${post.shortcode}.mp4`)
+      : "",
+    meta("property", "og:url", `${baseUrl}${getPostPath(post)}`),
+  ].join("\n");
+
+  const engagement =
+    post.type === "reel"
+      ? `${formatCount(post.likes)} views`
+      : `${formatCount(post.likes)} likes`;
+
+  const body = `<main role="main">
+<article>
+<div>${post.type === "carousel" ? '<ul><li>1</li><li>2</li></ul><button aria-label="Next"></button>' : ""}</div>
+<section><span>${engagement}</span></section>
+<div><a href="/${escapeHtml(account.username)}/">${escapeHtml(account.username)}</a> <span>${escapeHtml(post.caption)}</span></div>
+<div><a href="${getPostPath(post)}comments/">View all ${formatCount(post.comments)} comments</a></div>
+<time datetime="${postedAt.toISOString()}">${date}</time>
+</article>
+</main>`;
+
+  return layout(`${account.username} on Instagram`, head, body);
+}
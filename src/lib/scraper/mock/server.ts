@@ -0,0 +1,246 @@
+import http from "http";
+import { randomBytes } from "crypto";
+import {
+  expectCrawl,
+  findMockAccount,
+  findMockPost,
+  getMockFollowers,
+  getMockFollowing,
+  type MockGraph,
+} from "./graph";
+import {
+  buildFriendshipsPage,
+  buildProfileInfo,
+  getMockUserId,
+  renderChallengePage,
+  renderHomePage,
+  renderLoginPage,
+  renderNotFoundPage,
+  renderPostPage,
+  renderProfilePage,
+  renderTwoFactorPage,
+} from "./pages";
+
+// Paths that can't be usernames (see NON_PROFILE_PATHS in ../parsing)
+const RESERVED_PATHS = [
+  "accounts",
+  "api",
+  "challenge",
+  "static",
+  "__mock",
+  "p",
+  "reel",
+];
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header || "").split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name) cookies[name] = decodeURIComponent(value.join("="));
+  }
+  return cookies;
+}
+
+async function readForm(req: http.IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return new URLSearchParams(Buffer.concat(chunks).toString("utf8"));
+}
+
+function send(
+  res: http.ServerResponse,
+  status: number,
+  body: string,
+  type: string = "text/html; charset=utf-8",
+): void {
+  res.writeHead(status, { "Content-Type": type });
+  res.end(body);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  send(res, status, JSON.stringify(body), "application/json; charset=utf-8");
+}
+
+function redirect(
+  res: http.ServerResponse,
+  location: string,
+  cookies: string[] = [],
+): void {
+  res.writeHead(302, { Location: location, "Set-Cookie": cookies });
+  res.end();
+}
+
+// The cookies Instagram sets on login, which the scraper stores per session
+function sessionCookies(username: string): string[] {
+  return [
+    `sessionid=mock-${randomBytes(12).toString("hex")}; Path=/; HttpOnly`,
+    `ds_user_id=${getMockUserId(username)}; Path=/`,
+    `csrftoken=${randomBytes(16).toString("hex")}; Path=/`,
+    "mock_2fa=; Path=/; Max-Age=0",
+  ];
+}
+
+/**
+ * A local stand-in for instagram.com serving `graph`: login with optional
+ * 2FA, profile pages with the web_profile_info JSON, scrollable follower and
+ * following dialogs and post pages. Point the scraper at it with
+ * INSTAGRAM_URL. Any `mock-` session cookie counts as logged in, so stored
+ * sessions survive a restart. With `challengeAfter` set, a session that has
+ * viewed that many profiles is sent to /challenge/ from then on.
+ *
+ * GET /__mock/graph returns the graph and
+ * GET /__mock/crawl?root=&depth=[&followers=false][&following=false]
+ * what a crawl of it should produce (see expectCrawl).
+ */
+export function createMockInstagramServer(
+  graph: MockGraph,
+  baseUrl: string,
+): http.Server {
+  // Profile page views per sessionid cookie, for challengeAfter
+  const profileViews = new Map<string, number>();
+
+  return http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || "/", baseUrl);
+      const segments = url.pathname.split("/").filter(Boolean);
+      const cookies = parseCookies(req.headers.cookie);
+      const loggedIn = cookies.sessionid?.startsWith("mock-") ?? false;
+
+      if (segments[0] === "__mock") {
+        if (segments[1] === "graph") return sendJson(res, 200, graph);
+        if (segments[1] === "crawl") {
+          const root = url.searchParams.get("root");
+          const depth = parseInt(url.searchParams.get("depth") || "", 10);
+          if (!root || Number.isNaN(depth)) {
+            return sendJson(res, 400, { error: "root and depth are required" });
+          }
+          return sendJson(
+            res,
+            200,
+            expectCrawl(graph, root, depth, {
+              followers: url.searchParams.get("followers") !== "false",
+              following: url.searchParams.get("following") !== "false",
+            }),
+          );
+        }
+        return sendJson(res, 404, { error: "Not found" });
+      }
+
+      if (url.pathname === "/accounts/login/") {
+        if (req.method !== "POST") return send(res, 200, renderLoginPage());
+
+        const form = await readForm(req);
+        const username = (form.get("email") || "").toLowerCase();
+        const knownUser =
+          username === graph.login.username.toLowerCase() ||
+          !!findMockAccount(graph, username);
+        if (!knownUser || form.get("pass") !== graph.login.password) {
+          return send(
+            res,
+            200,
+            renderLoginPage(
+              "Sorry, your password was incorrect. Please double-check your password.",
+            ),
+          );
+        }
+        if (graph.login.twoFactorCode) {
+          return redirect(res, "/accounts/login/two_factor/", [
+            `mock_2fa=${encodeURIComponent(username)}; Path=/`,
+          ]);
+        }
+        return redirect(res, "/", sessionCookies(username));
+      }
+
+      if (url.pathname === "/accounts/login/two_factor/") {
+        if (!cookies.mock_2fa) return redirect(res, "/accounts/login/");
+        if (req.method !== "POST") return send(res, 200, renderTwoFactorPage());
+
+        const form = await readForm(req);
+        if (form.get("verificationCode") !== graph.login.twoFactorCode) {
+          return send(
+            res,
+            200,
+            renderTwoFactorPage(
+              "Please check the security code and try again.",
+            ),
+          );
+        }
+        return redirect(res, "/", sessionCookies(cookies.mock_2fa));
+      }
+
+      if (segments[0] === "static") return send(res, 404, "");
+
+      // Everything below needs a logged-in session
+      if (!loggedIn) {
+        if (segments[0] === "api") {
+          return sendJson(res, 401, { message: "login_required", status: "fail" });
+        }
+        return redirect(res, "/accounts/login/");
+      }
+
+      const views = profileViews.get(cookies.sessionid) || 0;
+      if (graph.challengeAfter && views >= graph.challengeAfter) {
+        if (segments[0] === "api") {
+          return sendJson(res, 400, {
+            message: "challenge_required",
+            status: "fail",
+          });
+        }
+        if (segments[0] === "challenge") {
+          return send(res, 200, renderChallengePage());
+        }
+        return redirect(res, "/challenge/");
+      }
+
+      if (url.pathname === "/") {
+        return send(res, 200, renderHomePage(graph.login.username));
+      }
+
+      if (url.pathname === "/api/v1/users/web_profile_info/") {
+        const account = findMockAccount(graph, url.searchParams.get("username") || "");
+        if (!account || !graph.profileJson) {
+          return sendJson(res, 404, { message: "User not found", status: "fail" });
+        }
+        return sendJson(res, 200, buildProfileInfo(graph, account, baseUrl));
+      }
+
+      // /api/v1/friendships/<username>/<followers|following>/?max_id=<offset>
+      if (segments[0] === "api" && segments[2] === "friendships") {
+        const [, , , username, kind] = segments;
+        const account = findMockAccount(graph, username || "");
+        if (!account || account.isPrivate) {
+          return sendJson(res, 404, { message: "Not found", status: "fail" });
+        }
+        const usernames =
+          kind === "followers"
+            ? getMockFollowers(graph, account.username)
+            : getMockFollowing(graph, account.username);
+        const offset = parseInt(url.searchParams.get("max_id") || "0", 10) || 0;
+        return sendJson(res, 200, buildFriendshipsPage(graph, usernames, offset));
+      }
+
+      if ((segments[0] === "p" || segments[0] === "reel") && segments[1]) {
+        const found = findMockPost(graph, segments[1]);
+        if (!found || found.account.isPrivate) {
+          return send(res, 404, renderNotFoundPage());
+        }
+        return send(res, 200, renderPostPage(found.account, found.post, baseUrl));
+      }
+
+      // /<username>/ and the /<username>/followers/ links behind the dialogs
+      if (segments.length >= 1 && !RESERVED_PATHS.includes(segments[0])) {
+        const account = findMockAccount(graph, segments[0]);
+        if (!account) return send(res, 404, renderNotFoundPage());
+        profileViews.set(cookies.sessionid, views + 1);
+        return send(res, 200, renderProfilePage(graph, account, baseUrl));
+      }
+
+      return send(res, 404, renderNotFoundPage());
+    } catch (error) {
+      console.error("[MockInstagram] Request failed:", error);
+      if (!res.headersSent) sendJson(res, 500, { error: "Mock server error" });
+    }
+  });
+}
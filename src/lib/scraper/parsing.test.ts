@@ -0,0 +1,232 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  detectChallenge,
+  extractHrefs,
+  isNotFoundPage,
+  parseCount,
+  parseJsonBody,
+  parsePostLinks,
+  parsePostPage,
+  parseProfileJson,
+  parseProfilePage,
+  parseUsernameLinks,
+  postSnapshotFromHtml,
+  profileSnapshotFromHtml,
+} from "./parsing";
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, "fixtures", name), "utf8");
+}
+
+const RANI_BIO = "Home baker & recipe developer. Jakarta. Kelas baking tiap Sabtu";
+
+describe("profile pages", () => {
+  it("reads English meta tags with abbreviated counts", () => {
+    const html = fixture("profile.html");
+
+    expect(parseProfilePage(profileSnapshotFromHtml(html), "rani.kusuma")).toEqual({
+      username: "rani.kusuma",
+      fullName: "Rani Kusuma",
+      bio: RANI_BIO,
+      profilePicUrl: "https://scontent.cdninstagram.com/v/t51/rani_kusuma_profile.jpg",
+      followersCount: 12500,
+      followingCount: 843,
+      postsCount: 1204,
+      isPrivate: false,
+      isVerified: true,
+      externalUrl: "https://ranibakes.example.com/kelas",
+    });
+  });
+
+  it("reads the post grid links", () => {
+    const hrefs = extractHrefs(fixture("profile.html"));
+
+    expect(parsePostLinks(hrefs, 12)).toEqual([
+      "/p/C8aLmN1pQr2/",
+      "/reel/C8ZkWv7sTu4/",
+      "/p/C8XyZa3bCd5/",
+      "/p/C8WvUt9eFg6/",
+    ]);
+    expect(parsePostLinks(hrefs, 2)).toHaveLength(2);
+  });
+
+  it("reads a private profile with its bio from the header text", () => {
+    const html = fixture("profile-private.html");
+
+    expect(parseProfilePage(profileSnapshotFromHtml(html), "dimas_adi")).toEqual({
+      username: "dimas_adi",
+      fullName: "dimas",
+      bio: "Bandung 🏔️ | ngopi dulu",
+      profilePicUrl: "https://scontent.cdninstagram.com/v/t51/dimas_adi_profile.jpg",
+      followersCount: 318,
+      followingCount: 402,
+      postsCount: 27,
+      isPrivate: true,
+      isVerified: false,
+      externalUrl: "",
+    });
+  });
+
+  it("leaves counts at 0 on localized pages", () => {
+    const html = fixture("profile-localized.html");
+    const profile = parseProfilePage(profileSnapshotFromHtml(html), "rani.kusuma");
+
+    expect(profile).toMatchObject({
+      username: "rani.kusuma",
+      fullName: "Rani Kusuma",
+      bio: RANI_BIO,
+      followersCount: 0,
+      followingCount: 0,
+      postsCount: 0,
+    });
+  });
+
+  it("recognizes removed accounts", () => {
+    expect(isNotFoundPage(fixture("profile-not-found.html"))).toBe(true);
+    expect(isNotFoundPage(fixture("profile.html"))).toBe(false);
+  });
+});
+
+describe("profile JSON", () => {
+  it("reads REST field names from web_profile_info", () => {
+    const body = JSON.parse(fixture("web-profile-info.json"));
+
+    expect(parseProfileJson(body, "rani.kusuma")).toEqual({
+      username: "rani.kusuma",
+      fullName: "Rani Kusuma",
+      bio: RANI_BIO,
+      profilePicUrl: "https://scontent.cdninstagram.com/v/t51/rani_kusuma_hd.jpg",
+      followersCount: 12512,
+      followingCount: 843,
+      postsCount: 1204,
+      isPrivate: false,
+      isVerified: true,
+      externalUrl: "https://ranibakes.example.com/kelas",
+      instagramId: "48213377102",
+      category: "Chef",
+      businessEmail: "halo@ranibakes.example.com",
+      isBusinessAccount: true,
+      pronouns: ["she", "her"],
+      bioLinks: [
+        { title: "Kelas baking", url: "https://ranibakes.example.com/kelas" },
+        { title: "", url: "https://shop.example.com/ranibakes" },
+      ],
+      highlightCount: 9,
+    });
+  });
+
+  it("reads GraphQL field names behind the for (;;); prefix", () => {
+    const body = parseJsonBody(fixture("graphql-profile.txt"));
+
+    expect(parseProfileJson(body, "rani.kusuma")).toEqual({
+      username: "rani.kusuma",
+      fullName: "Rani Kusuma",
+      bio: RANI_BIO,
+      profilePicUrl: "https://scontent.cdninstagram.com/v/t51/rani_kusuma_hd.jpg",
+      followersCount: 12512,
+      followingCount: 843,
+      postsCount: 1204,
+      isPrivate: false,
+      isVerified: true,
+      externalUrl: "https://ranibakes.example.com/kelas",
+      instagramId: "48213377102",
+      category: "Chef",
+      isBusinessAccount: true,
+      bioLinks: [{ title: "Kelas baking", url: "https://ranibakes.example.com/kelas" }],
+      highlightCount: 9,
+    });
+  });
+
+  it("ignores partial users without counts", () => {
+    const body = JSON.parse(fixture("graphql-hover-card.json"));
+
+    expect(parseProfileJson(body, "rani.kusuma")).toBeNull();
+  });
+});
+
+describe("followers dialog", () => {
+  it("lists usernames without the target, duplicates or non-profile links", () => {
+    const hrefs = extractHrefs(fixture("followers-dialog.html"));
+
+    expect(parseUsernameLinks(hrefs, "rani.kusuma")).toEqual([
+      "budi.santoso",
+      "sari_bakery",
+      "kopi.tepi.jalan",
+      "Ayu.Lestari",
+      "dimas_adi",
+    ]);
+  });
+});
+
+describe("post pages", () => {
+  it("reads a photo post", () => {
+    const snapshot = postSnapshotFromHtml(fixture("post.html"));
+
+    expect(parsePostPage(snapshot, "/p/C8aLmN1pQr2/")).toEqual({
+      postId: "C8aLmN1pQr2",
+      shortcode: "C8aLmN1pQr2",
+      caption:
+        "Resep bolu pandan lembut tanpa mixer 🍰 Simpan dulu buat weekend! #resepkue #bolupandan",
+      imageUrl: "https://scontent.cdninstagram.com/v/t51/C8aLmN1pQr2.jpg",
+      videoUrl: "",
+      likesCount: 1532,
+      commentsCount: 87,
+      postedAt: expect.any(Date),
+      type: "post",
+      isVideo: false,
+    });
+  });
+
+  it("detects a carousel from its next-slide button", () => {
+    const snapshot = postSnapshotFromHtml(fixture("carousel.html"));
+
+    expect(parsePostPage(snapshot, "/p/C8XyZa3bCd5/")).toMatchObject({
+      postId: "C8XyZa3bCd5",
+      caption: "5 kesalahan waktu bikin roti sobek (geser ➡️)",
+      likesCount: 2208,
+      commentsCount: 143,
+      type: "carousel",
+      isVideo: false,
+    });
+  });
+
+  it("reads a reel, with views as likes", () => {
+    const snapshot = postSnapshotFromHtml(fixture("reel.html"));
+
+    expect(parsePostPage(snapshot, "/reel/C8ZkWv7sTu4/")).toMatchObject({
+      postId: "C8ZkWv7sTu4",
+      caption: "Croissant laminasi 3 hari, worth it? 🥐",
+      imageUrl: "https://scontent.cdninstagram.com/v/t51/C8ZkWv7sTu4_cover.jpg",
+      videoUrl: "https://scontent.cdninstagram.com/o1/v/t16/C8ZkWv7sTu4.mp4",
+      likesCount: 312904,
+      commentsCount: 512,
+      type: "reel",
+      isVideo: true,
+    });
+  });
+});
+
+describe("parseCount", () => {
+  it.each([
+    ["843", 843],
+    ["1,204", 1204],
+    ["12.5K", 12500],
+    ["2M", 2000000],
+    [undefined, 0],
+  ])("parses %s", (value, expected) => {
+    expect(parseCount(value)).toBe(expected);
+  });
+});
+
+describe("detectChallenge", () => {
+  it.each([
+    ["https://www.instagram.com/challenge/?next=/", "challenge"],
+    ["https://www.instagram.com/accounts/suspended/", "suspended"],
+    ["https://www.instagram.com/accounts/login/?next=/rani.kusuma/", "logged_out"],
+    ["https://www.instagram.com/rani.kusuma/", null],
+  ])("classifies %s", (url, expected) => {
+    expect(detectChallenge(url)).toBe(expected);
+  });
+});
@@ -0,0 +1,592 @@
+/**
+ * Pure parsing for Instagram pages and responses. Nothing here touches
+ * Playwright: the scraper collects a snapshot of the page (meta tags, text,
+ * link hrefs) or a response body and these functions turn it into data, so
+ * saved pages can be parsed offline (see ./fixtures).
+ */
+import type { BioLink, ScrapedPostData, ScrapedProfileData } from "@/types";
+
+type JsonObject = Record<string, unknown>;
+
+// ============================================
+// HTML snapshots
+// ============================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, code: string) => {
+      if (code[0] === "#") {
+        const value =
+          code[1].toLowerCase() === "x"
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10);
+        return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+      }
+      return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    },
+  );
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  for (const match of tag.matchAll(pattern)) {
+    attributes[match[1].toLowerCase()] = decodeHtmlEntities(
+      match[2] ?? match[3] ?? "",
+    );
+  }
+  return attributes;
+}
+
+function findTags(html: string, name: string): Array<Record<string, string>> {
+  return [...html.matchAll(new RegExp(`<${name}\\b[^>]*>`, "gi"))].map((m) =>
+    parseAttributes(m[0]),
+  );
+}
+
+/**
+ * Meta tag contents keyed by property or name ("og:description", "description")
+ */
+export function extractMetaTags(html: string): Record<string, string> {
+  const meta: Record<string, string> = {};
+  for (const attributes of findTags(html, "meta")) {
+    const key = attributes.property || attributes.name;
+    if (key && attributes.content !== undefined && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+  return meta;
+}
+
+export function extractHrefs(html: string): string[] {
+  return findTags(html, "a")
+    .map((attributes) => attributes.href)
+    .filter((href): href is string => !!href);
+}
+
+/**
+ * Rough innerText of an HTML fragment: scripts and styles dropped, block
+ * elements and <br> on their own lines
+ */
+export function htmlToText(html: string): string {
+  return decodeHtmlEntities(
+    html
+      .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(div|p|h\d|li|section|header|span|a|button)>/gi, "$&\n")
+      .replace(/<[^>]+>/g, ""),
+  )
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+function extractElementHtml(html: string, tag: string): string {
+  const match = html.match(
+    new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`, "i"),
+  );
+  return match ? match[1] : "";
+}
+
+// ============================================
+// Counts and small fields
+// ============================================
+
+/**
+ * Count as Instagram abbreviates it: "8,272", "1.5K", "698M", "1.2B"
+ */
+export function parseCount(value: string | undefined | null): number {
+  if (!value) return 0;
+  const num = value.replace(/,/g, "").trim();
+  const parsed = parseFloat(num);
+  if (!Number.isFinite(parsed)) return 0;
+  if (/K$/i.test(num)) return Math.round(parsed * 1000);
+  if (/M$/i.test(num)) return Math.round(parsed * 1000000);
+  if (/B$/i.test(num)) return Math.round(parsed * 1000000000);
+  return parseInt(num, 10) || 0;
+}
+
+/**
+ * Follower, following and post counts from og:description, e.g.
+ * "698M Followers, 313 Following, 8,272 Posts - See Instagram photos..."
+ */
+export function parseProfileCounts(ogDescription: string): {
+  followersCount: number;
+  followingCount: number;
+  postsCount: number;
+} {
+  const followers = ogDescription.match(/([\d,.]+[KMB]?)\s*Followers/i);
+  const following = ogDescription.match(/([\d,.]+[KMB]?)\s*Following/i);
+  const posts = ogDescription.match(/([\d,.]+[KMB]?)\s*Posts/i);
+  return {
+    followersCount: parseCount(followers?.[1]),
+    followingCount: parseCount(following?.[1]),
+    postsCount: parseCount(posts?.[1]),
+  };
+}
+
+/**
+ * Full name from og:title: "Full Name (@username) • Instagram photos and videos"
+ */
+export function parseFullNameFromTitle(ogTitle: string): string {
+  const match = ogTitle.match(/^(.+?)\s*\(@/);
+  return match ? match[1].trim() : "";
+}
+
+/**
+ * Quoted text after "on Instagram:" in a description meta tag
+ */
+export function parseQuotedDescription(description: string): string {
+  const match = description.match(/on Instagram:\s*"([^"]+)"/);
+  return match ? match[1] : "";
+}
+
+/**
+ * First line of the profile header that reads like a bio rather than a
+ * count, tab name or button. `exclude` holds the username and full name,
+ * which the header shows above the bio.
+ */
+export function guessBioFromText(
+  text: string,
+  exclude: string[] = [],
+): string {
+  const lines = text.split("\n").filter((l) => l.trim());
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (
+      trimmed &&
+      !exclude.includes(trimmed) &&
+      !trimmed.match(/^\d/) &&
+      !trimmed.match(/(?:posts?|postingan)$/i) &&
+      !trimmed.match(/(?:followers?|pengikut)$/i) &&
+      !trimmed.match(/(?:following|diikuti|mengikuti)$/i) &&
+      trimmed.length > 5 &&
+      trimmed.length < 500 &&
+      !trimmed.match(/^(Posts|Reels|Tagged|Related|See all)$/i)
+    ) {
+      return trimmed;
+    }
+  }
+  return "";
+}
+
+// Target of an l.instagram.com redirect link
+export function parseExternalUrl(hrefs: string[]): string {
+  for (const href of hrefs) {
+    if (!href.includes("l.instagram.com")) continue;
+    const match = href.match(/u=([^&]+)/);
+    if (match) return decodeURIComponent(match[1]);
+  }
+  return "";
+}
+
+export function isNotFoundPage(content: string): boolean {
+  return (
+    content.includes("Sorry, this page isn't available") ||
+    content.includes("Page Not Found")
+  );
+}
+
+// What a page Instagram sent a logged-in session to says about the account:
+// a checkpoint to clear, a suspension, or a session that no longer counts
+export type ChallengeKind = "challenge" | "suspended" | "logged_out";
+
+export function detectChallenge(url: string): ChallengeKind | null {
+  let path: string;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    return null;
+  }
+  if (/^\/(challenge|checkpoint)(\/|$)/.test(path)) return "challenge";
+  if (/^\/accounts\/(suspended|disabled)(\/|$)/.test(path)) return "suspended";
+  if (/^\/accounts\/login(\/|$)/.test(path)) return "logged_out";
+  return null;
+}
+
+// ============================================
+// Profile pages
+// ============================================
+
+// What the scraper reads off a rendered profile page
+export interface ProfilePageSnapshot {
+  meta: Record<string, string>;
+  // Visible text of <main> (bio fallback) and of the whole body
+  mainText: string;
+  bodyText: string;
+  hasVerifiedBadge: boolean;
+  profilePicSrc?: string;
+  hrefs: string[];
+}
+
+export function profileSnapshotFromHtml(html: string): ProfilePageSnapshot {
+  const profilePic = findTags(html, "img").find((img) =>
+    /profile picture/i.test(img.alt || ""),
+  );
+  return {
+    meta: extractMetaTags(html),
+    mainText: htmlToText(extractElementHtml(html, "main")),
+    bodyText: htmlToText(extractElementHtml(html, "body") || html),
+    hasVerifiedBadge: /(?:aria-label|alt|title)="Verified"/.test(html),
+    profilePicSrc: profilePic?.src,
+    hrefs: extractHrefs(html),
+  };
+}
+
+/**
+ * Profile data from the meta tags and visible text of a profile page. Counts,
+ * name and bio are only found on English pages; the profile JSON (see
+ * parseProfileJson) has everything regardless of locale.
+ */
+export function parseProfilePage(
+  snapshot: ProfilePageSnapshot,
+  username: string,
+): ScrapedProfileData {
+  const ogDescription = snapshot.meta["og:description"] || "";
+  const fullName = parseFullNameFromTitle(snapshot.meta["og:title"] || "");
+  const bio =
+    parseQuotedDescription(snapshot.meta["description"] || "") ||
+    guessBioFromText(snapshot.mainText, [username, fullName]);
+
+  return {
+    username,
+    fullName,
+    bio,
+    profilePicUrl: snapshot.meta["og:image"] || snapshot.profilePicSrc || "",
+    ...parseProfileCounts(ogDescription),
+    isPrivate: /this account is private/i.test(snapshot.bodyText),
+    isVerified: snapshot.hasVerifiedBadge,
+    externalUrl: parseExternalUrl(snapshot.hrefs),
+  };
+}
+
+// ============================================
+// Profile JSON (web_profile_info / GraphQL)
+// ============================================
+
+// Responses the profile page loads that may carry the profile's user object
+const PROFILE_RESPONSE_PATTERNS = [
+  /\/api\/v1\/users\/web_profile_info\//,
+  /\/graphql\/query/,
+  /\/api\/graphql/,
+];
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readString(...values: unknown[]): string | undefined {
+  for (const value of values) {
+    if (typeof value === "string" && value.trim()) return value;
+    if (typeof value === "number") return String(value);
+  }
+  return undefined;
+}
+
+function readNumber(...values: unknown[]): number | undefined {
+  for (const value of values) {
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+  }
+  return undefined;
+}
+
+function readBoolean(...values: unknown[]): boolean | undefined {
+  for (const value of values) {
+    if (typeof value === "boolean") return value;
+  }
+  return undefined;
+}
+
+// `{ count }` edge objects used by the web_profile_info response
+function readEdgeCount(value: unknown): number | undefined {
+  return isObject(value) ? readNumber(value.count) : undefined;
+}
+
+export function isProfileResponseUrl(url: string): boolean {
+  return PROFILE_RESPONSE_PATTERNS.some((pattern) => pattern.test(url));
+}
+
+/**
+ * Parse a response body as JSON, dropping the anti-hijacking prefix some
+ * GraphQL responses carry. Returns null for anything that isn't JSON.
+ */
+export function parseJsonBody(text: string): unknown {
+  try {
+    return JSON.parse(text.replace(/^for \(;;\);/, ""));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the user object for `username` in a response body. web_profile_info
+ * and the profile GraphQL query both nest it under data.user; the older
+ * ?__a=1 format used graphql.user.
+ */
+export function findProfileUser(
+  body: unknown,
+  username: string,
+): JsonObject | null {
+  if (!isObject(body)) return null;
+
+  const data = isObject(body.data) ? body.data : null;
+  const graphql = isObject(body.graphql) ? body.graphql : null;
+  const candidates = [data?.user, graphql?.user, body.user];
+
+  for (const candidate of candidates) {
+    if (
+      isObject(candidate) &&
+      typeof candidate.username === "string" &&
+      candidate.username.toLowerCase() === username.toLowerCase()
+    ) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function readBioLinks(value: unknown): BioLink[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((link) => {
+    if (!isObject(link)) return [];
+    const url = readString(link.url, link.lynx_url);
+    return url ? [{ title: readString(link.title) || "", url }] : [];
+  });
+}
+
+/**
+ * Map Instagram's user JSON onto ScrapedProfileData. Handles both the REST
+ * (edge_followed_by, category_name) and GraphQL (follower_count, category)
+ * field names. Returns null when the object lacks the counts, e.g. the
+ * partial users in hover cards.
+ */
+export function parseProfileUser(user: JsonObject): ScrapedProfileData | null {
+  const followersCount = readNumber(
+    readEdgeCount(user.edge_followed_by),
+    user.follower_count,
+  );
+  const followingCount = readNumber(
+    readEdgeCount(user.edge_follow),
+    user.following_count,
+  );
+  const postsCount = readNumber(
+    readEdgeCount(user.edge_owner_to_timeline_media),
+    user.media_count,
+  );
+  if (followersCount === undefined || typeof user.username !== "string") {
+    return null;
+  }
+
+  const hdPic = isObject(user.hd_profile_pic_url_info)
+    ? user.hd_profile_pic_url_info.url
+    : undefined;
+  const bioLinks = readBioLinks(user.bio_links);
+  const pronouns = Array.isArray(user.pronouns)
+    ? user.pronouns.filter((p): p is string => typeof p === "string" && !!p)
+    : [];
+
+  const category = readString(
+    user.category_name,
+    user.category,
+    user.business_category_name,
+  );
+  const businessEmail = readString(user.business_email, user.public_email);
+  const isBusinessAccount = readBoolean(
+    user.is_business_account,
+    user.is_business,
+  );
+  const highlightCount = readNumber(user.highlight_reel_count);
+  const instagramId = readString(user.id, user.pk);
+
+  return {
+    username: user.username.toLowerCase(),
+    fullName: readString(user.full_name) || "",
+    bio: readString(user.biography) || "",
+    profilePicUrl:
+      readString(user.profile_pic_url_hd, hdPic, user.profile_pic_url) || "",
+    followersCount,
+    followingCount: followingCount ?? 0,
+    postsCount: postsCount ?? 0,
+    isPrivate: readBoolean(user.is_private) ?? false,
+    isVerified: readBoolean(user.is_verified) ?? false,
+    externalUrl: readString(user.external_url, bioLinks[0]?.url) || "",
+    ...(instagramId && { instagramId }),
+    ...(category && { category }),
+    ...(businessEmail && { businessEmail }),
+    ...(isBusinessAccount !== undefined && { isBusinessAccount }),
+    ...(pronouns.length > 0 && { pronouns }),
+    ...(bioLinks.length > 0 && { bioLinks }),
+    ...(highlightCount !== undefined && { highlightCount }),
+  };
+}
+
+// Profile data for `username` from a response body, if it carries it
+export function parseProfileJson(
+  body: unknown,
+  username: string,
+): ScrapedProfileData | null {
+  const user = findProfileUser(body, username);
+  return user ? parseProfileUser(user) : null;
+}
+
+// ============================================
+// Follower / following lists
+// ============================================
+
+// First path segments that are Instagram pages rather than usernames
+const NON_PROFILE_PATHS = [
+  "explore",
+  "direct",
+  "accounts",
+  "p",
+  "reel",
+  "stories",
+  "reels",
+  "tags",
+  "about",
+  "help",
+];
+
+/**
+ * Usernames linked from a follower/following dialog, in order and without
+ * duplicates. Only bare profile links ("/name/") count; the account whose
+ * list it is is left out.
+ */
+export function parseUsernameLinks(
+  hrefs: string[],
+  targetUser?: string,
+): string[] {
+  const names: string[] = [];
+  for (const href of hrefs) {
+    const match = href.match(/^\/([a-zA-Z0-9._]+)\/?$/);
+    if (!match) continue;
+    const username = match[1];
+    if (
+      !NON_PROFILE_PATHS.includes(username.toLowerCase()) &&
+      username !== targetUser &&
+      !names.includes(username)
+    ) {
+      names.push(username);
+    }
+  }
+  return names;
+}
+
+// ============================================
+// Posts
+// ============================================
+
+export function parseShortcode(
+  href: string,
+): { kind: "p" | "reel"; shortcode: string } | null {
+  const match = href.match(/\/(p|reel)\/([^/?#]+)/);
+  return match ? { kind: match[1] as "p" | "reel", shortcode: match[2] } : null;
+}
+
+/**
+ * Post and reel links from a profile grid, one per shortcode, up to `limit`
+ */
+export function parsePostLinks(hrefs: string[], limit: number): string[] {
+  const links: string[] = [];
+  const seen = new Set<string>();
+  for (const href of hrefs) {
+    if (links.length >= limit) break;
+    const parsed = parseShortcode(href);
+    if (parsed && !seen.has(parsed.shortcode)) {
+      seen.add(parsed.shortcode);
+      links.push(href);
+    }
+  }
+  return links;
+}
+
+// What the scraper reads off a rendered post page
+export interface PostPageSnapshot {
+  meta: Record<string, string>;
+  bodyText: string;
+  // Next-slide buttons only show on carousels
+  hasCarouselControls: boolean;
+}
+
+export function postSnapshotFromHtml(html: string): PostPageSnapshot {
+  return {
+    meta: extractMetaTags(html),
+    bodyText: htmlToText(extractElementHtml(html, "body") || html),
+    hasCarouselControls: /aria-label="(?:Next|Go to next slide)"/.test(html),
+  };
+}
+
+/**
+ * Caption from a post's description meta tags, or the raw description when
+ * it isn't in the usual `... on Instagram: "caption"` form
+ */
+export function parseCaption(meta: Record<string, string>): string {
+  const ogDescription = meta["og:description"] || "";
+  const description = meta["description"] || "";
+  const match =
+    description.match(/on Instagram:\s*"([^"]+)"/) ||
+    ogDescription.match(/:\s*"([^"]+)"/) ||
+    description.match(/: "([^"]+)"/);
+  return match ? match[1] : ogDescription || description || "";
+}
+
+// Like (or view) and comment counts from a post page's visible text
+export function parseEngagement(text: string): {
+  likesCount: number;
+  commentsCount: number;
+} {
+  const likes = text.match(/([\d,]+)\s*(?:likes?|views?)/i);
+  const comments = text.match(/([\d,]+)\s*comments?/i);
+  return {
+    likesCount: likes ? parseInt(likes[1].replace(/,/g, ""), 10) || 0 : 0,
+    commentsCount: comments
+      ? parseInt(comments[1].replace(/,/g, ""), 10) || 0
+      : 0,
+  };
+}
+
+export function detectPostType(
+  href: string,
+  hasCarouselControls: boolean,
+): ScrapedPostData["type"] {
+  if (parseShortcode(href)?.kind === "reel") return "reel";
+  return hasCarouselControls ? "carousel" : "post";
+}
+
+/**
+ * Post data from a post page reached through `href`, or null when the link
+ * has no shortcode
+ */
+export function parsePostPage(
+  snapshot: PostPageSnapshot,
+  href: string,
+): ScrapedPostData | null {
+  const parsed = parseShortcode(href);
+  if (!parsed) return null;
+
+  const videoUrl = snapshot.meta["og:video"] || "";
+  const type = detectPostType(href, snapshot.hasCarouselControls);
+
+  return {
+    postId: parsed.shortcode,
+    shortcode: parsed.shortcode,
+    caption: parseCaption(snapshot.meta),
+    imageUrl: snapshot.meta["og:image"] || "",
+    videoUrl,
+    ...parseEngagement(snapshot.bodyText),
+    postedAt: new Date(),
+    type,
+    isVideo: type === "reel" || !!videoUrl,
+  };
+}
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { encrypt, decrypt } from "../utils/encryption";
+import type { ProxyConfig, ProxyProtocol } from "@/types";
+
+// Also what URL leaves out of url.port for http and https
+const DEFAULT_PORTS: Record<ProxyProtocol, number> = {
+  http: 80,
+  https: 443,
+  socks5: 1080,
+};
+
+// Network errors that point at the proxy rather than at Instagram
+const PROXY_ERROR_PATTERN =
+  /ERR_PROXY|ERR_TUNNEL|ERR_SOCKS|ERR_CONNECTION_(REFUSED|RESET|CLOSED|TIMED_OUT)|ERR_TIMED_OUT|ERR_NAME_NOT_RESOLVED|ERR_ADDRESS_UNREACHABLE/;
+
+/**
+ * Parse `protocol://[user:pass@]host[:port]` into a ProxyConfig. A URL
+ * without a protocol is taken as http, one without a port gets the
+ * protocol's default. Throws with a readable message when the URL can't be
+ * used, including SOCKS with credentials, which Chromium can't do.
+ */
+export function parseProxyUrl(value: string): ProxyConfig {
+  const trimmed = value.trim();
+  const withProtocol = /^[a-z0-9]+:\/\//i.test(trimmed)
+    ? trimmed
+    : `http://${trimmed}`;
+
+  let url: URL;
+  try {
+    url = new URL(withProtocol);
+  } catch {
+    throw new Error(`Invalid proxy URL: ${trimmed}`);
+  }
+
+  const protocol = url.protocol.replace(/:$/, "") as ProxyProtocol;
+  if (!Object.hasOwn(DEFAULT_PORTS, protocol)) {
+    throw new Error(
+      `Unsupported proxy protocol "${protocol}", use http, https or socks5`,
+    );
+  }
+  if (!url.hostname) {
+    throw new Error("Proxy URL has no host");
+  }
+  const port = url.port ? parseInt(url.port, 10) : DEFAULT_PORTS[protocol];
+
+  const username = decodeURIComponent(url.username);
+  const password = decodeURIComponent(url.password);
+  if (protocol === "socks5" && (username || password)) {
+    throw new Error(
+      "Chromium doesn't support SOCKS5 proxies with a username and password",
+    );
+  }
+
+  return {
+    protocol,
+    host: url.hostname,
+    port,
+    ...(username ? { username } : {}),
+    ...(password ? { password } : {}),
+  };
+}
+
+// An optional proxy URL in a request body, parsed into a ProxyConfig
+export const proxyUrlSchema = z
+  .string()
+  .trim()
+  .optional()
+  .transform((value, ctx) => {
+    if (!value) return undefined;
+    try {
+      return parseProxyUrl(value);
+    } catch (error) {
+      ctx.addIssue({
+        code: "custom",
+        message: error instanceof Error ? error.message : "Invalid proxy URL",
+      });
+      return z.NEVER;
+    }
+  });
+
+// protocol://host:port, safe to log and show in the UI
+export function formatProxyServer(config: ProxyConfig): string {
+  return `${config.protocol}://${config.host}:${config.port}`;
+}
+
+export function toPlaywrightProxy(config: ProxyConfig): {
+  server: string;
+  username?: string;
+  password?: string;
+} {
+  return {
+    server: formatProxyServer(config),
+    username: config.username,
+    password: config.password,
+  };
+}
+
+export function encryptProxy(config: ProxyConfig): string {
+  return encrypt(JSON.stringify(config));
+}
+
+export function decryptProxy(encrypted: string): ProxyConfig {
+  return JSON.parse(decrypt(encrypted)) as ProxyConfig;
+}
+
+export function isProxyError(errorText: string): boolean {
+  return PROXY_ERROR_PATTERN.test(errorText);
+}
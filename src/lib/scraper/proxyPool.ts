@@ -0,0 +1,239 @@
+import { v4 as uuidv4 } from "uuid";
+import { ProxyServer, Session } from "../db/models";
+import type { IProxyServerDocument, ISessionDocument } from "../db/models";
+import connectDB from "../db/mongodb";
+import {
+  decryptProxy,
+  encryptProxy,
+  formatProxyServer,
+  parseProxyUrl,
+} from "./proxy";
+import type { ProxyConfig, ProxyPoolEntry, SessionProxyInfo } from "@/types";
+
+// Weight of the latest outcome in a proxy's health score
+const HEALTH_ALPHA = 0.2;
+// Below this a proxy isn't handed out, and scrapers using it are replaced
+export const MIN_PROXY_HEALTH = 0.3;
+// A benched proxy is tried again this long after its last failure, starting
+// from PROBATION_HEALTH, so a short outage doesn't bench it for good
+const PROXY_RETRY_AFTER = 15 * 60 * 1000;
+const PROBATION_HEALTH = 0.5;
+
+export interface ResolvedProxy {
+  config: ProxyConfig;
+  // Set when the proxy came from the pool
+  proxyId?: string;
+}
+
+// A pool entry without its encrypted credentials
+export type ProxyPoolItem = Omit<ProxyPoolEntry, "config">;
+
+/**
+ * Put benched proxies whose last failure is older than PROXY_RETRY_AFTER back
+ * in rotation on probation. A few more failures bench them again.
+ */
+async function restoreBenchedProxies(): Promise<void> {
+  const result = await ProxyServer.updateMany(
+    {
+      healthScore: { $lt: MIN_PROXY_HEALTH },
+      lastFailureAt: { $lte: new Date(Date.now() - PROXY_RETRY_AFTER) },
+    },
+    { $set: { healthScore: PROBATION_HEALTH } },
+  );
+  if (result.modifiedCount > 0) {
+    console.log(`[ProxyPool] Retrying ${result.modifiedCount} benched proxies`);
+  }
+}
+
+export async function listProxies(): Promise<ProxyPoolItem[]> {
+  await connectDB();
+  await restoreBenchedProxies();
+  return ProxyServer.find({})
+    .select("-config")
+    .sort({ healthScore: -1, createdAt: 1 })
+    .lean<ProxyPoolItem[]>();
+}
+
+/**
+ * Add a proxy URL to the pool. Throws when the URL can't be parsed or the
+ * same host:port is already in it.
+ */
+export async function addProxy(url: string, label?: string): Promise<ProxyPoolItem> {
+  const config = parseProxyUrl(url);
+  const server = formatProxyServer(config);
+
+  await connectDB();
+  if (await ProxyServer.exists({ server })) {
+    throw new Error(`${server} is already in the pool`);
+  }
+
+  const proxy = await ProxyServer.create({
+    proxyId: uuidv4(),
+    label: label?.trim() || "",
+    server,
+    config: encryptProxy(config),
+  });
+
+  const item: Partial<ProxyPoolEntry> = proxy.toObject();
+  delete item.config;
+  return item as ProxyPoolItem;
+}
+
+/**
+ * Remove a proxy from the pool. Sessions bound to it pick another one the
+ * next time a scraper is created for them.
+ */
+export async function removeProxy(proxyId: string): Promise<boolean> {
+  await connectDB();
+  const result = await ProxyServer.deleteOne({ proxyId });
+  if (result.deletedCount === 0) return false;
+
+  await Session.updateMany(
+    { proxyId },
+    { $unset: { proxyId: 1 }, $set: { proxyChangedAt: new Date() } },
+  );
+  return true;
+}
+
+/**
+ * The healthiest pool proxy, least recently used first among equals, or
+ * null when none is above MIN_PROXY_HEALTH
+ */
+export async function pickProxy(excludeId?: string): Promise<IProxyServerDocument | null> {
+  await connectDB();
+  await restoreBenchedProxies();
+  return ProxyServer.findOneAndUpdate(
+    {
+      healthScore: { $gte: MIN_PROXY_HEALTH },
+      ...(excludeId ? { proxyId: { $ne: excludeId } } : {}),
+    },
+    { $set: { lastUsedAt: new Date() } },
+    { sort: { healthScore: -1, lastUsedAt: 1 }, new: true },
+  );
+}
+
+/**
+ * Fold one request outcome into a pool proxy's health score (an
+ * exponential moving average) and return the new score
+ */
+export async function recordProxyResult(
+  proxyId: string,
+  ok: boolean,
+  error?: string,
+): Promise<number | null> {
+  await connectDB();
+  const update: Record<string, unknown> = {
+    healthScore: {
+      $add: [{ $multiply: ["$healthScore", 1 - HEALTH_ALPHA] }, ok ? HEALTH_ALPHA : 0],
+    },
+    successCount: { $add: ["$successCount", ok ? 1 : 0] },
+    failureCount: { $add: ["$failureCount", ok ? 0 : 1] },
+    lastUsedAt: "$$NOW",
+  };
+  if (!ok) {
+    update.lastFailureAt = "$$NOW";
+    update.lastError = error || "Request failed";
+  }
+
+  const proxy = await ProxyServer.findOneAndUpdate({ proxyId }, [{ $set: update }], {
+    new: true,
+    updatePipeline: true,
+  });
+  return proxy?.healthScore ?? null;
+}
+
+/**
+ * An InstagramScraper onProxyResult callback that records outcomes for a
+ * pool proxy and passes each new health score to `onScore`
+ */
+export function trackProxyHealth(
+  proxyId: string,
+  onScore?: (score: number) => void,
+): (ok: boolean, error?: string) => void {
+  return (ok, error) => {
+    recordProxyResult(proxyId, ok, error)
+      .then((score) => {
+        if (score !== null) onScore?.(score);
+      })
+      .catch((err) => {
+        console.error(`[ProxyPool] Failed to record result for ${proxyId}:`, err);
+      });
+  };
+}
+
+/**
+ * The proxy a session's scraper should use: its own fixed proxy, else with
+ * rotation on the pool proxy it's bound to while that stays healthy, else a
+ * newly picked one, which the session is then bound to. Null means direct.
+ */
+export async function resolveSessionProxy(
+  session: Pick<ISessionDocument, "sessionId" | "proxy" | "rotateProxy" | "proxyId">,
+): Promise<ResolvedProxy | null> {
+  if (session.proxy) {
+    return { config: decryptProxy(session.proxy) };
+  }
+  if (!session.rotateProxy) return null;
+
+  await connectDB();
+  if (session.proxyId) {
+    const bound = await ProxyServer.findOne({
+      proxyId: session.proxyId,
+      healthScore: { $gte: MIN_PROXY_HEALTH },
+    });
+    if (bound) {
+      return { config: decryptProxy(bound.config), proxyId: bound.proxyId };
+    }
+  }
+
+  const picked = await pickProxy(session.proxyId);
+  await Session.updateOne(
+    { sessionId: session.sessionId },
+    picked ? { $set: { proxyId: picked.proxyId } } : { $unset: { proxyId: 1 } },
+  );
+  if (!picked) {
+    console.warn(
+      `[ProxyPool] No healthy proxy for session ${session.sessionId}, connecting directly`,
+    );
+    return null;
+  }
+
+  console.log(`[ProxyPool] Session ${session.sessionId} now uses ${picked.server}`);
+  return { config: decryptProxy(picked.config), proxyId: picked.proxyId };
+}
+
+export async function describeSessionProxy(
+  session: Pick<ISessionDocument, "proxy" | "rotateProxy" | "proxyId">,
+): Promise<SessionProxyInfo> {
+  const rotateProxy = !!session.rotateProxy;
+
+  if (session.proxy) {
+    try {
+      return {
+        mode: "fixed",
+        rotateProxy,
+        server: formatProxyServer(decryptProxy(session.proxy)),
+      };
+    } catch {
+      return { mode: "fixed", rotateProxy };
+    }
+  }
+
+  if (rotateProxy && session.proxyId) {
+    await connectDB();
+    const proxy = await ProxyServer.findOne({ proxyId: session.proxyId })
+      .select("-config")
+      .lean<ProxyPoolItem>();
+    if (proxy) {
+      return {
+        mode: "pool",
+        rotateProxy,
+        server: proxy.server,
+        label: proxy.label || undefined,
+        healthScore: proxy.healthScore,
+      };
+    }
+  }
+
+  // Rotation on but not bound to a pool proxy (yet)
+  return { mode: rotateProxy ? "pool" : "direct", rotateProxy };
+}
@@ -1,6 +1,11 @@
 import { Cookie } from 'playwright';
 import { InstagramScraper } from './instagram';
-import { getSession, invalidateSession } from './auth';
+import { getSession, invalidateSession, markSessionChallenged } from './auth';
+import { MIN_PROXY_HEALTH, resolveSessionProxy, trackProxyHealth } from './proxyPool';
+import { Session } from '../db/models';
+import connectDB from '../db/mongodb';
+import { QUOTA_WINDOW, getRecentLeases, recordLease } from '../queue/sessionLeases';
+import type { InstagramSession } from '@/types';
 
 // Pool of active scrapers for reuse
 interface ScraperEntry {
@@ -8,6 +13,9 @@ interface ScraperEntry {
   lastUsed: Date;
   inUse: boolean;
   useCount: number; // Track number of times acquired for debugging
+  createdAt: Date;
+  // Set when the pool proxy it goes through drops below MIN_PROXY_HEALTH
+  retired: boolean;
 }
 
 const scraperPool: Map<string, ScraperEntry> = new Map();
@@ -19,6 +27,18 @@ const sessionLocks: Map<string, Promise<void>> = new Map();
 const MAX_SCRAPER_AGE = 30 * 60 * 1000; // 30 minutes
 const CLEANUP_INTERVAL = 5 * 60 * 1000; // 5 minutes
 
+// Per-account limits for crawls that draw on the session pool
+const POOL_HOURLY_QUOTA = parseInt(process.env.SESSION_POOL_HOURLY_QUOTA || '60', 10);
+const POOL_COOLDOWN = parseInt(process.env.SESSION_POOL_COOLDOWN_SECONDS || '30', 10) * 1000;
+// How long a pooled lease waits for an account to come off cooldown
+const MAX_POOL_WAIT = 2 * 60 * 1000; // 2 minutes
+
+export interface ScraperLease {
+  // The account doing the scraping, not necessarily the job's own session
+  sessionId: string;
+  scraper: InstagramScraper;
+}
+
 // Cleanup old scrapers periodically
 setInterval(() => {
   const now = Date.now();
@@ -31,6 +51,35 @@ setInterval(() => {
   });
 }, CLEANUP_INTERVAL);
 
+/**
+ * When an account can take its next pooled lease, given its leases within
+ * the quota window: after the cooldown since its last lease, and once under
+ * its hourly quota again
+ */
+function getNextLeaseAt(leases: number[], now: number): number {
+  let at = now;
+  if (leases.length > 0) {
+    at = Math.max(at, leases[leases.length - 1] + POOL_COOLDOWN);
+  }
+  if (leases.length >= POOL_HOURLY_QUOTA) {
+    at = Math.max(at, leases[leases.length - POOL_HOURLY_QUOTA] + QUOTA_WINDOW);
+  }
+  return at;
+}
+
+/**
+ * Whether a pooled scraper should be replaced: its pool proxy went bad, or
+ * the session's proxy settings changed after it was created
+ */
+async function isScraperStale(sessionId: string, entry: ScraperEntry): Promise<boolean> {
+  if (entry.retired) return true;
+  const changed = await Session.exists({
+    sessionId,
+    proxyChangedAt: { $gt: entry.createdAt },
+  });
+  return !!changed;
+}
+
 /**
  * Acquire a lock for a session to prevent race conditions.
  * Returns a release function that must be called when done.
@@ -58,11 +107,18 @@ export async function getScraperForSession(sessionId: string): Promise<Instagram
   
   try {
     // Check if we have an existing scraper that's not in use
-    const existing = scraperPool.get(sessionId);
+    let existing = scraperPool.get(sessionId);
+    if (existing && !existing.inUse && (await isScraperStale(sessionId, existing))) {
+      console.log(`[Session] Replacing scraper for session ${sessionId} (proxy changed)`);
+      await existing.scraper.close();
+      scraperPool.delete(sessionId);
+      existing = undefined;
+    }
     if (existing && !existing.inUse) {
       existing.inUse = true;
       existing.lastUsed = new Date();
       existing.useCount++;
+      await recordLease(sessionId);
       console.log(`[Session] Reusing existing scraper for session ${sessionId} (use count: ${existing.useCount})`);
       return existing.scraper;
     }
@@ -83,11 +139,28 @@ export async function getScraperForSession(sessionId: string): Promise<Instagram
       console.log(`[Session] Session ${sessionId} is invalid or has no cookies`);
       return null;
     }
+    if (session.challengedAt) {
+      console.log(`[Session] Session ${sessionId} is challenged, not scraping with it`);
+      return null;
+    }
 
     // Create new scraper
     console.log(`[Session] Creating new scraper for session ${sessionId}`);
     const scraper = new InstagramScraper();
-    await scraper.init(session.cookies);
+    const createdAt = new Date();
+    const proxy = await resolveSessionProxy({ sessionId, ...session.proxySettings });
+    await scraper.init(session.cookies, {
+      proxy: proxy?.config,
+      onProxyResult: proxy?.proxyId
+        ? trackProxyHealth(proxy.proxyId, (score) => {
+            const entry = scraperPool.get(sessionId);
+            if (score < MIN_PROXY_HEALTH && entry?.scraper === scraper && !entry.retired) {
+              console.log(`[Session] Proxy for session ${sessionId} is unhealthy, retiring scraper`);
+              entry.retired = true;
+            }
+          })
+        : undefined,
+    });
 
     // Store in pool
     scraperPool.set(sessionId, {
@@ -95,7 +168,10 @@ export async function getScraperForSession(sessionId: string): Promise<Instagram
       lastUsed: new Date(),
       inUse: true,
       useCount: 1,
+      createdAt,
+      retired: false,
     });
+    await recordLease(sessionId);
 
     return scraper;
   } finally {
@@ -104,9 +180,110 @@ export async function getScraperForSession(sessionId: string): Promise<Instagram
   }
 }
 
-export function releaseScraperForSession(sessionId: string): void {
+/**
+ * Lease a scraper from the session pool: `preferredSessionId` and the
+ * logged-in accounts that opted in with shareInPool. Accounts that are
+ * challenged, busy, cooling down or over their hourly quota are skipped; the
+ * least used one is taken, with `preferredSessionId` first among equals.
+ * Waits up to MAX_POOL_WAIT for an account to free up, null when none does.
+ */
+export async function leasePooledScraper(preferredSessionId: string): Promise<ScraperLease | null> {
+  const deadline = Date.now() + MAX_POOL_WAIT;
+  // Accounts whose scraper couldn't be created during this lease
+  const unusable = new Set<string>();
+
+  await connectDB();
+
+  while (true) {
+    const accounts = await Session.find({
+      isValid: true,
+      challengedAt: { $exists: false },
+      $or: [{ sessionId: preferredSessionId }, { shareInPool: true }],
+    })
+      .select('sessionId username')
+      .lean<Pick<InstagramSession, 'sessionId' | 'username'>[]>();
+    const now = Date.now();
+
+    const usable = accounts.filter((account) => !unusable.has(account.sessionId));
+    if (usable.length === 0) {
+      console.warn('[Session] No usable account left in the session pool');
+      return null;
+    }
+
+    const leases = await getRecentLeases(
+      usable.map((account) => account.sessionId),
+      now
+    );
+    const leaseCount = (sessionId: string) => leases.get(sessionId)?.length ?? 0;
+    const nextLeaseAt = (sessionId: string) => getNextLeaseAt(leases.get(sessionId) ?? [], now);
+    const ready = usable
+      .filter(
+        (account) =>
+          !scraperPool.get(account.sessionId)?.inUse && nextLeaseAt(account.sessionId) <= now
+      )
+      .sort(
+        (a, b) =>
+          leaseCount(a.sessionId) - leaseCount(b.sessionId) ||
+          Number(b.sessionId === preferredSessionId) - Number(a.sessionId === preferredSessionId)
+      );
+
+    const account = ready[0];
+    if (account) {
+      const scraper = await getScraperForSession(account.sessionId);
+      if (scraper) {
+        console.log(`[Session] Leased @${account.username} (${account.sessionId}) from the session pool`);
+        return { sessionId: account.sessionId, scraper };
+      }
+      unusable.add(account.sessionId);
+      continue;
+    }
+
+    // Busy accounts free up within a job, cooling ones at their next lease time
+    const wakeAt = Math.min(...usable.map((a) => Math.max(nextLeaseAt(a.sessionId), now + 1000)));
+    const wait = Math.min(wakeAt - now, 5000);
+    if (now + wait > deadline) {
+      console.warn('[Session] Every pooled account is busy, cooling down or over its quota');
+      return null;
+    }
+    await new Promise((resolve) => setTimeout(resolve, wait));
+  }
+}
+
+/**
+ * A scraper for a crawl entry: from the session pool when the job uses it,
+ * else the job's own session
+ */
+export async function leaseScraper(sessionId: string, usePool: boolean): Promise<ScraperLease | null> {
+  if (usePool) return leasePooledScraper(sessionId);
+  const scraper = await getScraperForSession(sessionId);
+  return scraper ? { sessionId, scraper } : null;
+}
+
+export async function releaseScraperForSession(sessionId: string): Promise<void> {
   const entry = scraperPool.get(sessionId);
-  if (entry) {
+  const challenge = entry?.scraper.getChallenge();
+  if (challenge) {
+    // Take the account out of rotation (for every worker) before the next
+    // lease; a lost login invalidates the session
+    try {
+      if (challenge.kind === 'logged_out') {
+        await invalidateSession(sessionId);
+      } else {
+        await markSessionChallenged(sessionId, `${challenge.kind}: ${challenge.url}`);
+      }
+    } catch (error) {
+      console.error(`[Session] Failed to mark session ${sessionId} as challenged:`, error);
+    }
+  }
+
+  if (entry && (entry.retired || challenge)) {
+    // The next acquire rotates to another pool proxy or account
+    scraperPool.delete(sessionId);
+    entry.scraper.close().catch((error) => {
+      console.error(`[Session] Failed to close retired scraper for ${sessionId}:`, error);
+    });
+    console.log(`[Session] Closed ${challenge ? 'challenged' : 'retired'} scraper for session ${sessionId}`);
+  } else if (entry) {
     entry.inUse = false;
     entry.lastUsed = new Date();
     console.log(`[Session] Released scraper for session ${sessionId}`);
@@ -170,7 +347,7 @@ export async function validateAndRefreshSession(sessionId: string): Promise<bool
   const isAuthenticated = scraper.isAuthenticated();
   
   // Release the scraper
-  releaseScraperForSession(sessionId);
+  await releaseScraperForSession(sessionId);
 
   if (!isAuthenticated) {
     await invalidateSession(sessionId);
@@ -10,6 +10,8 @@ export interface AuthJobData {
   username: string;
   password?: string;  // Only for login type (encrypted)
   code?: string;      // Only for verify-2fa type
+  proxy?: string;     // Only for login type (encrypted ProxyConfig)
+  rotateProxy?: boolean;
   createdAt: number;
 }
 
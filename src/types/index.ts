@@ -8,9 +8,67 @@ export interface InstagramSession {
   createdAt: Date;
   lastUsedAt: Date;
   isValid: boolean;
+  proxy?: string; // Encrypted ProxyConfig, used instead of the pool
+  // Take a proxy from the pool when no fixed proxy is set
+  rotateProxy?: boolean;
+  // Pool proxy the session is currently bound to
+  proxyId?: string;
+  // Scrapers created before the last proxy change are replaced
+  proxyChangedAt?: Date;
+  // Set when Instagram sent the account to a checkpoint or suspension page;
+  // it isn't used for scraping again until it logs in anew
+  challengedAt?: Date;
+  challengeReason?: string;
+  // The owner lets other users' session pool crawls scrape with this account
+  shareInPool?: boolean;
+}
+
+// Proxy Types
+export type ProxyProtocol = 'http' | 'https' | 'socks5';
+
+export interface ProxyConfig {
+  protocol: ProxyProtocol;
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+}
+
+export interface ProxyPoolEntry {
+  proxyId: string;
+  label: string;
+  // protocol://host:port, without credentials
+  server: string;
+  config: string; // Encrypted ProxyConfig
+  // Moving average of recent outcomes, 1 = every recent request went through
+  healthScore: number;
+  successCount: number;
+  failureCount: number;
+  lastUsedAt?: Date;
+  lastFailureAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+}
+
+// The proxy a session's scraper goes through, as shown in the UI
+export interface SessionProxyInfo {
+  mode: 'direct' | 'fixed' | 'pool';
+  rotateProxy: boolean;
+  server?: string;
+  label?: string;
+  healthScore?: number;
 }
 
 // Profile Types
+// One niche a profile was classified into, with the text that supports it
+export interface NicheScore {
+  niche: string;
+  // 0-1, as reported by the model
+  confidence: number;
+  // Bio or caption snippets behind the label
+  evidence: string[];
+}
+
 export interface InstagramProfile {
   _id?: string;
   username: string;
@@ -23,14 +81,117 @@ export interface InstagramProfile {
   isPrivate: boolean;
   isVerified: boolean;
   externalUrl?: string;
+  // Only known when the profile was read from Instagram's JSON
+  instagramId?: string;
+  category?: string;
+  businessEmail?: string;
+  isBusinessAccount?: boolean;
+  pronouns?: string[];
+  bioLinks?: BioLink[];
+  highlightCount?: number;
   scrapedAt: Date;
   scrapedDepth: number;
   parentUsername?: string;
   sessionId: string;
   interests: string[];
+  // Top entry of `niches`, kept for filtering and older readers
+  niche?: string;
+  // Ranked by confidence, highest first
+  niches?: NicheScore[];
+  // When and how the interests/niches were produced (unset before analysis)
+  analyzedAt?: Date;
+  analysisVersion?: number;
+  analysisModel?: string;
+}
+
+// Canonical profile record shared by every session that scraped the account
+export type CanonicalProfile = Omit<
+  InstagramProfile,
+  'sessionId' | 'scrapedDepth' | 'parentUsername'
+>;
+
+// Per-session ownership of a profile observation
+export interface ProfileLink {
+  _id?: string;
+  sessionId: string;
+  username: string;
+  jobId: string;
+  scrapedAt: Date;
+  scrapedDepth: number;
+  parentUsername?: string;
+}
+
+// Which relationship list of a profile was scraped
+export type RelationshipType = 'followers' | 'following';
+
+// Follow-graph edge: `target` appeared in the `type` list of `source`
+export interface FollowEdge {
+  _id?: string;
+  sessionId: string;
+  source: string;
+  target: string;
+  type: RelationshipType;
+  jobId: string;
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
+// Usernames that appeared in / disappeared from a relationship list
+export interface RelationshipDiff {
+  added: string[];
+  removed: string[];
+}
+
+// Point-in-time record of a profile written on every scrape
+export interface ProfileSnapshot {
+  _id?: string;
+  sessionId: string;
+  username: string;
+  jobId: string;
+  scrapedAt: Date;
+  followersCount: number;
+  followingCount: number;
+  postsCount: number;
+  bio: string;
   niche?: string;
-  followers?: string[];
-  following?: string[];
+  niches?: NicheScore[];
+  interests: string[];
+  // Only set when the list was scraped and a previous list existed
+  followersDiff?: RelationshipDiff;
+  followingDiff?: RelationshipDiff;
+}
+
+// Account that appeared in or disappeared from a profile's list between runs
+export type FollowChange = 'gained' | 'lost';
+
+export interface FollowEvent {
+  _id?: string;
+  sessionId: string;
+  username: string;
+  relatedUsername: string;
+  list: RelationshipType;
+  change: FollowChange;
+  jobId: string;
+  detectedAt: Date;
+}
+
+// Niche Taxonomy Types
+// Where a taxonomy entry came from: the built-in list or an unmatched model label
+export type NicheSource = 'seed' | 'model';
+
+export interface Niche {
+  _id?: string;
+  // Canonical name stored on profiles
+  name: string;
+  // Other labels that map to this niche
+  aliases: string[];
+  // Broader category used to group niches
+  parent?: string;
+  source: NicheSource;
+  // Name embedding for nearest-neighbour matching, computed lazily
+  embedding?: number[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 // Post Types
@@ -50,7 +211,13 @@ export interface InstagramPost {
 }
 
 // Scrape Job Types
-export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+export type JobStatus =
+  | 'pending'
+  | 'processing'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
 
 export interface ScrapeJob {
   _id?: string;
@@ -63,16 +230,83 @@ export interface ScrapeJob {
   totalProfiles: number;
   processedProfiles: number;
   failedProfiles: number;
+  cancelledProfiles?: number;
+  reusedProfiles?: number;
   scrapeFollowers: boolean;
   scrapeFollowing: boolean;
   scrapePosts: boolean;
+  reuseWithinDays?: number;
+  // Spread the crawl over every logged-in account, not only sessionId's
+  useSessionPool?: boolean;
+  // Set when the job was started by a scrape schedule
+  scheduleId?: string;
   startedAt?: Date;
+  pausedAt?: Date;
   completedAt?: Date;
   error?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Profile Re-analysis Types
+export type ReanalysisStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// A profile matches when it meets any of the enabled criteria
+export interface ReanalysisCriteria {
+  unknownNiche?: boolean;
+  analyzedBefore?: Date;
+  // Analyzed with an older ANALYSIS_PROMPT_VERSION
+  outdatedVersion?: boolean;
+  // Analyzed by a different model than the current provider's
+  outdatedModel?: boolean;
+}
+
+export interface ReanalysisJob {
+  _id?: string;
+  jobId: string;
+  sessionId: string;
+  criteria: ReanalysisCriteria;
+  status: ReanalysisStatus;
+  totalProfiles: number;
+  processedProfiles: number;
+  failedProfiles: number;
+  startedAt?: Date;
+  completedAt?: Date;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Scrape Schedule Types
+export type ScheduleRunStatus = 'started' | 'skipped' | 'failed';
+
+export interface ScrapeSchedule {
+  _id?: string;
+  scheduleId: string;
+  sessionId: string;
+  name: string;
+  entryUsername: string;
+  maxDepth: number;
+  scrapeFollowers: boolean;
+  scrapeFollowing: boolean;
+  scrapePosts: boolean;
+  reuseWithinDays?: number;
+  // Runs scrape with any pooled account (see StartScrapeRequest)
+  useSessionPool?: boolean;
+  // Exactly one of cron / intervalMinutes is set
+  cron?: string;
+  intervalMinutes?: number;
+  timezone?: string;
+  enabled: boolean;
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  lastRunStatus?: ScheduleRunStatus;
+  lastRunMessage?: string;
+  lastJobId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // API Request/Response Types
 export interface LoginRequest {
   username: string;
@@ -99,6 +333,8 @@ export interface StartScrapeRequest {
   scrapeFollowers: boolean;
   scrapeFollowing: boolean;
   scrapePosts: boolean;
+  reuseWithinDays?: number;
+  useSessionPool?: boolean;
 }
 
 export interface StartScrapeResponse {
@@ -122,6 +358,7 @@ export interface ChatResponse {
   success: boolean;
   message?: string;
   sources?: ProfileSource[];
+  toolCalls?: ToolCallRecord[];
   error?: string;
 }
 
@@ -129,6 +366,39 @@ export interface ProfileSource {
   username: string;
   relevance: number;
   snippet: string;
+  // Set when the source is a single post rather than the whole profile
+  shortcode?: string;
+  postType?: InstagramPost['type'];
+}
+
+// A tool the chat model called while producing an answer
+export interface ToolCallRecord {
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string;
+  error?: boolean;
+  durationMs: number;
+}
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  sources?: ProfileSource[];
+  toolCalls?: ToolCallRecord[];
+  // Data context the answer was generated from (assistant messages only)
+  context?: string;
+  stopped?: boolean;
+  createdAt: Date;
+}
+
+export interface Conversation {
+  _id?: string;
+  conversationId: string;
+  sessionId: string;
+  title: string;
+  messages: ConversationMessage[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 // Embedding Types
@@ -155,9 +425,48 @@ export interface ScrapeJobData {
   scrapeFollowers: boolean;
   scrapeFollowing: boolean;
   scrapePosts: boolean;
+  // Reuse profiles scraped within this many days instead of re-fetching them
+  reuseWithinDays?: number;
+  // Scrape with any pooled account; results still belong to sessionId
+  useSessionPool?: boolean;
+  // Times the entry was re-queued while its previous queue entry was still
+  // held by a worker; gives the new entry its own id
+  requeueCount?: number;
+}
+
+export interface ScheduleJobData {
+  scheduleId: string;
+}
+
+export interface NicheRemapJobData {
+  reason: string;
+}
+
+export interface ReanalysisJobData {
+  jobId: string;
+}
+
+// One scraped profile waiting for AI analysis; the worker loads the profile
+// and its posts from MongoDB when the batch runs
+export interface AIAnalysisJobData {
+  username: string;
+  sessionId: string;
+  // Scrape job whose snapshots receive the analysis
+  jobId: string;
+}
+
+export interface AIAnalysisDeadLetter extends AIAnalysisJobData {
+  failedReason: string;
+  attemptsMade: number;
+  failedAt: number;
 }
 
 // Scraped Data from Instagram
+export interface BioLink {
+  title: string;
+  url: string;
+}
+
 export interface ScrapedProfileData {
   username: string;
   fullName: string;
@@ -169,6 +478,14 @@ export interface ScrapedProfileData {
   isPrivate: boolean;
   isVerified: boolean;
   externalUrl?: string;
+  // The fields below come from the profile JSON; the meta-tag fallback leaves them unset
+  instagramId?: string;
+  category?: string;
+  businessEmail?: string;
+  isBusinessAccount?: boolean;
+  pronouns?: string[];
+  bioLinks?: BioLink[];
+  highlightCount?: number;
 }
 
 export interface ScrapedPostData {
@@ -0,0 +1,55 @@
+import "dotenv/config";
+import http from "http";
+import {
+  createAIAnalysisWorker,
+  getAIAnalysisWorkerOptions,
+} from "../src/lib/queue/aiAnalysisWorker";
+import { createReanalysisWorker } from "../src/lib/queue/reanalysisWorker";
+import { migrateLegacyAnalysisBuffer } from "../src/lib/queue/aiAnalysisQueue";
+
+// Health check server for Railway
+const PORT = process.env.AI_WORKER_PORT || process.env.PORT || 3002;
+const server = http.createServer((req, res) => {
+  if (req.url === "/health" || req.url === "/") {
+    res.writeHead(200, { "Content-Type": "text/plain" });
+    res.end("OK");
+  } else {
+    res.writeHead(404);
+    res.end();
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Health check server running on port ${PORT}`);
+});
+
+console.log("Starting AI Analysis Workers...");
+
+// Profiles left in the Redis list buffer by older versions
+migrateLegacyAnalysisBuffer().catch((err) =>
+  console.error("AI analysis buffer migration failed:", err)
+);
+
+const options = getAIAnalysisWorkerOptions();
+const aiAnalysisWorker = createAIAnalysisWorker(options);
+const reanalysisWorker = createReanalysisWorker();
+
+console.log(
+  `AI Analysis Worker started (batch size ${options.batchSize}, concurrency ${options.concurrency})...`
+);
+console.log("Reanalysis Worker started and listening for re-analysis jobs...");
+
+// Handle graceful shutdown (batches in progress finish first)
+process.on("SIGTERM", async () => {
+  console.log("Received SIGTERM, closing workers...");
+  server.close();
+  await Promise.all([aiAnalysisWorker.close(), reanalysisWorker.close()]);
+  process.exit(0);
+});
+
+process.on("SIGINT", async () => {
+  console.log("Received SIGINT, closing workers...");
+  server.close();
+  await Promise.all([aiAnalysisWorker.close(), reanalysisWorker.close()]);
+  process.exit(0);
+});
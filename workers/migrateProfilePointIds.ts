@@ -0,0 +1,15 @@
+import "dotenv/config";
+import { migrateProfilePointIds } from "../src/lib/qdrant/client";
+
+// One-off re-keying of profile vectors stored under username-hash ids by
+// older versions. Run it once after upgrading, while the AI analysis worker
+// is stopped: legacy points without an owner are deleted along the way.
+migrateProfilePointIds()
+  .then((count) => {
+    console.log(`Re-keyed or dropped ${count} legacy profile points`);
+    process.exit(0);
+  })
+  .catch((err) => {
+    console.error("Qdrant point id migration failed:", err);
+    process.exit(1);
+  });
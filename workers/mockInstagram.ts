@@ -0,0 +1,27 @@
+import "dotenv/config";
+import { loadMockGraph } from "../src/lib/scraper/mock/graph";
+import { createMockInstagramServer } from "../src/lib/scraper/mock/server";
+
+// Local Instagram stand-in for crawling without the real site. Run the
+// scrape worker with INSTAGRAM_URL pointing here.
+const PORT = Number(process.env.MOCK_INSTAGRAM_PORT) || 4100;
+const BASE_URL = `http://localhost:${PORT}`;
+
+const graph = loadMockGraph(process.env.MOCK_INSTAGRAM_GRAPH || undefined);
+const server = createMockInstagramServer(graph, BASE_URL);
+
+server.listen(PORT, () => {
+  console.log(
+    `Mock Instagram running on ${BASE_URL} (${graph.accounts.length} accounts, ${graph.follows.length} follows)`,
+  );
+  console.log(
+    `Login: ${graph.login.username} / ${graph.login.password}${graph.login.twoFactorCode ? `, 2FA code ${graph.login.twoFactorCode}` : ""}`,
+  );
+});
+
+const shutdown = () => {
+  console.log("Closing mock Instagram...");
+  server.close(() => process.exit(0));
+};
+process.on("SIGTERM", shutdown);
+process.on("SIGINT", shutdown);
@@ -2,6 +2,11 @@ import "dotenv/config";
 import http from "http";
 import { createScrapeWorker } from "../src/lib/queue/worker";
 import { createAuthWorker } from "../src/lib/queue/authWorker";
+import { createScheduleWorker } from "../src/lib/queue/scheduleWorker";
+import { createNicheWorker } from "../src/lib/queue/nicheWorker";
+import { enqueueNicheRemap } from "../src/lib/queue/nicheQueue";
+import { migrateLegacyProfileOwnership } from "../src/lib/db/ownedProfiles";
+import { migrateRelationshipArrays } from "../src/lib/db/followGraph";
 
 // Health check server for Railway
 const PORT = process.env.PORT || 3001;
@@ -21,23 +26,45 @@ server.listen(PORT, () => {
 
 console.log("Starting Instagram Workers...");
 
+// Move profiles saved before per-session ownership into link records,
+// then relationship arrays left on links into the Edge collection, and
+// finally map niches stored before (or outside) the taxonomy onto it
+migrateLegacyProfileOwnership()
+  .then(() => migrateRelationshipArrays())
+  .then(() => enqueueNicheRemap("worker startup"))
+  .catch((err) => console.error("Profile migration failed:", err));
+
 const scrapeWorker = createScrapeWorker();
 const authWorker = createAuthWorker();
+const scheduleWorker = createScheduleWorker();
+const nicheWorker = createNicheWorker();
 
 console.log("Auth Worker started and listening for login jobs...");
 console.log("Scrape Worker started and listening for scrape jobs...");
+console.log("Schedule Worker started and listening for scheduled runs...");
+console.log("Niche Worker started and listening for re-map jobs...");
 
 // Handle graceful shutdown
 process.on("SIGTERM", async () => {
   console.log("Received SIGTERM, closing workers...");
   server.close();
-  await Promise.all([scrapeWorker.close(), authWorker.close()]);
+  await Promise.all([
+    scrapeWorker.close(),
+    authWorker.close(),
+    scheduleWorker.close(),
+    nicheWorker.close(),
+  ]);
   process.exit(0);
 });
 
 process.on("SIGINT", async () => {
   console.log("Received SIGINT, closing workers...");
   server.close();
-  await Promise.all([scrapeWorker.close(), authWorker.close()]);
+  await Promise.all([
+    scrapeWorker.close(),
+    authWorker.close(),
+    scheduleWorker.close(),
+    nicheWorker.close(),
+  ]);
   process.exit(0);
 });